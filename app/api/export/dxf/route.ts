@@ -1,15 +1,35 @@
 import { NextResponse } from "next/server"
+import { DXFExporter } from "@/lib/floor-plan/stage-c/dxf-exporter"
+import { BuildingGeometry, DXFExportOptions, FloorPlanGeometry } from "@/lib/floor-plan/types"
+
+interface DXFExportRequest {
+  // Pipeline output: exported with walls, door/window blocks, hatches and dimensions
+  geometry?: FloorPlanGeometry
+  building?: BuildingGeometry
+  options?: Partial<DXFExportOptions>
+  // Flat layout edited in the canvas
+  planData?: any
+}
 
 export async function POST(request: Request) {
   try {
-    const { planData } = await request.json()
+    const { geometry, building, options, planData }: DXFExportRequest = await request.json()
 
-    if (!planData) {
+    if (!geometry && !building && !planData) {
       return NextResponse.json({ error: "No plan data provided" }, { status: 400 })
     }
 
+    if (options?.units && !["metric", "imperial"].includes(options.units)) {
+      return NextResponse.json({ error: `Unknown units: ${options.units}` }, { status: 400 })
+    }
+
     // Generate DXF content
-    const dxfContent = generateDXF(planData)
+    const exporter = new DXFExporter()
+    const dxfContent = building
+      ? exporter.exportBuilding(building, options)
+      : geometry
+        ? exporter.export(geometry, options)
+        : generateDXF(planData)
 
     return new NextResponse(dxfContent, {
       headers: {
@@ -23,7 +43,20 @@ export async function POST(request: Request) {
   }
 }
 
+// Gap between levels when a multi-storey plan is laid out side by side
+const LEVEL_SPACING = 5
+
 function generateDXF(planData: any): string {
+  // Multi-storey plans get one set of layers per level (WALLS-L1, ROOMS-L1, ...)
+  const levels: any[] = planData.levels?.length > 1 ? planData.levels : [planData]
+  const stacked = levels.length > 1
+  const layerSuffix = (level: any) => (stacked ? `-L${level.level}` : "")
+
+  const layers = levels.flatMap((level) => [
+    layerEntry(`WALLS${layerSuffix(level)}`, 7),
+    layerEntry(`ROOMS${layerSuffix(level)}`, 4),
+  ])
+
   let dxf = `0
 SECTION
 2
@@ -69,51 +102,85 @@ TABLE
 2
 LAYER
 70
-2
+${layers.length}
+${layers.join("")}0
+ENDTAB
 0
-LAYER
-2
-WALLS
-70
+ENDSEC
 0
-62
-7
-6
-CONTINUOUS
+SECTION
+2
+ENTITIES
+`
+
+  let offsetX = 0
+  for (const level of levels) {
+    dxf += generateLevelEntities(level, layerSuffix(level), offsetX, stacked)
+    const levelWidth = Math.max(0, ...(level.walls || []).flatMap((w: any) => [w.x1, w.x2]))
+    offsetX += levelWidth + LEVEL_SPACING
+  }
+
+  dxf += `0
+ENDSEC
 0
+EOF
+`
+
+  return dxf
+}
+
+function layerEntry(name: string, color: number): string {
+  return `0
 LAYER
 2
-ROOMS
+${name}
 70
 0
 62
-4
+${color}
 6
 CONTINUOUS
-0
-ENDTAB
-0
-ENDSEC
-0
-SECTION
-2
-ENTITIES
 `
+}
+
+function generateLevelEntities(planData: any, suffix: string, offsetX: number, titled: boolean): string {
+  const wallsLayer = `WALLS${suffix}`
+  const roomsLayer = `ROOMS${suffix}`
+  let dxf = ""
+
+  // Level title above the plan
+  if (titled) {
+    dxf += `0
+TEXT
+8
+${roomsLayer}
+10
+${offsetX}
+20
+-2
+30
+0.0
+40
+1.0
+1
+${planData.name}
+`
+  }
 
   // Add walls as lines
   planData.walls?.forEach((wall: any) => {
     dxf += `0
 LINE
 8
-WALLS
+${wallsLayer}
 10
-${wall.x1}
+${offsetX + wall.x1}
 20
 ${wall.y1}
 30
 0.0
 11
-${wall.x2}
+${offsetX + wall.x2}
 21
 ${wall.y2}
 31
@@ -126,25 +193,25 @@ ${wall.y2}
     dxf += `0
 LWPOLYLINE
 8
-ROOMS
+${roomsLayer}
 90
 4
 70
 1
 10
-${room.x}
+${offsetX + room.x}
 20
 ${room.y}
 10
-${room.x + room.width}
+${offsetX + room.x + room.width}
 20
 ${room.y}
 10
-${room.x + room.width}
+${offsetX + room.x + room.width}
 20
 ${room.y + room.height}
 10
-${room.x}
+${offsetX + room.x}
 20
 ${room.y + room.height}
 `
@@ -153,9 +220,9 @@ ${room.y + room.height}
     dxf += `0
 TEXT
 8
-ROOMS
+${roomsLayer}
 10
-${room.x + room.width / 2}
+${offsetX + room.x + room.width / 2}
 20
 ${room.y + room.height / 2}
 30
@@ -172,15 +239,15 @@ ${room.name}
     dxf += `0
 LINE
 8
-WALLS
+${wallsLayer}
 10
-${door.x}
+${offsetX + door.x}
 20
 ${door.y}
 30
 0.0
 11
-${door.x + 30}
+${offsetX + door.x + 30}
 21
 ${door.y}
 31
@@ -193,15 +260,15 @@ ${door.y}
     dxf += `0
 LINE
 8
-WALLS
+${wallsLayer}
 10
-${window.x}
+${offsetX + window.x}
 20
 ${window.y}
 30
 0.0
 11
-${window.x + window.width}
+${offsetX + window.x + window.width}
 21
 ${window.y}
 31
@@ -209,11 +276,5 @@ ${window.y}
 `
   })
 
-  dxf += `0
-ENDSEC
-0
-EOF
-`
-
   return dxf
 }
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { GLTFExporter } from "@/lib/floor-plan/stage-c/gltf-exporter"
+import { BuildingGeometry, FloorPlanError, FloorPlanGeometry, GLTFExportOptions } from "@/lib/floor-plan/types"
+
+interface GLTFExportRequest {
+  geometry?: FloorPlanGeometry
+  building?: BuildingGeometry
+  options?: Partial<GLTFExportOptions>
+}
+
+export async function POST(request: Request) {
+  try {
+    const { geometry, building, options }: GLTFExportRequest = await request.json()
+
+    if (!geometry && !building) {
+      return NextResponse.json({ error: "No plan data provided" }, { status: 400 })
+    }
+
+    const exporter = new GLTFExporter()
+    const glb = building ? exporter.exportBuilding(building, options) : exporter.export(geometry!, options)
+
+    return new NextResponse(glb.buffer as ArrayBuffer, {
+      headers: {
+        "Content-Type": "model/gltf-binary",
+        "Content-Disposition": `attachment; filename="floor-plan-${Date.now()}.glb"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof FloorPlanError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("glTF export error:", error)
+    return NextResponse.json({ error: "Export failed" }, { status: 500 })
+  }
+}
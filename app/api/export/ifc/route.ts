@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { IFCExporter } from "@/lib/floor-plan/stage-c/ifc-exporter"
+import { BuildingGeometry, FloorPlanError, FloorPlanGeometry, IFCExportOptions } from "@/lib/floor-plan/types"
+
+interface IFCExportRequest {
+  geometry?: FloorPlanGeometry
+  building?: BuildingGeometry
+  options?: Partial<IFCExportOptions>
+}
+
+export async function POST(request: Request) {
+  try {
+    const { geometry, building, options }: IFCExportRequest = await request.json()
+
+    if (!geometry && !building) {
+      return NextResponse.json({ error: "No plan data provided" }, { status: 400 })
+    }
+
+    const exporter = new IFCExporter()
+    const ifc = building ? exporter.exportBuilding(building, options) : exporter.export(geometry!, options)
+
+    return new NextResponse(ifc, {
+      headers: {
+        "Content-Type": "application/x-step",
+        "Content-Disposition": `attachment; filename="floor-plan-${Date.now()}.ifc"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof FloorPlanError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("IFC export error:", error)
+    return NextResponse.json({ error: "Export failed" }, { status: 500 })
+  }
+}
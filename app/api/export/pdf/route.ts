@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { PDFExporter } from "@/lib/floor-plan/stage-c/pdf-exporter"
+import { BuildingGeometry, FloorPlanError, FloorPlanGeometry, PDFExportOptions } from "@/lib/floor-plan/types"
+
+interface PDFExportRequest {
+  geometry?: FloorPlanGeometry
+  // One sheet per variation or per level
+  variations?: FloorPlanGeometry[]
+  building?: BuildingGeometry
+  options?: Partial<PDFExportOptions>
+}
+
+export async function POST(request: Request) {
+  try {
+    const { geometry, variations, building, options }: PDFExportRequest = await request.json()
+
+    if (!geometry && !variations?.length && !building) {
+      return NextResponse.json({ error: "No plan data provided" }, { status: 400 })
+    }
+
+    const exporter = new PDFExporter()
+    const pdf = building
+      ? exporter.exportBuilding(building, options)
+      : variations?.length
+        ? exporter.exportVariations(variations, options)
+        : exporter.export(geometry!, options)
+
+    return new NextResponse(pdf.buffer as ArrayBuffer, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="floor-plan-${Date.now()}.pdf"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof FloorPlanError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("PDF export error:", error)
+    return NextResponse.json({ error: "Export failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { findFloorPlan } from "@/lib/project-access"
+import { ExportBundler } from "@/lib/floor-plan/stage-c/export-bundler"
+import { fromLegacyFloorPlan, LegacyFloorPlan } from "@/lib/floor-plan/legacy-adapter"
+import { ExportFormat, FloorPlanError } from "@/lib/floor-plan/types"
+
+interface BundleExportRequest {
+  floorPlanId: string
+  formats: ExportFormat[]
+}
+
+/**
+ * Export a saved floor plan as a ZIP of the requested formats, with its
+ * geometry, originating specification, room schedule and a manifest
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { floorPlanId, formats }: BundleExportRequest = await request.json()
+
+    if (!floorPlanId) {
+      return NextResponse.json({ error: "No floor plan provided" }, { status: 400 })
+    }
+    if (!Array.isArray(formats)) {
+      return NextResponse.json({ error: "formats must be a list" }, { status: 400 })
+    }
+
+    const floorPlan = await findFloorPlan(floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    const plan = floorPlan.planData as unknown as LegacyFloorPlan
+    const zip = await new ExportBundler().export(
+      {
+        ...fromLegacyFloorPlan(plan),
+        specification: plan.specification,
+        projectName: floorPlan.project.name,
+      },
+      formats
+    )
+
+    return new NextResponse(zip.buffer as ArrayBuffer, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="floor-plan-${Date.now()}.zip"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof FloorPlanError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 })
+    }
+    console.error("Bundle export error:", error)
+    return NextResponse.json({ error: "Export failed" }, { status: 500 })
+  }
+}
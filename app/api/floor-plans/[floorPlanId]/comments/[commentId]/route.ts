@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findFloorPlan, can, PERMISSION_ERRORS } from "@/lib/project-access"
+import { COMMENT_THREAD, MAX_COMMENT_LENGTH, findComment } from "@/lib/plan-comments"
+
+interface RouteParams {
+  params: { floorPlanId: string; commentId: string }
+}
+
+// Edit the text (author only) or resolve and reopen a thread
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { body, resolved } = await request.json()
+
+    if (body === undefined && resolved === undefined) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    if (!can(floorPlan.role, "comment")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.comment }, { status: 403 })
+    }
+
+    const comment = await findComment(params.floorPlanId, params.commentId)
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 })
+    }
+
+    const data: Record<string, unknown> = {}
+
+    if (body !== undefined) {
+      const text = typeof body === "string" ? body.trim() : ""
+
+      if (!text || text.length > MAX_COMMENT_LENGTH) {
+        return NextResponse.json(
+          { error: `Comments must be 1 to ${MAX_COMMENT_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+
+      if (comment.authorId !== session.user.id) {
+        return NextResponse.json({ error: "Only the author can edit a comment" }, { status: 403 })
+      }
+
+      data.body = text
+    }
+
+    if (resolved !== undefined) {
+      if (typeof resolved !== "boolean") {
+        return NextResponse.json({ error: "resolved must be true or false" }, { status: 400 })
+      }
+
+      if (comment.parentId) {
+        return NextResponse.json({ error: "Only threads can be resolved" }, { status: 400 })
+      }
+
+      data.resolved = resolved
+      data.resolvedAt = resolved ? new Date() : null
+      data.resolvedById = resolved ? session.user.id : null
+    }
+
+    const updated = await prisma.floorPlanComment.update({
+      where: { id: comment.id },
+      data,
+      include: comment.parentId ? { author: COMMENT_THREAD.author } : COMMENT_THREAD,
+    })
+
+    return NextResponse.json({ comment: updated })
+  } catch (error) {
+    console.error("Update comment error:", error)
+    return NextResponse.json(
+      { error: "Failed to update comment" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a comment (author only); deleting a thread deletes its replies
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    if (!can(floorPlan.role, "comment")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.comment }, { status: 403 })
+    }
+
+    const comment = await findComment(params.floorPlanId, params.commentId)
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 })
+    }
+
+    if (comment.authorId !== session.user.id) {
+      return NextResponse.json({ error: "Only the author can delete a comment" }, { status: 403 })
+    }
+
+    await prisma.floorPlanComment.delete({ where: { id: comment.id } })
+
+    return NextResponse.json({ deleted: comment.id })
+  } catch (error) {
+    console.error("Delete comment error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete comment" },
+      { status: 500 }
+    )
+  }
+}
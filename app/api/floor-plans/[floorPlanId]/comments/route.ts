@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findFloorPlan, can, PERMISSION_ERRORS } from "@/lib/project-access"
+import {
+  COMMENT_STATUSES,
+  COMMENT_THREAD,
+  CommentStatus,
+  MAX_COMMENT_LENGTH,
+  findComment,
+  listCommentThreads,
+  readAnchor,
+} from "@/lib/plan-comments"
+
+interface RouteParams {
+  params: { floorPlanId: string }
+}
+
+// Comment threads on the floor plan: ?status=open|resolved|all (default all)
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const status = (new URL(request.url).searchParams.get("status") ?? "all") as CommentStatus
+
+    if (!COMMENT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${COMMENT_STATUSES.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    if (!(await findFloorPlan(params.floorPlanId, session.user.id))) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    const comments = await listCommentThreads(params.floorPlanId, status)
+
+    return NextResponse.json({ comments })
+  } catch (error) {
+    console.error("List comments error:", error)
+    return NextResponse.json(
+      { error: "Failed to load comments" },
+      { status: 500 }
+    )
+  }
+}
+
+// Start a thread pinned to an anchor, or reply to one with parentId
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { body, anchor, parentId } = await request.json()
+    const text = typeof body === "string" ? body.trim() : ""
+
+    if (!text) {
+      return NextResponse.json({ error: "Comment is empty" }, { status: 400 })
+    }
+
+    if (text.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    if (!can(floorPlan.role, "comment")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.comment }, { status: 403 })
+    }
+
+    if (parentId) {
+      const parent = await findComment(params.floorPlanId, String(parentId))
+
+      if (!parent) {
+        return NextResponse.json({ error: "Comment not found" }, { status: 404 })
+      }
+
+      // Replies to replies join the same thread
+      const comment = await prisma.floorPlanComment.create({
+        data: {
+          floorPlanId: params.floorPlanId,
+          parentId: parent.parentId ?? parent.id,
+          anchorType: parent.anchorType,
+          elementId: parent.elementId,
+          x: parent.x,
+          y: parent.y,
+          level: parent.level,
+          body: text,
+          authorId: session.user.id,
+        },
+        include: { author: COMMENT_THREAD.author },
+      })
+
+      return NextResponse.json({ comment }, { status: 201 })
+    }
+
+    const pin = readAnchor(floorPlan.planData, anchor)
+
+    if (typeof pin === "string") {
+      return NextResponse.json({ error: pin }, { status: 400 })
+    }
+
+    const comment = await prisma.floorPlanComment.create({
+      data: {
+        floorPlanId: params.floorPlanId,
+        anchorType: pin.type,
+        elementId: pin.elementId,
+        x: pin.position.x,
+        y: pin.position.y,
+        level: pin.level,
+        body: text,
+        authorId: session.user.id,
+      },
+      include: COMMENT_THREAD,
+    })
+
+    return NextResponse.json({ comment }, { status: 201 })
+  } catch (error) {
+    console.error("Create comment error:", error)
+    return NextResponse.json(
+      { error: "Failed to add comment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { getRevision } from "@/lib/plan-revisions"
+import { findFloorPlan } from "@/lib/project-access"
+import { fromLegacyFloorPlan, LegacyFloorPlan } from "@/lib/floor-plan/legacy-adapter"
+import { diffLevels } from "@/lib/floor-plan/plan-diff"
+
+interface RouteParams {
+  params: { floorPlanId: string }
+}
+
+// Geometric diff between two revisions, per level: ?from=<n>&to=<n>. `to`
+// defaults to the latest revision and `from` to the one before it.
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const requested = (name: string) => (searchParams.has(name) ? Number(searchParams.get(name)) : undefined)
+    const [fromNumber, toNumber] = [requested("from"), requested("to")]
+
+    if ([fromNumber, toNumber].some((number) => number !== undefined && !Number.isInteger(number))) {
+      return NextResponse.json({ error: "from and to must be revision numbers" }, { status: 400 })
+    }
+
+    const to = await getRevision(floorPlan.id, toNumber)
+    const from = to ? await getRevision(floorPlan.id, fromNumber ?? to.number - 1) : null
+
+    if (!to || !from) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    const levels = diffLevels(
+      fromLegacyFloorPlan(from.planData as unknown as LegacyFloorPlan),
+      fromLegacyFloorPlan(to.planData as unknown as LegacyFloorPlan)
+    )
+
+    return NextResponse.json({
+      from: from.number,
+      to: to.number,
+      unchanged: levels.every((level) => level.unchanged),
+      levels,
+    })
+  } catch (error) {
+    console.error("Plan diff error:", error)
+    return NextResponse.json(
+      { error: "Failed to compare revisions" },
+      { status: 500 }
+    )
+  }
+}
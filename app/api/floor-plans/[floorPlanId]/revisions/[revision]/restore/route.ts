@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { restoreRevision } from "@/lib/plan-revisions"
+import { findFloorPlan, can, PERMISSION_ERRORS } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { floorPlanId: string; revision: string }
+}
+
+// Make an earlier revision current; the restore is recorded as a new revision
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (floorPlan && !can(floorPlan.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    const number = Number(params.revision)
+    const restored = floorPlan && Number.isInteger(number)
+      ? await restoreRevision(floorPlan.id, number, session.user.id)
+      : null
+
+    if (restored === null) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ floorPlanId: params.floorPlanId, revision: restored })
+  } catch (error) {
+    console.error("Restore revision error:", error)
+    return NextResponse.json(
+      { error: "Failed to restore revision" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { getRevision } from "@/lib/plan-revisions"
+import { findFloorPlan } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { floorPlanId: string; revision: string }
+}
+
+// One revision with its plan
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+    const number = Number(params.revision)
+    const revision = floorPlan && Number.isInteger(number) ? await getRevision(floorPlan.id, number) : null
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ revision })
+  } catch (error) {
+    console.error("Get revision error:", error)
+    return NextResponse.json(
+      { error: "Failed to load revision" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { listRevisions } from "@/lib/plan-revisions"
+import { findFloorPlan } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { floorPlanId: string }
+}
+
+// Revision history, newest first, without the plans themselves
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ revisions: await listRevisions(floorPlan.id) })
+  } catch (error) {
+    console.error("List revisions error:", error)
+    return NextResponse.json(
+      { error: "Failed to load revisions" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { commitRevision, revisionTransaction, thumbnailFor } from "@/lib/plan-revisions"
+import { findFloorPlan, can, PERMISSION_ERRORS } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { floorPlanId: string }
+}
+
+// The floor plan as last saved
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ floorPlan })
+  } catch (error) {
+    console.error("Get floor plan error:", error)
+    return NextResponse.json(
+      { error: "Failed to load floor plan" },
+      { status: 500 }
+    )
+  }
+}
+
+// Replace the plan; a change is recorded as a new revision
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { planData, message } = await request.json()
+
+    if (!planData || typeof planData !== "object") {
+      return NextResponse.json({ error: "No plan provided" }, { status: 400 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    if (!can(floorPlan.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    const { id: _id, thumbnail, ...plan } = planData
+    const picture = thumbnailFor(plan, thumbnail)
+    const revision = await revisionTransaction((tx) =>
+      commitRevision(tx, params.floorPlanId, {
+        planData: plan,
+        thumbnail: picture,
+        message,
+        authorId: session.user.id,
+      })
+    )
+
+    return NextResponse.json({ floorPlanId: params.floorPlanId, revision, changed: revision !== null })
+  } catch (error) {
+    console.error("Update floor plan error:", error)
+    return NextResponse.json(
+      { error: "Failed to update floor plan" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete the variation with its revisions
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const floorPlan = await findFloorPlan(params.floorPlanId, session.user.id)
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    if (!can(floorPlan.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    await prisma.floorPlan.delete({ where: { id: params.floorPlanId } })
+
+    return NextResponse.json({ deleted: params.floorPlanId })
+  } catch (error) {
+    console.error("Delete floor plan error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete floor plan" },
+      { status: 500 }
+    )
+  }
+}
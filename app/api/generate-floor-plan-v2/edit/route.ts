@@ -0,0 +1,50 @@
+/**
+ * API Route: /api/generate-floor-plan-v2/edit
+ * Applies a natural-language edit ("move the study next to the living room")
+ * to a saved plan
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { EditFloorPlanRequest } from '@/lib/floor-plan/types';
+import { FloorPlanPipeline, validateEditRequest } from '@/lib/floor-plan/pipeline';
+import { Timer } from '@/lib/floor-plan/utils';
+import { admitGeneration, recordUsage } from '@/lib/usage';
+
+export async function POST(req: NextRequest) {
+  try {
+    const request: EditFloorPlanRequest = await req.json();
+
+    const invalid = validateEditRequest(request);
+    if (invalid) {
+      return NextResponse.json(invalid, { status: 400 });
+    }
+
+    const admission = await admitGeneration(req, 'edit');
+    if (!admission.admitted) {
+      return NextResponse.json(admission.body, { status: admission.status, headers: admission.headers });
+    }
+
+    const timer = new Timer();
+    timer.start();
+    const response = await new FloorPlanPipeline().edit(request);
+    await recordUsage(admission.usageId, {
+      metadata: response.metadata,
+      latencyMs: timer.stop(),
+      variationCount: 1
+    });
+
+    return NextResponse.json(response, { headers: admission.headers });
+
+  } catch (error: any) {
+    console.error('Floor plan edit error:', error);
+
+    return NextResponse.json(
+      {
+        error: `Edit failed: ${error.message}`,
+        stage: error.stage,
+        recoverable: error.recoverable ?? false
+      },
+      { status: error.recoverable ? 422 : 500 }
+    );
+  }
+}
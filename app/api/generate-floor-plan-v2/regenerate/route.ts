@@ -0,0 +1,49 @@
+/**
+ * API Route: /api/generate-floor-plan-v2/regenerate
+ * Lays out a saved plan again, keeping the rooms the user has locked
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { RegenerateFloorPlanRequest } from '@/lib/floor-plan/types';
+import { FloorPlanPipeline, validateRegenerateRequest } from '@/lib/floor-plan/pipeline';
+import { Timer } from '@/lib/floor-plan/utils';
+import { admitGeneration, recordUsage } from '@/lib/usage';
+
+export async function POST(req: NextRequest) {
+  try {
+    const request: RegenerateFloorPlanRequest = await req.json();
+
+    const invalid = validateRegenerateRequest(request);
+    if (invalid) {
+      return NextResponse.json(invalid, { status: 400 });
+    }
+
+    const admission = await admitGeneration(req, 'generation');
+    if (!admission.admitted) {
+      return NextResponse.json(admission.body, { status: admission.status, headers: admission.headers });
+    }
+
+    const timer = new Timer();
+    timer.start();
+    const variation = await new FloorPlanPipeline().regenerate(request);
+    // The layout is redone without an LLM
+    await recordUsage(admission.usageId, {
+      metadata: { llmUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } },
+      latencyMs: timer.stop(),
+      variationCount: 1
+    });
+
+    return NextResponse.json({ variation }, { headers: admission.headers });
+
+  } catch (error: any) {
+    console.error('Floor plan regeneration error:', error);
+
+    return NextResponse.json(
+      {
+        error: `Regeneration failed: ${error.message}`,
+        recoverable: error.recoverable ?? false
+      },
+      { status: error.recoverable ? 422 : 500 }
+    );
+  }
+}
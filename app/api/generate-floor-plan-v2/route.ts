@@ -4,11 +4,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { GenerateFloorPlanRequest, GenerateFloorPlanResponse, FloorPlanVariation } from '@/lib/floor-plan/types';
-import { StageAOrchestrator } from '@/lib/floor-plan/stage-a';
-import { StageBOrchestrator } from '@/lib/floor-plan/stage-b';
-import { SVGExporter } from '@/lib/floor-plan/stage-c/svg-exporter';
+import { GenerateFloorPlanRequest, GenerateFloorPlanResponse } from '@/lib/floor-plan/types';
+import { FloorPlanPipeline, validateGenerateRequest } from '@/lib/floor-plan/pipeline';
 import { Timer } from '@/lib/floor-plan/utils';
+import { admitGeneration, recordUsage } from '@/lib/usage';
 
 export async function POST(req: NextRequest) {
   const timer = new Timer();
@@ -19,132 +18,28 @@ export async function POST(req: NextRequest) {
     const request: GenerateFloorPlanRequest = await req.json();
 
     // Validate request
-    if (!request.userInput && !request.parameters) {
-      return NextResponse.json(
-        { error: 'Missing userInput or parameters' },
-        { status: 400 }
-      );
+    const invalid = validateGenerateRequest(request);
+    if (invalid) {
+      return NextResponse.json(invalid, { status: 400 });
     }
 
-    // Set defaults
-    const variationCount = Math.min(request.variationCount || 5, 10);
-
-    // Initialize pipeline stages
-    const stageA = new StageAOrchestrator();
-    const stageB = new StageBOrchestrator();
-    const svgExporter = new SVGExporter();
-
-    // Array to collect variations
-    const variations: FloorPlanVariation[] = [];
-    const errors: GenerateFloorPlanResponse['errors'] = [];
-
-    // Generate base specification (Stage A)
-    let baseSpecResult;
-    try {
-      baseSpecResult = await stageA.generate(request);
-    } catch (error: any) {
-      errors.push({
-        stage: 'A',
-        message: `Specification generation failed: ${error.message}`,
-        recoverable: false
-      });
-      
-      return NextResponse.json(
-        { 
-          variations: [],
-          errors,
-          metadata: {
-            totalGenerationTime: timer.stop(),
-            timestamp: new Date().toISOString()
-          }
-        } as GenerateFloorPlanResponse,
-        { status: 500 }
-      );
-    }
-
-    // Generate variations in parallel
-    const variationPromises: Promise<void>[] = [];
-
-    for (let i = 0; i < variationCount; i++) {
-      const promise = (async () => {
-        try {
-          // Generate variation specification
-          const specResult = i === 0 
-            ? baseSpecResult 
-            : await stageA.generateVariation(baseSpecResult.specification, i);
-
-          // Generate 2D geometry (Stage B)
-          const geometryResult = await stageB.generate(specResult.specification);
-
-          // Generate SVG preview
-          const svg = svgExporter.export(geometryResult.geometry, {
-            includeLabels: true,
-            includeDimensions: false,
-            includeFurniture: false
-          });
-
-          // Generate thumbnail (simplified - just SVG for now)
-          const thumbnail = svgExporter.exportAsDataURL(geometryResult.geometry, {
-            includeLabels: false,
-            scale: 30 // Smaller scale for thumbnail
-          });
-
-          // Calculate total generation time for this variation
-          const varGenerationTime = 
-            specResult.metadata.generationTime + 
-            geometryResult.metadata.generationTime;
-
-          // Create variation
-          const variation: FloorPlanVariation = {
-            id: `variation_${i + 1}`,
-            specification: specResult.specification,
-            geometry: geometryResult.geometry,
-            preview: {
-              svg,
-              thumbnail
-            },
-            metadata: {
-              confidence: geometryResult.geometry.metadata.confidence,
-              generationTime: varGenerationTime,
-              relaxedConstraints: [
-                ...specResult.metadata.validationWarnings,
-                ...geometryResult.metadata.relaxedConstraints
-              ]
-            }
-          };
-
-          variations.push(variation);
-
-        } catch (error: any) {
-          errors.push({
-            stage: error.stage || 'B',
-            message: `Variation ${i + 1} failed: ${error.message}`,
-            recoverable: true
-          });
-        }
-      })();
-
-      variationPromises.push(promise);
+    // Sign-in, rate limit and monthly quota
+    const admission = await admitGeneration(req, 'generation');
+    if (!admission.admitted) {
+      return NextResponse.json(admission.body, { status: admission.status, headers: admission.headers });
     }
 
-    // Wait for all variations to complete
-    await Promise.all(variationPromises);
-
-    // Sort variations by confidence
-    variations.sort((a, b) => b.metadata.confidence - a.metadata.confidence);
-
-    const totalGenerationTime = timer.stop();
-
-    const response: GenerateFloorPlanResponse = {
-      variations,
-      errors: errors.length > 0 ? errors : undefined,
-      metadata: {
-        totalGenerationTime,
-        timestamp: new Date().toISOString()
-      }
-    };
+    // Run Stage A, then Stage B and previews for every variation
+    const response = await new FloorPlanPipeline().run(request);
+    await recordUsage(admission.usageId, {
+      metadata: response.metadata,
+      latencyMs: response.metadata.totalGenerationTime,
+      variationCount: response.variations.length
+    });
 
-    return NextResponse.json(response);
+    // A failed specification means there is nothing to show
+    const failed = response.errors?.some(error => !error.recoverable);
+    return NextResponse.json(response, { status: failed ? 500 : 200, headers: admission.headers });
 
   } catch (error: any) {
     console.error('Floor plan generation error:', error);
@@ -159,7 +54,8 @@ export async function POST(req: NextRequest) {
         }],
         metadata: {
           totalGenerationTime: timer.stop(),
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          llmUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
         }
       } as GenerateFloorPlanResponse,
       { status: 500 }
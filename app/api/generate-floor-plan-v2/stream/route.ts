@@ -0,0 +1,81 @@
+/**
+ * API Route: /api/generate-floor-plan-v2/stream
+ * Same pipeline as /api/generate-floor-plan-v2, streamed as Server-Sent
+ * Events: the specification, each variation's layout and each finished
+ * variation are sent as soon as they are ready
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GenerateFloorPlanRequest, GenerationEvent } from '@/lib/floor-plan/types';
+import { FloorPlanPipeline, validateGenerateRequest } from '@/lib/floor-plan/pipeline';
+import { encodeGenerationEvent } from '@/lib/floor-plan/generation-events';
+import { admitGeneration, recordUsage } from '@/lib/usage';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  let request: GenerateFloorPlanRequest;
+  try {
+    request = await req.json();
+  } catch (e) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  // Invalid requests fail before the stream starts
+  const invalid = validateGenerateRequest(request);
+  if (invalid) {
+    return NextResponse.json(invalid, { status: 400 });
+  }
+
+  // So do signed-out requests and those over the rate limit or the monthly quota
+  const admission = await admitGeneration(req, 'generation');
+  if (!admission.admitted) {
+    return NextResponse.json(admission.body, { status: admission.status, headers: admission.headers });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const send = (event: GenerationEvent) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(encodeGenerationEvent(event)));
+        } catch (e) {
+          // Client went away; keep generating but stop writing
+          open = false;
+        }
+      };
+
+      req.signal.addEventListener('abort', () => {
+        open = false;
+      });
+
+      try {
+        const response = await new FloorPlanPipeline().run(request, send);
+        await recordUsage(admission.usageId, {
+          metadata: response.metadata,
+          latencyMs: response.metadata.totalGenerationTime,
+          variationCount: response.variations.length
+        });
+      } catch (error: any) {
+        console.error('Floor plan generation error:', error);
+        send({
+          type: 'error',
+          error: { stage: 'A', message: `Unexpected error: ${error.message}`, recoverable: false }
+        });
+      } finally {
+        if (open) controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      ...admission.headers
+    }
+  });
+}
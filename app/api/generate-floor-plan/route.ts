@@ -1,13 +1,37 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
+import { admitGeneration, recordUsage } from "@/lib/usage"
 import OpenAI from "openai"
 
+const MODEL = "google/gemini-2.0-flash-001"
+
 const openai = new OpenAI({
   baseURL: "https://openrouter.ai/api/v1",
   apiKey: process.env.OPENROUTER_API_KEY,
 })
 
+interface FloorPlanLayout {
+  walls: Array<{ x1: number; y1: number; x2: number; y2: number }>
+  rooms: Array<{ name: string; x: number; y: number; width: number; height: number; furniture: string[] }>
+  doors: Array<{ x: number; y: number; rotation: number }>
+  windows: Array<{ x: number; y: number; width: number }>
+}
+
+interface FloorPlanLevel extends FloorPlanLayout {
+  level: number
+  name: string
+  elevation: number
+}
+
+const MAX_FLOORS = 4
+const FLOOR_HEIGHT = 3
+const STAIR_CORE = { width: 2.4, height: 3 }
+const LEVEL_NAMES = ["Ground Floor", "First Floor", "Second Floor", "Third Floor"]
+// Smallest private rooms an upper floor must still fit, in m²
+const MIN_PRIVATE_ROOM_AREA = { bedroom: 12, bathroom: 4 }
+const SQ_FT_PER_SQ_M = 10.764
+
 interface FloorPlanRequest {
   totalArea: number
   unit: "metric" | "imperial"
@@ -29,13 +53,18 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const admission = await admitGeneration(request, "generation")
+    if (!admission.admitted) {
+      return NextResponse.json(admission.body, { status: admission.status, headers: admission.headers })
+    }
+
     const params: FloorPlanRequest = await request.json()
 
     const prompt = `You are an expert residential architect. Create a COMPLETE, REALISTIC floor plan (not just one room!) with the following specifications:
 
 **Requirements:**
 - Total Area: ${params.totalArea} ${params.unit === "metric" ? "m²" : "ft²"}
-- Number of Floors: ${params.floors} (generate floor 1 only)
+- Number of Floors: ${params.floors}
 - Bedrooms: ${params.rooms.bedroom}
 - Bathrooms: ${params.rooms.bathroom}
 - Kitchen: ${params.rooms.kitchen}
@@ -87,7 +116,7 @@ Each variation must have:
 - Bathrooms near bedrooms
 - Proper circulation space (hallways/corridors)
 
-**Return Format:**
+${params.floors > 1 ? buildMultiFloorInstructions(params.floors) : ""}**Return Format:**
 Return ONLY a valid JSON array with 5 variations. NO explanations, NO markdown.
 
 [
@@ -119,8 +148,9 @@ Return ONLY a valid JSON array with 5 variations. NO explanations, NO markdown.
   }
 ]`
 
+    const startedAt = Date.now()
     const completion = await openai.chat.completions.create({
-      model: "google/gemini-2.0-flash-001",
+      model: MODEL,
       messages: [
         {
           role: "system",
@@ -134,6 +164,19 @@ Return ONLY a valid JSON array with 5 variations. NO explanations, NO markdown.
       temperature: 0.8,
     })
 
+    await recordUsage(admission.usageId, {
+      metadata: {
+        llmUsage: {
+          promptTokens: completion.usage?.prompt_tokens ?? 0,
+          completionTokens: completion.usage?.completion_tokens ?? 0,
+          totalTokens: completion.usage?.total_tokens ?? 0,
+        },
+        llm: { provider: "openrouter", model: MODEL },
+      },
+      latencyMs: Date.now() - startedAt,
+      variationCount: 5,
+    })
+
     const content = completion.choices[0]?.message?.content
 
     if (!content) {
@@ -164,7 +207,133 @@ Return ONLY a valid JSON array with 5 variations. NO explanations, NO markdown.
   }
 }
 
+function buildMultiFloorInstructions(floors: number) {
+  return `**Multi-Storey Layout (${floors} floors):**
+- Split the total area evenly between the floors; every floor has the same outline
+- Ground floor: living room, dining room, kitchen and one bathroom (if there is more than one)
+- Upper floors: bedrooms and the remaining bathrooms, as many as fit; the rest stay on the ground floor
+- Add a room named "Stair" (about 2.4 x 3 m) at the SAME x, y position on every floor
+- Only the ground floor has an entrance door
+- Each variation must include a "levels" array with one entry per floor:
+  {"level": 0, "name": "Ground Floor", "elevation": 0, "walls": [...], "rooms": [...], "doors": [...], "windows": [...]}
+  where elevation is level × 3 meters
+- The top-level walls/rooms/doors/windows of each variation repeat the ground floor
+
+`
+}
+
 function generateFallbackFloorPlans(params: FloorPlanRequest) {
+  const floors = Math.max(1, Math.min(MAX_FLOORS, Math.round(params.floors || 1)))
+
+  if (floors === 1) {
+    return generateFallbackLayouts(params)
+  }
+
+  // Each floor gets an equal share of the total area and the stair sits in
+  // the same bay on every level
+  const floorArea = params.totalArea / floors
+  const layoutsPerFloor = splitRoomsByFloor(params, floors).map((rooms, level) =>
+    generateFallbackLayouts({ ...params, totalArea: floorArea, rooms }, level === 0)
+  )
+
+  return layoutsPerFloor[0].map((_, i) => {
+    const levels: FloorPlanLevel[] = layoutsPerFloor.map((layouts, level) => ({
+      level,
+      name: LEVEL_NAMES[level],
+      elevation: level * FLOOR_HEIGHT,
+      ...addStairCore(layouts[i]),
+    }))
+
+    // Top-level fields mirror the ground floor for single-level consumers
+    const { walls, rooms, doors, windows } = levels[0]
+    return { walls, rooms, doors, windows, levels }
+  })
+}
+
+/**
+ * Public rooms stay on the ground floor, bedrooms go upstairs and one
+ * bathroom stays downstairs when there is more than one. Upper floors take
+ * private rooms in turn while they have space; the rest stay downstairs.
+ */
+function splitRoomsByFloor(params: FloorPlanRequest, floors: number): FloorPlanRequest["rooms"][] {
+  const { rooms } = params
+  const perFloor = Array.from({ length: floors }, (_, level) => ({
+    bedroom: 0,
+    bathroom: 0,
+    kitchen: level === 0 ? rooms.kitchen : 0,
+    livingRoom: level === 0 ? rooms.livingRoom : 0,
+    diningRoom: level === 0 ? rooms.diningRoom : 0,
+  }))
+
+  const areaScale = params.unit === "imperial" ? SQ_FT_PER_SQ_M : 1
+  const freeArea = perFloor.map((_, level) => (level === 0 ? 0 : params.totalArea / floors))
+  let nextFloor = 0
+
+  const placePrivateRoom = (type: "bedroom" | "bathroom") => {
+    const area = MIN_PRIVATE_ROOM_AREA[type] * areaScale
+    for (let k = 0; k < floors - 1; k++) {
+      const level = 1 + ((nextFloor + k) % (floors - 1))
+      if (freeArea[level] >= area) {
+        freeArea[level] -= area
+        perFloor[level][type]++
+        nextFloor = level % (floors - 1)
+        return
+      }
+    }
+    perFloor[0][type]++
+  }
+
+  for (let j = 0; j < rooms.bedroom; j++) {
+    placePrivateRoom("bedroom")
+  }
+
+  const upstairsBathrooms = rooms.bathroom > 1 ? rooms.bathroom - 1 : rooms.bathroom
+  perFloor[0].bathroom = rooms.bathroom - upstairsBathrooms
+  for (let j = 0; j < upstairsBathrooms; j++) {
+    placePrivateRoom("bathroom")
+  }
+
+  return perFloor
+}
+
+/**
+ * Append a stair bay to the east side of a level layout
+ */
+function addStairCore(layout: FloorPlanLayout): FloorPlanLayout {
+  const [top, right] = layout.walls
+  const buildingWidth = right.x1
+  const buildingHeight = right.y2
+  const stairY = Math.max(0, (buildingHeight - STAIR_CORE.height) / 2)
+  const outerWidth = buildingWidth + STAIR_CORE.width
+
+  return {
+    walls: [
+      { ...top, x2: outerWidth },
+      { x1: outerWidth, y1: 0, x2: outerWidth, y2: buildingHeight },
+      { x1: outerWidth, y1: buildingHeight, x2: 0, y2: buildingHeight },
+      ...layout.walls.slice(3),
+      // Former east wall now separates the stair bay
+      { x1: buildingWidth, y1: 0, x2: buildingWidth, y2: buildingHeight },
+    ],
+    rooms: [
+      ...layout.rooms,
+      {
+        name: "Stair",
+        x: buildingWidth,
+        y: stairY,
+        width: STAIR_CORE.width,
+        height: STAIR_CORE.height,
+        furniture: [],
+      },
+    ],
+    doors: [
+      ...layout.doors,
+      { x: buildingWidth, y: stairY + STAIR_CORE.height / 2, rotation: 90 },
+    ],
+    windows: layout.windows,
+  }
+}
+function generateFallbackLayouts(params: FloorPlanRequest, includeEntrance: boolean = true): FloorPlanLayout[] {
   const variations = []
   
   // Calculate realistic building dimensions based on total area
@@ -199,7 +368,7 @@ function generateFallbackFloorPlans(params: FloorPlanRequest) {
     // Variation-specific layouts
     if (i === 0) {
       // Linear layout - rooms side by side
-      const roomWidth = buildingWidth / totalRooms
+      const roomWidth = buildingWidth / Math.max(totalRooms, 1)
       
       // Add Living Room
       if (params.rooms.livingRoom > 0) {
@@ -291,7 +460,7 @@ function generateFallbackFloorPlans(params: FloorPlanRequest) {
       }
     } else {
       // Grid layout - rooms in 2 rows
-      const numCols = Math.ceil(totalRooms / 2)
+      const numCols = Math.max(Math.ceil(totalRooms / 2), 1)
       const colWidth = buildingWidth / numCols
       const rowHeight = buildingHeight / 2
       
@@ -413,9 +582,11 @@ function generateFallbackFloorPlans(params: FloorPlanRequest) {
     }
 
     // DOORS - Entry + interior doors
-    variation.doors.push(
-      { x: buildingWidth * 0.3, y: 0, rotation: 0 } // Main entrance
-    )
+    if (includeEntrance) {
+      variation.doors.push(
+        { x: buildingWidth * 0.3, y: 0, rotation: 0 } // Main entrance
+      )
+    }
     
     // Add interior doors between adjacent rooms
     for (let j = 0; j < Math.min(roomConfigs.length - 1, 3); j++) {
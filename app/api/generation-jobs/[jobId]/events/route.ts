@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { generationJobQueue, isTerminalStatus } from "@/lib/generation-jobs"
+
+export const dynamic = "force-dynamic"
+
+// Jobs run by other server processes are picked up by polling
+const POLL_INTERVAL_MS = 2000
+
+interface RouteParams {
+  params: { jobId: string }
+}
+
+/**
+ * Server-Sent Events for a job. Each `job` event carries the status and
+ * progress plus the variations and errors added since the previous event;
+ * the stream ends when the job does. Reconnecting clients pass ?since= like
+ * the polling endpoint.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const userId = session.user.id
+  const job = await generationJobQueue.get(params.jobId, userId)
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let sentVariations = Math.max(0, Number(new URL(request.url).searchParams.get("since")) || 0)
+  let sentErrors = 0
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let current = job
+
+      try {
+        while (!request.signal.aborted) {
+          controller.enqueue(
+            encoder.encode(
+              `event: job\ndata: ${JSON.stringify({
+                id: current.id,
+                status: current.status,
+                progress: current.progress,
+                cancelRequested: current.cancelRequested,
+                variations: current.variations.slice(sentVariations),
+                errors: current.errors.slice(sentErrors),
+              })}\n\n`
+            )
+          )
+          sentVariations = Math.max(sentVariations, current.variations.length)
+          sentErrors = current.errors.length
+
+          if (isTerminalStatus(current.status)) break
+
+          await generationJobQueue.waitForUpdate(current.id, POLL_INTERVAL_MS)
+          const next = await generationJobQueue.get(current.id, userId)
+          if (!next) break
+          current = next
+        }
+      } catch (error) {
+        // Writing fails once the client has disconnected
+        if (!request.signal.aborted) console.error("Generation job stream error:", error)
+      }
+
+      try {
+        controller.close()
+      } catch (error) {
+        // Already closed by the client
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { generationJobQueue } from "@/lib/generation-jobs"
+
+interface RouteParams {
+  params: { jobId: string }
+}
+
+// Job status with its variations. Pollers pass ?since=<variations already
+// received> to get only the new ones.
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const job = await generationJobQueue.get(params.jobId, session.user.id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    const since = Math.max(0, Number(new URL(request.url).searchParams.get("since")) || 0)
+    const { request: _request, variations, ...status } = job
+
+    return NextResponse.json({
+      job: {
+        ...status,
+        variationCount: variations.length,
+        variations: variations.slice(since),
+      },
+    })
+  } catch (error) {
+    console.error("Get generation job error:", error)
+    return NextResponse.json(
+      { error: "Failed to load generation job" },
+      { status: 500 }
+    )
+  }
+}
+
+// Cancel the job; variations finished before cancellation are kept
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const job = await generationJobQueue.cancel(params.jobId, session.user.id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      jobId: job.id,
+      status: job.status,
+      cancelRequested: job.cancelRequested,
+    })
+  } catch (error) {
+    console.error("Cancel generation job error:", error)
+    return NextResponse.json(
+      { error: "Failed to cancel generation job" },
+      { status: 500 }
+    )
+  }
+}
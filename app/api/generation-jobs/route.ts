@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { can, findProject, PERMISSION_ERRORS } from "@/lib/project-access"
+import { admitGeneration } from "@/lib/usage"
+import { generationJobQueue } from "@/lib/generation-jobs"
+import { validateGenerateRequest } from "@/lib/floor-plan/pipeline"
+import { GenerateFloorPlanRequest } from "@/lib/floor-plan/types"
+
+// Queue a generation; the job ID can be polled at /api/generation-jobs/[jobId]
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { projectId, ...generateRequest }: GenerateFloorPlanRequest & { projectId?: string } =
+      await request.json()
+
+    const invalid = validateGenerateRequest(generateRequest)
+    if (invalid) {
+      return NextResponse.json(invalid, { status: 400 })
+    }
+
+    const project = projectId ? await findProject(projectId, session.user.id) : null
+
+    if (projectId) {
+      if (!project) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 })
+      }
+      if (!can(project.role, "edit")) {
+        return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+      }
+    }
+
+    // Generations for an organisation's project count against its quota
+    const admission = await admitGeneration(request, "generation", project?.organisationId ?? null)
+    if (!admission.admitted) {
+      return NextResponse.json(admission.body, { status: admission.status, headers: admission.headers })
+    }
+
+    const job = await generationJobQueue.enqueue(session.user.id, generateRequest, projectId, admission.usageId)
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202, headers: admission.headers })
+  } catch (error) {
+    console.error("Create generation job error:", error)
+    return NextResponse.json(
+      { error: "Failed to create generation job" },
+      { status: 500 }
+    )
+  }
+}
+
+// Recent jobs, without their variations
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const jobs = await generationJobQueue.list(session.user.id)
+
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error("List generation jobs error:", error)
+    return NextResponse.json(
+      { error: "Failed to list generation jobs" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { DXFImporter } from "@/lib/floor-plan/dxf-importer"
+import { FloorPlanError } from "@/lib/floor-plan/types"
+
+// Larger drawings are almost always full sheet sets rather than a single plan
+const MAX_FILE_SIZE = 20 * 1024 * 1024
+
+/**
+ * Import a DXF drawing as a FloorPlanGeometry. Send the file as multipart
+ * form data (field "file") or as the raw request body. Drawings without
+ * $INSUNITS can say how many metres one unit is with `unitScale`.
+ */
+export async function POST(request: Request) {
+  try {
+    const url = new URL(request.url)
+    let content: string
+    let unitScale = url.searchParams.get("unitScale")
+
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const form = await request.formData()
+      const file = form.get("file")
+      if (!(file instanceof Blob)) {
+        return NextResponse.json({ error: "Missing file" }, { status: 400 })
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        return NextResponse.json({ error: "File too large" }, { status: 413 })
+      }
+      content = await file.text()
+      unitScale = (form.get("unitScale") as string | null) ?? unitScale
+    } else {
+      content = await request.text()
+      if (content.length > MAX_FILE_SIZE) {
+        return NextResponse.json({ error: "File too large" }, { status: 413 })
+      }
+    }
+
+    if (!content.trim()) {
+      return NextResponse.json({ error: "No drawing provided" }, { status: 400 })
+    }
+
+    const scale = unitScale ? Number(unitScale) : undefined
+    if (scale !== undefined && !(scale > 0)) {
+      return NextResponse.json({ error: `Invalid unitScale: ${unitScale}` }, { status: 400 })
+    }
+
+    const { geometry, warnings } = new DXFImporter().import(content, { unitScale: scale })
+    return NextResponse.json({ geometry, warnings })
+  } catch (error) {
+    if (error instanceof FloorPlanError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 422 })
+    }
+    console.error("DXF import error:", error)
+    return NextResponse.json({ error: "Import failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { findMembership, findOpenInvitation } from "@/lib/organisations"
+
+interface RouteParams {
+  params: { token: string }
+}
+
+// Join the organisation. The user must be signed in with the invited email.
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const invitation = await findOpenInvitation(params.token)
+
+    if (!invitation) {
+      return NextResponse.json({ error: "This invitation has expired or was already used" }, { status: 404 })
+    }
+
+    if (session.user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+      return NextResponse.json(
+        { error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.` },
+        { status: 403 }
+      )
+    }
+
+    const organisationId = invitation.organisationId
+
+    if (await findMembership(organisationId, session.user.id)) {
+      await prisma.invitation.update({ where: { id: invitation.id }, data: { acceptedAt: new Date() } })
+      return NextResponse.json({ organisationId })
+    }
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.organisationMember.create({
+        data: { organisationId, userId: session.user.id, role: invitation.role },
+      })
+      await tx.invitation.update({ where: { id: invitation.id }, data: { acceptedAt: new Date() } })
+    })
+
+    return NextResponse.json({ organisationId }, { status: 201 })
+  } catch (error) {
+    console.error("Accept invitation error:", error)
+    return NextResponse.json(
+      { error: "Failed to accept invitation" },
+      { status: 500 }
+    )
+  }
+}
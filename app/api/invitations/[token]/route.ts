@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { findOpenInvitation } from "@/lib/organisations"
+
+interface RouteParams {
+  params: { token: string }
+}
+
+// What the invitation is for, shown before signing in to accept it
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const invitation = await findOpenInvitation(params.token)
+
+    if (!invitation) {
+      return NextResponse.json({ error: "This invitation has expired or was already used" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        organisation: invitation.organisation,
+        invitedBy: invitation.invitedBy.name || invitation.invitedBy.email,
+      },
+    })
+  } catch (error) {
+    console.error("Get invitation error:", error)
+    return NextResponse.json(
+      { error: "Failed to load invitation" },
+      { status: 500 }
+    )
+  }
+}
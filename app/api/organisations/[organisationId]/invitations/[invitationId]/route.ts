@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findMembership } from "@/lib/organisations"
+
+interface RouteParams {
+  params: { organisationId: string; invitationId: string }
+}
+
+// Withdraw an open invitation (owners only)
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const membership = await findMembership(params.organisationId, session.user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 })
+    }
+
+    if (membership.role !== "owner") {
+      return NextResponse.json({ error: "Only organisation owners can do this" }, { status: 403 })
+    }
+
+    const { count } = await prisma.invitation.deleteMany({
+      where: { id: params.invitationId, organisationId: params.organisationId, acceptedAt: null },
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted: params.invitationId })
+  } catch (error) {
+    console.error("Delete invitation error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete invitation" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { INVITATION_DAYS, ROLES, createInvitationToken, findMembership, isRole } from "@/lib/organisations"
+
+interface RouteParams {
+  params: { organisationId: string }
+}
+
+// Invite someone by email (owners only). Responds with the link to send
+// them; inviting the same email again replaces the open invitation.
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { email, role } = await request.json()
+    const address = typeof email === "string" ? email.trim().toLowerCase() : ""
+
+    if (!/^[^\s@]+@[^\s@]+$/.test(address)) {
+      return NextResponse.json({ error: "A valid email address is required" }, { status: 400 })
+    }
+
+    if (!isRole(role)) {
+      return NextResponse.json({ error: `role must be one of ${ROLES.join(", ")}` }, { status: 400 })
+    }
+
+    const membership = await findMembership(params.organisationId, session.user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 })
+    }
+
+    if (membership.role !== "owner") {
+      return NextResponse.json({ error: "Only organisation owners can do this" }, { status: 403 })
+    }
+
+    const existing = await prisma.organisationMember.findFirst({
+      where: {
+        organisationId: params.organisationId,
+        user: { email: { equals: address, mode: "insensitive" } },
+      },
+    })
+
+    if (existing) {
+      return NextResponse.json({ error: "That person is already a member" }, { status: 409 })
+    }
+
+    const invitation = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.invitation.deleteMany({
+        where: { organisationId: params.organisationId, email: address, acceptedAt: null },
+      })
+      return tx.invitation.create({
+        data: {
+          organisationId: params.organisationId,
+          email: address,
+          role,
+          token: createInvitationToken(),
+          invitedById: session.user.id,
+          expiresAt: new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000),
+        },
+      })
+    })
+
+    const { token, ...fields } = invitation
+
+    return NextResponse.json({ invitation: { ...fields, url: `/invitations/${token}` } }, { status: 201 })
+  } catch (error) {
+    console.error("Create invitation error:", error)
+    return NextResponse.json(
+      { error: "Failed to create invitation" },
+      { status: 500 }
+    )
+  }
+}
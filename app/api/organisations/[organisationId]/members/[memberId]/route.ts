@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { ROLES, findMembership, isLastOwner, isRole } from "@/lib/organisations"
+
+interface RouteParams {
+  params: { organisationId: string; memberId: string }
+}
+
+// Change a member's role (owners only). The last owner cannot step down.
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { role } = await request.json()
+
+    if (!isRole(role)) {
+      return NextResponse.json({ error: `role must be one of ${ROLES.join(", ")}` }, { status: 400 })
+    }
+
+    const membership = await findMembership(params.organisationId, session.user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 })
+    }
+
+    if (membership.role !== "owner") {
+      return NextResponse.json({ error: "Only organisation owners can do this" }, { status: 403 })
+    }
+
+    const member = await prisma.organisationMember.findFirst({
+      where: { id: params.memberId, organisationId: params.organisationId },
+    })
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 })
+    }
+
+    if (role !== "owner" && (await isLastOwner(member))) {
+      return NextResponse.json({ error: "An organisation needs at least one owner" }, { status: 409 })
+    }
+
+    const updated = await prisma.organisationMember.update({
+      where: { id: member.id },
+      data: { role },
+      include: { user: { select: { id: true, name: true, email: true } } },
+    })
+
+    return NextResponse.json({ member: updated })
+  } catch (error) {
+    console.error("Update member error:", error)
+    return NextResponse.json(
+      { error: "Failed to update member" },
+      { status: 500 }
+    )
+  }
+}
+
+// Remove a member (owners), or leave the organisation (anyone)
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const membership = await findMembership(params.organisationId, session.user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 })
+    }
+
+    const member = await prisma.organisationMember.findFirst({
+      where: { id: params.memberId, organisationId: params.organisationId },
+    })
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 })
+    }
+
+    if (member.id !== membership.id && membership.role !== "owner") {
+      return NextResponse.json({ error: "Only organisation owners can do this" }, { status: 403 })
+    }
+
+    if (await isLastOwner(member)) {
+      return NextResponse.json({ error: "An organisation needs at least one owner" }, { status: 409 })
+    }
+
+    await prisma.organisationMember.delete({ where: { id: member.id } })
+
+    return NextResponse.json({ removed: member.id })
+  } catch (error) {
+    console.error("Remove member error:", error)
+    return NextResponse.json(
+      { error: "Failed to remove member" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findMembership } from "@/lib/organisations"
+
+interface RouteParams {
+  params: { organisationId: string }
+}
+
+// The organisation with its members and open invitations. Invitation
+// links are only sent to owners.
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const membership = await findMembership(params.organisationId, session.user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 })
+    }
+
+    const organisation = await prisma.organisation.findUnique({
+      where: { id: params.organisationId },
+      include: {
+        members: {
+          orderBy: { createdAt: "asc" },
+          include: { user: { select: { id: true, name: true, email: true } } },
+        },
+        invitations: {
+          where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    })
+
+    if (!organisation) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 })
+    }
+
+    const isOwner = membership.role === "owner"
+
+    return NextResponse.json({
+      organisation: {
+        ...organisation,
+        role: membership.role,
+        invitations: organisation.invitations.map(({ token, ...invitation }) => ({
+          ...invitation,
+          url: isOwner ? `/invitations/${token}` : null,
+        })),
+      },
+    })
+  } catch (error) {
+    console.error("Get organisation error:", error)
+    return NextResponse.json(
+      { error: "Failed to load organisation" },
+      { status: 500 }
+    )
+  }
+}
+
+// Rename the organisation (owners only)
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { name } = await request.json()
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "Organisation name is required" }, { status: 400 })
+    }
+
+    const membership = await findMembership(params.organisationId, session.user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 })
+    }
+
+    if (membership.role !== "owner") {
+      return NextResponse.json({ error: "Only organisation owners can do this" }, { status: 403 })
+    }
+
+    const organisation = await prisma.organisation.update({
+      where: { id: params.organisationId },
+      data: { name: name.trim() },
+    })
+
+    return NextResponse.json({ organisation })
+  } catch (error) {
+    console.error("Rename organisation error:", error)
+    return NextResponse.json(
+      { error: "Failed to rename organisation" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete the organisation with its projects (owners only)
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const membership = await findMembership(params.organisationId, session.user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 })
+    }
+
+    if (membership.role !== "owner") {
+      return NextResponse.json({ error: "Only organisation owners can do this" }, { status: 403 })
+    }
+
+    await prisma.organisation.delete({ where: { id: params.organisationId } })
+
+    return NextResponse.json({ deleted: params.organisationId })
+  } catch (error) {
+    console.error("Delete organisation error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete organisation" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+
+// The organisations the user belongs to, with their role and the counts
+// shown on the dashboard
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const memberships = await prisma.organisationMember.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "asc" },
+      include: {
+        organisation: {
+          include: { _count: { select: { members: true, projects: true } } },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      organisations: memberships.map(({ organisation, role }) => {
+        const { _count, ...fields } = organisation
+        return { ...fields, role, memberCount: _count.members, projectCount: _count.projects }
+      }),
+    })
+  } catch (error) {
+    console.error("List organisations error:", error)
+    return NextResponse.json(
+      { error: "Failed to load organisations" },
+      { status: 500 }
+    )
+  }
+}
+
+// Create an organisation with the user as its owner
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { name } = await request.json()
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "Organisation name is required" }, { status: 400 })
+    }
+
+    const organisation = await prisma.organisation.create({
+      data: {
+        name: name.trim(),
+        members: { create: { userId: session.user.id, role: "owner" } },
+      },
+    })
+
+    return NextResponse.json({ organisation: { ...organisation, role: "owner" } }, { status: 201 })
+  } catch (error) {
+    console.error("Create organisation error:", error)
+    return NextResponse.json(
+      { error: "Failed to create organisation" },
+      { status: 500 }
+    )
+  }
+}
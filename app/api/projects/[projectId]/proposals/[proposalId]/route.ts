@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findProposal, can, PERMISSION_ERRORS } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { projectId: string; proposalId: string }
+}
+
+// Relabel the proposal
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { label } = await request.json()
+
+    if (typeof label !== "string" || !label.trim()) {
+      return NextResponse.json({ error: "Proposal label is required" }, { status: 400 })
+    }
+
+    const proposal = await findProposal(params.projectId, params.proposalId, session.user.id)
+
+    if (!proposal) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 })
+    }
+
+    if (!can(proposal.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    const relabelled = await prisma.proposal.update({
+      where: { id: params.proposalId },
+      data: { label: label.trim() },
+    })
+
+    return NextResponse.json({ proposal: relabelled })
+  } catch (error) {
+    console.error("Rename proposal error:", error)
+    return NextResponse.json(
+      { error: "Failed to rename proposal" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete the proposal with its floor plans
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const proposal = await findProposal(params.projectId, params.proposalId, session.user.id)
+
+    if (!proposal) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 })
+    }
+
+    if (!can(proposal.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    await prisma.proposal.delete({ where: { id: params.proposalId } })
+
+    return NextResponse.json({ deleted: params.proposalId })
+  } catch (error) {
+    console.error("Delete proposal error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete proposal" },
+      { status: 500 }
+    )
+  }
+}
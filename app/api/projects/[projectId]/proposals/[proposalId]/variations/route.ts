@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { commitRevision, revisionTransaction, thumbnailFor } from "@/lib/plan-revisions"
+import { findProposal, can, PERMISSION_ERRORS } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { projectId: string; proposalId: string }
+}
+
+// Add a variation to the proposal; it starts at revision 1
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { planData, message } = await request.json()
+
+    if (!planData || typeof planData !== "object") {
+      return NextResponse.json({ error: "No plan provided" }, { status: 400 })
+    }
+
+    const proposal = await findProposal(params.projectId, params.proposalId, session.user.id)
+
+    if (!proposal) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 })
+    }
+
+    if (!can(proposal.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    const { id: _id, thumbnail, ...plan } = planData
+    const picture = thumbnailFor(plan, thumbnail)
+
+    const floorPlan = await revisionTransaction(async (tx) => {
+      const floorPlan = await tx.floorPlan.create({
+        data: { proposalId: params.proposalId, planData: plan, thumbnail: picture },
+      })
+      await commitRevision(tx, floorPlan.id, { planData: plan, thumbnail: picture, message, authorId: session.user.id })
+      return floorPlan
+    })
+
+    return NextResponse.json({ floorPlan }, { status: 201 })
+  } catch (error) {
+    console.error("Create variation error:", error)
+    return NextResponse.json(
+      { error: "Failed to create variation" },
+      { status: 500 }
+    )
+  }
+}
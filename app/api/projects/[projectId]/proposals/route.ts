@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { commitRevision, revisionTransaction, thumbnailFor } from "@/lib/plan-revisions"
+import { CREATION_ORDER, findProject, proposalLabel, can, PERMISSION_ERRORS } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { projectId: string }
+}
+
+interface CreateProposalRequest {
+  label?: string // Defaults to the next "Nth proposal"
+  variations?: any[] // Plans to add, each starting at revision 1
+  message?: string
+}
+
+// Add a proposal to the project, optionally with its variations
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { label, variations = [], message }: CreateProposalRequest = await request.json()
+
+    if (!Array.isArray(variations)) {
+      return NextResponse.json({ error: "variations must be a list" }, { status: 400 })
+    }
+
+    const project = await findProject(params.projectId, session.user.id)
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    if (!can(project.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    // Drawn up front so the transaction only writes
+    const plans = variations.map(({ id: _id, thumbnail, ...planData }) => ({
+      planData,
+      thumbnail: thumbnailFor(planData, thumbnail),
+    }))
+
+    const proposal = await revisionTransaction(async (tx) => {
+      const count = await tx.proposal.count({ where: { projectId: params.projectId } })
+      const proposal = await tx.proposal.create({
+        data: { projectId: params.projectId, label: label?.trim() || proposalLabel(count) },
+      })
+
+      for (const { planData, thumbnail } of plans) {
+        const floorPlan = await tx.floorPlan.create({
+          data: { proposalId: proposal.id, planData, thumbnail },
+        })
+        await commitRevision(tx, floorPlan.id, { planData, thumbnail, message, authorId: session.user.id })
+      }
+
+      return tx.proposal.findUnique({
+        where: { id: proposal.id },
+        include: { variations: { orderBy: CREATION_ORDER } },
+      })
+    })
+
+    return NextResponse.json({ proposal }, { status: 201 })
+  } catch (error) {
+    console.error("Create proposal error:", error)
+    return NextResponse.json(
+      { error: "Failed to create proposal" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findProject, PROJECT_CONTENTS, can, PERMISSION_ERRORS } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { projectId: string }
+}
+
+// The project with its proposals and variations, in the order they were
+// added, and the user's role on it
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const access = await findProject(params.projectId, session.user.id)
+
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: access.id },
+      include: { ...PROJECT_CONTENTS, organisation: { select: { id: true, name: true } } },
+    })
+
+    return NextResponse.json({ project: { ...project, role: access.role } })
+  } catch (error) {
+    console.error("Get project error:", error)
+    return NextResponse.json(
+      { error: "Failed to load project" },
+      { status: 500 }
+    )
+  }
+}
+
+// Rename the project
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { name } = await request.json()
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "Project name is required" }, { status: 400 })
+    }
+
+    const project = await findProject(params.projectId, session.user.id)
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    if (!can(project.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    const renamed = await prisma.project.update({
+      where: { id: params.projectId },
+      data: { name: name.trim() },
+    })
+
+    return NextResponse.json({ project: renamed })
+  } catch (error) {
+    console.error("Rename project error:", error)
+    return NextResponse.json(
+      { error: "Failed to rename project" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete the project with its proposals, floor plans and their revisions
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const project = await findProject(params.projectId, session.user.id)
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    if (!can(project.role, "manage")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.manage }, { status: 403 })
+    }
+
+    await prisma.project.delete({ where: { id: params.projectId } })
+
+    return NextResponse.json({ deleted: params.projectId })
+  } catch (error) {
+    console.error("Delete project error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete project" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findProject, can, PERMISSION_ERRORS } from "@/lib/project-access"
+
+interface RouteParams {
+  params: { projectId: string; linkId: string }
+}
+
+// Revoke the link. It stays listed, with the approvals sent through it.
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const project = await findProject(params.projectId, session.user.id)
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    if (!can(project.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    const { count } = await prisma.shareLink.updateMany({
+      where: { id: params.linkId, projectId: params.projectId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ revoked: params.linkId })
+  } catch (error) {
+    console.error("Revoke share link error:", error)
+    return NextResponse.json(
+      { error: "Failed to revoke share link" },
+      { status: 500 }
+    )
+  }
+}
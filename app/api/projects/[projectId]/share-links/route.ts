@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import bcrypt from "bcryptjs"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findProject, can, PERMISSION_ERRORS } from "@/lib/project-access"
+import { MAX_SHARE_DAYS, SHARE_LINK_FIELDS, createShareToken, describeShareLink } from "@/lib/share-links"
+
+interface RouteParams {
+  params: { projectId: string }
+}
+
+// The project's share links, newest first, with approvals received
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const project = await findProject(params.projectId, session.user.id)
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    if (!can(project.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    const links = await prisma.shareLink.findMany({
+      where: { projectId: params.projectId },
+      orderBy: { createdAt: "desc" },
+      select: SHARE_LINK_FIELDS,
+    })
+
+    return NextResponse.json({ shareLinks: links.map(describeShareLink) })
+  } catch (error) {
+    console.error("List share links error:", error)
+    return NextResponse.json(
+      { error: "Failed to load share links" },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a link to the whole project, or to one variation with floorPlanId
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { floorPlanId, password, expiresInDays, allowApproval } = await request.json()
+
+    if (
+      expiresInDays !== undefined && expiresInDays !== null &&
+      !(Number.isInteger(expiresInDays) && expiresInDays >= 1 && expiresInDays <= MAX_SHARE_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `expiresInDays must be a whole number of days from 1 to ${MAX_SHARE_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    if (password !== undefined && password !== null && (typeof password !== "string" || password.length < 4)) {
+      return NextResponse.json({ error: "Passwords need at least 4 characters" }, { status: 400 })
+    }
+
+    const project = await findProject(params.projectId, session.user.id)
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    if (!can(project.role, "edit")) {
+      return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+    }
+
+    if (floorPlanId) {
+      const floorPlan = await prisma.floorPlan.findFirst({
+        where: { id: floorPlanId, proposal: { projectId: params.projectId } },
+      })
+
+      if (!floorPlan) {
+        return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+      }
+    }
+
+    const link = await prisma.shareLink.create({
+      data: {
+        token: createShareToken(),
+        projectId: params.projectId,
+        floorPlanId: floorPlanId || null,
+        passwordHash: password ? await bcrypt.hash(password, 12) : null,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+        allowApproval: allowApproval === true,
+        createdById: session.user.id,
+      },
+      select: SHARE_LINK_FIELDS,
+    })
+
+    return NextResponse.json({ shareLink: describeShareLink(link) }, { status: 201 })
+  } catch (error) {
+    console.error("Create share link error:", error)
+    return NextResponse.json(
+      { error: "Failed to create share link" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { CREATION_ORDER, projectsAccessibleTo } from "@/lib/project-access"
+import { findMembership, hasRole } from "@/lib/organisations"
+
+// Projects the user can see, most recently updated first, with counts and
+// the first variation thumbnail instead of the plans themselves.
+// ?organisationId= narrows the list to one organisation, or to the user's
+// own projects with "personal".
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const organisationId = new URL(request.url).searchParams.get("organisationId")
+
+    const projects = await prisma.project.findMany({
+      where: {
+        ...projectsAccessibleTo(session.user.id),
+        ...(organisationId ? { organisationId: organisationId === "personal" ? null : organisationId } : {}),
+      },
+      orderBy: { updatedAt: "desc" },
+      include: {
+        organisation: { select: { id: true, name: true } },
+        proposals: {
+          orderBy: CREATION_ORDER,
+          select: {
+            _count: { select: { variations: true } },
+            variations: {
+              where: { thumbnail: { not: null } },
+              orderBy: CREATION_ORDER,
+              take: 1,
+              select: { thumbnail: true },
+            },
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      projects: projects.map(({ proposals, ...project }) => ({
+        ...project,
+        proposalCount: proposals.length,
+        variationCount: proposals.reduce((sum, proposal) => sum + proposal._count.variations, 0),
+        thumbnail: proposals.flatMap((proposal) => proposal.variations)[0]?.thumbnail ?? null,
+      })),
+    })
+  } catch (error) {
+    console.error("List projects error:", error)
+    return NextResponse.json(
+      { error: "Failed to load projects" },
+      { status: 500 }
+    )
+  }
+}
+
+// Create an empty project, personal or in an organisation the user edits for
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { name, organisationId } = await request.json()
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "Project name is required" }, { status: 400 })
+    }
+
+    if (organisationId) {
+      const membership = await findMembership(organisationId, session.user.id)
+      if (!hasRole(membership?.role, "editor")) {
+        return NextResponse.json({ error: "Only editors can add projects to this organisation" }, { status: 403 })
+      }
+    }
+
+    const project = await prisma.project.create({
+      data: { userId: session.user.id, organisationId: organisationId || null, name: name.trim() },
+    })
+
+    return NextResponse.json({ project }, { status: 201 })
+  } catch (error) {
+    console.error("Create project error:", error)
+    return NextResponse.json(
+      { error: "Failed to create project" },
+      { status: 500 }
+    )
+  }
+}
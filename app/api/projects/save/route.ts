@@ -1,8 +1,24 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
-import { prisma } from "@/lib/prisma"
+import { commitRevision, revisionTransaction, thumbnailFor } from "@/lib/plan-revisions"
+import { can, CREATION_ORDER, findProject, PERMISSION_ERRORS, PROJECT_CONTENTS, proposalLabel } from "@/lib/project-access"
+import { findMembership, hasRole } from "@/lib/organisations"
 
+interface SaveProjectRequest {
+  projectId?: string // Update this project instead of creating one
+  projectName: string
+  organisationId?: string // Create the project in this organisation
+  proposals: any[][] // Variations per proposal; saved ones carry their floor plan id
+  message?: string // Recorded on the revisions this save writes
+}
+
+/**
+ * Create a project, or update one with projectId. Proposals are matched by
+ * position and variations by id; a variation whose plan changed gets a new
+ * revision, new variations start at revision 1. Responds with the project
+ * and the floor plan ids in the order they were sent.
+ */
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions)
@@ -11,34 +27,82 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const { projectName, proposals } = await request.json()
-
-    // Create project with proposals and variations
-    const project = await prisma.project.create({
-      data: {
-        userId: session.user.id,
-        name: projectName,
-        proposals: {
-          create: proposals.map((proposalVariations: any[], index: number) => ({
-            label: `${index + 1}${getOrdinalSuffix(index + 1)} proposal`,
-            variations: {
-              create: proposalVariations.map((variation: any) => ({
-                planData: variation,
-              })),
-            },
-          })),
-        },
-      },
-      include: {
-        proposals: {
-          include: {
-            variations: true,
-          },
-        },
-      },
+    const { projectId, projectName, organisationId, proposals, message }: SaveProjectRequest = await request.json()
+    const userId = session.user.id
+
+    if (projectId) {
+      const existing = await findProject(projectId, userId)
+      if (!existing) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 })
+      }
+      if (!can(existing.role, "edit")) {
+        return NextResponse.json({ error: PERMISSION_ERRORS.edit }, { status: 403 })
+      }
+    } else if (organisationId) {
+      const membership = await findMembership(organisationId, userId)
+      if (!hasRole(membership?.role, "editor")) {
+        return NextResponse.json({ error: "Only editors can add projects to this organisation" }, { status: 403 })
+      }
+    }
+
+    // Drawn up front so the transaction only writes
+    const prepared = proposals.map((proposalVariations) =>
+      proposalVariations.map(({ id, thumbnail, ...planData }) => ({
+        id: id as string | undefined,
+        planData,
+        thumbnail: thumbnailFor(planData, thumbnail),
+      }))
+    )
+
+    const { project, floorPlanIds } = await revisionTransaction(async (tx) => {
+      const saved = projectId
+        ? await tx.project.update({ where: { id: projectId }, data: { name: projectName } })
+        : await tx.project.create({ data: { userId, organisationId, name: projectName } })
+
+      const existingProposals = projectId
+        ? await tx.proposal.findMany({
+            where: { projectId },
+            orderBy: CREATION_ORDER,
+            include: { variations: { select: { id: true } } },
+          })
+        : []
+
+      const floorPlanIds: string[][] = []
+      for (const [index, proposalVariations] of prepared.entries()) {
+        const proposal =
+          existingProposals[index] ??
+          (await tx.proposal.create({
+            data: { projectId: saved.id, label: proposalLabel(index) },
+          }))
+        const existingIds = new Set<string>((existingProposals[index]?.variations ?? []).map((variation) => variation.id))
+
+        const ids: string[] = []
+        for (const { id, planData, thumbnail } of proposalVariations) {
+          const revision = { planData, thumbnail, message, authorId: userId }
+
+          if (id && existingIds.has(id)) {
+            await commitRevision(tx, id, revision)
+            ids.push(id)
+          } else {
+            const floorPlan = await tx.floorPlan.create({
+              data: { proposalId: proposal.id, planData, thumbnail: revision.thumbnail },
+            })
+            await commitRevision(tx, floorPlan.id, revision)
+            ids.push(floorPlan.id)
+          }
+        }
+        floorPlanIds.push(ids)
+      }
+
+      const project = await tx.project.findUnique({
+        where: { id: saved.id },
+        include: PROJECT_CONTENTS,
+      })
+
+      return { project, floorPlanIds }
     })
 
-    return NextResponse.json({ project })
+    return NextResponse.json({ project, floorPlanIds })
   } catch (error) {
     console.error("Save project error:", error)
     return NextResponse.json(
@@ -47,12 +111,3 @@ export async function POST(request: Request) {
     )
   }
 }
-
-function getOrdinalSuffix(num: number): string {
-  const j = num % 10
-  const k = num % 100
-  if (j === 1 && k !== 11) return "st"
-  if (j === 2 && k !== 12) return "nd"
-  if (j === 3 && k !== 13) return "rd"
-  return "th"
-}
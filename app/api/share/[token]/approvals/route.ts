@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import {
+  MAX_APPROVAL_COMMENT_LENGTH,
+  canViewShareLink,
+  findActiveShareLink,
+  shareCookieName,
+} from "@/lib/share-links"
+
+interface RouteParams {
+  params: { token: string }
+}
+
+// Approve a shared variation: { floorPlanId, name, comment? }
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const link = await findActiveShareLink(params.token)
+
+    if (!link) {
+      return NextResponse.json({ error: "This link has expired or does not exist" }, { status: 404 })
+    }
+
+    if (!canViewShareLink(link, request.cookies.get(shareCookieName(link.id))?.value)) {
+      return NextResponse.json({ error: "Password required", passwordRequired: true }, { status: 401 })
+    }
+
+    if (!link.allowApproval) {
+      return NextResponse.json({ error: "This link does not take approvals" }, { status: 403 })
+    }
+
+    const { floorPlanId, name, comment } = await request.json()
+    const approver = typeof name === "string" ? name.trim() : ""
+    const note = typeof comment === "string" ? comment.trim() : ""
+
+    if (!approver) {
+      return NextResponse.json({ error: "Please give your name" }, { status: 400 })
+    }
+
+    if (note.length > MAX_APPROVAL_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comments are limited to ${MAX_APPROVAL_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    // Only variations the link shows can be approved through it
+    const floorPlan = typeof floorPlanId === "string" && (!link.floorPlanId || link.floorPlanId === floorPlanId)
+      ? await prisma.floorPlan.findFirst({ where: { id: floorPlanId, proposal: { projectId: link.projectId } } })
+      : null
+
+    if (!floorPlan) {
+      return NextResponse.json({ error: "Floor plan not found" }, { status: 404 })
+    }
+
+    const approval = await prisma.floorPlanApproval.create({
+      data: {
+        floorPlanId: floorPlan.id,
+        shareLinkId: link.id,
+        name: approver.slice(0, 100),
+        comment: note || null,
+      },
+      select: { name: true, comment: true, createdAt: true },
+    })
+
+    return NextResponse.json({ approval }, { status: 201 })
+  } catch (error) {
+    console.error("Approve floor plan error:", error)
+    return NextResponse.json(
+      { error: "Failed to record approval" },
+      { status: 500 }
+    )
+  }
+}
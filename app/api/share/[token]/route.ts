@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { canViewShareLink, findActiveShareLink, shareCookieName, sharedProject } from "@/lib/share-links"
+
+interface RouteParams {
+  params: { token: string }
+}
+
+// The shared project or variation, read-only. No account needed; links with
+// a password need unlocking first.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const link = await findActiveShareLink(params.token)
+
+    if (!link) {
+      return NextResponse.json({ error: "This link has expired or does not exist" }, { status: 404 })
+    }
+
+    if (!canViewShareLink(link, request.cookies.get(shareCookieName(link.id))?.value)) {
+      return NextResponse.json({ error: "Password required", passwordRequired: true }, { status: 401 })
+    }
+
+    const project = await sharedProject(link)
+
+    if (!project) {
+      return NextResponse.json({ error: "This link has expired or does not exist" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      project,
+      allowApproval: link.allowApproval,
+      expiresAt: link.expiresAt,
+    })
+  } catch (error) {
+    console.error("Open share link error:", error)
+    return NextResponse.json(
+      { error: "Failed to open shared plan" },
+      { status: 500 }
+    )
+  }
+}
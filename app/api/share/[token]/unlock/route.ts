@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import bcrypt from "bcryptjs"
+import { rateLimitHeaders } from "@/lib/rate-limit"
+import { checkUnlockAttempt, findActiveShareLink, shareAccessKey, shareCookieName } from "@/lib/share-links"
+
+interface RouteParams {
+  params: { token: string }
+}
+
+// Longest a viewer stays unlocked (seconds)
+const UNLOCK_MAX_AGE = 7 * 24 * 60 * 60
+
+// Check the link's password; a match is remembered in a cookie
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const link = await findActiveShareLink(params.token)
+
+    if (!link) {
+      return NextResponse.json({ error: "This link has expired or does not exist" }, { status: 404 })
+    }
+
+    const { password } = await request.json()
+
+    if (link.passwordHash) {
+      const attempt = checkUnlockAttempt(link.id)
+
+      if (!attempt.allowed) {
+        return NextResponse.json(
+          { error: "Too many password attempts. Try again later." },
+          { status: 429, headers: rateLimitHeaders(attempt) }
+        )
+      }
+
+      if (typeof password !== "string" || !(await bcrypt.compare(password, link.passwordHash))) {
+        return NextResponse.json({ error: "Incorrect password" }, { status: 401 })
+      }
+    }
+
+    const response = NextResponse.json({ unlocked: true })
+    response.cookies.set(shareCookieName(link.id), shareAccessKey(link), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: link.expiresAt
+        ? Math.min(UNLOCK_MAX_AGE, Math.ceil((link.expiresAt.getTime() - Date.now()) / 1000))
+        : UNLOCK_MAX_AGE,
+    })
+
+    return response
+  } catch (error) {
+    console.error("Unlock share link error:", error)
+    return NextResponse.json(
+      { error: "Failed to unlock shared plan" },
+      { status: 500 }
+    )
+  }
+}
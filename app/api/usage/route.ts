@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { usageSummary } from "@/lib/usage"
+
+// This month's usage against the user's and their organisations' quotas
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    return NextResponse.json(await usageSummary(session.user.id))
+  } catch (error) {
+    console.error("Get usage error:", error)
+    return NextResponse.json({ error: "Failed to load usage" }, { status: 500 })
+  }
+}
@@ -2,25 +2,53 @@ import { getServerSession } from "next-auth"
 import { redirect } from "next/navigation"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { projectsAccessibleTo } from "@/lib/project-access"
+import { hasRole } from "@/lib/organisations"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
-import { Plus, Folder } from "lucide-react"
+import { NewOrganisationButton } from "@/components/dashboard/new-organisation-button"
+import { Plus, Folder, Users, BarChart3 } from "lucide-react"
 
-export default async function DashboardPage() {
+interface DashboardPageProps {
+  // ?organisation= shows one organisation's projects, or "personal" the user's own
+  searchParams: { organisation?: string }
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
   const session = await getServerSession(authOptions)
 
   if (!session) {
     redirect("/login")
   }
 
+  const memberships = await prisma.organisationMember.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: "asc" },
+    include: { organisation: { select: { id: true, name: true } } },
+  })
+
+  const selected = searchParams.organisation
+  const membership = memberships.find((member) => member.organisationId === selected)
+
+  if (selected && selected !== "personal" && !membership) {
+    redirect("/dashboard")
+  }
+
+  // New projects go to the organisation being viewed, if the user edits for it
+  const newProjectHref = membership
+    ? hasRole(membership.role, "editor") ? `/editor/new?organisationId=${membership.organisationId}` : null
+    : "/editor/new"
+
   const projects = await prisma.project.findMany({
     where: {
-      userId: session.user.id,
+      ...projectsAccessibleTo(session.user.id),
+      ...(selected ? { organisationId: membership ? membership.organisationId : null } : {}),
     },
     orderBy: {
       createdAt: "desc",
     },
     include: {
+      organisation: { select: { name: true } },
       proposals: {
         include: {
           variations: true,
@@ -40,6 +68,12 @@ export default async function DashboardPage() {
             </Link>
             
             <div className="flex items-center gap-4">
+              <Link href="/dashboard/usage">
+                <Button variant="ghost">
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  Usage
+                </Button>
+              </Link>
               <span className="text-sm text-zinc-400">{session.user.email}</span>
               <Link href="/api/auth/signout">
                 <Button variant="ghost">Sign Out</Button>
@@ -52,50 +86,104 @@ export default async function DashboardPage() {
       <div className="container mx-auto px-4 py-12">
         <div className="mb-8 flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold text-white">My Projects</h1>
-            <p className="mt-2 text-zinc-400">Manage your floor plan projects</p>
+            <h1 className="text-3xl font-bold text-white">
+              {membership ? membership.organisation.name : selected ? "Personal Projects" : "My Projects"}
+            </h1>
+            <p className="mt-2 text-zinc-400">
+              {membership ? `Your role: ${membership.role}` : "Manage your floor plan projects"}
+            </p>
           </div>
           
-          <Link href="/editor/new">
-            <Button size="lg">
-              <Plus className="mr-2 h-4 w-4" />
-              New Project
-            </Button>
+          <div className="flex items-center gap-2">
+            {membership && (
+              <Link href={`/organisations/${membership.organisationId}`}>
+                <Button variant="outline" size="lg">
+                  <Users className="mr-2 h-4 w-4" />
+                  Team
+                </Button>
+              </Link>
+            )}
+            {newProjectHref && (
+              <Link href={newProjectHref}>
+                <Button size="lg">
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Project
+                </Button>
+              </Link>
+            )}
+          </div>
+        </div>
+
+        <div className="mb-8 flex flex-wrap items-center gap-2">
+          <Link href="/dashboard">
+            <Button variant={selected ? "ghost" : "default"} size="sm">All</Button>
           </Link>
+          <Link href="/dashboard?organisation=personal">
+            <Button variant={selected === "personal" ? "default" : "ghost"} size="sm">Personal</Button>
+          </Link>
+          {memberships.map((member) => (
+            <Link key={member.organisationId} href={`/dashboard?organisation=${member.organisationId}`}>
+              <Button variant={selected === member.organisationId ? "default" : "ghost"} size="sm">
+                {member.organisation.name}
+              </Button>
+            </Link>
+          ))}
+          <NewOrganisationButton />
         </div>
 
         {projects.length === 0 ? (
           <div className="flex flex-col items-center justify-center rounded-lg border border-zinc-800 bg-zinc-900/50 py-20">
             <Folder className="mb-4 h-16 w-16 text-zinc-700" />
             <h3 className="mb-2 text-xl font-semibold text-white">No projects yet</h3>
-            <p className="mb-6 text-zinc-400">Create your first floor plan to get started</p>
-            <Link href="/editor/new">
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Create Project
-              </Button>
-            </Link>
+            <p className="mb-6 text-zinc-400">
+              {newProjectHref ? "Create your first floor plan to get started" : "Projects shared with you will appear here"}
+            </p>
+            {newProjectHref && (
+              <Link href={newProjectHref}>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Project
+                </Button>
+              </Link>
+            )}
           </div>
         ) : (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {projects.map((project: any) => (
-              <Link
-                key={project.id}
-                href={`/editor/${project.id}`}
-                className="group rounded-lg border border-zinc-800 bg-zinc-900/50 p-6 transition-all hover:border-zinc-700 hover:bg-zinc-900"
-              >
-                <div className="mb-4 flex h-40 items-center justify-center rounded-md bg-zinc-800">
-                  <Folder className="h-16 w-16 text-zinc-600" />
-                </div>
-                <h3 className="mb-2 text-lg font-semibold text-white">{project.name}</h3>
-                <p className="text-sm text-zinc-400">
-                  {project.proposals.length} proposal{project.proposals.length !== 1 ? "s" : ""}
-                </p>
-                <p className="text-xs text-zinc-500">
-                  Updated {new Date(project.updatedAt).toLocaleDateString()}
-                </p>
-              </Link>
-            ))}
+            {projects.map((project) => {
+              // First saved variation with a rendered thumbnail
+              const thumbnail = project.proposals
+                .flatMap((proposal) => proposal.variations)
+                .find((variation) => variation.thumbnail)?.thumbnail
+
+              return (
+                <Link
+                  key={project.id}
+                  href={`/editor/${project.id}`}
+                  className="group rounded-lg border border-zinc-800 bg-zinc-900/50 p-6 transition-all hover:border-zinc-700 hover:bg-zinc-900"
+                >
+                  <div className="mb-4 flex h-40 items-center justify-center overflow-hidden rounded-md bg-zinc-800">
+                    {thumbnail ? (
+                      <img src={thumbnail} alt={project.name} className="h-full w-full bg-white object-contain" />
+                    ) : (
+                      <Folder className="h-16 w-16 text-zinc-600" />
+                    )}
+                  </div>
+                  <h3 className="mb-2 text-lg font-semibold text-white">{project.name}</h3>
+                  {!selected && project.organisation && (
+                    <p className="mb-1 flex items-center gap-1 text-xs text-blue-400">
+                      <Users className="h-3 w-3" />
+                      {project.organisation.name}
+                    </p>
+                  )}
+                  <p className="text-sm text-zinc-400">
+                    {project.proposals.length} proposal{project.proposals.length !== 1 ? "s" : ""}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    Updated {new Date(project.updatedAt).toLocaleDateString()}
+                  </p>
+                </Link>
+              )
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,155 @@
+import { getServerSession } from "next-auth"
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { authOptions } from "@/lib/auth"
+import { QuotaStatus, usageSummary } from "@/lib/usage"
+import { Button } from "@/components/ui/button"
+import { ChevronLeft } from "lucide-react"
+
+function formatCount(value: number) {
+  return value.toLocaleString("en-US")
+}
+
+function Meter({ label, used, limit }: { label: string; used: number; limit: number | null }) {
+  const percent = limit ? Math.min(100, (used / limit) * 100) : 0
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-zinc-300">{label}</span>
+        <span className="text-zinc-400">
+          {formatCount(used)} / {limit === null ? "Unlimited" : formatCount(limit)}
+        </span>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-zinc-800">
+        <div
+          className={`h-full rounded-full ${percent >= 100 ? "bg-red-500" : percent >= 80 ? "bg-amber-500" : "bg-blue-500"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+function QuotaCard({ title, subtitle, quota, children }: {
+  title: string
+  subtitle: string
+  quota: QuotaStatus
+  children?: React.ReactNode
+}) {
+  return (
+    <section className="space-y-4 rounded-lg border border-zinc-800 bg-zinc-900/50 p-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">{title}</h2>
+          <p className="text-sm text-zinc-400">{subtitle}</p>
+        </div>
+        <span className="rounded-full bg-zinc-800 px-3 py-1 text-xs text-zinc-300">{quota.plan.name}</span>
+      </div>
+      <Meter label="Generations" used={quota.used.generations} limit={quota.plan.generations} />
+      <Meter label="Tokens" used={quota.used.tokens} limit={quota.plan.tokens} />
+      {quota.exceeded && (
+        <p className="text-sm text-red-400">
+          The monthly {quota.exceeded === "tokens" ? "token" : "generation"} allowance is used up.
+        </p>
+      )}
+      {children}
+    </section>
+  )
+}
+
+export default async function UsagePage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  const { personal, organisations, recent } = await usageSummary(session.user.id)
+  const resetsOn = personal.resetsAt.toLocaleDateString("en-US", { month: "long", day: "numeric", timeZone: "UTC" })
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      <nav className="flex h-16 items-center gap-4 border-b border-zinc-800 bg-zinc-900 px-6">
+        <Link href="/dashboard">
+          <Button variant="ghost" size="icon">
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-gradient-to-br from-blue-500 to-purple-600"></div>
+          <span className="text-xl font-bold text-white">PlotSync</span>
+        </div>
+      </nav>
+
+      <div className="container mx-auto max-w-3xl space-y-8 px-4 py-12">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Usage</h1>
+          <p className="mt-2 text-zinc-400">This month&apos;s generations and tokens. Allowances reset on {resetsOn}.</p>
+        </div>
+
+        <QuotaCard title="Personal" subtitle="Projects you own yourself" quota={personal} />
+
+        {organisations.map(({ organisation, role, quota, members }) => (
+          <QuotaCard key={organisation.id} title={organisation.name} subtitle={`Your role: ${role}`} quota={quota}>
+            {members && members.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-500">
+                    <th className="py-1 font-normal">Member</th>
+                    <th className="py-1 text-right font-normal">Generations</th>
+                    <th className="py-1 text-right font-normal">Tokens</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map((member) => (
+                    <tr key={member.user?.id ?? "removed"} className="border-t border-zinc-800 text-zinc-300">
+                      <td className="py-1">{member.user ? member.user.name || member.user.email : "Former members"}</td>
+                      <td className="py-1 text-right">{formatCount(member.generations)}</td>
+                      <td className="py-1 text-right">{formatCount(member.tokens)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </QuotaCard>
+        ))}
+
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-white">Recent activity</h2>
+          {recent.length === 0 ? (
+            <p className="text-sm text-zinc-400">No generations yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-zinc-500">
+                  <th className="py-1 font-normal">When</th>
+                  <th className="py-1 font-normal">Kind</th>
+                  <th className="py-1 font-normal">Billed to</th>
+                  <th className="py-1 font-normal">Model</th>
+                  <th className="py-1 text-right font-normal">Tokens</th>
+                  <th className="py-1 text-right font-normal">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((record) => (
+                  <tr key={record.id} className="border-t border-zinc-800 text-zinc-300">
+                    <td className="py-1">{new Date(record.createdAt).toLocaleString("en-US")}</td>
+                    <td className="py-1 capitalize">
+                      {record.kind}
+                      {record.kind === "generation" && <span className="text-zinc-500"> ×{record.variationCount}</span>}
+                    </td>
+                    <td className="py-1">{record.organisation?.name ?? "Personal"}</td>
+                    <td className="py-1 text-zinc-400">{record.model ?? "Rule-based"}</td>
+                    <td className="py-1 text-right">{formatCount(record.totalTokens)}</td>
+                    <td className="py-1 text-right">{(record.latencyMs / 1000).toFixed(1)}s</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -1,21 +1,36 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useSession } from "next-auth/react"
-import { useRouter } from "next/navigation"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import dynamic from "next/dynamic"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ParameterSidebar, FloorPlanParams } from "@/components/editor/parameter-sidebar"
 import { ActionButtons } from "@/components/editor/action-buttons"
-import { VariationGallery } from "@/components/editor/variation-gallery"
+import { VariationGallery, VariationProgress } from "@/components/editor/variation-gallery"
 import { AdvancedEditPanel } from "@/components/editor/advanced-edit-panel"
 import { useToast } from "@/components/ui/use-toast"
-import { ChevronLeft, ChevronRight, Eye, Code2, Download } from "lucide-react"
+import { ChevronLeft, ChevronRight, Eye, Code2, Download, Ruler, MessageSquare, Share2 } from "lucide-react"
 import { FloorPlan3DViewer } from "@/components/editor/floor-plan-3d-viewer"
 import { PlotSyncLogo } from "@/components/ui/plotsync-logo"
 import { FloorPlanSVGExporter, downloadFloorPlanSVG } from "@/components/editor/floor-plan-svg-exporter"
+import { AreaReportPanel } from "@/components/editor/area-report-panel"
+import { CommentsPanel } from "@/components/editor/comments-panel"
+import { ShareDialog } from "@/components/editor/share-dialog"
+import { anchorAt } from "@/lib/floor-plan/comment-anchors"
+import { readGenerationEvents } from "@/lib/floor-plan/generation-events"
+import { fromLegacyFloorPlan, fromLegacyLayout, toLegacyFloorPlan, toLegacyLayout } from "@/lib/floor-plan/legacy-adapter"
+import { useEditorStore } from "@/lib/editor/editor-store"
+import {
+  BuildingGeometry,
+  CommentAnchor,
+  CommentPin,
+  FloorPlanGeometry,
+  FloorPlanSpecification,
+  Point2D,
+} from "@/lib/floor-plan/types"
 
 // Dynamically import FloorPlanCanvas to avoid SSR issues with Konva
 const FloorPlanCanvas = dynamic(
@@ -30,7 +45,20 @@ const FloorPlanCanvas = dynamic(
   }
 )
 
-interface FloorPlanData {
+// The editable canvas also shares edits with everyone else on the saved plan
+const EditableFloorPlanCanvas = dynamic(
+  () => import("@/components/editor/editable-floor-plan-canvas").then(mod => ({ default: mod.EditableFloorPlanCanvas })),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="flex h-full w-full items-center justify-center bg-white">
+        <div className="text-gray-600">Loading canvas...</div>
+      </div>
+    )
+  }
+)
+
+interface FloorPlanLayout {
   walls: Array<{ x1: number; y1: number; x2: number; y2: number }>
   rooms: Array<{
     name: string
@@ -44,17 +72,76 @@ interface FloorPlanData {
   windows: Array<{ x: number; y: number; width: number }>
 }
 
+interface FloorPlanLevel extends FloorPlanLayout {
+  level: number
+  name: string
+  elevation: number
+}
+
+interface FloorPlanData extends FloorPlanLayout {
+  // Saved floor plan, once the project has been saved
+  id?: string
+  // Present on multi-storey plans; the top-level fields mirror the ground floor
+  levels?: FloorPlanLevel[]
+  // PNG rendered with the generated plan
+  thumbnail?: string
+  // Pipeline output kept for exports until the plan is edited
+  geometry?: FloorPlanGeometry
+  building?: BuildingGeometry
+  specification?: FloorPlanSpecification
+}
+
+// The parts of a saved project the editor reads back
+interface SavedProject {
+  id: string
+  name: string
+  role: string
+  organisationId: string | null
+  proposals: Array<{
+    variations: Array<{ id: string; planData: FloorPlanData; thumbnail: string | null }>
+  }>
+}
+
+const VARIATION_COUNT = 5
+
+// Compares a layout with the editor store's copy of it
+function layoutKey({ walls, rooms, doors, windows }: FloorPlanLayout): string {
+  return JSON.stringify({ walls, rooms, doors, windows })
+}
+
 export default function EditorPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  const { projectId: routeProjectId } = useParams<{ projectId: string }>()
+  // A new project is saved to this organisation instead of the user's own
+  const organisationId = useSearchParams().get("organisationId")
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
+  const [loadingProject, setLoadingProject] = useState(routeProjectId !== "new")
   const [proposals, setProposals] = useState<FloorPlanData[][]>([])
   const [currentProposal, setCurrentProposal] = useState(0)
   const [currentVariation, setCurrentVariation] = useState(0)
+  const [currentLevel, setCurrentLevel] = useState(0)
   const [saved, setSaved] = useState(false)
+  // Set once the project is loaded or first saved; later saves update it
+  const [savedProjectId, setSavedProjectId] = useState<string | null>(null)
+  const [projectName, setProjectName] = useState(() => `Floor Plan ${new Date().toLocaleDateString()}`)
+  // The user's role on the project; whoever starts a project owns it
+  const [role, setRole] = useState("owner")
+  // Generations for an organisation's project count against its quota
+  const [projectOrganisationId, setProjectOrganisationId] = useState<string | null>(null)
+  const billedOrganisationId = projectOrganisationId ?? organisationId
   const [isEditMode, setIsEditMode] = useState(false)
-  const [viewMode, setViewMode] = useState<"2d" | "3d" | "svg">("2d")
+  const [viewMode, setViewMode] = useState<"2d" | "3d" | "svg" | "report">("2d")
+  // Variations of the proposal being generated that have not arrived yet, by index
+  const [pendingVariations, setPendingVariations] = useState<Record<number, VariationProgress>>({})
+  // Review comments on the saved plan being viewed
+  const [showComments, setShowComments] = useState(false)
+  const [placingComment, setPlacingComment] = useState(false)
+  const [pendingAnchor, setPendingAnchor] = useState<CommentAnchor | null>(null)
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null)
+  const [commentPins, setCommentPins] = useState<CommentPin[]>([])
+  const [sharing, setSharing] = useState(false)
 
   useEffect(() => {
     if (status === "unauthenticated") {
@@ -62,45 +149,230 @@ export default function EditorPage() {
     }
   }, [status, router])
 
+  // Resume a saved project. The URL switches to the project's own after the
+  // first save, which needs no reload.
+  useEffect(() => {
+    if (status !== "authenticated" || routeProjectId === "new" || routeProjectId === savedProjectId) return
+    let cancelled = false
+
+    const loadProject = async () => {
+      setLoadingProject(true)
+      try {
+        const response = await fetch(`/api/projects/${routeProjectId}`)
+        if (!response.ok) {
+          throw new Error(`Loading project failed (${response.status})`)
+        }
+
+        const { project }: { project: SavedProject } = await response.json()
+        if (cancelled) return
+
+        setSavedProjectId(project.id)
+        setProjectName(project.name)
+        setRole(project.role)
+        setProjectOrganisationId(project.organisationId)
+        setProposals(
+          project.proposals.map((proposal) =>
+            proposal.variations.map((variation) => ({
+              ...variation.planData,
+              id: variation.id,
+              thumbnail: variation.thumbnail ?? undefined,
+            }))
+          )
+        )
+        setCurrentProposal(0)
+        setCurrentVariation(0)
+        setSaved(true)
+      } catch (error) {
+        if (cancelled) return
+        console.error("Failed to load project:", error)
+        toast({
+          title: "Error",
+          description: "This project could not be opened.",
+        })
+        router.push("/dashboard")
+      } finally {
+        if (!cancelled) setLoadingProject(false)
+      }
+    }
+
+    void loadProject()
+    return () => {
+      cancelled = true
+    }
+  }, [status, routeProjectId])
+
+  // Every plan has a ground floor, so fall back to it when switching plans
+  useEffect(() => {
+    setCurrentLevel(0)
+  }, [currentProposal, currentVariation])
+
+  // A comment being placed belongs to the plan and level it was started on
+  useEffect(() => {
+    setPlacingComment(false)
+    setPendingAnchor(null)
+    setActiveCommentId(null)
+  }, [currentProposal, currentVariation, currentLevel])
+
+  // Manual edits go to the level being viewed. The ground floor of a
+  // multi-storey plan is stored twice (top level and levels[0]).
+  const getEditableLayouts = (plan: FloorPlanData): FloorPlanLayout[] => {
+    // The generated thumbnail and geometry no longer match once the plan is edited
+    delete plan.thumbnail
+    delete plan.geometry
+    delete plan.building
+    setSaved(false)
+    const level = plan.levels?.[currentLevel]
+    if (!level) return [plan]
+    return currentLevel === 0 ? [plan, level] : [level]
+  }
+
+  // Geometry of the level being viewed: as generated, or rebuilt once edited
+  const getLevelGeometry = (plan: FloorPlanData): FloorPlanGeometry => {
+    const { geometry, building } = fromLegacyFloorPlan(plan)
+    return building?.levels[currentLevel]?.geometry ?? geometry
+  }
+
+  // In edit mode the canvas works on the editor store's copy of the level on
+  // screen. Changes made there, by this user or by collaborators, are written
+  // back to the plan; changes made here (e.g. from the edit panel) reload it.
+  const editorPlan = useEditorStore((state) => state.currentPlan)
+  const loadedPlan = useRef<FloorPlanGeometry | null>(null)
+  const syncedLayout = useRef<string | null>(null)
+  const editingPlan = isEditMode ? proposals[currentProposal]?.[currentVariation] : undefined
+  const editingLayout =
+    editingPlan?.levels && editingPlan.levels.length > 1 ? editingPlan.levels[currentLevel] ?? editingPlan : editingPlan
+  const editingKey = editingLayout ? layoutKey(editingLayout) : null
+
+  useEffect(() => {
+    if (!editingLayout) {
+      syncedLayout.current = null
+      return
+    }
+    if (editingKey === syncedLayout.current) return
+
+    syncedLayout.current = editingKey
+    loadedPlan.current = fromLegacyLayout(editingLayout)
+    useEditorStore.getState().setCurrentPlan(loadedPlan.current)
+  }, [editingKey])
+
+  useEffect(() => {
+    if (!editingLayout || !editorPlan || editorPlan === loadedPlan.current) return
+
+    const { walls, rooms, doors, windows } = toLegacyLayout(editorPlan)
+    // Furniture is not part of the shared plan, so rooms keep what they had
+    const furnished = rooms.map((room, index) => ({ ...room, furniture: editingLayout.rooms[index]?.furniture ?? room.furniture }))
+    const key = layoutKey({ walls, rooms: furnished, doors, windows })
+    if (key === syncedLayout.current) return
+    syncedLayout.current = key
+
+    setProposals((prevProposals) => {
+      const newProposals = [...prevProposals]
+      const currentPlan = newProposals[currentProposal]?.[currentVariation]
+      if (currentPlan) {
+        getEditableLayouts(currentPlan).forEach((layout) => {
+          layout.walls = walls.map((wall) => ({ ...wall }))
+          layout.rooms = furnished.map((room) => ({ ...room, furniture: [...room.furniture] }))
+          layout.doors = doors.map((door) => ({ ...door }))
+          layout.windows = windows.map((window) => ({ ...window }))
+        })
+      }
+      return newProposals
+    })
+  }, [editorPlan])
+
+  // Variations stream in as they finish; the new proposal is shown straight
+  // away with a placeholder tile for each variation still in progress
   const handleGenerate = async (params: FloorPlanParams) => {
     setLoading(true)
+    const proposalIndex = proposals.length
+    const proposalNumber = proposalIndex + 1
+    let received = 0
+
+    setProposals(prevProposals => [...prevProposals, []])
+    setCurrentProposal(proposalIndex)
+    setCurrentVariation(0)
+    setPendingVariations(
+      Object.fromEntries(Array.from({ length: VARIATION_COUNT }, (_, i) => [i, "specification"]))
+    )
+
+    const setProgress = (index: number, progress: VariationProgress | null) => {
+      setPendingVariations(prev => {
+        const next = { ...prev }
+        if (progress) {
+          next[index] = progress
+        } else {
+          delete next[index]
+        }
+        return next
+      })
+    }
+
+    // Why the server refused to generate, e.g. the monthly allowance is used up
+    let refusal: string | null = null
+
     try {
-      const response = await fetch("/api/generate-floor-plan", {
+      const query = billedOrganisationId ? `?organisationId=${billedOrganisationId}` : ""
+      const response = await fetch(`/api/generate-floor-plan-v2/stream${query}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(params),
+        body: JSON.stringify({ userInput: "", parameters: params, variationCount: VARIATION_COUNT }),
       })
 
-      const data = await response.json()
-      
-      if (data.variations) {
-        // Add new proposal to existing proposals (accumulate them)
-        setProposals(prevProposals => {
-          const newProposals = [...prevProposals, data.variations]
-          // Switch to the newly created proposal
-          setCurrentProposal(newProposals.length - 1)
-          setCurrentVariation(0)
-          return newProposals
-        })
-        setSaved(false)
-        
-        const proposalNumber = proposals.length + 1
-        const ordinal = getOrdinalSuffix(proposalNumber)
-        
-        toast({
-          title: "Success!",
-          description: `${proposalNumber}${ordinal} proposal generated with ${data.variations.length} variations`,
-        })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        if ([402, 403, 429].includes(response.status)) refusal = data.error
+        throw new Error(data.error || `Generation failed (${response.status})`)
+      }
+
+      for await (const event of readGenerationEvents(response)) {
+        if (event.type === "specification") {
+          setPendingVariations(prev =>
+            Object.fromEntries(Object.keys(prev).map(index => [index, "layout"]))
+          )
+        } else if (event.type === "layout") {
+          setProgress(event.index, "preview")
+        } else if (event.type === "variation") {
+          const plan = toLegacyFloorPlan(event.variation)
+          received++
+          setProposals(prevProposals => {
+            const newProposals = [...prevProposals]
+            newProposals[proposalIndex] = [...(newProposals[proposalIndex] || []), plan]
+            return newProposals
+          })
+          setProgress(event.index, null)
+        } else if (event.type === "error") {
+          if (event.index === undefined) {
+            throw new Error(event.error.message)
+          }
+          setProgress(event.index, "failed")
+        }
+      }
+
+      if (received === 0) {
+        throw new Error("No variations could be generated")
       }
+
+      setSaved(false)
+      const ordinal = getOrdinalSuffix(proposalNumber)
+      toast({
+        title: "Success!",
+        description: `${proposalNumber}${ordinal} proposal generated with ${received} variations`,
+      })
     } catch (error) {
       console.error("Failed to generate floor plan:", error)
+      // Drop the empty proposal; a partly streamed one is kept
+      if (received === 0) {
+        setProposals(prevProposals => prevProposals.filter((_, index) => index !== proposalIndex))
+        setCurrentProposal(Math.max(0, proposalIndex - 1))
+      }
       toast({
         title: "Error",
-        description: "Failed to generate floor plans. Please try again.",
+        description: refusal || "Failed to generate floor plans. Please try again.",
       })
     } finally {
+      setPendingVariations({})
       setLoading(false)
     }
   }
@@ -125,17 +397,39 @@ export default function EditorPage() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          projectName: `Floor Plan ${new Date().toLocaleDateString()}`,
+          projectId: savedProjectId ?? undefined,
+          projectName,
+          organisationId: organisationId ?? undefined,
           proposals,
         }),
       })
 
       if (response.ok) {
+        const { project, floorPlanIds } = await response.json()
+        setSavedProjectId(project.id)
+        if (routeProjectId !== project.id) {
+          window.history.replaceState(null, "", `/editor/${project.id}`)
+        }
+        setProposals(prevProposals =>
+          prevProposals.map((variations, proposalIndex) =>
+            variations.map((plan, variationIndex) => ({
+              ...plan,
+              id: floorPlanIds[proposalIndex]?.[variationIndex] ?? plan.id,
+            }))
+          )
+        )
         setSaved(true)
         toast({
           title: "Saved!",
           description: "Your floor plan has been saved to your projects",
         })
+      } else {
+        // e.g. the user's role no longer allows editing
+        const data = await response.json().catch(() => ({}))
+        toast({
+          title: "Error",
+          description: data.error || "Failed to save project. Please try again.",
+        })
       }
     } catch (error) {
       console.error("Failed to save project:", error)
@@ -165,6 +459,25 @@ export default function EditorPage() {
     })
   }
 
+  const handleToggleComments = () => {
+    setShowComments(!showComments)
+    setPlacingComment(false)
+    setPendingAnchor(null)
+  }
+
+  // Comments are placed on the 2D view
+  const handleStartPlacingComment = () => {
+    setViewMode("2d")
+    setPendingAnchor(null)
+    setPlacingComment(true)
+  }
+
+  const handlePlaceComment = (point: Point2D) => {
+    if (!activePlan) return
+    setPendingAnchor(anchorAt(activePlan, point, levels?.[currentLevel]?.level ?? 0))
+    setPlacingComment(false)
+  }
+
   const handleAddRoom = (room: {
     name: string
     x: number
@@ -186,7 +499,9 @@ export default function EditorPage() {
       }
       const currentPlan = newProposals[currentProposal][currentVariation]
       if (currentPlan) {
-        currentPlan.rooms = [...currentPlan.rooms, { ...room, furniture: [] }]
+        getEditableLayouts(currentPlan).forEach((layout) => {
+          layout.rooms = [...layout.rooms, { ...room, furniture: [] }]
+        })
       }
       return newProposals
     })
@@ -200,11 +515,15 @@ export default function EditorPage() {
     setProposals((prevProposals) => {
       const newProposals = [...prevProposals]
       const currentPlan = newProposals[currentProposal]?.[currentVariation]
-      if (currentPlan && currentPlan.rooms[roomIndex]) {
-        currentPlan.rooms[roomIndex].furniture = [
-          ...currentPlan.rooms[roomIndex].furniture,
-          type,
-        ]
+      if (currentPlan) {
+        getEditableLayouts(currentPlan).forEach((layout) => {
+          if (layout.rooms[roomIndex]) {
+            layout.rooms[roomIndex].furniture = [
+              ...layout.rooms[roomIndex].furniture,
+              type,
+            ]
+          }
+        })
       }
       return newProposals
     })
@@ -227,7 +546,9 @@ export default function EditorPage() {
       }
       const currentPlan = newProposals[currentProposal][currentVariation]
       if (currentPlan) {
-        currentPlan.walls = [...currentPlan.walls, wall]
+        getEditableLayouts(currentPlan).forEach((layout) => {
+          layout.walls = [...layout.walls, wall]
+        })
       }
       return newProposals
     })
@@ -250,7 +571,9 @@ export default function EditorPage() {
       }
       const currentPlan = newProposals[currentProposal][currentVariation]
       if (currentPlan) {
-        currentPlan.doors = [...currentPlan.doors, door]
+        getEditableLayouts(currentPlan).forEach((layout) => {
+          layout.doors = [...layout.doors, door]
+        })
       }
       return newProposals
     })
@@ -273,7 +596,9 @@ export default function EditorPage() {
       }
       const currentPlan = newProposals[currentProposal][currentVariation]
       if (currentPlan) {
-        currentPlan.windows = [...currentPlan.windows, window]
+        getEditableLayouts(currentPlan).forEach((layout) => {
+          layout.windows = [...layout.windows, window]
+        })
       }
       return newProposals
     })
@@ -287,7 +612,15 @@ export default function EditorPage() {
     if (confirm("Are you sure you want to clear all elements? This cannot be undone.")) {
       setProposals((prevProposals) => {
         const newProposals = [...prevProposals]
-        if (newProposals[currentProposal] && newProposals[currentProposal][currentVariation]) {
+        const currentPlan = newProposals[currentProposal]?.[currentVariation]
+        if (currentPlan?.levels && currentPlan.levels.length > 1) {
+          getEditableLayouts(currentPlan).forEach((layout) => {
+            layout.walls = []
+            layout.rooms = []
+            layout.doors = []
+            layout.windows = []
+          })
+        } else if (currentPlan) {
           newProposals[currentProposal][currentVariation] = {
             walls: [],
             rooms: [],
@@ -331,7 +664,7 @@ export default function EditorPage() {
     }
   }
 
-  if (status === "loading") {
+  if (status === "loading" || loadingProject) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-zinc-950">
         <div className="text-white">Loading...</div>
@@ -339,7 +672,14 @@ export default function EditorPage() {
     )
   }
 
+  const canEdit = role === "owner" || role === "editor"
+  const canComment = canEdit || role === "commenter"
   const currentPlan = proposals[currentProposal]?.[currentVariation]
+  const levels = currentPlan?.levels && currentPlan.levels.length > 1 ? currentPlan.levels : null
+  const activePlan = levels?.[currentLevel] ?? currentPlan
+  // Everyone editing the same saved level shares a session
+  const collaborationId =
+    isEditMode && canEdit && currentPlan?.id ? (levels ? `${currentPlan.id}-${currentLevel}` : currentPlan.id) : undefined
 
   return (
     <div className="flex h-screen flex-col bg-zinc-950">
@@ -355,6 +695,7 @@ export default function EditorPage() {
             <PlotSyncLogo size={32} />
             <span className="text-xl font-bold text-white">PlotSync</span>
           </div>
+          <span className="text-sm text-zinc-400">{projectName}</span>
         </div>
 
         <div className="flex items-center gap-4">
@@ -386,13 +727,38 @@ export default function EditorPage() {
               </svg>
               SVG
             </Button>
+            <Button
+              variant={viewMode === "report" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setViewMode("report")}
+            >
+              <Ruler className="mr-1 h-4 w-4" />
+              Areas
+            </Button>
           </div>
 
-          {viewMode === "svg" && currentPlan && (
+          <Button
+            variant={showComments ? "default" : "outline"}
+            size="sm"
+            onClick={handleToggleComments}
+            disabled={!currentPlan}
+          >
+            <MessageSquare className="mr-1 h-4 w-4" />
+            Comments
+          </Button>
+
+          {savedProjectId && canEdit && (
+            <Button variant="outline" size="sm" onClick={() => setSharing(true)}>
+              <Share2 className="mr-1 h-4 w-4" />
+              Share
+            </Button>
+          )}
+
+          {viewMode === "svg" && activePlan && (
             <Button
               variant="outline"
               size="sm"
-              onClick={() => downloadFloorPlanSVG(currentPlan, `floor-plan-${Date.now()}.svg`)}
+              onClick={() => downloadFloorPlanSVG(activePlan, `floor-plan-${Date.now()}.svg`)}
             >
               <Download className="mr-1 h-4 w-4" />
               Download SVG
@@ -406,6 +772,7 @@ export default function EditorPage() {
             onExport={handleExport}
             saved={saved}
             isEditMode={isEditMode}
+            readOnly={!canEdit}
           />
         </div>
       </nav>
@@ -436,12 +803,40 @@ export default function EditorPage() {
             </div>
           )}
 
+          {levels && (
+            <div className="flex items-center gap-2 border-b border-zinc-800 bg-zinc-900 px-4 py-2">
+              <span className="text-sm text-zinc-400">Level</span>
+              {levels.map((level, index) => (
+                <Button
+                  key={level.level}
+                  variant={currentLevel === index ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setCurrentLevel(index)}
+                >
+                  {level.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
           <div className="flex-1 bg-white">
-            {viewMode === "2d" ? (
+            {viewMode === "2d" && isEditMode ? (
+              <EditableFloorPlanCanvas
+                key={collaborationId ?? "unsaved"}
+                planData={activePlan || null}
+                width={window.innerWidth - 400}
+                height={window.innerHeight - (proposals.length > 0 ? 200 : 140) - (levels ? 48 : 0)}
+                collaborationId={collaborationId}
+              />
+            ) : viewMode === "2d" ? (
               <FloorPlanCanvas
-                planData={currentPlan || null}
+                planData={activePlan || null}
                 width={window.innerWidth - 400}
-                height={window.innerHeight - (proposals.length > 0 ? 200 : 140)}
+                height={window.innerHeight - (proposals.length > 0 ? 200 : 140) - (levels ? 48 : 0)}
+                commentPins={showComments ? commentPins : []}
+                activeCommentId={activeCommentId}
+                onCommentSelect={setActiveCommentId}
+                onPlanClick={placingComment ? handlePlaceComment : undefined}
               />
             ) : viewMode === "3d" ? (
               currentPlan && (
@@ -450,16 +845,28 @@ export default function EditorPage() {
                   walls={currentPlan.walls || []}
                   doors={currentPlan.doors || []}
                   windows={currentPlan.windows || []}
+                  levels={levels ?? undefined}
+                  activeLevel={levels?.[currentLevel]?.level}
                 />
               )
-            ) : (
+            ) : viewMode === "report" ? (
               currentPlan && (
+                <AreaReportPanel
+                  geometry={getLevelGeometry(currentPlan)}
+                  title={levels ? `${levels[currentLevel]?.name} Area Report` : undefined}
+                />
+              )
+            ) : (
+              activePlan && (
                 <div className="h-full w-full bg-zinc-50">
                   <FloorPlanSVGExporter
-                    planData={currentPlan}
+                    planData={activePlan}
                     width={1200}
                     height={900}
                     interactive={true}
+                    commentPins={showComments ? commentPins : []}
+                    activeCommentId={activeCommentId}
+                    onCommentSelect={setActiveCommentId}
                   />
                 </div>
               )
@@ -472,6 +879,7 @@ export default function EditorPage() {
               variations={proposals[currentProposal]}
               currentIndex={currentVariation}
               onSelect={setCurrentVariation}
+              pending={Object.values(pendingVariations)}
               onLoadMore={() => {
                 toast({
                   title: "Coming Soon",
@@ -484,7 +892,24 @@ export default function EditorPage() {
 
         {/* Right Sidebar */}
         <div className="w-96 border-l border-zinc-800">
-          {isEditMode ? (
+          {showComments && currentPlan ? (
+            <CommentsPanel
+              floorPlanId={currentPlan.id}
+              plan={currentPlan}
+              level={levels?.[currentLevel]?.level ?? 0}
+              pendingAnchor={pendingAnchor}
+              placing={placingComment}
+              onStartPlacing={handleStartPlacingComment}
+              onCancelPlacing={() => {
+                setPlacingComment(false)
+                setPendingAnchor(null)
+              }}
+              activeCommentId={activeCommentId}
+              onCommentSelect={setActiveCommentId}
+              onPinsChange={setCommentPins}
+              readOnly={!canComment}
+            />
+          ) : isEditMode ? (
             <AdvancedEditPanel
               onAddRoom={handleAddRoom}
               onAddWall={handleAddWall}
@@ -493,11 +918,25 @@ export default function EditorPage() {
               onAddFurniture={handleAddFurniture}
               onClear={handleClearAll}
             />
-          ) : (
+          ) : canEdit ? (
             <ParameterSidebar onGenerate={handleGenerate} loading={loading} />
+          ) : (
+            <div className="h-full bg-zinc-900 p-6 text-sm text-zinc-400">
+              You have {role} access to this project. Ask an organisation owner for the editor role to
+              generate or change plans.
+            </div>
           )}
         </div>
       </div>
+
+      {savedProjectId && (
+        <ShareDialog
+          projectId={savedProjectId}
+          floorPlanId={currentPlan?.id}
+          open={sharing}
+          onOpenChange={setSharing}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { useParams, useRouter } from "next/navigation"
+import Link from "next/link"
+import { Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { PlotSyncLogo } from "@/components/ui/plotsync-logo"
+
+interface InvitationDetails {
+  email: string
+  role: string
+  expiresAt: string
+  organisation: { id: string; name: string }
+  invitedBy: string
+}
+
+export default function InvitationPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const { token } = useParams<{ token: string }>()
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [error, setError] = useState("")
+  const [accepting, setAccepting] = useState(false)
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invitations/${token}`)
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.error || "This invitation could not be opened.")
+          return
+        }
+        setInvitation(data.invitation)
+      } catch (error) {
+        console.error("Open invitation error:", error)
+        setError("This invitation could not be opened.")
+      }
+    }
+
+    void loadInvitation()
+  }, [token])
+
+  const handleAccept = async () => {
+    setAccepting(true)
+    setError("")
+    try {
+      const response = await fetch(`/api/invitations/${token}/accept`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "The invitation could not be accepted.")
+        return
+      }
+      router.push(`/dashboard?organisation=${data.organisationId}`)
+      router.refresh()
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  const signedInAs = session?.user?.email
+  const isInvitee = !!invitation && signedInAs?.toLowerCase() === invitation.email.toLowerCase()
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-950 p-4">
+      <div className="w-full max-w-md space-y-6 rounded-lg border border-zinc-800 bg-zinc-900 p-8">
+        <div className="flex items-center gap-2">
+          <PlotSyncLogo size={32} />
+          <span className="text-xl font-bold text-white">PlotSync</span>
+        </div>
+
+        {!invitation ? (
+          <p className="text-zinc-400">{error || "Loading..."}</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <h1 className="flex items-center gap-2 text-2xl font-bold text-white">
+                <Users className="h-6 w-6" />
+                {invitation.organisation.name}
+              </h1>
+              <p className="text-zinc-400">
+                {invitation.invitedBy} invited {invitation.email} to join as {invitation.role === "owner" || invitation.role === "editor" ? "an" : "a"}{" "}
+                {invitation.role}.
+              </p>
+            </div>
+
+            {error && (
+              <div className="rounded-md border border-red-500/50 bg-red-500/10 p-3 text-sm text-red-500">{error}</div>
+            )}
+
+            {status === "loading" ? null : isInvitee ? (
+              <Button className="w-full" onClick={handleAccept} disabled={accepting}>
+                Join {invitation.organisation.name}
+              </Button>
+            ) : signedInAs ? (
+              <p className="text-sm text-zinc-400">
+                You are signed in as {signedInAs}. Sign out and sign in as {invitation.email} to accept.
+              </p>
+            ) : (
+              <div className="space-y-2 text-sm text-zinc-400">
+                <p>Sign in or create an account with {invitation.email}, then open this link again.</p>
+                <div className="flex gap-2">
+                  <Link href="/login" className="flex-1">
+                    <Button variant="outline" className="w-full">Sign In</Button>
+                  </Link>
+                  <Link href="/signup" className="flex-1">
+                    <Button className="w-full">Sign Up</Button>
+                  </Link>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
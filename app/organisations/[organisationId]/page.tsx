@@ -0,0 +1,292 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { useParams, useRouter } from "next/navigation"
+import Link from "next/link"
+import { ChevronLeft, Copy, Trash2, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/components/ui/use-toast"
+import { PlotSyncLogo } from "@/components/ui/plotsync-logo"
+
+// Highest access first, as offered in the role pickers
+const ROLE_OPTIONS = [
+  { value: "owner", label: "Owner", description: "Manages members and deletes projects" },
+  { value: "editor", label: "Editor", description: "Creates, generates, edits and shares projects" },
+  { value: "commenter", label: "Commenter", description: "Views projects and leaves review comments" },
+  { value: "viewer", label: "Viewer", description: "Views and exports projects" },
+]
+
+interface Member {
+  id: string
+  role: string
+  user: { id: string; name: string | null; email: string }
+}
+
+interface Invitation {
+  id: string
+  email: string
+  role: string
+  expiresAt: string
+  url: string | null
+}
+
+interface Organisation {
+  id: string
+  name: string
+  role: string
+  members: Member[]
+  invitations: Invitation[]
+}
+
+const selectClassName = "rounded-md border border-zinc-700 bg-zinc-800 px-2 py-1 text-sm text-white"
+
+export default function OrganisationPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const { organisationId } = useParams<{ organisationId: string }>()
+  const { toast } = useToast()
+  const [organisation, setOrganisation] = useState<Organisation | null>(null)
+  const [name, setName] = useState("")
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState("editor")
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/login")
+    }
+  }, [status, router])
+
+  const loadOrganisation = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/organisations/${organisationId}`)
+      if (!response.ok) throw new Error(`Loading organisation failed (${response.status})`)
+      const data = await response.json()
+      setOrganisation(data.organisation)
+      setName(data.organisation.name)
+    } catch (error) {
+      console.error("Load organisation error:", error)
+      router.push("/dashboard")
+    }
+  }, [organisationId, router])
+
+  useEffect(() => {
+    if (status === "authenticated") loadOrganisation()
+  }, [status, loadOrganisation])
+
+  // Sends a change and reloads, or reports why it was refused
+  const run = async (path: string, method: string, body: unknown, failure: string) => {
+    const response = await fetch(`/api/organisations/${organisationId}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      toast({ title: "Error", description: data.error || failure })
+      return null
+    }
+    await loadOrganisation()
+    return data
+  }
+
+  const copyInvitation = async (invitation: Invitation) => {
+    if (!invitation.url) return
+    const url = `${window.location.origin}${invitation.url}`
+    await navigator.clipboard.writeText(url)
+    toast({ title: "Invitation link copied", description: `Send it to ${invitation.email}` })
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await run("/invitations", "POST", { email: inviteEmail, role: inviteRole }, "Failed to invite.")
+    if (data) {
+      setInviteEmail("")
+      await copyInvitation(data.invitation)
+    }
+  }
+
+  const handleRename = async () => {
+    if (!organisation || !name.trim() || name.trim() === organisation.name) return
+    await run("", "PATCH", { name }, "Failed to rename organisation.")
+  }
+
+  const handleLeave = async (member: Member) => {
+    if (!confirm("Leave this organisation? You will lose access to its projects.")) return
+    if (await run(`/members/${member.id}`, "DELETE", undefined, "Failed to leave organisation.")) {
+      router.push("/dashboard")
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm("Delete this organisation and all of its projects? This cannot be undone.")) return
+    const response = await fetch(`/api/organisations/${organisationId}`, { method: "DELETE" })
+    if (response.ok) {
+      router.push("/dashboard")
+    } else {
+      toast({ title: "Error", description: "Failed to delete organisation." })
+    }
+  }
+
+  if (!organisation) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-950">
+        <div className="text-white">Loading...</div>
+      </div>
+    )
+  }
+
+  const isOwner = organisation.role === "owner"
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      <nav className="flex h-16 items-center gap-4 border-b border-zinc-800 bg-zinc-900 px-6">
+        <Link href={`/dashboard?organisation=${organisation.id}`}>
+          <Button variant="ghost" size="icon">
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div className="flex items-center gap-2">
+          <PlotSyncLogo size={32} />
+          <span className="text-xl font-bold text-white">PlotSync</span>
+        </div>
+        <span className="text-sm text-zinc-400">{organisation.name}</span>
+      </nav>
+
+      <div className="container mx-auto max-w-3xl space-y-8 px-4 py-12">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Team</h1>
+          {isOwner ? (
+            <div className="mt-4 flex gap-2">
+              <Input value={name} onChange={(e) => setName(e.target.value)} onBlur={handleRename} />
+              <Button variant="outline" onClick={handleRename} disabled={!name.trim() || name.trim() === organisation.name}>
+                Rename
+              </Button>
+            </div>
+          ) : (
+            <p className="mt-2 text-zinc-400">Your role: {organisation.role}</p>
+          )}
+        </div>
+
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-white">Members</h2>
+          {organisation.members.map((member) => {
+            const isSelf = member.user.id === session?.user?.id
+            return (
+              <div key={member.id} className="flex items-center justify-between rounded-md border border-zinc-800 bg-zinc-900 p-3">
+                <div>
+                  <p className="text-sm font-medium text-white">
+                    {member.user.name || member.user.email}
+                    {isSelf && <span className="text-zinc-500"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-zinc-500">{member.user.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => run(`/members/${member.id}`, "PATCH", { role: e.target.value }, "Failed to change role.")}
+                      className={selectClassName}
+                    >
+                      {ROLE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-sm capitalize text-zinc-400">{member.role}</span>
+                  )}
+                  {isSelf ? (
+                    <Button variant="ghost" size="sm" onClick={() => handleLeave(member)}>
+                      Leave
+                    </Button>
+                  ) : isOwner && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Remove member"
+                      onClick={() => run(`/members/${member.id}`, "DELETE", undefined, "Failed to remove member.")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </section>
+
+        {isOwner && (
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold text-white">Invite</h2>
+            <form onSubmit={handleInvite} className="flex gap-2">
+              <Input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="colleague@example.com"
+              />
+              <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value)} className={selectClassName}>
+                {ROLE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <Button type="submit" disabled={!inviteEmail.trim()}>
+                <UserPlus className="mr-1 h-4 w-4" />
+                Invite
+              </Button>
+            </form>
+            <ul className="space-y-1 text-xs text-zinc-500">
+              {ROLE_OPTIONS.map((option) => (
+                <li key={option.value}>
+                  <span className="text-zinc-300">{option.label}</span>: {option.description}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {organisation.invitations.length > 0 && (
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold text-white">Pending invitations</h2>
+            {organisation.invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between rounded-md border border-zinc-800 bg-zinc-900 p-3 text-sm">
+                <span className="text-white">
+                  {invitation.email}
+                  <span className="text-zinc-500">
+                    {" "}· {invitation.role} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                  </span>
+                </span>
+                {isOwner && (
+                  <span className="flex gap-1">
+                    <Button variant="ghost" size="sm" title="Copy invitation link" onClick={() => copyInvitation(invitation)}>
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => run(`/invitations/${invitation.id}`, "DELETE", undefined, "Failed to withdraw invitation.")}
+                    >
+                      Withdraw
+                    </Button>
+                  </span>
+                )}
+              </div>
+            ))}
+          </section>
+        )}
+
+        {isOwner && (
+          <section className="rounded-md border border-red-900/60 p-4">
+            <h2 className="text-lg font-semibold text-white">Delete organisation</h2>
+            <p className="mb-3 mt-1 text-sm text-zinc-400">Its projects are deleted with it.</p>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete organisation
+            </Button>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
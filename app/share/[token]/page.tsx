@@ -0,0 +1,350 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import dynamic from "next/dynamic"
+import { CheckCircle2, Code2, Eye, Lock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/components/ui/use-toast"
+import { PlotSyncLogo } from "@/components/ui/plotsync-logo"
+import { VariationGallery } from "@/components/editor/variation-gallery"
+import { FloorPlan3DViewer } from "@/components/editor/floor-plan-3d-viewer"
+import { FloorPlanSVGExporter } from "@/components/editor/floor-plan-svg-exporter"
+import { LegacyFloorPlan } from "@/lib/floor-plan/legacy-adapter"
+
+// Dynamically import FloorPlanCanvas to avoid SSR issues with Konva
+const FloorPlanCanvas = dynamic(
+  () => import("@/components/editor/floor-plan-canvas").then(mod => ({ default: mod.FloorPlanCanvas })),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="flex h-full w-full items-center justify-center bg-white">
+        <div className="text-gray-600">Loading canvas...</div>
+      </div>
+    )
+  }
+)
+
+interface Approval {
+  name: string
+  comment: string | null
+  createdAt: string
+}
+
+interface SharedVariation {
+  id: string
+  planData: LegacyFloorPlan
+  thumbnail: string | null
+  approvals: Approval[]
+}
+
+interface SharedProject {
+  name: string
+  proposals: Array<{ id: string; label: string; variations: SharedVariation[] }>
+}
+
+export default function SharedPlanPage() {
+  const { token } = useParams<{ token: string }>()
+  const { toast } = useToast()
+  const [project, setProject] = useState<SharedProject | null>(null)
+  const [allowApproval, setAllowApproval] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [passwordRequired, setPasswordRequired] = useState(false)
+  const [password, setPassword] = useState("")
+  const [currentProposal, setCurrentProposal] = useState(0)
+  const [currentVariation, setCurrentVariation] = useState(0)
+  const [currentLevel, setCurrentLevel] = useState(0)
+  const [viewMode, setViewMode] = useState<"2d" | "svg" | "3d">("2d")
+  const [approving, setApproving] = useState(false)
+  const [approverName, setApproverName] = useState("")
+  const [approvalComment, setApprovalComment] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const loadSharedPlan = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const response = await fetch(`/api/share/${token}`)
+      const data = await response.json()
+
+      if (response.status === 401 && data.passwordRequired) {
+        setPasswordRequired(true)
+        return
+      }
+      if (!response.ok) {
+        setError(data.error || "This plan could not be opened.")
+        return
+      }
+
+      setPasswordRequired(false)
+      setProject(data.project)
+      setAllowApproval(data.allowApproval)
+    } catch (error) {
+      console.error("Open shared plan error:", error)
+      setError("This plan could not be opened.")
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadSharedPlan()
+  }, [loadSharedPlan])
+
+  useEffect(() => {
+    setCurrentLevel(0)
+  }, [currentProposal, currentVariation])
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    const response = await fetch(`/api/share/${token}/unlock`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password }),
+    })
+
+    if (response.ok) {
+      setPassword("")
+      await loadSharedPlan()
+    } else {
+      const data = await response.json().catch(() => ({}))
+      setError(data.error || "That password did not work.")
+    }
+  }
+
+  const variations = project?.proposals[currentProposal]?.variations ?? []
+  const variation = variations[currentVariation]
+
+  const handleApprove = async () => {
+    if (!variation || !approverName.trim()) return
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/share/${token}/approvals`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ floorPlanId: variation.id, name: approverName, comment: approvalComment }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Approval failed")
+      }
+
+      setProject((current) => current && {
+        ...current,
+        proposals: current.proposals.map((proposal) => ({
+          ...proposal,
+          variations: proposal.variations.map((item) =>
+            item.id === variation.id ? { ...item, approvals: [...item.approvals, data.approval] } : item
+          ),
+        })),
+      })
+      setApproving(false)
+      setApprovalComment("")
+      toast({
+        title: "Thank you!",
+        description: "Your approval has been sent to the designer.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Approval failed. Please try again.",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-950">
+        <div className="text-white">Loading...</div>
+      </div>
+    )
+  }
+
+  if (passwordRequired) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-950 p-4">
+        <form onSubmit={handleUnlock} className="w-full max-w-sm space-y-4 rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+          <div className="flex items-center gap-2 text-white">
+            <Lock className="h-5 w-5" />
+            <h1 className="text-lg font-semibold">This plan is password protected</h1>
+          </div>
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+          />
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <Button type="submit" className="w-full" disabled={!password}>
+            View plan
+          </Button>
+        </form>
+      </div>
+    )
+  }
+
+  if (error || !project) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-950 p-4">
+        <p className="text-zinc-400">{error || "This plan could not be opened."}</p>
+      </div>
+    )
+  }
+
+  const plan = variation?.planData
+  const levels = plan?.levels && plan.levels.length > 1 ? plan.levels : null
+  const activePlan = levels?.[currentLevel] ?? plan
+
+  return (
+    <div className="flex h-screen flex-col bg-zinc-950">
+      {/* Header */}
+      <nav className="flex h-16 items-center justify-between border-b border-zinc-800 bg-zinc-900 px-6">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <PlotSyncLogo size={32} />
+            <span className="text-xl font-bold text-white">PlotSync</span>
+          </div>
+          <span className="text-sm text-zinc-400">{project.name}</span>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2 rounded-lg bg-zinc-800 p-1">
+            <Button variant={viewMode === "2d" ? "default" : "ghost"} size="sm" onClick={() => setViewMode("2d")}>
+              <Code2 className="mr-1 h-4 w-4" />
+              2D
+            </Button>
+            <Button variant={viewMode === "svg" ? "default" : "ghost"} size="sm" onClick={() => setViewMode("svg")}>
+              SVG
+            </Button>
+            <Button variant={viewMode === "3d" ? "default" : "ghost"} size="sm" onClick={() => setViewMode("3d")}>
+              <Eye className="mr-1 h-4 w-4" />
+              3D
+            </Button>
+          </div>
+
+          {variation && variation.approvals.length > 0 && (
+            <span className="flex items-center gap-1 text-sm text-emerald-400">
+              <CheckCircle2 className="h-4 w-4" />
+              Approved by {variation.approvals.map((approval) => approval.name).join(", ")}
+            </span>
+          )}
+
+          {allowApproval && variation && (
+            <Button size="sm" onClick={() => setApproving(true)}>
+              <CheckCircle2 className="mr-1 h-4 w-4" />
+              Approve this variation
+            </Button>
+          )}
+        </div>
+      </nav>
+
+      {project.proposals.length > 1 && (
+        <div className="border-b border-zinc-800 bg-zinc-900 p-4">
+          <Tabs value={`proposal-${currentProposal}`} onValueChange={(value) => {
+            setCurrentProposal(parseInt(value.split("-")[1]))
+            setCurrentVariation(0)
+          }}>
+            <TabsList>
+              {project.proposals.map((proposal, index) => (
+                <TabsTrigger key={proposal.id} value={`proposal-${index}`}>
+                  {proposal.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      )}
+
+      {levels && (
+        <div className="flex items-center gap-2 border-b border-zinc-800 bg-zinc-900 px-4 py-2">
+          <span className="text-sm text-zinc-400">Level</span>
+          {levels.map((level, index) => (
+            <Button
+              key={level.level}
+              variant={currentLevel === index ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setCurrentLevel(index)}
+            >
+              {level.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 bg-white">
+        {!plan ? (
+          <div className="flex h-full items-center justify-center text-gray-600">Nothing has been shared yet.</div>
+        ) : viewMode === "2d" ? (
+          <FloorPlanCanvas
+            planData={activePlan || null}
+            width={window.innerWidth}
+            height={window.innerHeight - (project.proposals.length > 1 ? 200 : 140) - (levels ? 48 : 0)}
+          />
+        ) : viewMode === "3d" ? (
+          <FloorPlan3DViewer
+            rooms={plan.rooms || []}
+            walls={plan.walls || []}
+            doors={plan.doors || []}
+            windows={plan.windows || []}
+            levels={levels ?? undefined}
+            activeLevel={levels?.[currentLevel]?.level}
+          />
+        ) : (
+          activePlan && (
+            <div className="h-full w-full bg-zinc-50">
+              <FloorPlanSVGExporter planData={activePlan} width={1200} height={900} interactive={true} />
+            </div>
+          )
+        )}
+      </div>
+
+      {variations.length > 1 && (
+        <VariationGallery
+          variations={variations.map((item) => ({ ...item.planData, thumbnail: item.thumbnail ?? undefined }))}
+          currentIndex={currentVariation}
+          onSelect={setCurrentVariation}
+        />
+      )}
+
+      <Dialog open={approving} onOpenChange={setApproving}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve this variation</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              value={approverName}
+              onChange={(e) => setApproverName(e.target.value)}
+              placeholder="Your name"
+              autoFocus
+            />
+            <textarea
+              value={approvalComment}
+              onChange={(e) => setApprovalComment(e.target.value)}
+              rows={3}
+              placeholder="Anything the designer should know? (optional)"
+              className="w-full resize-none rounded-md border border-input bg-transparent p-2 text-sm"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setApproving(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleApprove} disabled={submitting || !approverName.trim()}>
+                Approve
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { useToast } from "@/components/ui/use-toast"
+
+export function NewOrganisationButton() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [creating, setCreating] = useState(false)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    try {
+      const response = await fetch("/api/organisations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to create organisation")
+
+      setOpen(false)
+      setName("")
+      router.push(`/dashboard?organisation=${data.organisation.id}`)
+      router.refresh()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create organisation.",
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Plus className="mr-1 h-4 w-4" />
+          New organisation
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New organisation</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleCreate} className="space-y-4">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Organisation name"
+            autoFocus
+          />
+          <p className="text-sm text-muted-foreground">
+            You will be its owner and can invite your team from its page.
+          </p>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={creating || !name.trim()}>
+              Create
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -10,6 +10,8 @@ interface ActionButtonsProps {
   onExport: () => void
   saved?: boolean
   isEditMode?: boolean
+  // Only exporting is offered to roles that cannot change the project
+  readOnly?: boolean
 }
 
 export function ActionButtons({ 
@@ -18,7 +20,8 @@ export function ActionButtons({
   onEdit, 
   onExport,
   saved = false,
-  isEditMode = false
+  isEditMode = false,
+  readOnly = false
 }: ActionButtonsProps) {
   return (
     <div className="flex items-center gap-2">
@@ -26,6 +29,7 @@ export function ActionButtons({
         variant={saved ? "default" : "outline"}
         size="icon"
         onClick={onSave}
+        disabled={readOnly}
         title="Save to Project"
       >
         <Heart className={`h-4 w-4 ${saved ? "fill-current" : ""}`} />
@@ -35,6 +39,7 @@ export function ActionButtons({
         variant="outline"
         size="icon"
         onClick={onRearrange}
+        disabled={readOnly}
         title="Rearrange Rooms"
       >
         <Shuffle className="h-4 w-4" />
@@ -43,6 +48,7 @@ export function ActionButtons({
       <Button
         variant={isEditMode ? "default" : "outline"}
         onClick={onEdit}
+        disabled={readOnly}
         title="Advanced Edit"
       >
         <Edit className="mr-2 h-4 w-4" />
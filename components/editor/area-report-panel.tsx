@@ -0,0 +1,114 @@
+"use client"
+
+import { useMemo } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { areaReportGenerator } from "@/lib/floor-plan/stage-c/area-report"
+import { AreaReport, FloorPlanGeometry } from "@/lib/floor-plan/types"
+
+interface AreaReportPanelProps {
+  geometry: FloorPlanGeometry
+  title?: string
+}
+
+const DOWNLOADS = {
+  csv: { label: "CSV", type: "text/csv;charset=utf-8", write: (report: AreaReport) => areaReportGenerator.toCSV(report) },
+  json: { label: "JSON", type: "application/json", write: (report: AreaReport) => areaReportGenerator.toJSON(report) },
+  html: { label: "HTML", type: "text/html;charset=utf-8", write: (report: AreaReport) => areaReportGenerator.toHTML(report) },
+}
+
+export function AreaReportPanel({ geometry, title = "Area Report" }: AreaReportPanelProps) {
+  const report = useMemo(() => areaReportGenerator.generate(geometry), [geometry])
+  const { circulation } = report
+
+  const download = (format: keyof typeof DOWNLOADS) => {
+    const { type, write } = DOWNLOADS[format]
+    const blob = new Blob([write(report)], { type })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `area-report-${Date.now()}.${format}`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  const measures = [
+    { label: "Gross internal area", value: `${report.grossInternalArea.toFixed(2)} m²` },
+    { label: "Net area", value: `${report.netArea.toFixed(2)} m²` },
+    {
+      label: "Circulation",
+      value: `${circulation.area.toFixed(2)} m² (${circulation.percentage.toFixed(1)}%)`,
+      note: `Target ${circulation.target.toFixed(0)}%`,
+      warning: circulation.percentage > circulation.target,
+    },
+    { label: "Perimeter", value: `${report.perimeter.toFixed(2)} m` },
+    {
+      label: "Walls",
+      value: `${report.wallLengths.total.toFixed(2)} m`,
+      note: `${report.wallLengths.exterior.toFixed(2)} m exterior, ${report.wallLengths.interior.toFixed(2)} m interior`,
+    },
+    { label: "Openings", value: `${report.openings.doors} doors, ${report.openings.windows} windows` },
+  ]
+
+  return (
+    <div className="h-full w-full overflow-auto bg-zinc-50 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-zinc-900">{title}</h2>
+        <div className="flex gap-2">
+          {(Object.keys(DOWNLOADS) as Array<keyof typeof DOWNLOADS>).map((format) => (
+            <Button key={format} variant="outline" size="sm" onClick={() => download(format)}>
+              <Download className="mr-1 h-4 w-4" />
+              {DOWNLOADS[format].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-6 grid grid-cols-2 gap-3 lg:grid-cols-3">
+        {measures.map((measure) => (
+          <div key={measure.label} className="rounded-md border border-zinc-200 bg-white p-3">
+            <div className="text-xs text-zinc-500">{measure.label}</div>
+            <div className="text-base font-semibold text-zinc-900">{measure.value}</div>
+            {measure.note && (
+              <div className={`text-xs ${measure.warning ? "text-amber-600" : "text-zinc-500"}`}>{measure.note}</div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <table className="w-full border-collapse rounded-md bg-white text-sm text-zinc-900">
+        <thead>
+          <tr className="border-b border-zinc-200 text-left text-xs text-zinc-500">
+            <th className="p-2">Room</th>
+            <th className="p-2">Type</th>
+            <th className="p-2 text-right">Area (m²)</th>
+            <th className="p-2 text-right">Size (m)</th>
+            <th className="p-2 text-right">Doors</th>
+            <th className="p-2 text-right">Windows</th>
+            <th className="p-2 text-right">Glazing (m²)</th>
+            <th className="p-2 text-right">Glazing ratio</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.rooms.map((room) => (
+            <tr key={room.roomId} className="border-b border-zinc-100">
+              <td className="p-2">{room.name}</td>
+              <td className="p-2 capitalize text-zinc-500">{room.type}</td>
+              <td className="p-2 text-right">{room.area.toFixed(2)}</td>
+              <td className="p-2 text-right">
+                {room.width.toFixed(2)} × {room.depth.toFixed(2)}
+              </td>
+              <td className="p-2 text-right">{room.doors}</td>
+              <td className="p-2 text-right">{room.windows}</td>
+              <td className="p-2 text-right">{room.glazingArea.toFixed(2)}</td>
+              <td className="p-2 text-right">{(room.glazingRatio * 100).toFixed(1)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,329 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { Check, MapPin, MessageSquarePlus, RotateCcw, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/components/ui/use-toast"
+import { anchorLabel, layoutForLevel } from "@/lib/floor-plan/comment-anchors"
+import { LegacyFloorPlan } from "@/lib/floor-plan/legacy-adapter"
+import { CommentAnchor, CommentAnchorType, CommentPin } from "@/lib/floor-plan/types"
+
+type StatusFilter = "open" | "resolved" | "all"
+
+interface CommentAuthor {
+  id: string
+  name: string | null
+}
+
+interface CommentReply {
+  id: string
+  body: string
+  author: CommentAuthor
+  createdAt: string
+}
+
+interface CommentThread extends CommentReply {
+  anchorType: CommentAnchorType
+  elementId: string | null
+  x: number
+  y: number
+  level: number
+  resolved: boolean
+  resolvedAt: string | null
+  resolvedBy: CommentAuthor | null
+  replies: CommentReply[]
+}
+
+interface CommentsPanelProps {
+  // Saved floor plan under review; comments need the plan saved first
+  floorPlanId: string | null | undefined
+  plan: LegacyFloorPlan
+  level: number
+  // Set once a spot on the plan has been picked for a new comment
+  pendingAnchor: CommentAnchor | null
+  placing: boolean
+  onStartPlacing: () => void
+  onCancelPlacing: () => void
+  activeCommentId: string | null
+  onCommentSelect: (commentId: string | null) => void
+  onPinsChange: (pins: CommentPin[]) => void
+  // Viewers can read the threads but not add to or resolve them
+  readOnly?: boolean
+}
+
+const FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "all", label: "All" },
+]
+
+export function CommentsPanel({
+  floorPlanId,
+  plan,
+  level,
+  pendingAnchor,
+  placing,
+  onStartPlacing,
+  onCancelPlacing,
+  activeCommentId,
+  onCommentSelect,
+  onPinsChange,
+  readOnly = false,
+}: CommentsPanelProps) {
+  const { data: session } = useSession()
+  const { toast } = useToast()
+  const [filter, setFilter] = useState<StatusFilter>("open")
+  const [threads, setThreads] = useState<CommentThread[]>([])
+  const [loading, setLoading] = useState(false)
+  const [draft, setDraft] = useState("")
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({})
+
+  const request = useCallback(
+    async (path: string, method = "GET", body?: unknown) => {
+      const response = await fetch(`/api/floor-plans/${floorPlanId}/comments${path}`, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `Request failed (${response.status})`)
+      }
+      return data
+    },
+    [floorPlanId]
+  )
+
+  const reload = useCallback(async () => {
+    if (!floorPlanId) {
+      setThreads([])
+      return
+    }
+    setLoading(true)
+    try {
+      const { comments } = await request(`?status=${filter}`)
+      setThreads(comments)
+    } catch (error) {
+      console.error("Load comments error:", error)
+      toast({ title: "Error", description: "Comments could not be loaded." })
+    } finally {
+      setLoading(false)
+    }
+  }, [floorPlanId, filter, request, toast])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  // Pins for the threads listed, on the level being viewed
+  useEffect(() => {
+    onPinsChange(
+      threads.flatMap((thread, index) =>
+        thread.level === level
+          ? [{ id: thread.id, number: index + 1, position: { x: thread.x, y: thread.y }, resolved: thread.resolved }]
+          : []
+      )
+    )
+  }, [threads, level, onPinsChange])
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+      await reload()
+      return true
+    } catch (error) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : failure })
+      return false
+    }
+  }
+
+  const postComment = async () => {
+    if (!pendingAnchor || !draft.trim()) return
+    const { type, elementId, position, level: anchorLevel } = pendingAnchor
+    const posted = await run(
+      () => request("", "POST", { body: draft, anchor: { type, elementId, x: position.x, y: position.y, level: anchorLevel } }),
+      "Failed to add comment."
+    )
+    if (posted) {
+      setDraft("")
+      onCancelPlacing()
+    }
+  }
+
+  const postReply = async (threadId: string) => {
+    const body = replyDrafts[threadId]
+    if (!body?.trim()) return
+    const posted = await run(() => request("", "POST", { body, parentId: threadId }), "Failed to reply.")
+    if (posted) setReplyDrafts((drafts) => ({ ...drafts, [threadId]: "" }))
+  }
+
+  const labelFor = (anchor: { type: CommentAnchorType; elementId: string | null; level: number }) => {
+    const label = anchorLabel(layoutForLevel(plan, anchor.level), anchor)
+    const levelName = plan.levels && plan.levels.length > 1
+      ? plan.levels.find((entry) => entry.level === anchor.level)?.name
+      : null
+    return levelName ? `${label} · ${levelName}` : label
+  }
+
+  if (!floorPlanId) {
+    return (
+      <div className="flex h-full flex-col bg-zinc-900 p-6">
+        <h2 className="mb-2 text-xl font-bold text-white">Review Comments</h2>
+        <p className="text-sm text-zinc-400">Save the project to start commenting on this plan.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-full flex-col bg-zinc-900 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Review Comments</h2>
+        {!readOnly && !placing && !pendingAnchor && (
+          <Button size="sm" onClick={onStartPlacing}>
+            <MessageSquarePlus className="mr-1 h-4 w-4" />
+            Comment
+          </Button>
+        )}
+      </div>
+
+      <div className="mb-4 flex gap-1 rounded-lg bg-zinc-800 p-1">
+        {FILTERS.map(({ value, label }) => (
+          <Button
+            key={value}
+            variant={filter === value ? "default" : "ghost"}
+            size="sm"
+            className="flex-1"
+            onClick={() => setFilter(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {placing && (
+        <div className="mb-4 flex items-center justify-between rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm text-amber-200">
+          Click a room, wall, door, window or any spot on the plan.
+          <Button variant="ghost" size="icon" onClick={onCancelPlacing}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {pendingAnchor && (
+        <div className="mb-4 rounded-md border border-zinc-700 bg-zinc-800 p-3">
+          <div className="mb-2 flex items-center gap-1 text-xs text-zinc-400">
+            <MapPin className="h-3 w-3" />
+            {labelFor(pendingAnchor)}
+          </div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            autoFocus
+            placeholder="Add a comment..."
+            className="w-full resize-none rounded-md border border-zinc-700 bg-zinc-900 p-2 text-sm text-white placeholder:text-zinc-500"
+          />
+          <div className="mt-2 flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => { setDraft(""); onCancelPlacing() }}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={postComment} disabled={!draft.trim()}>
+              Post
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 space-y-3 overflow-y-auto">
+        {!loading && threads.length === 0 && (
+          <p className="text-sm text-zinc-500">
+            {filter === "resolved" ? "No resolved comments." : "No comments yet."}
+          </p>
+        )}
+
+        {threads.map((thread, index) => (
+          <div
+            key={thread.id}
+            onClick={() => onCommentSelect(thread.id)}
+            className={`cursor-pointer rounded-md border bg-zinc-800 p-3 ${
+              thread.id === activeCommentId ? "border-blue-500" : "border-zinc-700"
+            } ${thread.resolved ? "opacity-70" : ""}`}
+          >
+            <div className="mb-2 flex items-center gap-2">
+              <span
+                className={`flex h-5 w-5 items-center justify-center rounded-full text-xs font-bold text-white ${
+                  thread.resolved ? "bg-zinc-500" : "bg-amber-500"
+                }`}
+              >
+                {index + 1}
+              </span>
+              <span className="flex-1 truncate text-xs text-zinc-400">
+                {labelFor({ type: thread.anchorType, elementId: thread.elementId, level: thread.level })}
+              </span>
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    run(
+                      () => request(`/${thread.id}`, "PATCH", { resolved: !thread.resolved }),
+                      "Failed to update comment."
+                    )
+                  }}
+                >
+                  {thread.resolved ? <RotateCcw className="mr-1 h-3 w-3" /> : <Check className="mr-1 h-3 w-3" />}
+                  {thread.resolved ? "Reopen" : "Resolve"}
+                </Button>
+              )}
+            </div>
+
+            {[thread, ...thread.replies].map((comment) => (
+              <div key={comment.id} className="group mb-2">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium text-zinc-200">{comment.author.name || "Unknown"}</span>
+                  <span className="flex items-center gap-1 text-zinc-500">
+                    {new Date(comment.createdAt).toLocaleString()}
+                    {!readOnly && comment.author.id === session?.user?.id && (
+                      <button
+                        className="invisible text-zinc-500 hover:text-red-400 group-hover:visible"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          run(() => request(`/${comment.id}`, "DELETE"), "Failed to delete comment.")
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <p className="whitespace-pre-wrap text-sm text-zinc-100">{comment.body}</p>
+              </div>
+            ))}
+
+            {thread.resolved && thread.resolvedBy && (
+              <p className="mb-2 text-xs text-zinc-500">
+                Resolved by {thread.resolvedBy.name || "Unknown"}
+                {thread.resolvedAt && ` on ${new Date(thread.resolvedAt).toLocaleDateString()}`}
+              </p>
+            )}
+
+            {!readOnly && (
+              <input
+                value={replyDrafts[thread.id] ?? ""}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setReplyDrafts((drafts) => ({ ...drafts, [thread.id]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") postReply(thread.id)
+                }}
+                placeholder="Reply..."
+                className="w-full rounded-md border border-zinc-700 bg-zinc-900 px-2 py-1 text-sm text-white placeholder:text-zinc-500"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
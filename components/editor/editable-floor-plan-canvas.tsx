@@ -1,12 +1,14 @@
 "use client"
 
-import { useRef, useEffect, useState, useCallback } from "react"
-import { Stage, Layer, Line, Rect, Text, Circle, Group } from "react-konva"
+import { useRef, useEffect, useState, useCallback, ReactElement } from "react"
+import { useSession } from "next-auth/react"
+import { Stage, Layer, Line, Rect, Text, Circle, Group, Label, Tag } from "react-konva"
 import { Button } from "@/components/ui/button"
 import { ZoomIn, ZoomOut, Maximize2, Grid3x3 } from "lucide-react"
 import Konva from "konva"
 import { STROKE_CONFIG, ADAPTIVE_SCALE } from "@/lib/floor-plan/config"
 import { useEditorStore } from "@/lib/editor/editor-store"
+import { Collaborator, useCollaboration, useCollaborationStore } from "@/lib/editor/collaboration"
 import { pointInBoundingBox, snapPointToGrid } from "@/lib/editor/geometry-utils"
 import type { FloorPlanGeometry } from "@/lib/floor-plan/types"
 
@@ -14,9 +16,11 @@ interface EditableFloorPlanCanvasProps {
   planData: any | null
   width: number
   height: number
+  // Edit together with everyone else who has this plan open
+  collaborationId?: string
 }
 
-export function EditableFloorPlanCanvas({ planData, width, height }: EditableFloorPlanCanvasProps) {
+export function EditableFloorPlanCanvas({ planData, width, height, collaborationId }: EditableFloorPlanCanvasProps) {
   const stageRef = useRef<Konva.Stage>(null)
   const [stageScale, setStageScale] = useState(1)
   const [stagePos, setStagePos] = useState({ x: 0, y: 0 })
@@ -24,6 +28,7 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
 
   // Editor store
   const {
+    currentPlan,
     selection,
     transform,
     grid,
@@ -41,6 +46,17 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
     redo,
   } = useEditorStore()
 
+  // Rooms are drawn in the order of the store's plan, so their ids are the
+  // ones edits and collaborators' selections refer to
+  const roomIds: string[] = (planData?.rooms ?? []).map(
+    (_room: unknown, index: number) => currentPlan?.rooms[index]?.id ?? `room-${index}`
+  )
+
+  // Other people editing this plan
+  const { data: authSession } = useSession()
+  useCollaboration(collaborationId, authSession?.user?.name ?? authSession?.user?.email)
+  const { session: collaboration, peers } = useCollaborationStore()
+
   // Auto-fit to screen when plan data changes
   useEffect(() => {
     if (planData && stageRef.current) {
@@ -318,7 +334,7 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
         }
         
         if (pointInBoundingBox(worldPos, roomBounds)) {
-          const roomId = `room-${planData.rooms.indexOf(room)}`
+          const roomId = roomIds[planData.rooms.indexOf(room)]
           selectElement('room', roomId, e.evt.shiftKey)
           return
         }
@@ -327,7 +343,7 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
     
     // If no element clicked, deselect
     deselectAll()
-  }, [planData, screenToWorld, selectElement, deselectAll])
+  }, [planData, roomIds, screenToWorld, selectElement, deselectAll])
 
   if (!planData) {
     return (
@@ -378,6 +394,16 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
   const offsetX = (width - scaledWidth) / 2 - minX * calculatedScale
   const offsetY = (height - scaledHeight) / 2 - minY * calculatedScale
 
+  // Share the pointer in plan coordinates, which every screen agrees on
+  const handlePointerMove = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    const pointer = e.target.getStage()?.getRelativePointerPosition()
+    if (!collaboration || !pointer) return
+    collaboration.moveCursor({
+      x: (pointer.x - offsetX) / calculatedScale,
+      y: (pointer.y - offsetY) / calculatedScale,
+    })
+  }
+
   return (
     <div className="relative" style={{ width, height }}>
       {/* Control Buttons */}
@@ -419,6 +445,22 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
         </div>
       </div>
 
+      {/* Collaborators */}
+      {Object.keys(peers).length > 0 && (
+        <div className="absolute left-4 top-4 z-10 flex gap-1">
+          {Object.values(peers).map((peer) => (
+            <div
+              key={peer.clientId}
+              title={peer.name}
+              className="flex h-8 w-8 items-center justify-center rounded-full text-xs font-semibold text-white shadow-lg"
+              style={{ backgroundColor: peer.color }}
+            >
+              {peer.name.slice(0, 1).toUpperCase()}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Konva Stage */}
       <Stage 
         width={width} 
@@ -432,6 +474,8 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
         onWheel={handleWheel}
         onDragEnd={handleDragEnd}
         onClick={handleCanvasClick}
+        onMouseMove={handlePointerMove}
+        onMouseLeave={() => collaboration?.moveCursor(null)}
       >
         {/* Background Layer */}
         <Layer>
@@ -455,7 +499,7 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
         <Layer>
           {/* Rooms */}
           {planData.rooms.map((room: any, index: number) => {
-            const roomId = `room-${index}`
+            const roomId = roomIds[index]
             const isSelected = selection.elementIds.includes(roomId)
             const isHovered = hoveredElementId === roomId
             
@@ -628,6 +672,7 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
             {renderTransformHandles(
               selection,
               planData,
+              roomIds,
               calculatedScale,
               offsetX,
               offsetY,
@@ -638,6 +683,13 @@ export function EditableFloorPlanCanvas({ planData, width, height }: EditableFlo
             )}
           </Layer>
         )}
+
+        {/* Collaborators Layer - Their selections and cursors */}
+        {Object.keys(peers).length > 0 && (
+          <Layer listening={false}>
+            {renderCollaborators(Object.values(peers), planData, roomIds, calculatedScale, offsetX, offsetY, stageScale)}
+          </Layer>
+        )}
       </Stage>
     </div>
   )
@@ -704,6 +756,7 @@ function renderGrid(
 function renderTransformHandles(
   selection: any,
   planData: any,
+  roomIds: string[],
   scale: number,
   offsetX: number,
   offsetY: number,
@@ -716,8 +769,7 @@ function renderTransformHandles(
   const handleSize = 8 / stageScale // Constant screen size
   
   if (selection.type === 'room' && selection.elementIds.length > 0) {
-    const roomIndex = parseInt(selection.elementIds[0].replace('room-', ''))
-    const room = planData.rooms[roomIndex]
+    const room = planData.rooms[roomIds.indexOf(selection.elementIds[0])]
     
     if (room) {
       const x = room.x * scale + offsetX
@@ -782,6 +834,71 @@ function renderTransformHandles(
   return <>{handles}</>
 }
 
+// Other editors' selected rooms outlined in their color, and their cursors
+// with name tags. Sizes are divided by the zoom to stay constant on screen.
+function renderCollaborators(
+  peers: Collaborator[],
+  planData: any,
+  roomIds: string[],
+  scale: number,
+  offsetX: number,
+  offsetY: number,
+  stageScale: number
+) {
+  const elements: ReactElement[] = []
+
+  peers.forEach((peer) => {
+    peer.selection.forEach((elementId) => {
+      const room = planData.rooms[roomIds.indexOf(elementId)]
+      if (!room) return
+
+      elements.push(
+        <Rect
+          key={`peer-selection-${peer.clientId}-${elementId}`}
+          x={room.x * scale + offsetX}
+          y={room.y * scale + offsetY}
+          width={room.width * scale}
+          height={room.height * scale}
+          stroke={peer.color}
+          strokeWidth={3 / stageScale}
+          dash={[8 / stageScale, 4 / stageScale]}
+        />
+      )
+    })
+
+    if (peer.cursor) {
+      const size = 14 / stageScale
+      elements.push(
+        <Group
+          key={`peer-cursor-${peer.clientId}`}
+          x={peer.cursor.x * scale + offsetX}
+          y={peer.cursor.y * scale + offsetY}
+        >
+          <Line
+            points={[0, 0, 0, size, size * 0.3, size * 0.75, size * 0.75, size * 0.75]}
+            closed
+            fill={peer.color}
+            stroke="#ffffff"
+            strokeWidth={1 / stageScale}
+          />
+          <Label x={size * 0.6} y={size * 0.8}>
+            <Tag fill={peer.color} cornerRadius={3 / stageScale} />
+            <Text
+              text={peer.name}
+              fontSize={11 / stageScale}
+              fontFamily="Arial, sans-serif"
+              fill="#ffffff"
+              padding={3 / stageScale}
+            />
+          </Label>
+        </Group>
+      )
+    }
+  })
+
+  return <>{elements}</>
+}
+
 // Furniture rendering (reuse from original component)
 function renderFurnitureShape(
   item: string,
@@ -36,11 +36,22 @@ interface Window {
   width: number
 }
 
+interface Level {
+  level: number
+  name: string
+  elevation: number
+  rooms: Room[]
+}
+
 interface FloorPlan3DViewerProps {
   rooms: Room[]
   walls: Wall[]
   doors: Door[]
   windows: Window[]
+  // Multi-storey plans: levels are stacked by elevation, and levels above
+  // activeLevel are hidden so the active floor can be inspected
+  levels?: Level[]
+  activeLevel?: number
 }
 
 function Room3D({ room }: { room: Room }) {
@@ -179,7 +190,10 @@ function Furniture3D({
   )
 }
 
-function Scene({ rooms, walls, doors, windows }: FloorPlan3DViewerProps) {
+function Scene({ rooms, walls, doors, windows, levels, activeLevel }: FloorPlan3DViewerProps) {
+  const stacked = levels && levels.length > 1
+  const topLevel = activeLevel ?? Number.MAX_SAFE_INTEGER
+
   return (
     <>
       {/* Lighting */}
@@ -193,9 +207,19 @@ function Scene({ rooms, walls, doors, windows }: FloorPlan3DViewerProps) {
       <pointLight position={[-10, 10, -5]} intensity={0.3} />
 
       {/* Render rooms */}
-      {rooms.map((room, idx) => (
-        <Room3D key={idx} room={room} />
-      ))}
+      {stacked
+        ? levels
+            .filter((level) => level.level <= topLevel)
+            .map((level) => (
+              <group key={level.level} position={[0, level.elevation, 0]}>
+                {level.rooms.map((room, idx) => (
+                  <Room3D key={idx} room={room} />
+                ))}
+              </group>
+            ))
+        : rooms.map((room, idx) => (
+            <Room3D key={idx} room={room} />
+          ))}
 
       {/* Ground plane */}
       <Plane
@@ -220,7 +244,7 @@ function Scene({ rooms, walls, doors, windows }: FloorPlan3DViewerProps) {
   )
 }
 
-export function FloorPlan3DViewer({ rooms, walls, doors, windows }: FloorPlan3DViewerProps) {
+export function FloorPlan3DViewer({ rooms, walls, doors, windows, levels, activeLevel }: FloorPlan3DViewerProps) {
   return (
     <div className="h-full w-full bg-gradient-to-b from-blue-50 to-blue-100">
       <Canvas
@@ -228,7 +252,14 @@ export function FloorPlan3DViewer({ rooms, walls, doors, windows }: FloorPlan3DV
         shadows
       >
         <Suspense fallback={null}>
-          <Scene rooms={rooms} walls={walls} doors={doors} windows={windows} />
+          <Scene
+            rooms={rooms}
+            walls={walls}
+            doors={doors}
+            windows={windows}
+            levels={levels}
+            activeLevel={activeLevel}
+          />
         </Suspense>
       </Canvas>
     </div>
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button"
 import { ZoomIn, ZoomOut, Maximize2 } from "lucide-react"
 import Konva from "konva"
 import { STROKE_CONFIG, ADAPTIVE_SCALE } from "@/lib/floor-plan/config"
+import { CommentPin, Point2D } from "@/lib/floor-plan/types"
 
 interface FloorPlanData {
   walls: Array<{ x1: number; y1: number; x2: number; y2: number }>
@@ -25,9 +26,23 @@ interface FloorPlanCanvasProps {
   planData: FloorPlanData | null
   width: number
   height: number
+  // Review comments to pin on the plan
+  commentPins?: CommentPin[]
+  activeCommentId?: string | null
+  onCommentSelect?: (commentId: string) => void
+  // Set while placing a comment: receives the clicked point (m)
+  onPlanClick?: (point: Point2D) => void
 }
 
-export function FloorPlanCanvas({ planData, width, height }: FloorPlanCanvasProps) {
+export function FloorPlanCanvas({
+  planData,
+  width,
+  height,
+  commentPins = [],
+  activeCommentId,
+  onCommentSelect,
+  onPlanClick,
+}: FloorPlanCanvasProps) {
   const stageRef = useRef<Konva.Stage>(null)
   const [stageScale, setStageScale] = useState(1)
   const [stagePos, setStagePos] = useState({ x: 0, y: 0 })
@@ -207,6 +222,12 @@ export function FloorPlanCanvas({ planData, width, height }: FloorPlanCanvasProp
   const offsetX = (width - scaledWidth) / 2 - minX * scale
   const offsetY = (height - scaledHeight) / 2 - minY * scale
 
+  const handleStageClick = () => {
+    const pointer = stageRef.current?.getRelativePointerPosition()
+    if (!onPlanClick || !pointer) return
+    onPlanClick({ x: (pointer.x - offsetX) / scale, y: (pointer.y - offsetY) / scale })
+  }
+
   // Helper function to calculate wall length
   const getWallLength = (wall: { x1: number; y1: number; x2: number; y2: number }) => {
     const dx = wall.x2 - wall.x1
@@ -220,7 +241,7 @@ export function FloorPlanCanvas({ planData, width, height }: FloorPlanCanvasProp
   }
 
   return (
-    <div className="relative" style={{ width, height }}>
+    <div className="relative" style={{ width, height, cursor: onPlanClick ? "crosshair" : undefined }}>
       {/* Zoom Controls */}
       <div className="absolute right-4 top-4 z-10 flex flex-col gap-2">
         <Button
@@ -264,6 +285,7 @@ export function FloorPlanCanvas({ planData, width, height }: FloorPlanCanvasProp
         draggable
         onWheel={handleWheel}
         onDragEnd={handleDragEnd}
+        onClick={handleStageClick}
       >
       <Layer>
         {/* Clean white background like Maket.ai */}
@@ -410,6 +432,50 @@ export function FloorPlanCanvas({ planData, width, height }: FloorPlanCanvasProp
           </Group>
         ))}
       </Layer>
+
+      {/* Comment pins - same size at any zoom */}
+      <Layer>
+        {commentPins.map((pin) => {
+          const active = pin.id === activeCommentId
+
+          return (
+            <Group
+              key={pin.id}
+              x={pin.position.x * scale + offsetX}
+              y={pin.position.y * scale + offsetY}
+              scaleX={1 / stageScale}
+              scaleY={1 / stageScale}
+              onClick={(e) => {
+                e.cancelBubble = true
+                onCommentSelect?.(pin.id)
+              }}
+            >
+              <Circle
+                radius={active ? 13 : 11}
+                fill={pin.resolved ? "#a1a1aa" : "#f59e0b"}
+                stroke={active ? "#1d4ed8" : "#ffffff"}
+                strokeWidth={2}
+                shadowColor="#000000"
+                shadowBlur={4}
+                shadowOpacity={0.3}
+              />
+              <Text
+                text={String(pin.number)}
+                width={26}
+                height={26}
+                offsetX={13}
+                offsetY={13}
+                align="center"
+                verticalAlign="middle"
+                fontSize={11}
+                fontFamily="Arial, sans-serif"
+                fontStyle="bold"
+                fill="#ffffff"
+              />
+            </Group>
+          )
+        })}
+      </Layer>
       </Stage>
     </div>
   )
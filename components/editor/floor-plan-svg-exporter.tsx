@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { ZoomIn, ZoomOut, Maximize2 } from "lucide-react"
+import { CommentPin } from "@/lib/floor-plan/types"
 
 interface FloorPlanData {
   walls: Array<{ x1: number; y1: number; x2: number; y2: number }>
@@ -25,9 +26,21 @@ interface FloorPlanSVGExporterProps {
   width?: number
   height?: number
   interactive?: boolean
+  // Review comments to pin on the plan; left out of downloads
+  commentPins?: CommentPin[]
+  activeCommentId?: string | null
+  onCommentSelect?: (commentId: string) => void
 }
 
-export function FloorPlanSVGExporter({ planData, width = 800, height = 600, interactive = true }: FloorPlanSVGExporterProps) {
+export function FloorPlanSVGExporter({
+  planData,
+  width = 800,
+  height = 600,
+  interactive = true,
+  commentPins = [],
+  activeCommentId,
+  onCommentSelect,
+}: FloorPlanSVGExporterProps) {
   const [zoom, setZoom] = useState(1)
   const [pan, setPan] = useState({ x: 0, y: 0 })
   const [isPanning, setIsPanning] = useState(false)
@@ -368,6 +381,41 @@ export function FloorPlanSVGExporter({ planData, width = 800, height = 600, inte
             )
           })}
         </g>
+
+        {/* Comment pins - same size at any zoom */}
+        <g id="comments">
+          {commentPins.map((pin) => {
+            const active = pin.id === activeCommentId
+
+            return (
+              <g
+                key={pin.id}
+                transform={`translate(${pin.position.x * scale}, ${pin.position.y * scale}) scale(${1 / zoom})`}
+                style={{ cursor: onCommentSelect ? 'pointer' : undefined }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => onCommentSelect?.(pin.id)}
+              >
+                <circle
+                  r={active ? 13 : 11}
+                  fill={pin.resolved ? '#a1a1aa' : '#f59e0b'}
+                  stroke={active ? '#1d4ed8' : '#ffffff'}
+                  strokeWidth="2"
+                />
+                <text
+                  y="4"
+                  textAnchor="middle"
+                  fill="#ffffff"
+                  fontSize="11"
+                  fontWeight="700"
+                  fontFamily="Arial, sans-serif"
+                  style={{ userSelect: 'none' }}
+                >
+                  {pin.number}
+                </text>
+              </g>
+            )
+          })}
+        </g>
       </g>
 
       {/* Scale indicator */}
@@ -399,7 +447,11 @@ export function downloadFloorPlanSVG(planData: FloorPlanData, filename: string =
   const svgElement = document.querySelector('.floor-plan-svg')
   if (!svgElement) return
 
-  const svgData = new XMLSerializer().serializeToString(svgElement)
+  // Comment pins are for review in the editor only
+  const exported = svgElement.cloneNode(true) as Element
+  exported.querySelector('#comments')?.remove()
+
+  const svgData = new XMLSerializer().serializeToString(exported)
   const blob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' })
   const url = URL.createObjectURL(blob)
   
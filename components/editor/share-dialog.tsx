@@ -0,0 +1,213 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { CheckCircle2, Copy, Link2, Lock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/components/ui/use-toast"
+
+interface ShareLink {
+  id: string
+  url: string
+  floorPlanId: string | null
+  hasPassword: boolean
+  expiresAt: string | null
+  allowApproval: boolean
+  revokedAt: string | null
+  createdAt: string
+  approvals: Array<{ id: string; floorPlanId: string; name: string; comment: string | null; createdAt: string }>
+}
+
+interface ShareDialogProps {
+  projectId: string
+  // Variation being viewed, offered as the scope of a new link
+  floorPlanId?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const EXPIRY_OPTIONS = [
+  { days: null, label: "Never" },
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+]
+
+export function ShareDialog({ projectId, floorPlanId, open, onOpenChange }: ShareDialogProps) {
+  const { toast } = useToast()
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [scope, setScope] = useState<"project" | "variation">("project")
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null)
+  const [password, setPassword] = useState("")
+  const [allowApproval, setAllowApproval] = useState(true)
+  const [creating, setCreating] = useState(false)
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/share-links`)
+      if (!response.ok) throw new Error(`Loading share links failed (${response.status})`)
+      const { shareLinks } = await response.json()
+      setLinks(shareLinks)
+    } catch (error) {
+      console.error("Load share links error:", error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    if (open) loadLinks()
+  }, [open, loadLinks])
+
+  const linkUrl = (link: ShareLink) => `${window.location.origin}${link.url}`
+
+  const copyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(linkUrl(link))
+    toast({ title: "Link copied", description: linkUrl(link) })
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/share-links`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          floorPlanId: scope === "variation" ? floorPlanId : undefined,
+          password: password || undefined,
+          expiresInDays,
+          allowApproval,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to create share link")
+
+      setPassword("")
+      await loadLinks()
+      await copyLink(data.shareLink)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create share link.",
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (link: ShareLink) => {
+    const response = await fetch(`/api/projects/${projectId}/share-links/${link.id}`, { method: "DELETE" })
+    if (response.ok) {
+      await loadLinks()
+    } else {
+      toast({ title: "Error", description: "Failed to revoke share link." })
+    }
+  }
+
+  const isExpired = (link: ShareLink) => link.expiresAt !== null && new Date(link.expiresAt) <= new Date()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share with a client</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex gap-2">
+              <Button
+                variant={scope === "project" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setScope("project")}
+              >
+                Whole project
+              </Button>
+              <Button
+                variant={scope === "variation" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setScope("variation")}
+                disabled={!floorPlanId}
+              >
+                This variation
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <span className="w-20 text-muted-foreground">Expires</span>
+              {EXPIRY_OPTIONS.map((option) => (
+                <Button
+                  key={option.label}
+                  variant={expiresInDays === option.days ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setExpiresInDays(option.days)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password (optional)"
+            />
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={allowApproval} onChange={(e) => setAllowApproval(e.target.checked)} />
+              Let viewers approve variations
+            </label>
+
+            <Button onClick={handleCreate} disabled={creating} className="w-full">
+              <Link2 className="mr-1 h-4 w-4" />
+              Create link
+            </Button>
+          </div>
+
+          <div className="max-h-64 space-y-2 overflow-y-auto">
+            {links.map((link) => {
+              const inactive = link.revokedAt !== null || isExpired(link)
+              return (
+                <div key={link.id} className={`rounded-md border p-3 text-sm ${inactive ? "opacity-60" : ""}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1 truncate">
+                      {link.hasPassword && <Lock className="h-3 w-3" />}
+                      {link.floorPlanId ? "One variation" : "Whole project"}
+                      <span className="text-muted-foreground">
+                        {link.revokedAt
+                          ? " · revoked"
+                          : link.expiresAt
+                            ? ` · ${isExpired(link) ? "expired" : "expires"} ${new Date(link.expiresAt).toLocaleDateString()}`
+                            : ""}
+                      </span>
+                    </span>
+                    {!inactive && (
+                      <span className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => copyLink(link)}>
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleRevoke(link)}>
+                          Revoke
+                        </Button>
+                      </span>
+                    )}
+                  </div>
+                  {link.approvals.map((approval) => (
+                    <div key={approval.id} className="mt-1 flex items-start gap-1 text-xs text-emerald-600">
+                      <CheckCircle2 className="mt-0.5 h-3 w-3 shrink-0" />
+                      <span>
+                        Approved by {approval.name}
+                        {approval.floorPlanId === floorPlanId ? " (this variation)" : ""}
+                        {approval.comment && `: "${approval.comment}"`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,8 +1,9 @@
 "use client"
 
 import { useRef } from "react"
-import { ChevronLeft, ChevronRight, MoreHorizontal } from "lucide-react"
+import { AlertTriangle, ChevronLeft, ChevronRight, MoreHorizontal } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
 
 interface FloorPlanData {
   walls: Array<{ x1: number; y1: number; x2: number; y2: number }>
@@ -16,6 +17,17 @@ interface FloorPlanData {
   }>
   doors: Array<{ x: number; y: number; rotation: number }>
   windows: Array<{ x: number; y: number; width: number }>
+  thumbnail?: string
+}
+
+// Where a variation that is still being generated has got to
+export type VariationProgress = "specification" | "layout" | "preview" | "failed"
+
+const PROGRESS_LABELS: Record<VariationProgress, string> = {
+  specification: "Specifying",
+  layout: "Laying out",
+  preview: "Rendering",
+  failed: "Failed",
 }
 
 interface VariationGalleryProps {
@@ -23,6 +35,7 @@ interface VariationGalleryProps {
   currentIndex: number
   onSelect: (index: number) => void
   onLoadMore?: () => void
+  pending?: VariationProgress[]
 }
 
 export function VariationGallery({
@@ -30,6 +43,7 @@ export function VariationGallery({
   currentIndex,
   onSelect,
   onLoadMore,
+  pending = [],
 }: VariationGalleryProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
@@ -71,7 +85,11 @@ export function VariationGallery({
           />
         ))}
 
-        {onLoadMore && (
+        {pending.map((progress, index) => (
+          <PendingThumbnail key={`pending-${index}`} progress={progress} />
+        ))}
+
+        {onLoadMore && pending.length === 0 && (
           <button
             onClick={onLoadMore}
             className="flex h-24 w-24 shrink-0 items-center justify-center rounded-lg border-2 border-dashed border-zinc-700 bg-zinc-800 transition-all hover:border-zinc-600 hover:bg-zinc-750"
@@ -116,39 +134,47 @@ function VariationThumbnail({
           : "border-zinc-700 bg-white hover:border-zinc-600 hover:ring-2 hover:ring-zinc-600/50"
       }`}
     >
-      {/* Mini floor plan preview */}
-      <svg
-        viewBox="0 0 100 100"
-        className="h-full w-full"
-        preserveAspectRatio="xMidYMid meet"
-      >
-        {/* Draw simplified walls */}
-        {variation.walls.map((wall, i) => (
-          <line
-            key={`wall-${i}`}
-            x1={wall.x1 / 2}
-            y1={wall.y1 / 2}
-            x2={wall.x2 / 2}
-            y2={wall.y2 / 2}
-            stroke="#1f2937"
-            strokeWidth="1.5"
-          />
-        ))}
+      {/* Rendered thumbnail, or a mini floor plan once the plan has been edited */}
+      {variation.thumbnail ? (
+        <img
+          src={variation.thumbnail}
+          alt={`Variation ${index + 1}`}
+          className="h-full w-full object-contain"
+        />
+      ) : (
+        <svg
+          viewBox="0 0 100 100"
+          className="h-full w-full"
+          preserveAspectRatio="xMidYMid meet"
+        >
+          {/* Draw simplified walls */}
+          {variation.walls.map((wall, i) => (
+            <line
+              key={`wall-${i}`}
+              x1={wall.x1 / 2}
+              y1={wall.y1 / 2}
+              x2={wall.x2 / 2}
+              y2={wall.y2 / 2}
+              stroke="#1f2937"
+              strokeWidth="1.5"
+            />
+          ))}
 
-        {/* Draw simplified rooms */}
-        {variation.rooms.map((room, i) => (
-          <rect
-            key={`room-${i}`}
-            x={room.x / 2}
-            y={room.y / 2}
-            width={room.width / 2}
-            height={room.height / 2}
-            fill="#f3f4f6"
-            stroke="#d1d5db"
-            strokeWidth="0.5"
-          />
-        ))}
-      </svg>
+          {/* Draw simplified rooms */}
+          {variation.rooms.map((room, i) => (
+            <rect
+              key={`room-${i}`}
+              x={room.x / 2}
+              y={room.y / 2}
+              width={room.width / 2}
+              height={room.height / 2}
+              fill="#f3f4f6"
+              stroke="#d1d5db"
+              strokeWidth="0.5"
+            />
+          ))}
+        </svg>
+      )}
 
       {/* Selected indicator */}
       {isSelected && (
@@ -168,3 +194,23 @@ function VariationThumbnail({
     </button>
   )
 }
+
+function PendingThumbnail({ progress }: { progress: VariationProgress }) {
+  if (progress === "failed") {
+    return (
+      <div className="flex h-24 w-24 shrink-0 flex-col items-center justify-center rounded-lg border-2 border-red-900 bg-zinc-800">
+        <AlertTriangle className="h-5 w-5 text-red-400" />
+        <span className="mt-1 text-xs text-red-400">{PROGRESS_LABELS[progress]}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative h-24 w-24 shrink-0">
+      <Skeleton className="h-full w-full rounded-lg border-2 border-zinc-700" />
+      <span className="absolute inset-x-0 bottom-2 text-center text-[10px] text-zinc-400">
+        {PROGRESS_LABELS[progress]}...
+      </span>
+    </div>
+  )
+}
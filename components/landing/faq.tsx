@@ -22,7 +22,7 @@ const faqs = [
   },
   {
     question: "How many floor plans can I generate?",
-    answer: "Unlimited! You can generate as many floor plan proposals as you need. Each generation produces 5 variations, and all proposals are saved for comparison."
+    answer: "Every account has a monthly allowance of generations, shown on the pricing plan and on your Usage page. Each generation produces 5 variations, and all proposals are saved for comparison."
   },
   {
     question: "Can I use these plans for actual construction?",
@@ -34,7 +34,7 @@ const faqs = [
   },
   {
     question: "Is PlotSync really free?",
-    answer: "Yes! PlotSync is completely free with all features included - unlimited generations, advanced editing, DXF export, and unlimited saved projects. No hidden fees or premium tiers."
+    answer: "Yes! PlotSync is completely free with all features included - a generous monthly allowance of generations, advanced editing, DXF export, and unlimited saved projects. No hidden fees or premium tiers."
   }
 ]
 
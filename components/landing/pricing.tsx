@@ -1,28 +1,26 @@
-"use client"
-
 import { Button } from "@/components/ui/button"
 import { Check } from "lucide-react"
+import { allPlans, describeAllowance } from "@/lib/plans"
 
-const plans = [
-  {
-    name: "Free Forever",
-    price: "$0",
-    period: "forever",
-    features: [
-      "Unlimited floor plan generations",
-      "Unlimited proposals",
-      "Multiple variations per generation",
-      "Advanced Edit mode",
-      "DXF export",
-      "Unlimited saved projects",
-      "All features included"
-    ],
-    cta: "Get Started",
-    href: "/signup",
-    popular: true
-  }
+// Shown under every plan's allowances
+const features = [
+  "Unlimited proposals",
+  "Multiple variations per generation",
+  "Advanced Edit mode",
+  "DXF export",
+  "Unlimited saved projects",
+  "All features included"
 ]
 
+// Rendered on the server so the allowances match this deployment's configuration
+const plans = allPlans().map((plan) => ({
+  ...plan,
+  features: [describeAllowance(plan.generations, "floor plan generations"), ...features],
+  cta: "Get Started",
+  href: "/signup",
+  popular: plan.id === "free"
+}))
+
 export function Pricing() {
   return (
     <section className="py-20 md:py-32">
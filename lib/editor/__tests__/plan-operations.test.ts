@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyOperation,
+  PlanDocument,
+  PlanOperation,
+  StampedOperation,
+  toFields,
+} from '../plan-operations';
+import { FloorPlanGeometry } from '@/lib/floor-plan/types';
+import { geometry, room, wall } from '@/lib/floor-plan/__tests__/fixtures';
+
+function plan(): FloorPlanGeometry {
+  return geometry(8, 3, {
+    rooms: [room('room-a', 'bedroom', 'room-a', 0, 0, 4, 3), room('room-b', 'bedroom', 'room-b', 4, 0, 4, 3)],
+    walls: [wall('wall-1', 4, 0, 4, 3, { type: 'interior', thickness: 0.1, adjacentRooms: ['room-a', 'room-b'] })],
+    openings: [],
+  });
+}
+
+/**
+ * One editor: its copy of the plan and its conflict state
+ */
+function replica(clientId: string) {
+  const document = new PlanDocument(clientId);
+  const state = plan();
+  return {
+    state,
+    edit(operation: PlanOperation): StampedOperation {
+      applyOperation(state, operation);
+      return document.local(operation);
+    },
+    receive(stamped: StampedOperation) {
+      const operation = document.integrate(stamped);
+      if (operation) applyOperation(state, operation);
+    },
+  };
+}
+
+function move(roomId: string, x: number, y: number): PlanOperation {
+  return { kind: 'update', elementType: 'room', elementId: roomId, fields: toFields('geometry.bounds', { x, y }) };
+}
+
+describe('Plan Operations', () => {
+  describe('toFields', () => {
+    it('should split objects into leaf paths and keep arrays whole', () => {
+      expect(toFields('geometry', { bounds: { x: 1, y: 2 }, vertices: [{ x: 0, y: 0 }] })).toEqual({
+        'geometry.bounds.x': 1,
+        'geometry.bounds.y': 2,
+        'geometry.vertices': [{ x: 0, y: 0 }],
+      });
+    });
+  });
+
+  describe('applyOperation', () => {
+    it('should carry the room outline along with its bounds', () => {
+      const state = plan();
+      applyOperation(state, {
+        kind: 'update',
+        elementType: 'room',
+        elementId: 'room-a',
+        fields: toFields('geometry.bounds', { x: 1, width: 8 }),
+      });
+
+      const { geometry } = state.rooms[0];
+      expect(geometry.vertices[2]).toEqual({ x: 9, y: 3 });
+      expect(geometry.centroid).toEqual({ x: 5, y: 1.5 });
+      expect(geometry.area).toBe(24);
+    });
+
+    it('should keep wall lengths in step with their end points', () => {
+      const state = plan();
+      applyOperation(state, {
+        kind: 'update',
+        elementType: 'wall',
+        elementId: 'wall-1',
+        fields: toFields('geometry.end', { x: 4, y: 5 }),
+      });
+
+      expect(state.walls[0].length).toBe(5);
+    });
+  });
+
+  describe('PlanDocument', () => {
+    it('should settle concurrent moves of the same room on one of them everywhere', () => {
+      const ann = replica('ann');
+      const bob = replica('bob');
+
+      const fromAnn = ann.edit(move('room-a', 1, 1));
+      const fromBob = bob.edit(move('room-a', 2, 0.5));
+      ann.receive(fromBob);
+      bob.receive(fromAnn);
+
+      expect(ann.state).toEqual(bob.state);
+      // Same clock, so the client id decides
+      expect(ann.state.rooms[0].geometry.bounds).toEqual({ x: 2, y: 0.5, width: 4, height: 3 });
+    });
+
+    it('should keep a later move over one made before it was seen', () => {
+      const ann = replica('ann');
+      const bob = replica('bob');
+
+      bob.receive(ann.edit(move('room-a', 1, 1)));
+      const later = bob.edit(move('room-a', 3, 3));
+      ann.receive(later);
+
+      expect(ann.state.rooms[0].geometry.bounds.x).toBe(3);
+      expect(bob.state.rooms[0].geometry.bounds.x).toBe(3);
+    });
+
+    it('should apply a concurrent move and resize of the same room', () => {
+      const ann = replica('ann');
+      const bob = replica('bob');
+
+      const moved = ann.edit(move('room-b', 5, 1));
+      const resized = bob.edit({
+        kind: 'update',
+        elementType: 'room',
+        elementId: 'room-b',
+        fields: toFields('geometry.bounds', { width: 2 }),
+      });
+      ann.receive(resized);
+      bob.receive(moved);
+
+      expect(ann.state).toEqual(bob.state);
+      expect(ann.state.rooms[1].geometry.bounds).toEqual({ x: 5, y: 1, width: 2, height: 3 });
+    });
+
+    it('should let a delete win over a concurrent edit', () => {
+      const ann = replica('ann');
+      const bob = replica('bob');
+
+      const deleted = ann.edit({ kind: 'delete', elementType: 'room', elementId: 'room-a' });
+      const moved = bob.edit(move('room-a', 9, 9));
+      ann.receive(moved);
+      bob.receive(deleted);
+
+      expect(ann.state.rooms.map(r => r.id)).toEqual(['room-b']);
+      expect(bob.state).toEqual(ann.state);
+    });
+
+    it('should add rooms inserted by others', () => {
+      const ann = replica('ann');
+      const bob = replica('bob');
+
+      bob.receive(ann.edit({ kind: 'insert', elementType: 'room', element: room('room-c', 'bedroom', 'room-c', 0, 3, 2, 2) }));
+
+      expect(bob.state.rooms.map(r => r.id)).toEqual(['room-a', 'room-b', 'room-c']);
+    });
+  });
+});
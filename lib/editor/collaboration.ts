@@ -0,0 +1,246 @@
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { FloorPlanGeometry, Point2D } from '@/lib/floor-plan/types';
+import { subscribeToOperations, useEditorStore } from './editor-store';
+import { PlanDocument, PlanOperation, StampedOperation } from './plan-operations';
+
+// ============================================================================
+// PROTOCOL
+// ============================================================================
+
+// Stand-in server for development: `npm run collab` (scripts/collaboration-server.mjs)
+export const COLLABORATION_URL = process.env.NEXT_PUBLIC_COLLABORATION_URL || 'ws://localhost:4001';
+
+export interface Collaborator {
+  clientId: string;
+  name: string;
+  color: string;
+  cursor: Point2D | null; // Plan coordinates (m)
+  selection: string[];
+}
+
+export type ClientMessage =
+  | { type: 'join'; clientId: string; name: string; plan: FloorPlanGeometry | null }
+  | { type: 'operation'; operation: StampedOperation }
+  | { type: 'presence'; cursor: Point2D | null; selection: string[] };
+
+/**
+ * On joining, the server sends the plan as the first editor opened it and
+ * every operation since, which together give the current plan
+ */
+export type ServerMessage =
+  | { type: 'welcome'; color: string; plan: FloorPlanGeometry | null; operations: StampedOperation[]; peers: Collaborator[] }
+  | { type: 'operation'; operation: StampedOperation }
+  | { type: 'presence'; peer: Collaborator }
+  | { type: 'leave'; clientId: string };
+
+// ============================================================================
+// COLLABORATION STORE
+// ============================================================================
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+interface CollaborationState {
+  status: ConnectionStatus;
+  session: CollaborationSession | null;
+  peers: Record<string, Collaborator>;
+}
+
+export const useCollaborationStore = create<CollaborationState>()(() => ({
+  status: 'disconnected',
+  session: null,
+  peers: {},
+}));
+
+// Cursor and selection updates sent at most this often (ms)
+const PRESENCE_INTERVAL = 50;
+
+const MAX_RETRY_DELAY = 10000;
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+/**
+ * One editor's connection to a shared plan. Operations made in the editor
+ * store are stamped and sent; operations from others are resolved against
+ * them and applied to the store. Edits made while disconnected are sent
+ * after reconnecting.
+ */
+export class CollaborationSession {
+  readonly clientId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  private socket: WebSocket | null = null;
+  private document: PlanDocument | null = null;
+  private outbox: PlanOperation[] = [];
+  private cursor: Point2D | null = null;
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = 1000;
+  private closed = false;
+  private subscriptions: Array<() => void> = [];
+
+  constructor(
+    private url: string,
+    private planId: string,
+    private name: string
+  ) {}
+
+  connect(): void {
+    this.closed = false;
+    useCollaborationStore.setState({ session: this, status: 'connecting', peers: {} });
+
+    this.subscriptions = [
+      subscribeToOperations(operation => this.sendOperation(operation)),
+      useEditorStore.subscribe((state, previous) => {
+        if (state.selection.elementIds !== previous.selection.elementIds) this.schedulePresence();
+      }),
+    ];
+    this.open();
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+    if (this.presenceTimer) clearTimeout(this.presenceTimer);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+    this.socket = null;
+
+    if (useCollaborationStore.getState().session === this) {
+      useCollaborationStore.setState({ session: null, status: 'disconnected', peers: {} });
+    }
+  }
+
+  /**
+   * Show others where the pointer is (plan coordinates), or null to hide it
+   */
+  moveCursor(point: Point2D | null): void {
+    this.cursor = point;
+    this.schedulePresence();
+  }
+
+  private open(): void {
+    const socket = new WebSocket(`${this.url}/${encodeURIComponent(this.planId)}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retryDelay = 1000;
+      this.send({
+        type: 'join',
+        clientId: this.clientId,
+        name: this.name,
+        plan: useEditorStore.getState().currentPlan,
+      });
+    };
+
+    socket.onmessage = event => {
+      this.receive(JSON.parse(String(event.data)) as ServerMessage);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.document = null;
+      useCollaborationStore.setState({ status: 'disconnected', peers: {} });
+
+      if (!this.closed) {
+        useCollaborationStore.setState({ status: 'connecting' });
+        this.retryTimer = setTimeout(() => this.open(), this.retryDelay);
+        this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+      }
+    };
+  }
+
+  private receive(message: ServerMessage): void {
+    const editor = useEditorStore.getState();
+
+    switch (message.type) {
+      case 'welcome': {
+        // Start from the shared plan, then replay what was done here offline
+        this.document = new PlanDocument(this.clientId);
+        if (message.plan) editor.setCurrentPlan(message.plan);
+        for (const operation of message.operations) {
+          this.applyRemote(operation);
+        }
+
+        const offline = this.outbox;
+        this.outbox = [];
+        for (const operation of offline) {
+          useEditorStore.getState().applyRemoteOperation(operation);
+          this.sendOperation(operation);
+        }
+
+        useCollaborationStore.setState({
+          status: 'connected',
+          peers: Object.fromEntries(message.peers.map(peer => [peer.clientId, peer])),
+        });
+        this.schedulePresence();
+        break;
+      }
+
+      case 'operation':
+        this.applyRemote(message.operation);
+        break;
+
+      case 'presence':
+        useCollaborationStore.setState(state => ({
+          peers: { ...state.peers, [message.peer.clientId]: message.peer },
+        }));
+        break;
+
+      case 'leave':
+        useCollaborationStore.setState(state => {
+          const { [message.clientId]: _left, ...peers } = state.peers;
+          return { peers };
+        });
+        break;
+    }
+  }
+
+  private applyRemote(stamped: StampedOperation): void {
+    const operation = this.document?.integrate(stamped);
+    if (operation) useEditorStore.getState().applyRemoteOperation(operation);
+  }
+
+  private sendOperation(operation: PlanOperation): void {
+    if (!this.document || this.socket?.readyState !== WebSocket.OPEN) {
+      this.outbox.push(operation);
+      return;
+    }
+    this.send({ type: 'operation', operation: this.document.local(operation) });
+  }
+
+  private schedulePresence(): void {
+    if (this.presenceTimer) return;
+    this.presenceTimer = setTimeout(() => {
+      this.presenceTimer = null;
+      if (!this.document) return;
+      this.send({
+        type: 'presence',
+        cursor: this.cursor,
+        selection: useEditorStore.getState().selection.elementIds,
+      });
+    }, PRESENCE_INTERVAL);
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+/**
+ * Join the shared editing session for a plan while the calling component is
+ * mounted. No session is opened without a plan id.
+ */
+export function useCollaboration(planId: string | null | undefined, name: string | null | undefined): void {
+  useEffect(() => {
+    if (!planId) return;
+
+    const session = new CollaborationSession(COLLABORATION_URL, planId, name || 'Guest');
+    session.connect();
+    return () => session.disconnect();
+  }, [planId, name]);
+}
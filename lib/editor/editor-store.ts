@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { FloorPlanGeometry, Point2D, RoomGeometry, Wall, Opening, FurnitureItem } from '@/lib/floor-plan/types';
+import { applyOperation, operationElementId, PlanOperation, toFields } from './plan-operations';
 
 // ============================================================================
 // EDITOR STATE TYPES
@@ -94,6 +95,9 @@ export interface EditorState {
   // Selection
   selection: Selection;
   
+  // Rooms kept in place when the layout is regenerated
+  lockedRoomIds: string[];
+  
   // Transform state
   transform: TransformState;
   
@@ -121,6 +125,10 @@ export interface EditorState {
   deselectAll: () => void;
   updateSelection: (selection: Partial<Selection>) => void;
   
+  // Lock actions
+  toggleRoomLock: (roomId: string) => void;
+  clearRoomLocks: () => void;
+  
   // Transform actions
   startTransform: (handle: TransformHandleType, position: Point2D) => void;
   updateTransform: (position: Point2D) => void;
@@ -156,6 +164,34 @@ export interface EditorState {
   // Element operations
   deleteElement: (type: ElementType, id: string) => void;
   duplicateElement: (type: ElementType, id: string) => void;
+  
+  // Collaboration: apply an operation made by someone else. It is not
+  // added to the undo history or passed to operation listeners.
+  applyRemoteOperation: (operation: PlanOperation) => void;
+}
+
+// ============================================================================
+// OPERATION LISTENERS
+// ============================================================================
+
+type OperationListener = (operation: PlanOperation) => void;
+
+const operationListeners = new Set<OperationListener>();
+
+/**
+ * Be told about every operation the local user makes on the plan. Returns
+ * the unsubscribe function.
+ */
+export function subscribeToOperations(listener: OperationListener): () => void {
+  operationListeners.add(listener);
+  return () => {
+    operationListeners.delete(listener);
+  };
+}
+
+function emitOperation(operation: PlanOperation | null): void {
+  if (!operation) return;
+  operationListeners.forEach(listener => listener(operation));
 }
 
 // ============================================================================
@@ -173,6 +209,7 @@ export const useEditorStore = create<EditorState>()(
       handles: [],
       bounds: null,
     },
+    lockedRoomIds: [],
     transform: {
       isDragging: false,
       dragStart: null,
@@ -199,6 +236,10 @@ export const useEditorStore = create<EditorState>()(
     setCurrentPlan: (plan) => {
       set((state) => {
         state.currentPlan = plan;
+        // Regenerated plans keep their locked rooms; drop locks on rooms that are gone
+        state.lockedRoomIds = plan
+          ? state.lockedRoomIds.filter(id => plan.rooms.some(r => r.id === id))
+          : [];
       });
     },
 
@@ -246,6 +287,24 @@ export const useEditorStore = create<EditorState>()(
       });
     },
 
+    // Lock actions
+    toggleRoomLock: (roomId) => {
+      set((state) => {
+        const index = state.lockedRoomIds.indexOf(roomId);
+        if (index >= 0) {
+          state.lockedRoomIds.splice(index, 1);
+        } else {
+          state.lockedRoomIds.push(roomId);
+        }
+      });
+    },
+
+    clearRoomLocks: () => {
+      set((state) => {
+        state.lockedRoomIds = [];
+      });
+    },
+
     // Transform actions
     startTransform: (handle, position) => {
       set((state) => {
@@ -288,6 +347,7 @@ export const useEditorStore = create<EditorState>()(
     },
 
     commitTransform: () => {
+      let operation: PlanOperation | null = null;
       set((state) => {
         if (!state.transform.previewGeometry || !state.selection.type) return;
         
@@ -305,7 +365,7 @@ export const useEditorStore = create<EditorState>()(
         };
         
         // Apply the transform
-        applyGeometryUpdate(state, elementType, elementId, state.transform.previewGeometry);
+        operation = applyGeometryUpdate(state, elementType, elementId, state.transform.previewGeometry);
         
         // Add to history
         get().pushHistory(historyEntry);
@@ -324,6 +384,7 @@ export const useEditorStore = create<EditorState>()(
         state.selection.handles = calculateHandles(elementType, elementId, state.currentPlan);
         state.selection.bounds = calculateBounds(elementType, state.selection.elementIds, state.currentPlan);
       });
+      emitOperation(operation);
     },
 
     cancelTransform: () => {
@@ -360,29 +421,33 @@ export const useEditorStore = create<EditorState>()(
     },
 
     undo: () => {
+      let operation: PlanOperation | null = null;
       set((state) => {
         const entry = state.undoStack.pop();
         if (!entry) return;
         
         // Restore previous state
-        applyGeometryUpdate(state, entry.elementType, entry.elementId, entry.before);
+        operation = applyGeometryUpdate(state, entry.elementType, entry.elementId, entry.before);
         
         // Add to redo stack
         state.redoStack.push(entry);
       });
+      emitOperation(operation);
     },
 
     redo: () => {
+      let operation: PlanOperation | null = null;
       set((state) => {
         const entry = state.redoStack.pop();
         if (!entry) return;
         
         // Restore forward state
-        applyGeometryUpdate(state, entry.elementType, entry.elementId, entry.after);
+        operation = applyGeometryUpdate(state, entry.elementType, entry.elementId, entry.after);
         
         // Add back to undo stack
         state.undoStack.push(entry);
       });
+      emitOperation(operation);
     },
 
     clearHistory: () => {
@@ -445,36 +510,32 @@ export const useEditorStore = create<EditorState>()(
 
     // Geometry update actions
     updateRoomGeometry: (roomId, geometry) => {
-      set((state) => {
-        if (!state.currentPlan) return;
-        const room = state.currentPlan.rooms.find(r => r.id === roomId);
-        if (room) {
-          Object.assign(room.geometry, geometry);
-        }
+      performOperation(set, get, {
+        kind: 'update',
+        elementType: 'room',
+        elementId: roomId,
+        fields: toFields('geometry', clone(geometry)),
       });
     },
 
     updateWallGeometry: (wallId, geometry) => {
-      set((state) => {
-        if (!state.currentPlan) return;
-        const wall = state.currentPlan.walls.find(w => w.id === wallId);
-        if (wall) {
-          Object.assign(wall.geometry, geometry);
-        }
+      performOperation(set, get, {
+        kind: 'update',
+        elementType: 'wall',
+        elementId: wallId,
+        fields: toFields('geometry', clone(geometry)),
       });
     },
 
     updateOpeningPosition: (openingId, position, rotation) => {
-      set((state) => {
-        if (!state.currentPlan) return;
-        const opening = state.currentPlan.openings.find(o => o.id === openingId);
-        if (opening) {
-          opening.position = position;
-          if (rotation !== undefined && opening.properties.swingDirection !== undefined) {
-            opening.properties.swingDirection = rotation;
-          }
-        }
-      });
+      const opening = get().currentPlan?.openings.find(o => o.id === openingId);
+      if (!opening) return;
+      
+      const fields: Record<string, unknown> = { position };
+      if (rotation !== undefined && opening.properties.swingDirection !== undefined) {
+        fields['properties.swingDirection'] = rotation;
+      }
+      performOperation(set, get, { kind: 'update', elementType: opening.type, elementId: openingId, fields });
     },
 
     updateFurniturePosition: (furnitureId, position, rotation) => {
@@ -487,75 +548,76 @@ export const useEditorStore = create<EditorState>()(
 
     // Element operations
     deleteElement: (type, id) => {
-      set((state) => {
-        if (!state.currentPlan) return;
-        
-        // Push to history before deleting
-        const before = getElementGeometry(type, id, state.currentPlan);
-        
-        switch (type) {
-          case 'room':
-            state.currentPlan.rooms = state.currentPlan.rooms.filter(r => r.id !== id);
-            break;
-          case 'wall':
-            state.currentPlan.walls = state.currentPlan.walls.filter(w => w.id !== id);
-            break;
-          case 'door':
-          case 'window':
-            state.currentPlan.openings = state.currentPlan.openings.filter(o => o.id !== id);
-            break;
-        }
-        
-        get().pushHistory({
-          actionType: 'delete',
-          elementType: type,
-          elementId: id,
-          before,
-          after: null,
-          description: `Deleted ${type}`,
-        });
-        
-        // Clear selection
-        get().deselectAll();
+      if (type === 'furniture' || !get().currentPlan) return;
+      
+      // Push to history before deleting
+      const before = clone(getElementGeometry(type, id, get().currentPlan));
+      
+      performOperation(set, get, { kind: 'delete', elementType: type, elementId: id });
+      
+      get().pushHistory({
+        actionType: 'delete',
+        elementType: type,
+        elementId: id,
+        before,
+        after: null,
+        description: `Deleted ${type}`,
       });
+      
+      // Clear selection
+      get().deselectAll();
     },
 
     duplicateElement: (type, id) => {
+      // Only rooms can be duplicated for now
+      if (type !== 'room') return;
+      
+      const element = getElementGeometry(type, id, get().currentPlan);
+      if (!element) return;
+      
+      // Create duplicate with offset. The random suffix keeps ids unique
+      // between collaborators duplicating at the same moment.
+      const newElement = clone(element);
+      const newId = `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      newElement.id = newId;
+      
+      // Offset position
+      newElement.geometry.bounds.x += 1;
+      newElement.geometry.bounds.y += 1;
+      newElement.geometry.vertices = newElement.geometry.vertices.map((v: Point2D) => ({ x: v.x + 1, y: v.y + 1 }));
+      newElement.geometry.centroid = { x: newElement.geometry.centroid.x + 1, y: newElement.geometry.centroid.y + 1 };
+      
+      // Add to current plan
+      performOperation(set, get, { kind: 'insert', elementType: type, element: newElement });
+      
+      get().pushHistory({
+        actionType: 'add',
+        elementType: type,
+        elementId: newId,
+        before: null,
+        after: newElement,
+        description: `Duplicated ${type}`,
+      });
+      
+      // Select new element
+      get().selectElement(type, newId);
+    },
+
+    applyRemoteOperation: (operation) => {
       set((state) => {
         if (!state.currentPlan) return;
+        applyOperation(state.currentPlan, operation);
         
-        const element = getElementGeometry(type, id, state.currentPlan);
-        if (!element) return;
-        
-        // Create duplicate with offset
-        const newElement = JSON.parse(JSON.stringify(element));
-        const newId = `${type}-${Date.now()}`;
-        
-        // Offset position
-        if (type === 'room') {
-          newElement.geometry.bounds.x += 1;
-          newElement.geometry.bounds.y += 1;
-        }
+        // Keep the selection on what is still there
+        const { type, elementIds } = state.selection;
+        if (!type || !elementIds.includes(operationElementId(operation))) return;
         
-        // Add to current plan
-        switch (type) {
-          case 'room':
-            newElement.id = newId;
-            state.currentPlan.rooms.push(newElement);
-            break;
+        if (operation.kind === 'delete') {
+          state.selection = { type: null, elementIds: [], handles: [], bounds: null };
+        } else {
+          state.selection.handles = calculateHandles(type, elementIds[0], state.currentPlan);
+          state.selection.bounds = calculateBounds(type, elementIds, state.currentPlan);
         }
-        
-        get().pushHistory({
-          actionType: 'add',
-          elementType: type,
-          elementId: newId,
-          before: null,
-          after: newElement,
-          description: `Duplicated ${type}`,
-        });
-        
-        // Select new element
-        get().selectElement(type, newId);
       });
     },
   }))
@@ -737,30 +799,57 @@ function calculatePreviewGeometry(
   return originalGeometry;
 }
 
+/**
+ * Apply a transform result or history snapshot as an operation, which is
+ * returned so it can be passed on once the state update is done
+ */
 function applyGeometryUpdate(
   state: any,
   type: ElementType,
   id: string,
   geometry: any
-) {
-  if (!state.currentPlan || !geometry) return;
+): PlanOperation | null {
+  if (!state.currentPlan || !geometry) return null;
   
+  let fields: Record<string, unknown>;
   switch (type) {
     case 'room': {
-      const room = state.currentPlan.rooms.find((r: any) => r.id === id);
-      if (room && geometry.geometry?.bounds) {
-        room.geometry.bounds = geometry.geometry.bounds;
-      }
+      if (!geometry.geometry?.bounds) return null;
+      fields = toFields('geometry.bounds', clone(geometry.geometry.bounds));
       break;
     }
     case 'wall': {
-      const wall = state.currentPlan.walls.find((w: any) => w.id === id);
-      if (wall && geometry.geometry) {
-        wall.geometry = geometry.geometry;
-      }
+      if (!geometry.geometry) return null;
+      fields = toFields('geometry', clone(geometry.geometry));
       break;
     }
+    default:
+      return null;
   }
+  
+  const operation: PlanOperation = { kind: 'update', elementType: type as 'room' | 'wall', elementId: id, fields };
+  applyOperation(state.currentPlan, operation);
+  return operation;
+}
+
+/**
+ * Apply an operation made here and pass it on to operation listeners
+ */
+function performOperation(
+  set: (fn: (state: EditorState) => void) => void,
+  get: () => EditorState,
+  operation: PlanOperation
+): void {
+  if (!get().currentPlan) return;
+  set((state) => {
+    applyOperation(state.currentPlan!, operation);
+  });
+  emitOperation(operation);
+}
+
+// Plain copy of store data, safe to keep after the update that read it
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
 }
 
 function snapToGrid(value: number, gridSize: number): number {
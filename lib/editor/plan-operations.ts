@@ -0,0 +1,232 @@
+import { FloorPlanGeometry, Opening, Point2D, RoomGeometry, Wall } from '@/lib/floor-plan/types';
+
+// ============================================================================
+// PLAN OPERATIONS
+// ============================================================================
+
+export type PlanElementType = 'room' | 'wall' | 'door' | 'window';
+
+export type PlanElement = RoomGeometry | Wall | Opening;
+
+/**
+ * New field values for one element, keyed by dotted path
+ * (e.g. 'geometry.bounds.x'). Objects are split into their leaves so
+ * concurrent edits of different fields both survive; arrays are set whole.
+ */
+export type FieldValues = Record<string, unknown>;
+
+/**
+ * Every change the editor makes to a plan, in a form that can be sent to
+ * other editors of the same plan and replayed there
+ */
+export type PlanOperation =
+  | { kind: 'update'; elementType: PlanElementType; elementId: string; fields: FieldValues }
+  | { kind: 'insert'; elementType: PlanElementType; element: PlanElement }
+  | { kind: 'delete'; elementType: PlanElementType; elementId: string };
+
+/**
+ * Lamport timestamp. The client id breaks ties, so every replica orders
+ * any two stamps the same way.
+ */
+export interface Stamp {
+  clock: number;
+  clientId: string;
+}
+
+export interface StampedOperation {
+  operation: PlanOperation;
+  stamp: Stamp;
+}
+
+/**
+ * Split a value into field paths under prefix
+ */
+export function toFields(prefix: string, value: unknown): FieldValues {
+  if (!isPlainObject(value)) return { [prefix]: value };
+
+  const fields: FieldValues = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    Object.assign(fields, toFields(prefix ? `${prefix}.${key}` : key, item));
+  }
+  return fields;
+}
+
+/**
+ * Apply an operation to a plan in place (an immer draft in the editor
+ * store). Room outlines follow their bounds and wall lengths their end
+ * points, so replicas stay consistent whichever fields they receive.
+ */
+export function applyOperation(plan: FloorPlanGeometry, operation: PlanOperation): void {
+  const collection = collectionOf(plan, operation.elementType) as PlanElement[];
+
+  switch (operation.kind) {
+    case 'insert': {
+      if (!collection.some(element => element.id === operation.element.id)) {
+        collection.push(clone(operation.element));
+      }
+      break;
+    }
+
+    case 'delete': {
+      const index = collection.findIndex(element => element.id === operation.elementId);
+      if (index >= 0) collection.splice(index, 1);
+      break;
+    }
+
+    case 'update': {
+      const element = collection.find(item => item.id === operation.elementId);
+      if (!element) return;
+
+      const before = operation.elementType === 'room' ? { ...(element as RoomGeometry).geometry.bounds } : null;
+      for (const [path, value] of Object.entries(operation.fields)) {
+        setPath(element, path, clone(value));
+      }
+
+      const paths = Object.keys(operation.fields);
+      if (before && !paths.some(path => path.startsWith('geometry.vertices'))) {
+        fitRoomToBounds(element as RoomGeometry, before);
+      }
+      if (operation.elementType === 'wall' && paths.some(path => path.startsWith('geometry.'))) {
+        const { start, end } = (element as Wall).geometry;
+        (element as Wall).length = Math.hypot(end.x - start.x, end.y - start.y);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * The element an operation is about
+ */
+export function operationElementId(operation: PlanOperation): string {
+  return operation.kind === 'insert' ? operation.element.id : operation.elementId;
+}
+
+// ============================================================================
+// REPLICA STATE
+// ============================================================================
+
+/**
+ * Conflict resolution for one replica of a plan. Each field of each element
+ * is a last-writer-wins register ordered by stamp, and deletes win over
+ * concurrent edits. Two people moving the same room therefore end up with
+ * the later move everywhere, never a blend of both, while a move and a
+ * rename of the same room both apply.
+ *
+ * The plan itself lives in the editor store; this only tracks which write
+ * each field holds, and filters incoming operations down to what wins.
+ */
+export class PlanDocument {
+  private clock = 0;
+  private fieldStamps = new Map<string, Stamp>();
+  private tombstones = new Set<string>();
+
+  constructor(readonly clientId: string) {}
+
+  /**
+   * Stamp an operation made here; it wins over everything seen so far
+   */
+  local(operation: PlanOperation): StampedOperation {
+    const stamp = { clock: ++this.clock, clientId: this.clientId };
+    this.integrate({ operation, stamp });
+    return { operation, stamp };
+  }
+
+  /**
+   * Record an operation from another replica. Returns the part of it to
+   * apply here, or null when everything it changes has been overwritten or
+   * deleted.
+   */
+  integrate({ operation, stamp }: StampedOperation): PlanOperation | null {
+    this.clock = Math.max(this.clock, stamp.clock);
+    const key = elementKey(operation.elementType, operationElementId(operation));
+
+    if (operation.kind === 'delete') {
+      this.tombstones.add(key);
+      return operation;
+    }
+    if (this.tombstones.has(key)) return null;
+
+    const fields = operation.kind === 'insert' ? toFields('', operation.element) : operation.fields;
+    const winning: FieldValues = {};
+    for (const [path, value] of Object.entries(fields)) {
+      const current = this.fieldStamps.get(`${key}/${path}`);
+      if (current && compareStamps(current, stamp) >= 0) continue;
+
+      this.fieldStamps.set(`${key}/${path}`, stamp);
+      winning[path] = value;
+    }
+
+    if (operation.kind === 'insert') return operation;
+    return Object.keys(winning).length > 0 ? { ...operation, fields: winning } : null;
+  }
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function collectionOf(plan: FloorPlanGeometry, type: PlanElementType): PlanElement[] {
+  switch (type) {
+    case 'room':
+      return plan.rooms;
+    case 'wall':
+      return plan.walls;
+    case 'door':
+    case 'window':
+      return plan.openings;
+  }
+}
+
+function elementKey(type: PlanElementType, id: string): string {
+  // Doors and windows share one list, so share one key space
+  return `${type === 'window' ? 'door' : type}:${id}`;
+}
+
+/**
+ * Stretch the room outline from its previous bounds onto its new ones
+ */
+function fitRoomToBounds(room: RoomGeometry, before: RoomGeometry['geometry']['bounds']): void {
+  const after = room.geometry.bounds;
+  if (
+    before.x === after.x && before.y === after.y &&
+    before.width === after.width && before.height === after.height
+  ) {
+    return;
+  }
+
+  const scaleX = before.width > 0 ? after.width / before.width : 1;
+  const scaleY = before.height > 0 ? after.height / before.height : 1;
+  const fit = (point: Point2D): Point2D => ({
+    x: after.x + (point.x - before.x) * scaleX,
+    y: after.y + (point.y - before.y) * scaleY,
+  });
+
+  room.geometry.vertices = room.geometry.vertices.map(fit);
+  room.geometry.centroid = fit(room.geometry.centroid);
+  room.geometry.area *= scaleX * scaleY;
+}
+
+function setPath(target: any, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) node[key] = {};
+    node = node[key];
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
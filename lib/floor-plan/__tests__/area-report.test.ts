@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for the Area Report Generator
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AreaReportGenerator } from '../stage-c/area-report';
+import { FloorPlanGeometry } from '../types';
+import { geometry, room, wall } from './fixtures';
+
+/**
+ * 8 × 5 m outline (wall centerlines) with 0.2 m walls: a living room on the
+ * left, a hallway and a bathroom on the right
+ */
+function plan(livingName: string = 'Living Room'): FloorPlanGeometry {
+  return geometry(8, 5, {
+    rooms: [
+      room('living1', 'living', livingName, 0.1, 0.1, 4.9, 4.8, 23.52),
+      room('hallway1', 'hallway', 'Hallway', 5.2, 0.1, 2.7, 1.4, 3.78),
+      room('bathroom1', 'bathroom', 'Bathroom', 5.2, 1.7, 2.7, 3.2, 8.64)
+    ],
+    walls: [
+      // The top wall is in two pieces, listed out of order
+      wall('wall_top_left', 0, 0, 5.1, 0),
+      wall('wall_right', 8, 0, 8, 5),
+      wall('wall_bottom', 8, 5, 0, 5),
+      wall('wall_top_right', 5.1, 0, 8, 0),
+      wall('wall_left', 0, 5, 0, 0),
+      wall('wall_split', 5.1, 0, 5.1, 5, { type: 'interior', adjacentRooms: ['living1', 'hallway1'] }),
+      wall('wall_hall', 5.1, 1.6, 8, 1.6, { type: 'interior' })
+    ],
+    openings: [
+      { id: 'window_1', type: 'window', width: 1.5, height: 1.2, wallId: 'wall_top_left', position: 0.5, properties: { sillHeight: 0.9 } },
+      { id: 'window_2', type: 'window', width: 1, wallId: 'wall_right', position: 0.7, properties: {} },
+      { id: 'door_1', type: 'door', width: 0.9, wallId: 'wall_bottom', position: 0.2, properties: { isEntry: true } },
+      { id: 'door_2', type: 'door', width: 0.9, wallId: 'wall_split', position: 0.2, properties: {} },
+      { id: 'door_3', type: 'door', width: 0.9, wallId: 'wall_hall', position: 0.5, properties: {} }
+    ]
+  }, 35.94);
+}
+
+describe('Area report', () => {
+  const generator = new AreaReportGenerator();
+
+  test('measures areas, circulation, walls and perimeter', () => {
+    const report = generator.generate(plan());
+
+    // 40 m² inside the centerlines, less 0.1 m all round
+    expect(report.grossInternalArea).toBeCloseTo(7.8 * 4.8, 6);
+    expect(report.perimeter).toBe(26);
+    expect(report.netArea).toBe(32.16);
+    expect(report.circulation).toEqual({ area: 3.78, percentage: 10.1, target: 15 });
+    expect(report.wallLengths).toEqual({ exterior: 26, interior: 7.9, total: 33.9 });
+    expect(report.openings).toEqual({ doors: 3, windows: 2 });
+  });
+
+  test('credits openings to the rooms beside them', () => {
+    const rooms = Object.fromEntries(generator.generate(plan()).rooms.map(room => [room.roomId, room]));
+
+    expect(rooms.living1).toEqual({
+      roomId: 'living1',
+      name: 'Living Room',
+      type: 'living',
+      area: 23.52,
+      width: 4.9,
+      depth: 4.8,
+      doors: 1,
+      windows: 1,
+      glazingArea: 1.8,
+      glazingRatio: 0.077
+    });
+    expect([rooms.hallway1.doors, rooms.hallway1.windows]).toEqual([2, 0]);
+    expect([rooms.bathroom1.doors, rooms.bathroom1.windows]).toEqual([2, 1]);
+
+    // Windows without a height take the default
+    expect(rooms.bathroom1.glazingArea).toBe(1.5);
+    expect(rooms.bathroom1.glazingRatio).toBe(0.174);
+  });
+
+  test('falls back to the footprint when the exterior walls do not close', () => {
+    const geometry = plan();
+    geometry.walls = geometry.walls.filter(wall => wall.id !== 'wall_left');
+    geometry.metadata.footprint = [{ x: 0, y: 0 }, { x: 8, y: 0 }, { x: 8, y: 5 }, { x: 0, y: 5 }];
+
+    expect(generator.generate(geometry).grossInternalArea).toBeCloseTo(7.8 * 4.8, 6);
+
+    delete geometry.metadata.footprint;
+    expect(generator.generate(geometry).perimeter).toBe(26);
+  });
+
+  test('writes CSV, JSON and an HTML table', () => {
+    const report = generator.generate(plan('Living, <Dining>'));
+    const csv = generator.toCSV(report).split('\r\n');
+
+    expect(csv[0]).toBe('Room,Type,Area (m²),Width (m),Depth (m),Doors,Windows,Glazing (m²),Glazing ratio');
+    expect(csv[1]).toBe('"Living, <Dining>",living,23.52,4.90,4.80,1,1,1.80,0.077');
+    expect(csv[4]).toBe('');
+    expect(csv).toContain('Circulation (% of GIA),10.1 (target 15.0)');
+    expect(csv).toContain('Gross internal area (m²),37.44');
+
+    expect(JSON.parse(generator.toJSON(report))).toEqual(report);
+
+    const html = generator.toHTML(report);
+    expect(html.startsWith('<table class="area-report">')).toBe(true);
+    expect(html).toContain('<td>Living, &lt;Dining&gt;</td>');
+    expect(html.match(/<tbody>[\s\S]*<\/tbody>/)![0].match(/<tr>/g)!.length).toBe(3);
+    expect(html).toContain('<th colspan="2" style="text-align:left">Net area (m²)</th><td colspan="6">32.16</td>');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for Building Envelope
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { BuildingEnvelope } from '../stage-b/building-envelope';
+import { GeometricValidator } from '../stage-b/geometric-validator';
+import { FloorPlanGeometry } from '../types';
+
+describe('BuildingEnvelope', () => {
+  const lShape = [
+    { x: 0, y: 0 },
+    { x: 14, y: 0 },
+    { x: 14, y: 6 },
+    { x: 7, y: 6 },
+    { x: 7, y: 12 },
+    { x: 0, y: 12 }
+  ];
+
+  test('normalizes the footprint to the origin', () => {
+    const envelope = new BuildingEnvelope(lShape.map(p => ({ x: p.x + 5, y: p.y + 3 })));
+
+    expect(envelope.origin).toEqual({ x: 5, y: 3 });
+    expect(envelope.polygon[0]).toEqual({ x: 0, y: 0 });
+    expect(envelope.width).toBe(14);
+    expect(envelope.height).toBe(12);
+    expect(envelope.area).toBeCloseTo(126);
+    expect(envelope.isRectangular).toBe(false);
+  });
+
+  test('rejects rectangles crossing the notch of an L-shape', () => {
+    const envelope = new BuildingEnvelope(lShape);
+
+    expect(envelope.containsRect({ x: 0, y: 0, width: 14, height: 6 })).toBe(true);
+    expect(envelope.containsRect({ x: 0, y: 6, width: 7, height: 6 })).toBe(true);
+    expect(envelope.containsRect({ x: 5, y: 4, width: 4, height: 4 })).toBe(false);
+    expect(envelope.containsRect({ x: 8, y: 7, width: 2, height: 2 })).toBe(false);
+  });
+
+  test('insets the site boundary by the setbacks', () => {
+    const boundary = [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 }, { x: 0, y: 10 }];
+    const envelope = BuildingEnvelope.fromSite({ boundary, setbacks: [1, 2, 3, 4] }, 500)!;
+
+    expect(envelope.origin.x).toBeCloseTo(4);
+    expect(envelope.origin.y).toBeCloseTo(1);
+    expect(envelope.width).toBeCloseTo(14);
+    expect(envelope.height).toBeCloseTo(6);
+  });
+
+  test('a fixed footprint overrides the boundary', () => {
+    const boundary = [{ x: 0, y: 0 }, { x: 30, y: 0 }, { x: 30, y: 30 }, { x: 0, y: 30 }];
+    const envelope = BuildingEnvelope.fromSite({ boundary, setbacks: 2, footprint: lShape }, 100)!;
+
+    expect(envelope.area).toBeCloseTo(126);
+  });
+
+  test('returns null without site geometry', () => {
+    expect(BuildingEnvelope.fromSite(undefined, 100)).toBeNull();
+    expect(BuildingEnvelope.fromSite({ setbacks: 3 }, 100)).toBeNull();
+  });
+
+  test('reports invalid site input', () => {
+    expect(BuildingEnvelope.validateSite({ boundary: [{ x: 0, y: 0 }, { x: 1, y: 1 }] }))
+      .toContain('Site boundary must have at least 3 points');
+    expect(BuildingEnvelope.validateSite({ footprint: lShape, setbacks: -1 }))
+      .toContain('Setbacks must be non-negative numbers');
+    expect(BuildingEnvelope.validateSite({
+      boundary: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }],
+      footprint: lShape
+    })).toContain('Footprint extends outside the site boundary');
+    expect(() => BuildingEnvelope.fromSite({ boundary: lShape, setbacks: 10 }, 50)).toThrow();
+  });
+
+  test('validator flags rooms outside the footprint', () => {
+    const room = (x: number, y: number, width: number, height: number) => ({
+      id: `room-${x}-${y}`,
+      type: 'bedroom' as const,
+      name: 'Bedroom',
+      geometry: {
+        vertices: [
+          { x, y },
+          { x: x + width, y },
+          { x: x + width, y: y + height },
+          { x, y: y + height }
+        ],
+        centroid: { x: x + width / 2, y: y + height / 2 },
+        bounds: { x, y, width, height }
+      },
+      area: width * height,
+      perimeter: 2 * (width + height),
+      adjacentRooms: [],
+      doors: [],
+      windows: []
+    });
+
+    const geometry = {
+      metadata: {
+        totalArea: 126,
+        buildingDimensions: { width: 14, height: 12 },
+        generatedAt: new Date().toISOString(),
+        algorithmVersion: '1.0.0',
+        confidence: 100,
+        relaxedConstraints: [],
+        footprint: lShape
+      },
+      rooms: [room(0, 0, 4, 4), room(8, 8, 3, 3)],
+      walls: [],
+      openings: [],
+      adjacencyGraph: []
+    } as unknown as FloorPlanGeometry;
+
+    const result = new GeometricValidator().validate(geometry);
+    expect(result.checks.footprintContainment).toBe(false);
+    expect(result.errors).toContain('Rooms extend outside the building footprint');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect } from '@jest/globals';
+import { anchorAt, anchorLabel, elementPosition, layoutForLevel } from '../comment-anchors';
+import { LegacyFloorPlan } from '../legacy-adapter';
+
+// Two rooms side by side with a door and a window
+function plan(): LegacyFloorPlan {
+  return {
+    rooms: [
+      { name: 'Living Room', x: 0, y: 0, width: 5, height: 4, furniture: [] },
+      { name: 'Kitchen', x: 5, y: 0, width: 3, height: 4, furniture: [] },
+    ],
+    walls: [
+      { x1: 0, y1: 0, x2: 8, y2: 0 },
+      { x1: 8, y1: 0, x2: 8, y2: 4 },
+      { x1: 8, y1: 4, x2: 0, y2: 4 },
+      { x1: 0, y1: 4, x2: 0, y2: 0 },
+      { x1: 5, y1: 0, x2: 5, y2: 4 },
+    ],
+    doors: [{ x: 5, y: 1, rotation: 90 }],
+    windows: [{ x: 1, y: 0, width: 2 }],
+  };
+}
+
+describe('Comment Anchors', () => {
+  describe('anchorAt', () => {
+    test('should pin to the room under the point', () => {
+      const anchor = anchorAt(plan(), { x: 6.5, y: 2.5 });
+
+      expect(anchor).toEqual({ type: 'room', elementId: 'room-1', position: { x: 6.5, y: 2.5 }, level: 0 });
+    });
+
+    test('should prefer a wall over the room it bounds', () => {
+      expect(anchorAt(plan(), { x: 5.1, y: 3.5 }).elementId).toBe('wall-4');
+    });
+
+    test('should prefer an opening over the wall it is in', () => {
+      expect(anchorAt(plan(), { x: 5, y: 1.4 }).elementId).toBe('door-0');
+      expect(anchorAt(plan(), { x: 2.1, y: 0.1 }).elementId).toBe('window-0');
+    });
+
+    test('should fall back to a point outside the plan', () => {
+      const anchor = anchorAt(plan(), { x: 12, y: 12 }, 1);
+
+      expect(anchor.type).toBe('point');
+      expect(anchor.elementId).toBeNull();
+      expect(anchor.level).toBe(1);
+    });
+  });
+
+  describe('elementPosition', () => {
+    test('should place pins at the middle of elements', () => {
+      expect(elementPosition(plan(), 'room-0')).toEqual({ x: 2.5, y: 2 });
+      expect(elementPosition(plan(), 'wall-1')).toEqual({ x: 8, y: 2 });
+      expect(elementPosition(plan(), 'window-0')).toEqual({ x: 2, y: 0 });
+    });
+
+    test('should return null for missing or malformed ids', () => {
+      expect(elementPosition(plan(), 'room-7')).toBeNull();
+      expect(elementPosition(plan(), 'stair-0')).toBeNull();
+    });
+  });
+
+  describe('anchorLabel', () => {
+    test('should name rooms and number other elements', () => {
+      expect(anchorLabel(plan(), { type: 'room', elementId: 'room-1' })).toBe('Kitchen');
+      expect(anchorLabel(plan(), { type: 'wall', elementId: 'wall-2' })).toBe('Wall 3');
+      expect(anchorLabel(plan(), { type: 'point', elementId: null })).toBe('Point on plan');
+    });
+
+    test('should say when the element has since been removed', () => {
+      expect(anchorLabel(plan(), { type: 'door', elementId: 'door-3' })).toBe('Removed door');
+    });
+  });
+
+  describe('layoutForLevel', () => {
+    test('should only have level 0 on a single-storey plan', () => {
+      expect(layoutForLevel(plan(), 0)).not.toBeNull();
+      expect(layoutForLevel(plan(), 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for the DXF Exporter
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { DXFExporter } from '../stage-c/dxf-exporter';
+import { StageBOrchestrator } from '../stage-b';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { FloorPlanGeometry } from '../types';
+
+/**
+ * Split a DXF file into [code, value] pairs
+ */
+function readPairs(dxf: string): Array<[number, string]> {
+  const lines = dxf.trimEnd().split('\n');
+  const pairs: Array<[number, string]> = [];
+  for (let i = 0; i < lines.length; i += 2) {
+    pairs.push([parseInt(lines[i], 10), lines[i + 1]]);
+  }
+  return pairs;
+}
+
+function entitiesOf(dxf: string): Array<{ type: string; layer: string; pairs: Array<[number, string]> }> {
+  const pairs = readPairs(dxf);
+  const start = pairs.findIndex(([code, value], i) => code === 2 && value === 'ENTITIES' && pairs[i - 1][1] === 'SECTION');
+  const entities: Array<{ type: string; layer: string; pairs: Array<[number, string]> }> = [];
+
+  for (let i = start + 1; pairs[i][1] !== 'ENDSEC'; i++) {
+    if (pairs[i][0] === 0) entities.push({ type: pairs[i][1], layer: '', pairs: [] });
+    const entity = entities[entities.length - 1];
+    entity.pairs.push(pairs[i]);
+    if (pairs[i][0] === 8) entity.layer = pairs[i][1];
+  }
+  return entities;
+}
+
+describe('DXF exporter', () => {
+  let geometry: FloorPlanGeometry;
+  const exporter = new DXFExporter();
+
+  const plan = async () => {
+    if (!geometry) {
+      const spec = ruleBasedSpecGenerator.generate(
+        { totalArea: 90, unit: 'metric', floors: 1, rooms: { bedroom: 2, bathroom: 1, kitchen: 1, livingRoom: 1 } },
+        1
+      );
+      geometry = (await new StageBOrchestrator().generate(spec, undefined, { seed: 3 })).geometry;
+    }
+    return geometry;
+  };
+
+  test('writes a complete R2000 file', async () => {
+    const dxf = exporter.export(await plan());
+    const pairs = readPairs(dxf);
+    const sections = pairs.filter(([code], i) => code === 2 && pairs[i - 1][1] === 'SECTION').map(([, name]) => name);
+
+    expect(dxf.split('\n').length % 2).toBe(1);
+    expect(pairs[pairs.length - 1]).toEqual([0, 'EOF']);
+    expect(sections).toEqual(['HEADER', 'CLASSES', 'TABLES', 'BLOCKS', 'ENTITIES', 'OBJECTS']);
+    expect(pairs.find(([, value], i) => pairs[i - 1]?.[1] === '$ACADVER')?.[1]).toBe('AC1015');
+
+    const handles = pairs.filter(([code]) => code === 5).map(([, handle]) => handle);
+    expect(new Set(handles).size).toBe(handles.length);
+  });
+
+  test('puts every element on its layer', async () => {
+    const geometry = await plan();
+    const entities = entitiesOf(exporter.export(geometry));
+    const onLayer = (type: string, layer: string) => entities.filter(e => e.type === type && e.layer === layer).length;
+    const doors = geometry.openings.filter(o => o.type === 'door').length;
+    const windows = geometry.openings.filter(o => o.type === 'window').length;
+
+    expect(onLayer('HATCH', 'A-AREA-PATT')).toBe(geometry.rooms.length);
+    expect(onLayer('LWPOLYLINE', 'A-AREA')).toBe(geometry.rooms.length);
+    expect(onLayer('TEXT', 'A-AREA-IDEN')).toBe(geometry.rooms.length * 2);
+    expect(onLayer('INSERT', 'A-DOOR')).toBe(doors);
+    expect(onLayer('INSERT', 'A-GLAZ')).toBe(windows);
+    expect(onLayer('LWPOLYLINE', 'A-WALL')).toBeGreaterThanOrEqual(geometry.walls.filter(w => w.type === 'exterior').length);
+    expect(entities.filter(e => e.type === 'DIMENSION').length)
+      .toBe(geometry.walls.filter(w => w.type === 'exterior').length + 2);
+  });
+
+  test('honours the export options', async () => {
+    const geometry = await plan();
+    const plain = entitiesOf(exporter.export(geometry, { layerSeparation: false, includeDimensions: false }));
+    const imperial = exporter.export(geometry, { units: 'imperial' });
+    const pairs = readPairs(imperial);
+    const insUnits = pairs[pairs.findIndex(([, value]) => value === '$INSUNITS') + 1][1];
+    const maxX = Math.max(...entitiesOf(imperial)
+      .filter(e => e.layer === 'A-AREA')
+      .flatMap(e => e.pairs.filter(([code]) => code === 10).map(([, value]) => parseFloat(value))));
+
+    expect(plain.every(e => e.layer === '0')).toBe(true);
+    expect(plain.some(e => e.type === 'DIMENSION')).toBe(false);
+    expect(insUnits).toBe('1');
+    expect(maxX).toBeCloseTo(geometry.metadata.buildingDimensions.width * 39.3701, 1);
+    expect(imperial).toContain('sq ft');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for the DXF Importer
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { DXFImporter } from '../dxf-importer';
+import { DXFExporter } from '../stage-c/dxf-exporter';
+import { StageBOrchestrator } from '../stage-b';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { FloorPlanError } from '../types';
+
+type Pairs = Array<[number, string | number]>;
+
+function rectangle(layer: string, x1: number, y1: number, x2: number, y2: number): Pairs {
+  return [
+    [0, 'LWPOLYLINE'], [8, layer], [90, 4], [70, 1],
+    [10, x1], [20, y1], [10, x2], [20, y1], [10, x2], [20, y2], [10, x1], [20, y2]
+  ];
+}
+
+/**
+ * A minimal hand-drawn file: an 8 × 5 m shell with 0.2 m walls, split in two
+ * by a 0.1 m partition with a door in it and a window in the top wall
+ */
+function drawing(scale: number = 1, insunits: number = 6): string {
+  const s = (v: number) => v * scale;
+  const pairs: Pairs = [
+    [0, 'SECTION'], [2, 'HEADER'], [9, '$INSUNITS'], [70, insunits], [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'BLOCKS'],
+    [0, 'BLOCK'], [2, 'DOOR_90'], [10, 0], [20, 0],
+    [0, 'LINE'], [8, '0'], [10, 0], [20, 0], [11, s(0.9)], [21, 0],
+    [0, 'ARC'], [8, '0'], [10, 0], [20, 0], [40, s(0.9)], [50, 0], [51, 90],
+    [0, 'ENDBLK'],
+    [0, 'BLOCK'], [2, 'WIN'], [10, 0], [20, 0],
+    ...rectangle('0', 0, 0, s(1.2), s(0.2)),
+    [0, 'ENDBLK'],
+    [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'ENTITIES'],
+    ...rectangle('WALLS', 0, 0, s(8), s(5)),
+    ...rectangle('WALLS', s(0.2), s(0.2), s(3.95), s(4.8)),
+    ...rectangle('WALLS', s(4.05), s(0.2), s(7.8), s(4.8)),
+    [0, 'INSERT'], [8, 'DOORS'], [2, 'DOOR_90'], [10, s(3.95)], [20, s(2)], [50, 90],
+    [0, 'INSERT'], [8, 'WINDOWS'], [2, 'WIN'], [10, s(1.5)], [20, s(4.8)],
+    [0, 'TEXT'], [8, 'TEXT'], [10, s(1.5)], [20, s(2.5)], [40, s(0.2)], [1, 'Living Room'],
+    [0, 'TEXT'], [8, 'TEXT'], [10, s(5.5)], [20, s(2.5)], [40, s(0.2)], [1, 'Bedroom 2'],
+    [0, 'ENDSEC'],
+    [0, 'EOF']
+  ];
+  return pairs.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n';
+}
+
+describe('DXF importer', () => {
+  const importer = new DXFImporter();
+
+  test('recognises wall pairs and reconstructs the rooms between them', () => {
+    const { geometry } = importer.import(drawing());
+
+    expect(geometry.rooms.map(room => room.id).sort()).toEqual(['bedroom1', 'living1']);
+    for (const room of geometry.rooms) {
+      expect(room.geometry.area).toBeCloseTo(3.9 * 4.8, 1);
+    }
+    expect(geometry.rooms.find(room => room.type === 'living')!.labels.name).toBe('Living Room');
+
+    const partition = geometry.walls.filter(wall => wall.type === 'interior');
+    expect(partition.length).toBe(1);
+    expect(partition[0].thickness).toBeCloseTo(0.1, 3);
+    expect(partition[0].adjacentRooms.sort()).toEqual(['bedroom1', 'living1']);
+
+    const exterior = geometry.walls.filter(wall => wall.type === 'exterior');
+    expect(exterior.every(wall => Math.abs(wall.thickness - 0.2) < 1e-6)).toBe(true);
+    expect(exterior.reduce((sum, wall) => sum + wall.length, 0)).toBeCloseTo(2 * (7.8 + 4.8), 1);
+  });
+
+  test('places door and window blocks on the walls they sit in', () => {
+    const { geometry } = importer.import(drawing());
+    const door = geometry.openings.find(opening => opening.type === 'door')!;
+    const window = geometry.openings.find(opening => opening.type === 'window')!;
+
+    expect(geometry.openings.length).toBe(2);
+    expect(door.width).toBeCloseTo(0.9, 2);
+    expect(geometry.walls.find(wall => wall.id === door.wallId)!.type).toBe('interior');
+    expect(window.width).toBeCloseTo(1.2, 2);
+    expect(geometry.walls.find(wall => wall.id === window.wallId)!.type).toBe('exterior');
+    expect(geometry.adjacencyGraph.edges).toEqual([{ from: 'bedroom1', to: 'living1', type: 'door' }]);
+  });
+
+  test('converts drawing units to metres', () => {
+    const metres = importer.import(drawing()).geometry;
+    const millimetres = importer.import(drawing(1000, 4)).geometry;
+    const unitless = importer.import(drawing(1000, 0));
+
+    expect(millimetres.metadata.totalArea).toBeCloseTo(metres.metadata.totalArea, 2);
+    expect(unitless.geometry.metadata.totalArea).toBeCloseTo(metres.metadata.totalArea, 2);
+    expect(unitless.warnings.some(warning => warning.includes('millimetres'))).toBe(true);
+  });
+
+  test('round-trips a plan exported by the DXF exporter', async () => {
+    const spec = ruleBasedSpecGenerator.generate(
+      { totalArea: 90, unit: 'metric', floors: 1, rooms: { bedroom: 2, bathroom: 1, kitchen: 1, livingRoom: 1 } },
+      1
+    );
+    const original = (await new StageBOrchestrator().generate(spec, undefined, { seed: 3 })).geometry;
+    const { geometry } = importer.import(new DXFExporter().export(original));
+
+    expect(geometry.rooms.map(room => room.type).sort()).toEqual(original.rooms.map(room => room.type).sort());
+    const roomArea = (rooms: Array<{ geometry: { area: number } }>) => rooms.reduce((sum, room) => sum + room.geometry.area, 0);
+    expect(roomArea(geometry.rooms)).toBeCloseTo(roomArea(original.rooms), 1);
+    expect(geometry.openings.filter(o => o.type === 'door').length)
+      .toBe(original.openings.filter(o => o.type === 'door').length);
+    expect(geometry.openings.filter(o => o.type === 'window').length)
+      .toBe(original.openings.filter(o => o.type === 'window').length);
+    const wallLength = (walls: Array<{ length: number }>) => walls.reduce((sum, wall) => sum + wall.length, 0);
+    expect(wallLength(geometry.walls)).toBeCloseTo(wallLength(original.walls), 0);
+  });
+
+  test('rejects files that are not DXF', () => {
+    expect(() => importer.import('not a drawing')).toThrow(FloorPlanError);
+  });
+});
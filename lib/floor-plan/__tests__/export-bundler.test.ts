@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for the Export Bundler
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { inflateRawSync } from 'zlib';
+import { ExportBundler } from '../stage-c/export-bundler';
+import { crc32 } from '../utils';
+import { FloorPlanError, FloorPlanGeometry, FloorPlanSpecification } from '../types';
+import { buildingOf, singleRoomPlan } from './fixtures';
+
+/**
+ * Read every entry of a ZIP archive through its central directory,
+ * checking each entry's checksum and its local header
+ */
+function readZip(zip: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const raw = zip.subarray(start, start + compressedSize);
+    const data = method === 8 ? new Uint8Array(inflateRawSync(raw)) : raw;
+
+    expect(data.length).toBe(size);
+    expect(crc32(data)).toBe(crc);
+    files.set(name, data);
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+
+  return files;
+}
+
+function text(data: Uint8Array | undefined): string {
+  return new TextDecoder().decode(data);
+}
+
+const plan = (name?: string): FloorPlanGeometry => singleRoomPlan({ name });
+
+const specification: FloorPlanSpecification = {
+  totalArea: 24,
+  tolerance: 10,
+  rooms: [{
+    id: 'living1',
+    type: 'living',
+    minArea: 20,
+    maxArea: 30,
+    aspectRatio: { min: 1, max: 2 },
+    zone: 'public',
+    requiresWindow: true,
+    requiresDoor: true
+  }],
+  adjacencyGraph: [],
+  constraints: [],
+  style: 'modern'
+};
+
+describe('Export bundler', () => {
+  const bundler = new ExportBundler();
+
+  test('packs each requested format with the geometry, specification, schedule and manifest', async () => {
+    const files = readZip(await bundler.export({ geometry: plan(), specification, projectName: 'Smith House' }, ['ifc', 'dxf', 'svg', 'pdf', 'gltf', 'png']));
+
+    expect([...files.keys()]).toEqual([
+      'floor-plan.svg',
+      'floor-plan.png',
+      'floor-plan.dxf',
+      'floor-plan.pdf',
+      'floor-plan.glb',
+      'floor-plan.ifc',
+      'geometry.json',
+      'specification.json',
+      'room-schedule.csv',
+      'manifest.json'
+    ]);
+    expect(text(files.get('floor-plan.svg'))).toContain('<svg');
+    expect(Array.from(files.get('floor-plan.png')!.subarray(1, 4))).toEqual([80, 78, 71]);
+    expect(text(files.get('floor-plan.dxf'))).toContain('AC1015');
+    expect(text(files.get('floor-plan.pdf')).startsWith('%PDF-1.4')).toBe(true);
+    expect(text(files.get('floor-plan.pdf'))).toContain('(Smith House)');
+    expect(text(files.get('floor-plan.glb')!.subarray(0, 4))).toBe('glTF');
+    expect(text(files.get('floor-plan.ifc'))).toContain("FILE_SCHEMA(('IFC4'));");
+    expect(JSON.parse(text(files.get('geometry.json')))).toEqual(plan());
+    expect(JSON.parse(text(files.get('specification.json')))).toEqual(specification);
+
+    const manifest = JSON.parse(text(files.get('manifest.json')));
+    expect(Date.parse(manifest.exportedAt)).not.toBeNaN();
+    expect(manifest.formats).toEqual(['svg', 'png', 'dxf', 'pdf', 'gltf', 'ifc']);
+    expect(manifest.versions).toEqual({
+      bundle: '1.0',
+      algorithm: '1.0.0',
+      svg: 'SVG 1.1',
+      png: 'PNG 1.2',
+      dxf: 'AutoCAD R2000 (AC1015)',
+      pdf: 'PDF 1.4',
+      gltf: 'glTF 2.0',
+      ifc: 'IFC4'
+    });
+    expect(manifest.files).toEqual([...files.keys()]);
+  });
+
+  test('always includes the geometry, schedule and manifest', async () => {
+    const files = readZip(await bundler.export({ geometry: plan() }, []));
+
+    expect([...files.keys()]).toEqual(['geometry.json', 'room-schedule.csv', 'manifest.json']);
+    expect(JSON.parse(text(files.get('manifest.json'))).versions).toEqual({ bundle: '1.0', algorithm: '1.0.0' });
+  });
+
+  test('writes a room schedule per level', async () => {
+    const building = buildingOf([plan('Kitchen, Diner'), plan('The "Snug"')]);
+    const files = readZip(await bundler.export({ geometry: building.levels[0].geometry, building }, ['pdf']));
+
+    expect(text(files.get('room-schedule.csv'))).toBe(
+      'Level,Room,Type,Area (m²),Width (m),Depth (m)\r\n' +
+      'Ground Floor,"Kitchen, Diner",living,24.00,6.00,4.00\r\n' +
+      'First Floor,"The ""Snug""",living,24.00,6.00,4.00\r\n'
+    );
+    expect(JSON.parse(text(files.get('geometry.json'))).levels.length).toBe(2);
+    expect(text(files.get('floor-plan.pdf'))).toContain('/Count 2');
+  });
+
+  test('rejects unknown formats', () => {
+    expect(() => bundler.bundle({ geometry: plan() }, ['svg', 'dwg' as any])).toThrow(FloorPlanError);
+  });
+});
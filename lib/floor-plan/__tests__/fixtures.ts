@@ -0,0 +1,187 @@
+/**
+ * Test Fixtures
+ * Plan builders, comparison helpers and a scripted LLM shared by the tests
+ */
+
+import { LLMGenerateOptions, LLMProvider, LLMResponse } from '../stage-a/llm-providers';
+import { BuildingGeometry, FloorPlanGeometry, Opening, RoomGeometry, RoomType, Wall, ZoneType } from '../types';
+
+// Timings and timestamps are the only fields allowed to differ between runs
+const VOLATILE_KEYS = new Set(['generatedAt', 'generationTime', 'totalGenerationTime', 'timestamp']);
+
+/**
+ * JSON of a value without its volatile fields, for comparing two runs
+ */
+export const stable = (value: unknown) =>
+  JSON.stringify(value, (key, v) => (VOLATILE_KEYS.has(key) ? undefined : v));
+
+/**
+ * Rectangular room; the area defaults to width × height
+ */
+export function room(
+  id: string,
+  type: RoomType,
+  name: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  area: number = width * height
+): RoomGeometry {
+  return {
+    id,
+    type,
+    geometry: {
+      vertices: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }],
+      centroid: { x: x + width / 2, y: y + height / 2 },
+      area,
+      bounds: { x, y, width, height }
+    },
+    labels: { name, area: `${area.toFixed(1)} m²`, dimensions: '' }
+  };
+}
+
+/**
+ * Straight wall, exterior and 0.2 m thick unless given otherwise
+ */
+export function wall(
+  id: string,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  options: { type?: Wall['type']; thickness?: number; adjacentRooms?: string[] } = {}
+): Wall {
+  const { type = 'exterior', thickness = 0.2, adjacentRooms = [] } = options;
+  return {
+    id,
+    type,
+    thickness,
+    geometry: { start: { x: x1, y: y1 }, end: { x: x2, y: y2 } },
+    length: Math.hypot(x2 - x1, y2 - y1),
+    structuralLoad: type === 'exterior',
+    adjacentRooms
+  };
+}
+
+export function opening(
+  id: string,
+  type: Opening['type'],
+  wallId: string,
+  position: number,
+  properties: Opening['properties'] = {}
+): Opening {
+  return { id, type, width: type === 'door' ? 0.9 : 1.2, wallId, position, properties };
+}
+
+/**
+ * The four exterior walls of a width × height outline, clockwise from the top
+ */
+export function outline(width: number, height: number, adjacentRooms: string[] = []): Wall[] {
+  return [
+    wall('wall_top', 0, 0, width, 0, { adjacentRooms }),
+    wall('wall_right', width, 0, width, height, { adjacentRooms }),
+    wall('wall_bottom', width, height, 0, height, { adjacentRooms }),
+    wall('wall_left', 0, height, 0, 0, { adjacentRooms })
+  ];
+}
+
+/**
+ * Geometry with fixed metadata around the given elements
+ */
+export function geometry(
+  width: number,
+  height: number,
+  elements: Pick<FloorPlanGeometry, 'rooms' | 'walls' | 'openings'> & Partial<Pick<FloorPlanGeometry, 'adjacencyGraph'>>,
+  totalArea: number = width * height
+): FloorPlanGeometry {
+  return {
+    metadata: {
+      totalArea,
+      buildingDimensions: { width, height },
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      algorithmVersion: '1.0.0',
+      confidence: 100,
+      relaxedConstraints: []
+    },
+    adjacencyGraph: { nodes: [], edges: [] },
+    ...elements
+  };
+}
+
+/**
+ * A single room filling a 6 × 4 m outline, with an entry door in the bottom
+ * wall and a window in the top one
+ */
+export function singleRoomPlan(options: {
+  width?: number;
+  height?: number;
+  id?: string;
+  type?: RoomType;
+  name?: string;
+  zone?: ZoneType;
+  openings?: Opening[];
+} = {}): FloorPlanGeometry {
+  const {
+    width = 6,
+    height = 4,
+    id = 'living1',
+    type = 'living',
+    name = 'Living Room',
+    zone = 'public',
+    openings = [
+      opening('door_1', 'door', 'wall_bottom', 0.5, { swingDirection: 90, isEntry: true }),
+      opening('window_1', 'window', 'wall_top', 0.5, { sillHeight: 0.9 })
+    ]
+  } = options;
+
+  return geometry(width, height, {
+    rooms: [room(id, type, name, 0, 0, width, height)],
+    walls: outline(width, height, [id]),
+    openings,
+    adjacencyGraph: { nodes: [{ roomId: id, zone }], edges: [] }
+  });
+}
+
+/**
+ * Levels stacked 3 m apart on the footprint of the first
+ */
+export function buildingOf(
+  levels: FloorPlanGeometry[],
+  names: string[] = ['Ground Floor', 'First Floor', 'Second Floor', 'Third Floor']
+): BuildingGeometry {
+  return {
+    metadata: {
+      totalArea: levels.reduce((sum, level) => sum + level.metadata.totalArea, 0),
+      floors: levels.length,
+      floorHeight: 3,
+      footprint: levels[0].metadata.buildingDimensions,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      algorithmVersion: '1.0.0',
+      confidence: 100
+    },
+    levels: levels.map((geometry, level) => ({ level, name: names[level], elevation: level * 3, geometry })),
+    verticalCores: []
+  };
+}
+
+/**
+ * Serves the given responses in order, repeating the last, and records every
+ * prompt. Each call costs 15 tokens.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly type = 'replay' as const;
+  readonly model = 'scripted';
+  readonly supportsStructuredOutput = true;
+  prompts: string[] = [];
+  options: Array<LLMGenerateOptions | undefined> = [];
+
+  constructor(private responses: string[]) {}
+
+  async generate(prompt: string, systemPrompt?: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+    this.prompts.push(prompt);
+    this.options.push(options);
+    const content = this.responses[Math.min(this.prompts.length - 1, this.responses.length - 1)];
+    return { content, usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }, model: this.model };
+  }
+}
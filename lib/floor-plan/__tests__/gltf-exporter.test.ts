@@ -0,0 +1,157 @@
+/**
+ * Unit Tests for the glTF Exporter
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { GLTFExporter } from '../stage-c/gltf-exporter';
+import { DEFAULT_CONFIG } from '../config';
+import { FloorPlanError, FloorPlanGeometry } from '../types';
+import { buildingOf, opening, singleRoomPlan } from './fixtures';
+
+/**
+ * Split a GLB into its JSON document and binary chunk
+ */
+function readGLB(glb: Uint8Array): { header: number[]; json: any; binary: Uint8Array } {
+  const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+  const jsonLength = view.getUint32(12, true);
+  const json = JSON.parse(new TextDecoder().decode(glb.subarray(20, 20 + jsonLength)));
+  const binaryStart = 20 + jsonLength;
+  const binaryLength = view.getUint32(binaryStart, true);
+
+  return {
+    header: [view.getUint32(0, true), view.getUint32(4, true), view.getUint32(8, true), view.getUint32(16, true), view.getUint32(binaryStart + 4, true)],
+    json,
+    binary: glb.subarray(binaryStart + 8, binaryStart + 8 + binaryLength)
+  };
+}
+
+/**
+ * Centroid of every triangle of a mesh
+ */
+function triangleCentroids(json: any, binary: Uint8Array, meshName: string): number[][] {
+  const primitive = json.meshes.find((m: any) => m.name === meshName).primitives[0];
+  const read = (accessorIndex: number, Type: typeof Float32Array | typeof Uint32Array) => {
+    const view = json.bufferViews[json.accessors[accessorIndex].bufferView];
+    return new Type(binary.slice(view.byteOffset, view.byteOffset + view.byteLength).buffer);
+  };
+  const positions = read(primitive.attributes.POSITION, Float32Array);
+  const indices = read(primitive.indices, Uint32Array);
+
+  const centroids: number[][] = [];
+  for (let i = 0; i < indices.length; i += 3) {
+    centroids.push([0, 1, 2].map(axis =>
+      (positions[indices[i] * 3 + axis] + positions[indices[i + 1] * 3 + axis] + positions[indices[i + 2] * 3 + axis]) / 3
+    ));
+  }
+  return centroids;
+}
+
+/**
+ * A 6 × 4 m bedroom with a door in the bottom wall and a window in the top one
+ */
+function plan(): FloorPlanGeometry {
+  return singleRoomPlan({
+    id: 'bedroom1',
+    type: 'bedroom',
+    name: 'Bedroom',
+    zone: 'private',
+    openings: [
+      opening('door_1', 'door', 'wall_bottom', 0.5, { swingDirection: 90, isEntry: true }),
+      { ...opening('window_1', 'window', 'wall_top', 0.5, { sillHeight: 0.9 }), height: 1.5 }
+    ]
+  });
+}
+
+describe('glTF exporter', () => {
+  const exporter = new GLTFExporter();
+  const { wallHeight, floorThickness } = DEFAULT_CONFIG.stageC.extrusion;
+
+  test('writes a valid GLB container', () => {
+    const glb = exporter.export(plan());
+    const { header, json, binary } = readGLB(glb);
+
+    expect(header).toEqual([0x46546c67, 2, glb.length, 0x4e4f534a, 0x004e4942]);
+    expect(glb.length % 4).toBe(0);
+    expect(json.asset.version).toBe('2.0');
+    expect(json.buffers).toEqual([{ byteLength: binary.length }]);
+
+    for (const view of json.bufferViews) {
+      expect(view.byteOffset + view.byteLength).toBeLessThanOrEqual(binary.length);
+    }
+    for (const mesh of json.meshes) {
+      const primitive = mesh.primitives[0];
+      const vertexCount = json.accessors[primitive.attributes.POSITION].count;
+      const indices = json.accessors[primitive.indices];
+      expect(indices.count % 3).toBe(0);
+      expect(json.accessors[primitive.attributes.NORMAL].count).toBe(vertexCount);
+      expect(json.materials[primitive.material]).toBeDefined();
+    }
+  });
+
+  test('names a node after every wall, room and opening', () => {
+    const { json } = readGLB(exporter.export(plan()));
+    const names = json.nodes.map((node: any) => node.name);
+
+    for (const name of ['Floors', 'Walls', 'Openings', 'Furniture', 'bedroom1', 'wall_top', 'wall_bottom', 'door_1', 'window_1']) {
+      expect(names).toContain(name);
+    }
+    expect(names.some((name: string) => name.startsWith('bedroom1-bed'))).toBe(true);
+  });
+
+  test('extrudes walls to the configured height and cuts openings', () => {
+    const { json, binary } = readGLB(exporter.export(plan()));
+    const accessor = (name: string) => json.accessors[json.meshes.find((m: any) => m.name === name).primitives[0].attributes.POSITION];
+
+    expect(accessor('wall_left').max[1]).toBeCloseTo(wallHeight.exterior, 5);
+    expect(accessor('wall_left').min[1]).toBeCloseTo(0, 5);
+    expect(accessor('bedroom1').min[1]).toBeCloseTo(-floorThickness, 5);
+    expect(accessor('bedroom1').max[1]).toBeCloseTo(0, 5);
+
+    // Only the lintel is left of the bottom wall in the doorway
+    const doorway = triangleCentroids(json, binary, 'wall_bottom').filter(([x]) => x > 2.56 && x < 3.44);
+    expect(doorway.length).toBeGreaterThan(0);
+    expect(doorway.every(([, y]) => y >= 2.1 - 1e-5)).toBe(true);
+
+    // The window leaves wall below the sill and above the head only
+    const window = triangleCentroids(json, binary, 'wall_top').filter(([x]) => x > 2.41 && x < 3.59);
+    expect(window.some(([, y]) => y < 0.9)).toBe(true);
+    expect(window.every(([, y]) => y <= 0.9 + 1e-5 || y >= 2.4 - 1e-5)).toBe(true);
+    expect(accessor('window_1').min[1]).toBeCloseTo(0.9, 5);
+    expect(accessor('window_1').max[1]).toBeCloseTo(2.4, 5);
+  });
+
+  test('keeps furniture inside its room', () => {
+    const { json } = readGLB(exporter.export(plan()));
+    const furniture = json.meshes.filter((mesh: any) => mesh.name.startsWith('bedroom1-'));
+
+    expect(furniture.length).toBeGreaterThan(0);
+    for (const mesh of furniture) {
+      const { min, max } = json.accessors[mesh.primitives[0].attributes.POSITION];
+      expect(min[0]).toBeGreaterThanOrEqual(0);
+      expect(min[2]).toBeGreaterThanOrEqual(0);
+      expect(max[0]).toBeLessThanOrEqual(6);
+      expect(max[2]).toBeLessThanOrEqual(4);
+    }
+  });
+
+  test('merges meshes by material when optimizing', () => {
+    const { json } = readGLB(exporter.export(plan(), { optimizeGeometry: true }));
+    const walls = json.nodes.find((node: any) => node.name === 'Walls');
+
+    expect(walls.children.length).toBe(1);
+    expect(json.nodes[walls.children[0]].name).toBe('Walls-wall-exterior');
+  });
+
+  test('stacks building levels at their elevation', () => {
+    const building = buildingOf([plan(), plan()]);
+    const { json } = readGLB(exporter.exportBuilding(building));
+    const levels = json.scenes[0].nodes.map((index: number) => json.nodes[index]);
+
+    expect(levels.map((node: any) => node.name)).toEqual(['Ground Floor', 'First Floor']);
+    expect(levels[1].translation).toEqual([0, 3, 0]);
+  });
+
+  test('rejects Draco compression', () => {
+    expect(() => exporter.export(plan(), { compression: 'draco' })).toThrow(FloorPlanError);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for the IFC Exporter
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { IFCExporter } from '../stage-c/ifc-exporter';
+import { StageBOrchestrator } from '../stage-b';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { BuildingGeometry } from '../types';
+
+/**
+ * Entities of the DATA section by their #id
+ */
+function readEntities(ifc: string): Map<number, { type: string; args: string }> {
+  const entities = new Map<number, { type: string; args: string }>();
+  for (const line of ifc.split('\n')) {
+    const match = line.match(/^#(\d+)=([A-Z0-9]+)\((.*)\);$/);
+    if (match) entities.set(Number(match[1]), { type: match[2], args: match[3] });
+  }
+  return entities;
+}
+
+function ofType(entities: Map<number, { type: string; args: string }>, type: string) {
+  return [...entities.values()].filter(entity => entity.type === type);
+}
+
+async function building(floors: number): Promise<BuildingGeometry> {
+  const spec = ruleBasedSpecGenerator.generate(
+    { totalArea: 90 * floors, unit: 'metric', floors, rooms: { bedroom: 2, bathroom: 1, kitchen: 1, livingRoom: 1 } },
+    1
+  );
+  return (await new StageBOrchestrator().generateBuilding(spec, undefined, 3)).building;
+}
+
+describe('IFC exporter', () => {
+  const exporter = new IFCExporter();
+
+  test('writes an IFC4 STEP file whose references all resolve', async () => {
+    const geometry = (await building(1)).levels[0].geometry;
+    const ifc = exporter.export(geometry);
+    const entities = readEntities(ifc);
+
+    expect(ifc.startsWith('ISO-10303-21;\nHEADER;')).toBe(true);
+    expect(ifc).toContain("FILE_SCHEMA(('IFC4'));");
+    expect(ifc.trimEnd().endsWith('END-ISO-10303-21;')).toBe(true);
+
+    const references = [...ifc.matchAll(/#(\d+)/g)].map(match => Number(match[1]));
+    expect(references.every(id => entities.has(id))).toBe(true);
+    expect(ofType(entities, 'IFCPROJECT').length).toBe(1);
+    expect(ofType(entities, 'IFCBUILDINGSTOREY').length).toBe(1);
+  });
+
+  test('maps walls, openings, spaces and the slab', async () => {
+    const geometry = (await building(1)).levels[0].geometry;
+    const entities = readEntities(exporter.export(geometry));
+    const doors = geometry.openings.filter(opening => opening.type === 'door').length;
+
+    expect(ofType(entities, 'IFCWALLSTANDARDCASE').length).toBe(geometry.walls.length);
+    expect(ofType(entities, 'IFCDOOR').length).toBe(doors);
+    expect(ofType(entities, 'IFCWINDOW').length).toBe(geometry.openings.length - doors);
+    expect(ofType(entities, 'IFCOPENINGELEMENT').length).toBe(geometry.openings.length);
+    expect(ofType(entities, 'IFCRELVOIDSELEMENT').length).toBe(geometry.openings.length);
+    expect(ofType(entities, 'IFCRELFILLSELEMENT').length).toBe(geometry.openings.length);
+    expect(ofType(entities, 'IFCSPACE').length).toBe(geometry.rooms.length);
+    expect(ofType(entities, 'IFCSLAB').length).toBe(1);
+
+    const wallNames = ofType(entities, 'IFCWALLSTANDARDCASE').map(entity => entity.args.split(',')[2]);
+    expect(wallNames.sort()).toEqual(geometry.walls.map(wall => `'${wall.id}'`).sort());
+  });
+
+  test('records wall properties and space areas', async () => {
+    const geometry = (await building(1)).levels[0].geometry;
+    const entities = readEntities(exporter.export(geometry));
+    const properties = ofType(entities, 'IFCPROPERTYSINGLEVALUE').map(entity => entity.args);
+    const areas = ofType(entities, 'IFCQUANTITYAREA')
+      .filter(entity => entity.args.startsWith("'NetFloorArea'"))
+      .map(entity => parseFloat(entity.args.split(',')[3]));
+
+    const exterior = geometry.walls.filter(wall => wall.type === 'exterior').length;
+    expect(properties.filter(args => args === "'IsExternal',$,IFCBOOLEAN(.T.),$").length).toBeGreaterThanOrEqual(exterior);
+    expect(properties.some(args => args.startsWith("'LoadBearing'"))).toBe(true);
+    expect(areas.sort()).toEqual(geometry.rooms.map(room => Math.round(room.geometry.area * 1e6) / 1e6).sort());
+
+    const layers = ofType(entities, 'IFCMATERIALLAYER').map(entity => parseFloat(entity.args.split(',')[1]));
+    expect(layers.sort()).toEqual([...new Set(geometry.walls.map(wall => wall.thickness))].sort());
+  });
+
+  test('gives every rooted entity a unique, stable GlobalId', async () => {
+    const geometry = (await building(1)).levels[0].geometry;
+    const ifc = exporter.export(geometry);
+    const ids = [...ifc.matchAll(/^#\d+=IFC[A-Z]+\('([0-9A-Za-z_$]{22})',#/gm)].map(match => match[1]);
+
+    expect(ids.length).toBeGreaterThan(geometry.walls.length);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(exporter.export(geometry)).toBe(ifc);
+  });
+
+  test('writes one storey per level at its elevation', async () => {
+    const twoStorey = await building(2);
+    const entities = readEntities(exporter.exportBuilding(twoStorey));
+    const elevations = ofType(entities, 'IFCBUILDINGSTOREY').map(entity => parseFloat(entity.args.split(',').pop()!));
+
+    expect(elevations).toEqual(twoStorey.levels.map(level => level.elevation));
+  });
+
+  test('escapes text', async () => {
+    const geometry = (await building(1)).levels[0].geometry;
+    const ifc = exporter.export(geometry, { projectName: "Café d'Or" });
+
+    expect(ifc).toContain("'Caf\\X2\\00E9\\X0\\ d''Or'");
+  });
+});
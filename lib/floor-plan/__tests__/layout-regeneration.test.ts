@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for Regenerating a Layout Around Locked Rooms
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { FloorPlanPipeline, validateRegenerateRequest } from '../pipeline';
+import { StageBOrchestrator, specificationFromGeometry } from '../stage-b';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { FloorPlanGeometry, FloorPlanSpecification } from '../types';
+import { stable } from './fixtures';
+
+describe('Layout regeneration', () => {
+  const spec: FloorPlanSpecification = ruleBasedSpecGenerator.generate(
+    { totalArea: 110, unit: 'metric', floors: 1, rooms: { bedroom: 3, bathroom: 1, kitchen: 1, livingRoom: 1 } },
+    1
+  );
+  const savedPlan = async (): Promise<FloorPlanGeometry> =>
+    (await new StageBOrchestrator().generate(spec, undefined, { seed: 5 })).geometry;
+
+  const boundsOf = (geometry: FloorPlanGeometry, id: string) =>
+    geometry.rooms.find(r => r.id === id)?.geometry.bounds;
+
+  test('locked rooms keep their exact position and size', async () => {
+    const saved = await savedPlan();
+    const locked = saved.rooms.filter(r => r.type === 'kitchen' || r.type === 'living').map(r => r.id);
+    const { geometry } = await new StageBOrchestrator().regenerate(saved, locked, { specification: spec, seed: 11 });
+
+    expect(geometry.rooms.map(r => r.id).sort()).toEqual(saved.rooms.map(r => r.id).sort());
+    for (const id of locked) {
+      expect(boundsOf(geometry, id)).toEqual(boundsOf(saved, id));
+    }
+    expect(geometry.walls.length).toBeGreaterThan(0);
+    expect(geometry.metadata.seed).toBe(11);
+  });
+
+  test('works from the geometry alone and repeats with the same seed', async () => {
+    const saved = await savedPlan();
+    const locked = [saved.rooms[0].id];
+    const first = await new StageBOrchestrator().regenerate(saved, locked, { seed: 3 });
+    const second = await new StageBOrchestrator().regenerate(saved, locked, { seed: 3 });
+
+    expect(boundsOf(first.geometry, locked[0])).toEqual(boundsOf(saved, locked[0]));
+    expect(stable(first.geometry)).toBe(stable(second.geometry));
+  });
+
+  test('derived specification covers every room', async () => {
+    const saved = await savedPlan();
+    const derived = specificationFromGeometry(saved);
+
+    expect(derived.rooms.map(r => r.id)).toEqual(saved.rooms.map(r => r.id));
+    for (const room of derived.rooms) {
+      const area = saved.rooms.find(r => r.id === room.id)!.geometry.area;
+      expect(room.minArea).toBeLessThan(area);
+      expect(room.maxArea).toBeGreaterThan(area);
+    }
+  });
+
+  test('rejects unknown and fully locked rooms', async () => {
+    const saved = await savedPlan();
+    await expect(new StageBOrchestrator().regenerate(saved, ['no-such-room'])).rejects.toThrow('Unknown room IDs');
+    await expect(
+      new StageBOrchestrator().regenerate(saved, saved.rooms.map(r => r.id))
+    ).rejects.toThrow('Every room is locked');
+
+    expect(validateRegenerateRequest({ geometry: saved, lockedRoomIds: ['nope'] })?.details).toEqual(['nope']);
+    expect(validateRegenerateRequest({ geometry: saved, lockedRoomIds: [] })).toBeNull();
+  });
+
+  test('the pipeline returns a rendered variation', async () => {
+    const saved = await savedPlan();
+    const variation = await new FloorPlanPipeline().regenerate({
+      geometry: saved,
+      specification: spec,
+      lockedRoomIds: [saved.rooms[0].id],
+      seed: 8
+    });
+
+    expect(variation.metadata.seed).toBe(8);
+    expect(variation.preview.svg).toContain('<svg');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for LLM Providers
+ */
+
+import { describe, test, expect, afterEach } from '@jest/globals';
+import {
+  OpenAICompatibleProvider,
+  AnthropicProvider,
+  ReplayProvider,
+  createLLMProvider,
+  isProviderConfigured
+} from '../stage-a/llm-providers';
+import { StageAOrchestrator } from '../stage-a';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { resolveLLMConfig } from '../config';
+import { GenerateFloorPlanRequest } from '../types';
+
+describe('LLM providers', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const mockFetch = (body: unknown) => {
+    const calls: Array<{ url: string; init: any }> = [];
+    global.fetch = (async (url: string, init: any) => {
+      calls.push({ url, init });
+      return { ok: true, json: async () => body, text: async () => '' } as Response;
+    }) as typeof fetch;
+    return calls;
+  };
+
+  test('resolves provider settings from the environment', () => {
+    const local = resolveLLMConfig({ LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'qwen2.5' });
+    expect(local.provider).toBe('openai-compatible');
+    expect(local.model).toBe('qwen2.5');
+    expect(local.baseUrl).toBe('http://localhost:11434/v1');
+
+    const anthropic = resolveLLMConfig({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key' });
+    expect(anthropic.apiKey).toBe('key');
+
+    expect(resolveLLMConfig({ LLM_PROVIDER: 'unknown' }).provider).toBe('openrouter');
+  });
+
+  test('hosted providers require an API key, local servers do not', () => {
+    expect(isProviderConfigured(resolveLLMConfig({}))).toBe(false);
+    expect(isProviderConfigured(resolveLLMConfig({ LLM_PROVIDER: 'openai-compatible' }))).toBe(true);
+    expect(() => createLLMProvider(resolveLLMConfig({ LLM_PROVIDER: 'anthropic' }))).toThrow();
+  });
+
+  test('OpenAI-compatible provider omits auth for keyless local servers', async () => {
+    const calls = mockFetch({
+      choices: [{ message: { content: '{}' } }],
+      usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }
+    });
+    const provider = new OpenAICompatibleProvider(resolveLLMConfig({ LLM_PROVIDER: 'openai-compatible' }));
+
+    const response = await provider.generate('hello');
+
+    expect(calls[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(calls[0].init.headers.Authorization).toBeUndefined();
+    expect(response.usage.totalTokens).toBe(5);
+    expect(response.model).toBe('llama3.1');
+  });
+
+  test('Anthropic provider maps the Messages API response', async () => {
+    const calls = mockFetch({
+      content: [{ type: 'text', text: '{"ok":' }, { type: 'text', text: 'true}' }],
+      usage: { input_tokens: 10, output_tokens: 4 },
+      model: 'claude-test'
+    });
+    const provider = new AnthropicProvider(resolveLLMConfig({ LLM_PROVIDER: 'anthropic', LLM_API_KEY: 'key' }));
+
+    const response = await provider.generate('prompt', 'system');
+    const body = JSON.parse(calls[0].init.body);
+
+    expect(calls[0].url).toBe('https://api.anthropic.com/v1/messages');
+    expect(calls[0].init.headers['x-api-key']).toBe('key');
+    expect(body.system).toBe('system');
+    expect(response.content).toBe('{"ok":true}');
+    expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 4, totalTokens: 14 });
+  });
+
+  test('replay provider matches exact prompts before substrings and fallbacks', async () => {
+    const provider = new ReplayProvider([
+      { content: 'fallback' },
+      { match: 'kitchen', content: 'substring' },
+      ReplayProvider.record('exact prompt about a kitchen', 'exact')
+    ]);
+
+    expect((await provider.generate('exact prompt about a kitchen')).content).toBe('exact');
+    expect((await provider.generate('another kitchen')).content).toBe('substring');
+    expect((await provider.generate('bedroom')).content).toBe('fallback');
+  });
+
+  test('Stage A reports the provider and model it used', async () => {
+    const parameters: GenerateFloorPlanRequest['parameters'] = {
+      totalArea: 90,
+      unit: 'metric',
+      floors: 1,
+      rooms: { bedroom: 2, bathroom: 1 }
+    };
+    const recorded = JSON.stringify(ruleBasedSpecGenerator.generate(parameters, 1));
+    const stageA = new StageAOrchestrator({ provider: new ReplayProvider([{ content: recorded }], 'recorded-model') });
+
+    const result = await stageA.generate({ userInput: 'Two bedroom flat', parameters, variationCount: 1 });
+
+    expect(stageA.resolveMode({})).toBe('llm');
+    expect(result.metadata.llm).toEqual({ provider: 'replay', model: 'recorded-model' });
+    expect(result.specification.rooms.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Multi-Storey Planner
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { multiStoreyPlanner } from '../stage-b/multi-storey-planner';
+import { FloorPlanSpecification, RoomSpec } from '../types';
+
+describe('MultiStoreyPlanner', () => {
+  const room = (id: string, type: RoomSpec['type'], zone: RoomSpec['zone'], minArea: number): RoomSpec => ({
+    id,
+    type,
+    minArea,
+    maxArea: minArea * 1.4,
+    aspectRatio: { min: 0.7, max: 1.5 },
+    zone,
+    requiresWindow: true,
+    requiresDoor: true,
+    priority: 5
+  });
+
+  const createTestSpec = (floors: number): FloorPlanSpecification => ({
+    totalArea: 80 * floors,
+    tolerance: 5,
+    rooms: [
+      room('living', 'living', 'public', 20),
+      room('kitchen', 'kitchen', 'service', 10),
+      room('dining', 'dining', 'public', 10),
+      room('bedroom1', 'bedroom', 'private', 12),
+      room('bedroom2', 'bedroom', 'private', 10),
+      room('bathroom1', 'bathroom', 'private', 4),
+      room('bathroom2', 'bathroom', 'private', 4)
+    ],
+    adjacencyGraph: [
+      { from: 'kitchen', to: 'dining', weight: 9, type: 'must' },
+      { from: 'bedroom1', to: 'bathroom2', weight: 7, type: 'should' },
+      { from: 'living', to: 'bedroom1', weight: 2, type: 'avoid' }
+    ],
+    constraints: [],
+    style: 'modern',
+    metadata: { floors, entrance: 'north', preferences: {} }
+  });
+
+  test('single-storey specs produce one level without cores', () => {
+    const plan = multiStoreyPlanner.plan(createTestSpec(1));
+
+    expect(plan.floors).toBe(1);
+    expect(plan.verticalCores).toHaveLength(0);
+    expect(plan.levels[0].spec.rooms).toHaveLength(7);
+  });
+
+  test('public rooms stay downstairs and bedrooms go upstairs', () => {
+    const plan = multiStoreyPlanner.plan(createTestSpec(2));
+    const idsOn = (level: number) => plan.levels[level].spec.rooms.map(r => r.id);
+
+    expect(idsOn(0)).toEqual(expect.arrayContaining(['living', 'kitchen', 'dining', 'bathroom1']));
+    expect(idsOn(1)).toEqual(expect.arrayContaining(['bedroom1', 'bedroom2', 'bathroom2']));
+    expect(idsOn(0)).not.toContain('bedroom1');
+  });
+
+  test('stair core is fixed at the same position on every level', () => {
+    const plan = multiStoreyPlanner.plan(createTestSpec(3));
+    const stair = plan.verticalCores.find(c => c.type === 'stair')!;
+
+    expect(stair.servesLevels).toEqual([0, 1, 2]);
+    plan.levels.forEach(level => {
+      const fixed = level.fixedRooms.find(r => r.id === stair.id)!;
+      expect(fixed).toEqual({ id: stair.id, ...stair.bounds });
+      expect(level.spec.rooms.some(r => r.id === stair.id && r.type === 'stair')).toBe(true);
+    });
+  });
+
+  test('lift is added from three floors upwards', () => {
+    expect(multiStoreyPlanner.plan(createTestSpec(2)).verticalCores.some(c => c.type === 'lift')).toBe(false);
+    expect(multiStoreyPlanner.plan(createTestSpec(3)).verticalCores.some(c => c.type === 'lift')).toBe(true);
+  });
+
+  test('cores fit inside the footprint', () => {
+    const plan = multiStoreyPlanner.plan(createTestSpec(3));
+
+    plan.verticalCores.forEach(core => {
+      expect(core.bounds.x).toBeGreaterThanOrEqual(0);
+      expect(core.bounds.y).toBeGreaterThanOrEqual(0);
+      expect(core.bounds.x + core.bounds.width).toBeLessThanOrEqual(plan.footprint.width + 1e-9);
+      expect(core.bounds.y + core.bounds.height).toBeLessThanOrEqual(plan.footprint.height + 1e-9);
+    });
+  });
+
+  test('upper levels get a landing and only keep same-level adjacencies', () => {
+    const plan = multiStoreyPlanner.plan(createTestSpec(2));
+    const upper = plan.levels[1].spec;
+    const ids = new Set(upper.rooms.map(r => r.id));
+
+    expect(ids.has('landing-L1')).toBe(true);
+    expect(upper.metadata?.level).toBe(1);
+    expect(upper.totalArea).toBeCloseTo(80);
+    upper.adjacencyGraph.forEach(edge => {
+      expect(ids.has(edge.from) && ids.has(edge.to)).toBe(true);
+    });
+  });
+
+  test('explicit floor assignments are respected', () => {
+    const spec = createTestSpec(2);
+    spec.rooms = spec.rooms.map(r => (r.id === 'bedroom2' ? { ...r, floor: 0 } : r));
+
+    const plan = multiStoreyPlanner.plan(spec);
+    expect(plan.levels[0].spec.rooms.map(r => r.id)).toContain('bedroom2');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for the PDF Exporter
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { PDFExporter } from '../stage-c/pdf-exporter';
+import { FloorPlanError, FloorPlanGeometry } from '../types';
+import { buildingOf, singleRoomPlan } from './fixtures';
+
+const PT_PER_MM = 72 / 25.4;
+
+function text(pdf: Uint8Array): string {
+  return Array.from(pdf, byte => String.fromCharCode(byte)).join('');
+}
+
+/**
+ * Content stream of every page, in order
+ */
+function pages(pdf: Uint8Array): string[] {
+  return [...text(pdf).matchAll(/stream\n([\s\S]*?)\nendstream/g)].map(match => match[1]);
+}
+
+/**
+ * A single living room of the given size with a door and a window
+ */
+function plan(width: number, height: number, name?: string): FloorPlanGeometry {
+  return singleRoomPlan({ width, height, name });
+}
+
+describe('PDF exporter', () => {
+  const exporter = new PDFExporter();
+
+  test('writes a PDF whose cross-reference table points at its objects', () => {
+    const pdf = text(exporter.export(plan(6, 4), { date: '2026-03-01' }));
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const [, count, entries] = pdf.slice(startxref).match(/^xref\n0 (\d+)\n([\s\S]*?)trailer/)!;
+    const offsets = entries.trim().split('\n').slice(1).map(line => Number(line.slice(0, 10)));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(offsets.length).toBe(Number(count) - 1);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + 12).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+    expect(pdf).toContain('/CreationDate (D:20260301)');
+  });
+
+  test('draws the plan at true scale on the requested sheet', () => {
+    const pdf = text(exporter.export(plan(6, 4), { sheetSize: 'A3', scale: 100 }));
+    const [page] = pages(exporter.export(plan(6, 4), { sheetSize: 'A3', scale: 100 }));
+
+    // A3 landscape in points
+    expect(pdf).toContain(`/MediaBox [0 0 ${Math.round(420 * PT_PER_MM * 1000) / 1000} ${Math.round(297 * PT_PER_MM * 1000) / 1000}]`);
+
+    // Plan lines are in points inside a millimetre space; 6 m at 1:100 is 60 mm
+    const lengths = [...page.matchAll(/(-?[\d.]+) (-?[\d.]+) m (-?[\d.]+) (-?[\d.]+) l S/g)]
+      .map(([, x1, y1, x2, y2]) => Math.hypot(Number(x2) - Number(x1), Number(y2) - Number(y1)));
+    expect(lengths.some(length => Math.abs(length - 60 * PT_PER_MM) < 0.01)).toBe(true);
+    expect(page).toContain('(SCALE 1:100)');
+    expect(page).toContain('(1:100 @ A3)');
+  });
+
+  test('picks the largest standard scale that fits', () => {
+    expect(pages(exporter.export(plan(6, 4), { sheetSize: 'A4' }))[0]).toContain('(SCALE 1:50)');
+    expect(pages(exporter.export(plan(20, 12), { sheetSize: 'A4' }))[0]).toContain('(SCALE 1:200)');
+    expect(pages(exporter.export(plan(20, 12), { sheetSize: 'A2' }))[0]).toContain('(SCALE 1:50)');
+    expect(() => exporter.export(plan(20, 12), { sheetSize: 'A4', scale: 50 })).toThrow(FloorPlanError);
+  });
+
+  test('writes one sheet per level with a title block and room schedule', () => {
+    const building = buildingOf([plan(6, 4, 'Kitchen Diner'), plan(6, 4, 'Main Bedroom')]);
+    const pdf = exporter.exportBuilding(building, { projectName: 'Smith House', date: '2026-03-01' });
+    const [ground, first] = pages(pdf);
+
+    expect(text(pdf)).toContain('/Count 2');
+    expect(ground).toContain('(Ground Floor)');
+    expect(ground).toContain('(Kitchen Diner)');
+    expect(ground).toContain('(1 of 2)');
+    expect(first).toContain('(First Floor)');
+    expect(first).toContain('(Main Bedroom)');
+    expect(first).toContain('(2 of 2)');
+    for (const page of [ground, first]) {
+      expect(page).toContain('(Smith House)');
+      expect(page).toContain('(2026-03-01)');
+      expect(page).toContain('(ROOM SCHEDULE)');
+      expect(page).toContain('(24.0)');
+      expect(page).toContain('(N)');
+    }
+  });
+
+  test('titles variations and leaves out the schedule on request', () => {
+    const [first, second] = pages(exporter.exportVariations([plan(6, 4), plan(5, 5)], { includeRoomSchedule: false }));
+
+    expect(first).toContain('(Variation 1)');
+    expect(second).toContain('(Variation 2)');
+    expect(first).not.toContain('(ROOM SCHEDULE)');
+  });
+
+  test('encodes text for the standard fonts', () => {
+    const [page] = pages(exporter.export(plan(6, 4), { projectName: 'Café (North)' }));
+
+    expect(page).toContain('(Caf\\351 \\(North\\))');
+    expect(page).toContain('\\327');
+  });
+});
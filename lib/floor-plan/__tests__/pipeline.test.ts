@@ -0,0 +1,224 @@
+/**
+ * Unit Tests for the Generation Pipeline and its Event Stream
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { FloorPlanPipeline, validateGenerateRequest } from '../pipeline';
+import { encodeGenerationEvent, readGenerationEvents } from '../generation-events';
+import { fromLegacyFloorPlan, toLegacyFloorPlan } from '../legacy-adapter';
+import { StageAOrchestrator } from '../stage-a';
+import { ReplayProvider } from '../stage-a/llm-providers';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { GenerateFloorPlanRequest, GenerationEvent } from '../types';
+import { ScriptedProvider } from './fixtures';
+
+describe('FloorPlanPipeline', () => {
+  const request: GenerateFloorPlanRequest = {
+    userInput: '',
+    parameters: {
+      totalArea: 100,
+      unit: 'metric',
+      floors: 1,
+      rooms: { bedroom: 2, bathroom: 1, kitchen: 1, livingRoom: 1 }
+    },
+    variationCount: 3,
+    generationMode: 'rule-based',
+    seed: 3
+  };
+
+  test('rejects invalid requests', () => {
+    expect(validateGenerateRequest({ ...request, generationMode: 'magic' as any })?.error)
+      .toBe('Unknown generationMode: magic');
+    expect(validateGenerateRequest(request)).toBeNull();
+  });
+
+  test('emits stage events in order for every variation', async () => {
+    const events: GenerationEvent[] = [];
+    const response = await new FloorPlanPipeline().run(request, event => events.push(event));
+    const types = events.map(e => e.type);
+
+    expect(types[0]).toBe('started');
+    expect(types[1]).toBe('specification');
+    expect(types[types.length - 1]).toBe('complete');
+
+    for (let i = 0; i < 3; i++) {
+      const layout = events.findIndex(e => e.type === 'layout' && e.index === i);
+      const variation = events.findIndex(e => e.type === 'variation' && e.index === i);
+      const error = events.findIndex(e => e.type === 'error' && e.index === i);
+      expect(error >= 0 || (layout > 1 && variation > layout)).toBe(true);
+    }
+
+    const completed = events.filter(e => e.type === 'variation').length;
+    expect(response.variations.length).toBe(completed);
+  });
+
+  test('stops after the specification when aborted', async () => {
+    const controller = new AbortController();
+    const events: GenerationEvent[] = [];
+
+    const response = await new FloorPlanPipeline().run(
+      request,
+      event => {
+        events.push(event);
+        if (event.type === 'started') controller.abort();
+      },
+      controller.signal
+    );
+
+    expect(response.variations.length).toBe(0);
+    expect(events.map(e => e.type)).toEqual(['started', 'complete']);
+  });
+
+  test('reports no LLM usage for rule-based requests', async () => {
+    const { metadata } = await new FloorPlanPipeline().run({ ...request, variationCount: 1 });
+
+    expect(metadata.llmUsage).toEqual({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+    expect(metadata.llm).toBeUndefined();
+  });
+
+  test('sums LLM usage over the specification and every variation', async () => {
+    const spec = ruleBasedSpecGenerator.generate(request.parameters, 1);
+    const provider = new ScriptedProvider([JSON.stringify(spec)]);
+    const pipeline = new FloorPlanPipeline(new StageAOrchestrator({ provider }));
+
+    const { metadata } = await pipeline.run({ ...request, generationMode: 'llm', variationCount: 3 });
+
+    const calls = provider.prompts.length;
+    expect(calls).toBeGreaterThanOrEqual(3);
+    expect(metadata.llmUsage).toEqual({
+      promptTokens: 10 * calls,
+      completionTokens: 5 * calls,
+      totalTokens: 15 * calls
+    });
+    expect(metadata.llm).toEqual({ provider: 'replay', model: 'scripted' });
+  });
+
+  test('keeps the site on every LLM variation', async () => {
+    const site = { boundary: [{ x: 0, y: 0 }, { x: 30, y: 0 }, { x: 30, y: 30 }, { x: 0, y: 30 }], setbacks: 2 };
+    const spec = ruleBasedSpecGenerator.generate(request.parameters, 1);
+    const pipeline = new FloorPlanPipeline(
+      new StageAOrchestrator({ provider: new ReplayProvider([{ content: JSON.stringify(spec) }]) })
+    );
+
+    const response = await pipeline.run({
+      ...request,
+      parameters: { ...request.parameters, site },
+      generationMode: 'llm',
+      variationCount: 3
+    });
+
+    expect(response.variations.length).toBeGreaterThan(1);
+    for (const variation of response.variations) {
+      expect(variation.specification.metadata?.site).toEqual(site);
+    }
+  });
+
+  test('events survive the SSE encoding', async () => {
+    const events: GenerationEvent[] = [
+      { type: 'started', variationCount: 2, generationMode: 'rule-based' },
+      { type: 'layout', index: 1, confidence: 80, levels: 1 },
+      { type: 'error', index: 0, error: { stage: 'B', message: 'Variation 1 failed:\nno fit', recoverable: true } }
+    ];
+    const body = events.map(encodeGenerationEvent).join('');
+    // Split mid-message to exercise buffering
+    const chunks = [body.slice(0, 25), body.slice(25)];
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+        controller.close();
+      }
+    });
+
+    const decoded: GenerationEvent[] = [];
+    for await (const event of readGenerationEvents(new Response(stream))) {
+      decoded.push(event);
+    }
+
+    expect(body.startsWith('event: started\ndata: ')).toBe(true);
+    expect(decoded).toEqual(events);
+  });
+
+  test('converts variations to the editor layout', async () => {
+    const { variations } = await new FloorPlanPipeline().run({ ...request, variationCount: 1 });
+    const plan = toLegacyFloorPlan(variations[0]);
+    const geometry = variations[0].geometry;
+
+    expect(plan.rooms.length).toBe(geometry.rooms.length);
+    expect(plan.walls.length).toBe(geometry.walls.length);
+    expect(plan.doors.length + plan.windows.length).toBe(geometry.openings.length);
+    expect(plan.rooms[0].width).toBe(geometry.rooms[0].geometry.bounds.width);
+    expect(plan.doors.every(d => [0, 90, 180, 270].includes(d.rotation))).toBe(true);
+    expect(plan.levels).toBeUndefined();
+    expect(plan.thumbnail).toBe(variations[0].preview.thumbnail);
+    expect(plan.thumbnail?.startsWith('data:image/png;base64,')).toBe(true);
+    expect(plan.geometry).toBe(geometry);
+    expect(plan.specification).toBe(variations[0].specification);
+  });
+
+  test('rebuilds geometry from edited layouts', async () => {
+    const { variations } = await new FloorPlanPipeline().run({ ...request, variationCount: 1 });
+    const original = variations[0].geometry;
+    const { geometry: _geometry, thumbnail: _thumbnail, ...edited } = toLegacyFloorPlan(variations[0]);
+
+    expect(fromLegacyFloorPlan(toLegacyFloorPlan(variations[0])).geometry).toBe(original);
+
+    const { geometry, building } = fromLegacyFloorPlan(edited);
+    expect(building).toBeUndefined();
+    expect(geometry.rooms.map(room => room.type)).toEqual(original.rooms.map(room => room.type));
+    expect(geometry.rooms.map(room => room.labels.name)).toEqual(original.rooms.map(room => room.labels.name));
+    expect(geometry.metadata.totalArea).toBeCloseTo(original.rooms.reduce((sum, room) => sum + room.geometry.bounds.width * room.geometry.bounds.height, 0), 6);
+    expect(geometry.walls.map(wall => wall.type)).toEqual(original.walls.map(wall => wall.type));
+    expect(geometry.walls.every(wall => wall.adjacentRooms.length > 0)).toBe(true);
+
+    // Openings land back on their walls, doors before windows
+    const openings = [...original.openings].sort((a, b) => (a.type === b.type ? 0 : a.type === 'door' ? -1 : 1));
+    expect(geometry.openings.length).toBe(openings.length);
+    geometry.openings.forEach((opening, index) => {
+      expect(opening.type).toBe(openings[index].type);
+      expect(opening.wallId).toBe(`wall_${original.walls.findIndex(wall => wall.id === openings[index].wallId) + 1}`);
+      expect(opening.position).toBeCloseTo(openings[index].position, 6);
+    });
+
+    // Walls inside the outline are interior and join the rooms either side
+    const split = fromLegacyFloorPlan({
+      walls: [
+        { x1: 0, y1: 0, x2: 8, y2: 0 },
+        { x1: 8, y1: 0, x2: 8, y2: 4 },
+        { x1: 8, y1: 4, x2: 0, y2: 4 },
+        { x1: 0, y1: 4, x2: 0, y2: 0 },
+        { x1: 4, y1: 0, x2: 4, y2: 4 }
+      ],
+      rooms: [
+        { name: 'Kitchen', x: 0, y: 0, width: 4, height: 4, furniture: [] },
+        { name: 'Lounge', x: 4, y: 0, width: 4, height: 4, furniture: [] }
+      ],
+      doors: [{ x: 4, y: 2, rotation: 90 }],
+      windows: [{ x: 2, y: 0, width: 1.2 }]
+    }).geometry;
+    expect(split.rooms.map(room => room.type)).toEqual(['kitchen', 'living']);
+    expect(split.walls.map(wall => wall.type)).toEqual(['exterior', 'exterior', 'exterior', 'exterior', 'interior']);
+    expect(split.walls[4].adjacentRooms).toEqual(['kitchen1', 'living1']);
+    expect(split.openings.map(opening => [opening.wallId, opening.position])).toEqual([['wall_5', 0.5], ['wall_1', 0.25]]);
+    expect(split.adjacencyGraph.edges).toEqual([{ from: 'kitchen1', to: 'living1', type: 'door' }]);
+  });
+
+  test('multi-storey variations keep their levels', async () => {
+    const { variations } = await new FloorPlanPipeline().run({
+      ...request,
+      parameters: { ...request.parameters, floors: 2, totalArea: 160 },
+      variationCount: 1
+    });
+    const plan = toLegacyFloorPlan(variations[0]);
+
+    expect(plan.levels?.length).toBe(2);
+    expect(plan.levels?.[1].elevation).toBeGreaterThan(0);
+    expect(plan.rooms).toEqual(plan.levels?.[0].rooms);
+    expect(plan.building).toBe(variations[0].building);
+
+    const { geometry: _geometry, building: _building, ...edited } = plan;
+    const rebuilt = fromLegacyFloorPlan(edited).building;
+    expect(rebuilt?.levels.map(level => level.name)).toEqual(plan.levels?.map(level => level.name));
+    expect(rebuilt?.levels[1].geometry.metadata.level).toBe(1);
+    expect(rebuilt?.metadata.floorHeight).toBe(plan.levels?.[1].elevation);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Plan Diff
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { diffLevels, diffPlans } from '../plan-diff';
+import { FloorPlanGeometry } from '../types';
+import { buildingOf, geometry, opening, outline, room } from './fixtures';
+
+/**
+ * 10 × 6 m: a living room and a kitchen side by side, a bedroom behind
+ */
+function plan(): FloorPlanGeometry {
+  return geometry(10, 6, {
+    rooms: [
+      room('living1', 'living', 'Living Room', 0, 0, 6, 3),
+      room('kitchen1', 'kitchen', 'Kitchen', 6, 0, 4, 3),
+      room('bedroom1', 'bedroom', 'Bedroom', 0, 3, 5, 3)
+    ],
+    walls: outline(10, 6),
+    openings: [
+      opening('door_1', 'door', 'wall_bottom', 0.5),
+      opening('window_1', 'window', 'wall_top', 0.3),
+      opening('window_2', 'window', 'wall_top', 0.8)
+    ]
+  });
+}
+
+describe('Plan diff', () => {
+  test('finds nothing between identical plans', () => {
+    const diff = diffPlans(plan(), plan());
+
+    expect(diff.unchanged).toBe(true);
+    expect(diff.rooms.resized).toHaveLength(0);
+    expect(diff.openings.moved).toHaveLength(0);
+  });
+
+  test('reports added, removed, resized and moved rooms', () => {
+    const after = plan();
+    after.rooms[1] = room('kitchen1', 'kitchen', 'Kitchen', 6, 0, 4, 3.5);
+    after.rooms[2] = room('bedroom1', 'bedroom', 'Bedroom', 5, 3, 5, 3);
+    after.rooms.push(room('bathroom1', 'bathroom', 'Bathroom', 0, 3, 2, 3));
+    after.rooms.splice(0, 1);
+
+    const diff = diffPlans(plan(), after);
+
+    expect(diff.unchanged).toBe(false);
+    expect(diff.rooms.added.map(entry => entry.name)).toEqual(['Bathroom']);
+    expect(diff.rooms.removed).toEqual([
+      { name: 'Living Room', type: 'living', bounds: { x: 0, y: 0, width: 6, height: 3 }, area: 18 }
+    ]);
+    expect(diff.rooms.resized).toEqual([{
+      name: 'Kitchen',
+      type: 'kitchen',
+      before: { x: 6, y: 0, width: 4, height: 3 },
+      after: { x: 6, y: 0, width: 4, height: 3.5 },
+      areaChange: 2
+    }]);
+    expect(diff.rooms.moved.map(change => [change.name, change.after.x])).toEqual([['Bedroom', 5]]);
+    expect(diff.rooms.renamed).toHaveLength(0);
+  });
+
+  test('pairs a renamed room by its overlap', () => {
+    const after = plan();
+    after.rooms[0] = room('living1', 'dining', 'Dining Room', 0, 0, 5.5, 3);
+
+    const diff = diffPlans(plan(), after);
+
+    expect(diff.rooms.renamed).toEqual([{ from: 'Living Room', to: 'Dining Room' }]);
+    expect(diff.rooms.resized.map(change => [change.name, change.areaChange])).toEqual([['Dining Room', -1.5]]);
+    expect(diff.rooms.added).toHaveLength(0);
+    expect(diff.rooms.removed).toHaveLength(0);
+  });
+
+  test('moves openings that stay close and replaces those that jump', () => {
+    const after = plan();
+    after.openings = [
+      opening('door_1', 'door', 'wall_bottom', 0.6),
+      opening('window_1', 'window', 'wall_top', 0.3),
+      opening('window_2', 'window', 'wall_right', 0.5)
+    ];
+
+    const diff = diffPlans(plan(), after);
+
+    expect(diff.openings.moved).toEqual([
+      { type: 'door', before: { x: 5, y: 6 }, after: { x: 4, y: 6 }, distance: 1 }
+    ]);
+    expect(diff.openings.removed).toEqual([{ type: 'window', position: { x: 8, y: 0 }, width: 1.2 }]);
+    expect(diff.openings.added).toEqual([{ type: 'window', position: { x: 10, y: 3 }, width: 1.2 }]);
+  });
+
+  test('diffs each level and shows a new level as all added', () => {
+    const building = (levels: number) =>
+      buildingOf(Array.from({ length: levels }, () => plan()), ['Ground Floor', 'Floor 1']);
+
+    const diffs = diffLevels({ geometry: plan() }, { geometry: plan(), building: building(2) });
+
+    expect(diffs.map(diff => [diff.level, diff.name, diff.unchanged])).toEqual([
+      [0, 'Ground Floor', true],
+      [1, 'Floor 1', false]
+    ]);
+    expect(diffs[1].rooms.added).toHaveLength(3);
+    expect(diffs[1].openings.added).toHaveLength(3);
+  });
+});
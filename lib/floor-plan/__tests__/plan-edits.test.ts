@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for Natural-Language Plan Edits
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { FloorPlanPipeline, validateEditRequest } from '../pipeline';
+import { StageAOrchestrator } from '../stage-a';
+import { ruleBasedEditInterpreter, applySpecificationEdits } from '../stage-a/edit-interpreter';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { StageBOrchestrator } from '../stage-b';
+import { FloorPlanGeometry, FloorPlanSpecification } from '../types';
+import { ScriptedProvider } from './fixtures';
+
+describe('Plan edits', () => {
+  const spec: FloorPlanSpecification = ruleBasedSpecGenerator.generate(
+    { totalArea: 120, unit: 'metric', floors: 1, rooms: { bedroom: 3, bathroom: 1, kitchen: 1, livingRoom: 1, study: 1 } },
+    1
+  );
+  const idOf = (type: string) => spec.rooms.find(r => r.type === type)!.id;
+  const largestBedroom = [...spec.rooms].filter(r => r.type === 'bedroom').sort((a, b) => b.maxArea - a.maxArea)[0].id;
+
+  test('keyword interpreter understands compound requests', () => {
+    const { edits } = ruleBasedEditInterpreter.interpret(
+      'Make the master bedroom bigger and move the study next to the living room',
+      spec
+    );
+
+    expect(edits).toEqual([
+      { action: 'resize', room: largestBedroom, scale: 1.25 },
+      { action: 'connect', room: idOf('study'), target: idOf('living') }
+    ]);
+  });
+
+  test('keyword interpreter reads areas, additions and removals', () => {
+    const { edits } = ruleBasedEditInterpreter.interpret('shrink the kitchen to 9 m2, add a 6 sqm utility; remove the study', spec);
+
+    expect(edits).toEqual([
+      { action: 'resize', room: idOf('kitchen'), area: 9 },
+      { action: 'add', type: 'utility', area: 6 },
+      { action: 'remove', room: idOf('study') }
+    ]);
+    expect(() => ruleBasedEditInterpreter.interpret('paint it blue', spec)).toThrow();
+  });
+
+  test('applying edits updates rooms, adjacencies and area', () => {
+    const study = idOf('study');
+    const living = idOf('living');
+    const applied = applySpecificationEdits(spec, [
+      { action: 'resize', room: largestBedroom, area: 20 },
+      { action: 'connect', room: study, target: living },
+      { action: 'add', type: 'utility', area: 5 }
+    ]);
+    const bedroom = applied.specification.rooms.find(r => r.id === largestBedroom)!;
+    const edges = applied.specification.adjacencyGraph.filter(
+      e => (e.from === study && e.to === living) || (e.from === living && e.to === study)
+    );
+
+    expect(bedroom.minArea).toBeLessThan(20);
+    expect(bedroom.maxArea).toBeGreaterThan(20);
+    expect(edges).toEqual([{ from: study, to: living, weight: 10, type: 'must' }]);
+    expect(applied.addedRoomIds).toEqual(['utility1']);
+    expect(applied.specification.rooms.length).toBe(spec.rooms.length + 1);
+    expect(applied.changes).toHaveLength(3);
+  });
+
+  test('the LLM is re-prompted when an edit names an unknown room', async () => {
+    const provider = new ScriptedProvider([
+      JSON.stringify({ edits: [{ action: 'resize', room: 'ballroom', scale: 1.2 }] }),
+      JSON.stringify({ edits: [{ action: 'resize', room: idOf('kitchen'), scale: 1.2 }], summary: 'Bigger kitchen' })
+    ]);
+    const result = await new StageAOrchestrator({ provider }).interpretEdit('bigger kitchen please', spec, 'llm');
+
+    expect(provider.prompts).toHaveLength(2);
+    expect(provider.prompts[1]).toContain('edits[0].room must be one of');
+    expect(result.summary).toBe('Bigger kitchen');
+    expect(result.metadata.attempts).toBe(2);
+  });
+
+  test('edits keep untouched rooms in place', async () => {
+    const saved = (await new StageBOrchestrator().generate(spec, undefined, { seed: 21 })).geometry;
+    const response = await new FloorPlanPipeline().edit({
+      instruction: 'move the study next to the living room',
+      specification: spec,
+      geometry: saved,
+      generationMode: 'rule-based',
+      seed: 4
+    });
+    const { geometry } = response.variation;
+    const kitchen = idOf('kitchen');
+
+    expect(response.changes).toHaveLength(1);
+    expect(geometry.rooms.length).toBe(saved.rooms.length);
+    expect(geometry.rooms.find(r => r.id === kitchen)!.geometry.bounds)
+      .toEqual(saved.rooms.find(r => r.id === kitchen)!.geometry.bounds);
+  });
+
+  test('edit requests need the plan\'s walls', async () => {
+    const saved = (await new StageBOrchestrator().generate(spec, undefined, { seed: 21 })).geometry;
+    const request = (geometry: unknown) => ({
+      instruction: 'make the study bigger',
+      specification: spec,
+      geometry: geometry as FloorPlanGeometry
+    });
+
+    expect(validateEditRequest(request(saved))).toBeNull();
+    expect(validateEditRequest(request({ ...saved, walls: undefined }))?.error).toContain('walls');
+    expect(validateEditRequest(request({ ...saved, walls: {} }))?.error).toContain('walls');
+    expect(validateEditRequest(request({ ...saved, walls: [{ id: 'w1' }] }))?.error).toContain('walls');
+  });
+
+  test('added rooms are laid out with the rest', async () => {
+    const saved = (await new StageBOrchestrator().generate(spec, undefined, { seed: 21 })).geometry;
+    const response = await new FloorPlanPipeline().edit({
+      instruction: 'add a utility next to the kitchen',
+      specification: spec,
+      geometry: saved,
+      generationMode: 'rule-based',
+      seed: 4
+    });
+
+    expect(response.variation.geometry.rooms.some(r => r.id === 'utility1')).toBe(true);
+    expect(response.variation.specification.rooms.length).toBe(spec.rooms.length + 1);
+  });
+});
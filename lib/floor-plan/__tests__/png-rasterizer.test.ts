@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for the PNG Rasterizer
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { inflateSync } from 'zlib';
+import { PNGRasterizer } from '../stage-c/png-rasterizer';
+import { THUMBNAIL_SIZE } from '../config';
+import { FloorPlanError, FloorPlanGeometry } from '../types';
+import { opening, singleRoomPlan } from './fixtures';
+
+/**
+ * Check a PNG's chunk checksums and return its size and RGBA pixels
+ */
+function decodePNG(png: Uint8Array): { width: number; height: number; pixel: (x: number, y: number) => number[] } {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  expect(Array.from(png.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+
+  const chunks: Record<string, Uint8Array> = {};
+  let offset = 8;
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...Array.from(png.subarray(offset + 4, offset + 8)));
+    chunks[type] = png.subarray(offset + 8, offset + 8 + length);
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(png.subarray(offset + 4, offset + 8 + length)));
+    offset += 12 + length;
+  }
+
+  const header = new DataView(chunks.IHDR.buffer, chunks.IHDR.byteOffset, 13);
+  const width = header.getUint32(0);
+  const height = header.getUint32(4);
+  expect(Array.from(chunks.IHDR.subarray(8))).toEqual([8, 6, 0, 0, 0]);
+  expect(chunks.IEND.length).toBe(0);
+
+  const raw = inflateSync(chunks.IDAT);
+  expect(raw.length).toBe((width * 4 + 1) * height);
+  return {
+    width,
+    height,
+    pixel: (x, y) => Array.from(raw.subarray(y * (width * 4 + 1) + 1 + x * 4, y * (width * 4 + 1) + 5 + x * 4))
+  };
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function svg(width: number, height: number, body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${body}</svg>`;
+}
+
+// A living room with only its entry door
+const plan = (): FloorPlanGeometry =>
+  singleRoomPlan({ openings: [opening('door_1', 'door', 'wall_bottom', 0.5, { swingDirection: 90, isEntry: true })] });
+
+describe('PNG rasterizer', () => {
+  const rasterizer = new PNGRasterizer();
+  const options = { width: 100, height: 50, padding: 0 };
+
+  test('fills shapes with their class and attribute colors', () => {
+    const image = decodePNG(rasterizer.rasterize(svg(100, 50, `
+      <defs><style>.red { fill: #FF0000; }</style><rect width="100" height="50" fill="#000" /></defs>
+      <rect x="0" y="0" width="50" height="50" class="red" />
+      <polygon points="60,10 90,10 90,40 60,40" fill="#0000FF" fill-opacity="0.5" />
+    `), options));
+
+    expect(image.width).toBe(100);
+    expect(image.height).toBe(50);
+    expect(image.pixel(25, 25)).toEqual([255, 0, 0, 255]);
+    expect(image.pixel(49, 0)).toEqual([255, 0, 0, 255]);
+    expect(image.pixel(50, 25)).toEqual([255, 255, 255, 255]);
+    expect(image.pixel(75, 25)).toEqual([128, 128, 255, 255]);
+  });
+
+  test('strokes lines, dashes and arcs with antialiased edges', () => {
+    const image = decodePNG(rasterizer.rasterize(svg(100, 50, `
+      <line x1="0" y1="10" x2="100" y2="10" stroke="#000" stroke-width="4" />
+      <line x1="0" y1="30" x2="100" y2="30" stroke="#000" stroke-width="2" stroke-dasharray="10,10" />
+      <path d="M 80 45 A 10 10 0 0 1 90 35" stroke="#000" stroke-width="2" fill="none" />
+    `), options));
+
+    expect(image.pixel(50, 9)).toEqual([0, 0, 0, 255]);
+    expect(image.pixel(50, 20)).toEqual([255, 255, 255, 255]);
+    expect(image.pixel(5, 30)).toEqual([0, 0, 0, 255]);
+    expect(image.pixel(15, 30)).toEqual([255, 255, 255, 255]);
+    expect(image.pixel(25, 30)).toEqual([0, 0, 0, 255]);
+
+    // The arc bows out towards (80 + 10 − 10 cos 45°, 45 − 10 sin 45°)
+    expect(image.pixel(82, 37)[0]).toBeLessThan(128);
+    expect(image.pixel(88, 43)).toEqual([255, 255, 255, 255]);
+
+    // Edges that cut through a pixel blend into the background
+    const edge = decodePNG(rasterizer.rasterize(svg(100, 50, '<rect x="10.5" y="0" width="20" height="50" fill="#000" />'), options));
+    expect(edge.pixel(10, 25)[0]).toBeGreaterThan(64);
+    expect(edge.pixel(10, 25)[0]).toBeLessThan(192);
+  });
+
+  test('fits the drawing inside the image and applies group transforms', () => {
+    const image = decodePNG(rasterizer.rasterize(
+      svg(200, 100, '<g transform="translate(100, 0)"><rect width="100" height="100" fill="#000" /></g>'),
+      { width: 100, height: 100, padding: 0 }
+    ));
+
+    expect(image.pixel(75, 50)).toEqual([0, 0, 0, 255]);
+    expect(image.pixel(25, 50)).toEqual([255, 255, 255, 255]);
+    expect(image.pixel(75, 10)).toEqual([255, 255, 255, 255]);
+    expect(image.pixel(75, 30)).toEqual([0, 0, 0, 255]);
+  });
+
+  test('leaves a transparent background on request', () => {
+    const image = decodePNG(rasterizer.rasterize(svg(100, 50, '<rect width="50" height="50" fill="#000" />'), {
+      ...options,
+      background: 'none'
+    }));
+
+    expect(image.pixel(75, 25)[3]).toBe(0);
+    expect(image.pixel(25, 25)).toEqual([0, 0, 0, 255]);
+  });
+
+  test('renders plan thumbnails at the configured size', () => {
+    const thumbnail = rasterizer.thumbnail(plan());
+    expect(thumbnail.startsWith('data:image/png;base64,')).toBe(true);
+
+    const image = decodePNG(new Uint8Array(Buffer.from(thumbnail.split(',')[1], 'base64')));
+    expect(image.width).toBe(THUMBNAIL_SIZE.width);
+    expect(image.height).toBe(THUMBNAIL_SIZE.height);
+
+    // Walls frame a white room
+    let dark = 0;
+    for (let x = 0; x < image.width; x++) {
+      if (image.pixel(x, image.height / 2)[0] < 64) dark++;
+    }
+    expect(dark).toBeGreaterThan(0);
+    expect(image.pixel(image.width / 2, image.height / 2)).toEqual([255, 255, 255, 255]);
+
+    const small = decodePNG(new Uint8Array(Buffer.from(rasterizer.thumbnail(plan(), { width: 96, height: 96 }).split(',')[1], 'base64')));
+    expect([small.width, small.height]).toEqual([96, 96]);
+  });
+
+  test('draws saved layouts', () => {
+    const layout = {
+      walls: [{ x1: 0, y1: 0, x2: 6, y2: 0 }, { x1: 6, y1: 0, x2: 6, y2: 4 }, { x1: 6, y1: 4, x2: 0, y2: 4 }, { x1: 0, y1: 4, x2: 0, y2: 0 }],
+      rooms: [{ name: 'Living Room', x: 0, y: 0, width: 6, height: 4, furniture: [] }],
+      doors: [],
+      windows: []
+    };
+    const image = decodePNG(new Uint8Array(Buffer.from(rasterizer.layoutThumbnail(layout).split(',')[1], 'base64')));
+
+    expect(image.pixel(image.width / 2, image.height / 2)).toEqual([245, 245, 245, 255]);
+    expect(rasterizer.layoutThumbnail({ walls: [], rooms: [], doors: [], windows: [] })).toMatch(/^data:image\/png;base64,/);
+  });
+
+  test('rejects unusable image sizes', () => {
+    expect(() => rasterizer.rasterize(svg(10, 10, ''), { width: 0, height: 10 })).toThrow(FloorPlanError);
+    expect(() => rasterizer.rasterize(svg(10, 10, ''), { width: 10.5, height: 10 })).toThrow(FloorPlanError);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for the Rule-Based Specification Generator
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { SpecificationValidator } from '../stage-a/spec-validator';
+import { StageAOrchestrator } from '../stage-a';
+import { GenerateFloorPlanRequest } from '../types';
+
+describe('RuleBasedSpecGenerator', () => {
+  const parameters: GenerateFloorPlanRequest['parameters'] = {
+    totalArea: 120,
+    unit: 'metric',
+    floors: 1,
+    rooms: { bedroom: 3, bathroom: 2, kitchen: 1, livingRoom: 1, diningRoom: 1 },
+    style: 'modern'
+  };
+
+  test('is deterministic for a given seed', () => {
+    const a = ruleBasedSpecGenerator.generate(parameters, 42);
+    const b = ruleBasedSpecGenerator.generate(parameters, 42);
+    const c = ruleBasedSpecGenerator.generate(parameters, 43);
+
+    expect(a).toEqual(b);
+    expect(a.rooms.map(r => r.minArea)).not.toEqual(c.rooms.map(r => r.minArea));
+  });
+
+  test('creates the requested rooms with standard zones', () => {
+    const spec = ruleBasedSpecGenerator.generate(parameters, 1);
+    const count = (type: string) => spec.rooms.filter(r => r.type === type).length;
+
+    expect(count('bedroom')).toBe(3);
+    expect(count('bathroom')).toBe(2);
+    expect(count('hallway')).toBe(1);
+    expect(spec.rooms.find(r => r.type === 'kitchen')!.zone).toBe('service');
+    expect(spec.rooms.find(r => r.type === 'bedroom')!.zone).toBe('private');
+  });
+
+  test('produces specifications that pass validation', () => {
+    const validator = new SpecificationValidator();
+
+    for (const seed of [1, 2, 3]) {
+      const result = validator.validate(ruleBasedSpecGenerator.generate(parameters, seed));
+      expect(result.errors.filter(e => e.severity === 'error')).toEqual([]);
+    }
+  });
+
+  test('room areas fill the usable area', () => {
+    const spec = ruleBasedSpecGenerator.generate(parameters, 7);
+    const minTotal = spec.rooms.reduce((sum, r) => sum + r.minArea, 0);
+    const maxTotal = spec.rooms.reduce((sum, r) => sum + r.maxArea, 0);
+
+    expect(minTotal).toBeLessThanOrEqual(120);
+    expect(maxTotal).toBeGreaterThanOrEqual(120 * 0.85);
+  });
+
+  test('adjacencies follow the architectural rules', () => {
+    const spec = ruleBasedSpecGenerator.generate(parameters, 1);
+    const edge = (a: string, b: string) =>
+      spec.adjacencyGraph.find(e => (e.from === a && e.to === b) || (e.from === b && e.to === a));
+
+    expect(edge('kitchen1', 'dining1')?.type).toBe('must');
+    expect(edge('bathroom1', 'kitchen1')?.type).toBe('avoid');
+  });
+
+  test('ensuites pair bedrooms with bathrooms', () => {
+    const spec = ruleBasedSpecGenerator.generate({ ...parameters, preferences: { ensuites: true } }, 1);
+    const ensuites = spec.adjacencyGraph.filter(e => e.type === 'must' && e.justification === 'Ensuite bathroom');
+
+    expect(ensuites).toEqual([expect.objectContaining({ from: 'bedroom1', to: 'bathroom1' })]);
+  });
+
+  test('derives the total area when none is given', () => {
+    const spec = ruleBasedSpecGenerator.generate({ ...parameters, totalArea: undefined }, 1);
+    expect(spec.totalArea).toBeGreaterThan(60);
+  });
+
+  test('orchestrator runs offline without an API key', async () => {
+    const stageA = new StageAOrchestrator();
+    const request: GenerateFloorPlanRequest = {
+      userInput: '',
+      parameters,
+      variationCount: 1,
+      generationMode: 'rule-based',
+      seed: 5
+    };
+
+    const first = await stageA.generate(request);
+    const second = await stageA.generate(request);
+
+    expect(first.specification).toEqual(second.specification);
+    expect(first.metadata.llmUsage.totalTokens).toBe(0);
+  });
+});
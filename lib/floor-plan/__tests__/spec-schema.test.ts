@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for the Specification Schema and Re-prompt Loop
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { checkSchema } from '../stage-a/spec-schema';
+import { SpecificationParser } from '../stage-a/spec-parser';
+import { StageAOrchestrator } from '../stage-a';
+import { ruleBasedSpecGenerator } from '../stage-a/rule-based-generator';
+import { GenerateFloorPlanRequest, FloorPlanError } from '../types';
+import { ScriptedProvider } from './fixtures';
+
+describe('Specification schema', () => {
+  const parameters: GenerateFloorPlanRequest['parameters'] = {
+    totalArea: 90,
+    unit: 'metric',
+    floors: 1,
+    rooms: { bedroom: 2, bathroom: 1 }
+  };
+  const request: GenerateFloorPlanRequest = { userInput: 'Two bedroom flat', parameters, variationCount: 1 };
+  const validSpec = ruleBasedSpecGenerator.generate(parameters, 1);
+
+  test('valid specifications pass the schema', () => {
+    expect(checkSchema(JSON.parse(JSON.stringify(validSpec)))).toEqual([]);
+  });
+
+  test('reports violations with their paths', () => {
+    const errors = checkSchema({
+      totalArea: '90',
+      rooms: [{ id: 'r1', type: 'ballroom', minArea: 10, maxArea: 12, aspectRatio: { min: 1, max: 2 }, zone: 'public', requiresWindow: true }],
+      adjacencyGraph: []
+    });
+
+    expect(errors).toContain('totalArea must be a number');
+    expect(errors).toContain('rooms[0].requiresDoor is required');
+    expect(errors.some(e => e.startsWith('rooms[0].type must be one of'))).toBe(true);
+  });
+
+  test('parser repairs common structural mistakes', () => {
+    const parser = new SpecificationParser();
+    const raw = parser.parseJSON(`\`\`\`json
+{
+  "specification": {
+    "totalArea": "80",
+    "rooms": {
+      "lounge": { "type": "Living Room", "minArea": 25, "maxArea": 18, "aspectRatio": [1, 2], "zone": "PUBLIC", "requiresWindow": true, "requiresDoor": true }
+    },
+    "adjacencyGraph": [{ "from": "lounge", "to": "garage", "weight": 5 }]
+  }
+}
+\`\`\``);
+
+    expect(raw.totalArea).toBe(80);
+    expect(raw.rooms[0]).toEqual(expect.objectContaining({
+      id: 'lounge',
+      type: 'living',
+      zone: 'public',
+      minArea: 18,
+      maxArea: 25,
+      aspectRatio: { min: 1, max: 2 }
+    }));
+    expect(raw.adjacencyGraph).toEqual([]);
+    expect(checkSchema(raw)).toEqual([]);
+  });
+
+  test('re-prompts with the validation errors until the specification is valid', async () => {
+    const invalid = JSON.stringify({ ...validSpec, rooms: validSpec.rooms.map(r => ({ ...r, zone: 'outdoor' })) });
+    const provider = new ScriptedProvider([invalid, JSON.stringify(validSpec)]);
+    const stageA = new StageAOrchestrator({ provider });
+
+    const result = await stageA.generate(request);
+
+    expect(result.metadata.attempts).toBe(2);
+    expect(result.metadata.llmUsage.totalTokens).toBe(30);
+    expect(provider.prompts[1]).toContain('rooms[0].zone must be one of public, private, service');
+    expect(provider.options[0]?.responseSchema?.name).toBe('floor_plan_specification');
+    expect(result.specification.rooms.length).toBe(validSpec.rooms.length);
+  });
+
+  test('gives up after the retry budget', async () => {
+    const provider = new ScriptedProvider(['not json at all']);
+    const stageA = new StageAOrchestrator({ provider });
+
+    let error: unknown;
+    try {
+      await stageA.generate(request);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error instanceof FloorPlanError).toBe(true);
+    expect(provider.prompts.length).toBe(3);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Comment Anchors
+ * Pins review comments to elements of a saved plan: finds the element under
+ * a point on the plan, and where an anchor's pin goes and what it is called.
+ * Works on the saved (legacy) layout, whose elements are named by kind and
+ * index, e.g. 'wall-3'.
+ */
+
+import { LegacyFloorPlan, LegacyFloorPlanLayout } from './legacy-adapter';
+import { CommentAnchor, CommentAnchorType, Point2D } from './types';
+import { distance } from './utils';
+
+export const COMMENT_ANCHOR_TYPES: CommentAnchorType[] = ['room', 'wall', 'door', 'window', 'point'];
+
+// How close a point has to be to pick a door or window (m)
+const OPENING_RADIUS = 0.6;
+
+// How close a point has to be to pick a wall (m)
+const WALL_RADIUS = 0.25;
+
+// Doors are drawn this wide from their hinge point (m)
+const DOOR_WIDTH = 0.9;
+
+const DEFAULT_WINDOW_WIDTH = 1.5;
+
+type ElementType = Exclude<CommentAnchorType, 'point'>;
+
+/**
+ * The layout of one level; single-storey plans only have level 0
+ */
+export function layoutForLevel(plan: LegacyFloorPlan, level: number): LegacyFloorPlanLayout | null {
+  if (plan.levels && plan.levels.length > 1) {
+    return plan.levels.find(entry => entry.level === level) ?? null;
+  }
+  return level === 0 ? plan : null;
+}
+
+/**
+ * Anchor for a point on a level: the door or window next to it, else the
+ * wall it is on, else the room it is in, else the point itself. The pin
+ * stays where the point is.
+ */
+export function anchorAt(layout: LegacyFloorPlanLayout, point: Point2D, level = 0): CommentAnchor {
+  const anchor = (type: CommentAnchorType, index: number | null): CommentAnchor => ({
+    type,
+    elementId: index === null ? null : `${type}-${index}`,
+    position: { x: point.x, y: point.y },
+    level,
+  });
+
+  const door = closest(layout.doors.map(item => distance(doorCenter(item), point)), OPENING_RADIUS);
+  const window = closest(layout.windows.map(item => distance(windowCenter(item), point)), OPENING_RADIUS);
+  if (door && (!window || door.score <= window.score)) return anchor('door', door.index);
+  if (window) return anchor('window', window.index);
+
+  const wall = closest(
+    layout.walls.map(item => distanceToSegment(point, { x: item.x1, y: item.y1 }, { x: item.x2, y: item.y2 })),
+    WALL_RADIUS
+  );
+  if (wall) return anchor('wall', wall.index);
+
+  // The smallest room wins where rooms overlap
+  const room = closest(
+    layout.rooms.map(item => {
+      const inside =
+        point.x >= item.x && point.x <= item.x + item.width &&
+        point.y >= item.y && point.y <= item.y + item.height;
+      return inside ? item.width * item.height : Infinity;
+    }),
+    Number.MAX_VALUE
+  );
+  if (room) return anchor('room', room.index);
+
+  return anchor('point', null);
+}
+
+/**
+ * Where the element sits on the layout, or null if there is no such element
+ */
+export function elementPosition(layout: LegacyFloorPlanLayout, elementId: string): Point2D | null {
+  const element = parseElementId(elementId);
+  if (!element) return null;
+
+  switch (element.type) {
+    case 'room': {
+      const room = layout.rooms[element.index];
+      return room ? { x: room.x + room.width / 2, y: room.y + room.height / 2 } : null;
+    }
+    case 'wall': {
+      const wall = layout.walls[element.index];
+      return wall ? { x: (wall.x1 + wall.x2) / 2, y: (wall.y1 + wall.y2) / 2 } : null;
+    }
+    case 'door': {
+      const door = layout.doors[element.index];
+      return door ? doorCenter(door) : null;
+    }
+    case 'window': {
+      const window = layout.windows[element.index];
+      return window ? windowCenter(window) : null;
+    }
+  }
+}
+
+/**
+ * Name of what a comment is about, e.g. 'Kitchen' or 'Wall 4'. Elements
+ * since removed from the plan read as e.g. 'Removed door'.
+ */
+export function anchorLabel(layout: LegacyFloorPlanLayout | null, anchor: Pick<CommentAnchor, 'type' | 'elementId'>): string {
+  if (anchor.type === 'point' || !anchor.elementId) return 'Point on plan';
+
+  const element = parseElementId(anchor.elementId);
+  if (!element || !layout || !elementPosition(layout, anchor.elementId)) {
+    return `Removed ${anchor.type}`;
+  }
+  if (element.type === 'room') return layout.rooms[element.index].name;
+
+  return `${element.type[0].toUpperCase()}${element.type.slice(1)} ${element.index + 1}`;
+}
+
+export function parseElementId(elementId: string): { type: ElementType; index: number } | null {
+  const match = /^(room|wall|door|window)-(\d+)$/.exec(elementId);
+  return match ? { type: match[1] as ElementType, index: Number(match[2]) } : null;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function doorCenter(door: LegacyFloorPlanLayout['doors'][number]): Point2D {
+  const angle = (door.rotation * Math.PI) / 180;
+  return {
+    x: door.x + Math.cos(angle) * DOOR_WIDTH / 2,
+    y: door.y + Math.sin(angle) * DOOR_WIDTH / 2,
+  };
+}
+
+function windowCenter(window: LegacyFloorPlanLayout['windows'][number]): Point2D {
+  return { x: window.x + (window.width || DEFAULT_WINDOW_WIDTH) / 2, y: window.y };
+}
+
+/**
+ * Index of the lowest score within limit
+ */
+function closest(scores: number[], limit: number): { index: number; score: number } | null {
+  let best: { index: number; score: number } | null = null;
+  for (let index = 0; index < scores.length; index++) {
+    if (scores[index] <= limit && (!best || scores[index] < best.score)) {
+      best = { index, score: scores[index] };
+    }
+  }
+  return best;
+}
+
+function distanceToSegment(point: Point2D, start: Point2D, end: Point2D): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return distance(point, start);
+
+  const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return distance(point, { x: start.x + t * dx, y: start.y + t * dy });
+}
@@ -2,23 +2,62 @@
  * Configuration for the multi-stage floor plan generation pipeline
  */
 
-import { PipelineConfig } from './types';
+import { PipelineConfig, StageAConfig, LLMProviderType } from './types';
+
+/**
+ * Per-provider defaults, overridden by LLM_MODEL / LLM_BASE_URL
+ */
+export const LLM_PROVIDER_DEFAULTS: Record<LLMProviderType, { model: string; baseUrl: string; apiKeyEnv?: string }> = {
+  openrouter: {
+    // model: 'google/gemini-2.0-flash-001',
+    model: 'x-ai/grok-code-fast-1',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKeyEnv: 'OPENROUTER_API_KEY'
+  },
+  'openai-compatible': {
+    model: 'llama3.1',
+    baseUrl: 'http://localhost:11434/v1' // Ollama; llama.cpp serves on :8080/v1
+  },
+  anthropic: {
+    model: 'claude-3-5-haiku-latest',
+    baseUrl: 'https://api.anthropic.com/v1',
+    apiKeyEnv: 'ANTHROPIC_API_KEY'
+  },
+  replay: {
+    model: 'replay',
+    baseUrl: ''
+  }
+};
+
+/**
+ * Resolve the Stage A LLM configuration from environment variables
+ */
+export function resolveLLMConfig(env: Record<string, string | undefined> = process.env): StageAConfig['llm'] {
+  const requested = (env.LLM_PROVIDER || 'openrouter') as LLMProviderType;
+  const provider: LLMProviderType = requested in LLM_PROVIDER_DEFAULTS ? requested : 'openrouter';
+  const defaults = LLM_PROVIDER_DEFAULTS[provider];
+
+  return {
+    provider,
+    model: env.LLM_MODEL || defaults.model,
+    temperature: env.LLM_TEMPERATURE ? Number(env.LLM_TEMPERATURE) : 0.3,
+    maxTokens: env.LLM_MAX_TOKENS ? Number(env.LLM_MAX_TOKENS) : 2000,
+    apiKey: env.LLM_API_KEY || (defaults.apiKeyEnv && env[defaults.apiKeyEnv]) || '',
+    baseUrl: env.LLM_BASE_URL || defaults.baseUrl,
+    structuredOutput: env.LLM_STRUCTURED_OUTPUT !== 'false',
+    ...(env.LLM_REPLAY_FIXTURES && { fixturePath: env.LLM_REPLAY_FIXTURES })
+  };
+}
 
 export const DEFAULT_CONFIG: PipelineConfig = {
   stageA: {
-    llm: {
-      // model: 'google/gemini-2.0-flash-001',
-      model: 'x-ai/grok-code-fast-1',
-      temperature: 0.3,
-      maxTokens: 2000,
-      apiKey: process.env.OPENROUTER_API_KEY || '',
-      baseUrl: 'https://openrouter.ai/api/v1'
-    },
+    llm: resolveLLMConfig(),
     validation: {
       minTotalArea: 20,
       maxTotalArea: 500,
       minRoomCount: 1,
-      maxRoomCount: 15
+      maxRoomCount: 15,
+      maxRepromptAttempts: 2
     }
   },
   stageB: {
@@ -87,7 +126,9 @@ export const ROOM_AREA_RANGES = {
   study: { min: 8, max: 15, optimal: 10 },
   utility: { min: 3, max: 8, optimal: 5 },
   garage: { min: 15, max: 40, optimal: 25 },
-  balcony: { min: 4, max: 15, optimal: 8 }
+  balcony: { min: 4, max: 15, optimal: 8 },
+  stair: { min: 6, max: 9, optimal: 7.2 },
+  lift: { min: 2.5, max: 4, optimal: 3.2 }
 };
 
 // Aspect ratio ranges for rooms
@@ -101,7 +142,9 @@ export const ROOM_ASPECT_RATIOS = {
   study: { min: 0.7, max: 1.5 },
   utility: { min: 0.6, max: 1.5 },
   garage: { min: 0.8, max: 1.5 },
-  balcony: { min: 0.5, max: 2.0 }
+  balcony: { min: 0.5, max: 2.0 },
+  stair: { min: 0.6, max: 1.7 },
+  lift: { min: 0.8, max: 1.25 }
 };
 
 // Zone classification
@@ -115,7 +158,9 @@ export const ROOM_ZONES = {
   study: 'private',
   utility: 'service',
   garage: 'service',
-  balcony: 'public'
+  balcony: 'public',
+  stair: 'public',
+  lift: 'public'
 } as const;
 
 // Default adjacency preferences (weight 0-10)
@@ -130,6 +175,42 @@ export const DEFAULT_ADJACENCIES = [
 // Circulation factor (percentage of total area)
 export const CIRCULATION_FACTOR = 0.15;
 
+/**
+ * Multi-storey configuration
+ * Core sizes are for a residential dog-leg stair and a compact home lift.
+ */
+export const MULTI_STOREY_CONFIG = {
+  maxFloors: 4,
+  floorHeight: 3.0, // Floor-to-floor, meters
+  liftMinFloors: 3, // Add a lift from this many floors upwards
+  stairCore: { width: 2.4, height: 3.0 },
+  liftCore: { width: 1.8, height: 1.8 },
+  landingArea: 4 // Minimum upper-floor landing, m²
+};
+
+/**
+ * Opening sizes for 3D and BIM exports when an opening does not give its own
+ * Matches what Stage B places (meters).
+ */
+export const OPENING_DEFAULTS = {
+  doorHeight: 2.1,
+  windowHeight: 1.5,
+  windowSill: 0.9
+};
+
+/**
+ * Rule-based (offline) specification generator
+ * Room counts apply when the request leaves a room type out.
+ */
+export const RULE_BASED_CONFIG = {
+  defaultRooms: { bedroom: 1, bathroom: 1, kitchen: 1, livingRoom: 1, diningRoom: 0, study: 0, utility: 0 },
+  areaJitter: 0.08, // ± share of each room's target area varied by the seed
+  minAreaFactor: 0.9,
+  maxAreaFactor: 1.15,
+  hallwayMinRooms: 5, // Add a hallway from this many rooms upwards
+  tolerance: 10
+};
+
 /**
  * Stroke width configuration for rendering modes
  * 
@@ -172,3 +253,33 @@ export const ADAPTIVE_SCALE = {
   minScale: 10,            // Minimum zoom level (pixels per meter)
   defaultScale: 15         // Baseline for moderate floor plans (pixels per meter)
 };
+
+/**
+ * Drawing sheets for PDF export
+ * Sizes are portrait width × height in millimetres; plans are printed at the
+ * first standard scale that fits the drawing area unless one is requested.
+ */
+export const SHEET_SIZES = {
+  'A4': { width: 210, height: 297 },
+  'A3': { width: 297, height: 420 },
+  'A2': { width: 420, height: 594 },
+  'A1': { width: 594, height: 841 },
+  'A0': { width: 841, height: 1189 },
+  'ANSI-A': { width: 215.9, height: 279.4 },
+  'ANSI-B': { width: 279.4, height: 431.8 },
+  'ANSI-C': { width: 431.8, height: 558.8 },
+  'ANSI-D': { width: 558.8, height: 863.6 },
+  'ANSI-E': { width: 863.6, height: 1117.6 }
+};
+
+export const DRAWING_SCALES = [20, 50, 100, 200, 500];
+
+/**
+ * PNG thumbnails stored with variations and saved plans
+ * Sized for the dashboard project cards; the variation gallery scales them down.
+ */
+export const THUMBNAIL_SIZE = {
+  width: 320,
+  height: 240,
+  padding: 8
+};
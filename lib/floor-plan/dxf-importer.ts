@@ -0,0 +1,1063 @@
+/**
+ * DXF Importer
+ * Rebuilds a FloorPlanGeometry from an existing CAD drawing: walls from pairs
+ * of parallel lines, doors and windows from block inserts and swing arcs, and
+ * rooms from area outlines or the faces the walls enclose
+ */
+
+import {
+  FloorPlanGeometry,
+  FloorPlanError,
+  Point2D,
+  RoomGeometry,
+  RoomType,
+  Wall,
+  Opening
+} from './types';
+import { ROOM_ZONES } from './config';
+import { SpecificationParser } from './stage-a/spec-parser';
+import { ROOM_STANDARDS } from './stage-a/architectural-rules';
+import { boundingBox, distance, pointInPolygon, polygonArea, polygonCentroid } from './utils';
+
+export interface DXFImportOptions {
+  /** Metres per drawing unit, for drawings that do not set $INSUNITS */
+  unitScale?: number;
+  /** Thickness (m) given to walls drawn as single lines */
+  defaultWallThickness?: number;
+}
+
+export interface DXFImportResult {
+  geometry: FloorPlanGeometry;
+  warnings: string[];
+}
+
+// $INSUNITS codes to metres
+const INSUNITS_TO_METERS: Record<number, number> = {
+  1: 0.0254,
+  2: 0.3048,
+  4: 0.001,
+  5: 0.01,
+  6: 1
+};
+
+// Wall faces closer or further apart than this are not one wall (m)
+const MIN_WALL_THICKNESS = 0.05;
+const MAX_WALL_THICKNESS = 0.6;
+
+// Largest gap a door or window may leave in a wall drawing (m)
+const MAX_OPENING_GAP = 3;
+
+// Loose arcs of this radius and sweep are door swings (m, degrees)
+const DOOR_SWING_RADIUS = { min: 0.5, max: 1.5 };
+const DOOR_SWING_SWEEP = { min: 80, max: 100 };
+
+const MIN_ROOM_AREA = 1;
+const MAX_INSERT_DEPTH = 8;
+
+const ANNOTATION_LAYER = /DIM|TEXT|ANNO|HATCH|PATT|IDEN|FURN|GRID|TTLB|AREA|ROOM|SPACE/i;
+const ROOM_LAYER = /AREA|ROOM|SPACE/i;
+const DOOR_NAME = /door/i;
+const WINDOW_NAME = /window|glaz/i;
+
+const parser = new SpecificationParser();
+
+interface DXFEntity {
+  type: string;
+  layer: string;
+  codes: Array<[number, string]>;
+  // Vertices of an old-style POLYLINE
+  vertices?: Point2D[];
+}
+
+interface DXFBlock {
+  base: Point2D;
+  entities: DXFEntity[];
+}
+
+interface ParsedDXF {
+  insunits: number;
+  blocks: Map<string, DXFBlock>;
+  entities: DXFEntity[];
+}
+
+interface Segment {
+  a: Point2D;
+  b: Point2D;
+  layer: string;
+}
+
+interface OpeningSymbol {
+  type: 'door' | 'window';
+  anchor: Point2D;
+  points: Point2D[];
+  // Sweep (degrees) of a loose arc, checked once the drawing's units are known
+  sweep?: number;
+}
+
+interface Label {
+  position: Point2D;
+  text: string;
+}
+
+interface Outline {
+  points: Point2D[];
+  layer: string;
+}
+
+interface Drawing {
+  segments: Segment[];
+  outlines: Outline[];
+  symbols: OpeningSymbol[];
+  labels: Label[];
+}
+
+interface CenterLine {
+  a: Point2D;
+  b: Point2D;
+  thickness: number;
+}
+
+type Transform = (p: Point2D) => Point2D;
+
+const identity: Transform = p => p;
+
+export class DXFImporter {
+  /**
+   * Import a drawing. Throws FloorPlanError for files that are not DXF or
+   * contain no walls; anything that could only be partly understood is
+   * reported in `warnings`.
+   */
+  import(content: string, options: DXFImportOptions = {}): DXFImportResult {
+    const warnings: string[] = [];
+    const dxf = this.parse(content);
+
+    const raw: Drawing = { segments: [], outlines: [], symbols: [], labels: [] };
+    this.collect(dxf, dxf.entities, identity, '0', 0, raw);
+
+    const unitScale = this.resolveUnitScale(dxf, raw, options, warnings);
+    const drawing = this.normalise(raw, unitScale);
+
+    const wallSegments = drawing.segments.filter(s => !ANNOTATION_LAYER.test(s.layer));
+    if (wallSegments.length === 0) {
+      throw new FloorPlanError('No walls found in the drawing', 'C', false);
+    }
+
+    let centerLines = this.pairWalls(wallSegments);
+    if (centerLines.length === 0) {
+      warnings.push('No parallel wall faces found; single lines were imported as walls');
+      const thickness = options.defaultWallThickness ?? 0.15;
+      centerLines = wallSegments.map(s => ({ a: s.a, b: s.b, thickness }));
+    }
+    centerLines = this.mergeCollinear(centerLines, drawing.symbols);
+    centerLines = this.joinCorners(centerLines);
+
+    const edges = this.splitAtIntersections(centerLines);
+
+    const outlines = drawing.outlines.filter(o => ROOM_LAYER.test(o.layer));
+    const polygons = outlines.length > 0
+      ? this.uniquePolygons(outlines.map(o => o.points))
+      : this.findFaces(edges);
+
+    const rooms = this.buildRooms(polygons, drawing.labels, warnings);
+    if (rooms.length === 0) {
+      warnings.push('No closed rooms found; only walls were imported');
+    }
+
+    const walls = this.buildWalls(edges, rooms);
+    const openings = this.buildOpenings(drawing.symbols, walls, warnings);
+
+    return { geometry: this.assemble(rooms, walls, openings, warnings), warnings };
+  }
+
+  /**
+   * Group codes into header units, block definitions and model space entities
+   */
+  private parse(content: string): ParsedDXF {
+    const lines = content.split(/\r?\n/);
+    const pairs: Array<[number, string]> = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+      const code = parseInt(lines[i].trim(), 10);
+      if (isNaN(code)) {
+        throw new FloorPlanError(`Invalid DXF group code on line ${i + 1}`, 'C', false);
+      }
+      pairs.push([code, lines[i + 1].trim()]);
+    }
+
+    if (!pairs.some(([code, value]) => code === 0 && value === 'SECTION')) {
+      throw new FloorPlanError('Not a DXF file', 'C', false);
+    }
+
+    const result: ParsedDXF = { insunits: 0, blocks: new Map(), entities: [] };
+    let section = '';
+    let block: { name: string; block: DXFBlock } | null = null;
+    let entity: DXFEntity | null = null;
+    let polyline: DXFEntity | null = null;
+
+    const finishEntity = () => {
+      if (!entity) return;
+      if (entity.type === 'VERTEX' && polyline) {
+        polyline.vertices!.push({ x: num(entity, 10), y: num(entity, 20) });
+      } else if (entity.type !== 'VERTEX' && entity.type !== 'SEQEND') {
+        (block ? block.block.entities : result.entities).push(entity);
+      }
+      if (entity.type === 'SEQEND') polyline = null;
+      entity = null;
+    };
+
+    for (let i = 0; i < pairs.length; i++) {
+      const [code, value] = pairs[i];
+
+      if (code === 0) {
+        finishEntity();
+        if (value === 'SECTION') {
+          section = pairs[i + 1]?.[0] === 2 ? pairs[i + 1][1] : '';
+        } else if (value === 'ENDSEC') {
+          section = '';
+        } else if (section === 'BLOCKS' && value === 'BLOCK') {
+          block = { name: '', block: { base: { x: 0, y: 0 }, entities: [] } };
+          entity = { type: 'BLOCK', layer: '0', codes: [] };
+        } else if (section === 'BLOCKS' && value === 'ENDBLK') {
+          if (block) result.blocks.set(block.name, block.block);
+          block = null;
+        } else if (section === 'ENTITIES' || (section === 'BLOCKS' && block)) {
+          entity = { type: value, layer: '0', codes: [] };
+          if (value === 'POLYLINE') {
+            entity.vertices = [];
+            polyline = entity;
+          }
+        }
+        continue;
+      }
+
+      if (section === 'HEADER' && code === 9 && value === '$INSUNITS') {
+        const units = pairs[i + 1];
+        if (units && units[0] === 70) result.insunits = parseInt(units[1], 10) || 0;
+        continue;
+      }
+
+      if (!entity) continue;
+      if (entity.type === 'BLOCK' && block) {
+        if (code === 2) block.name = value;
+        if (code === 10) block.block.base.x = parseFloat(value);
+        if (code === 20) block.block.base.y = parseFloat(value);
+        continue;
+      }
+      if (code === 8) entity.layer = value;
+      entity.codes.push([code, value]);
+    }
+    finishEntity();
+
+    // The block header itself is not part of the block
+    result.blocks.forEach(b => {
+      b.entities = b.entities.filter(e => e.type !== 'BLOCK');
+    });
+
+    return result;
+  }
+
+  /**
+   * Walk entities in drawing units, exploding inserts of ordinary blocks and
+   * keeping door and window inserts whole as opening symbols
+   */
+  private collect(
+    dxf: ParsedDXF,
+    entities: DXFEntity[],
+    transform: Transform,
+    parentLayer: string,
+    depth: number,
+    out: Drawing
+  ): void {
+    for (const entity of entities) {
+      // Entities on layer 0 take the layer of the insert that places them
+      const layer = entity.layer === '0' ? parentLayer : entity.layer;
+
+      switch (entity.type) {
+        case 'LINE':
+          out.segments.push({
+            a: transform({ x: num(entity, 10), y: num(entity, 20) }),
+            b: transform({ x: num(entity, 11), y: num(entity, 21) }),
+            layer
+          });
+          break;
+
+        case 'LWPOLYLINE':
+        case 'POLYLINE': {
+          const points = entity.type === 'LWPOLYLINE' ? lwPolylinePoints(entity) : entity.vertices || [];
+          const closed = (num(entity, 70) & 1) === 1;
+          this.addPolyline(points.map(transform), closed, layer, out);
+          break;
+        }
+
+        case 'ARC': {
+          const arc = arcPoints(entity).map(transform);
+          const center = transform({ x: num(entity, 10), y: num(entity, 20) });
+          out.symbols.push({ type: 'door', anchor: center, points: [center, ...arc], sweep: arcSweep(entity) });
+          break;
+        }
+
+        case 'TEXT':
+        case 'MTEXT': {
+          const aligned = entity.type === 'TEXT' && (num(entity, 72) !== 0 || num(entity, 73) !== 0);
+          const position = aligned
+            ? { x: num(entity, 11), y: num(entity, 21) }
+            : { x: num(entity, 10), y: num(entity, 20) };
+          const text = decodeText(entity.type === 'MTEXT' ? [...all(entity, 3), ...all(entity, 1)].join('') : str(entity, 1));
+          if (text) out.labels.push({ position: transform(position), text });
+          break;
+        }
+
+        case 'INSERT': {
+          const name = str(entity, 2);
+          const block = dxf.blocks.get(name);
+          if (!block || depth >= MAX_INSERT_DEPTH) break;
+
+          const insertTransform = compose(transform, insertMatrix(entity, block.base));
+          const kind = openingKind(name, layer, block);
+
+          if (kind) {
+            const points = blockPoints(dxf, block, depth).map(insertTransform);
+            if (points.length > 0) {
+              out.symbols.push({ type: kind, anchor: insertTransform(block.base), points });
+            }
+          } else {
+            this.collect(dxf, block.entities, insertTransform, layer, depth + 1, out);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  private addPolyline(points: Point2D[], closed: boolean, layer: string, out: Drawing): void {
+    for (let i = 0; i + 1 < points.length; i++) {
+      out.segments.push({ a: points[i], b: points[i + 1], layer });
+    }
+    if (closed && points.length > 2) {
+      out.segments.push({ a: points[points.length - 1], b: points[0], layer });
+      out.outlines.push({ points, layer });
+    }
+  }
+
+  private resolveUnitScale(dxf: ParsedDXF, raw: Drawing, options: DXFImportOptions, warnings: string[]): number {
+    const known = INSUNITS_TO_METERS[dxf.insunits];
+    if (known) return known;
+    if (options.unitScale) return options.unitScale;
+
+    // Unitless: a building wider than a kilometre is far more likely millimetres
+    const points = raw.segments.flatMap(s => [s.a, s.b]);
+    const extent = points.length > 0 ? boundingBox(points) : { width: 0, height: 0 };
+    const scale = Math.max(extent.width, extent.height) > 1000 ? 0.001 : 1;
+    warnings.push(`Drawing units not set; assumed ${scale === 1 ? 'metres' : 'millimetres'}`);
+    return scale;
+  }
+
+  /**
+   * Convert to metres with y pointing down, as Stage B lays plans out, and
+   * move the drawing to the origin
+   */
+  private normalise(raw: Drawing, unitScale: number): Drawing {
+    const points = raw.segments.flatMap(s => [s.a, s.b]).map(p => ({ x: p.x * unitScale, y: p.y * unitScale }));
+    const bounds = boundingBox(points);
+    const maxY = bounds.y + bounds.height;
+    const convert = (p: Point2D): Point2D => ({
+      x: round(p.x * unitScale - bounds.x),
+      y: round(maxY - p.y * unitScale)
+    });
+
+    const symbols = raw.symbols.filter(({ sweep, ...symbol }) => {
+      if (sweep === undefined) return true;
+      // A loose arc: keep it only when it looks like a door swing
+      const radius = distance(symbol.points[0], symbol.points[1]) * unitScale;
+      return sweep >= DOOR_SWING_SWEEP.min && sweep <= DOOR_SWING_SWEEP.max &&
+        radius >= DOOR_SWING_RADIUS.min && radius <= DOOR_SWING_RADIUS.max;
+    });
+
+    return {
+      segments: raw.segments.map(s => ({ a: convert(s.a), b: convert(s.b), layer: s.layer })),
+      outlines: raw.outlines.map(o => ({ points: o.points.map(convert), layer: o.layer })),
+      symbols: symbols.map(s => ({ type: s.type, anchor: convert(s.anchor), points: s.points.map(convert) })),
+      labels: raw.labels.map(l => ({ position: convert(l.position), text: l.text }))
+    };
+  }
+
+  /**
+   * Walls are drawn as two parallel faces. Each line is paired with the
+   * nearest parallel line on either side within wall thickness, and the pair
+   * becomes a center line spanning both faces.
+   */
+  private pairWalls(segments: Segment[]): CenterLine[] {
+    const lines = segments
+      .map(s => ({ ...s, length: distance(s.a, s.b) }))
+      .filter(s => s.length > 0.01);
+
+    interface Candidate { i: number; j: number; offset: number; sideI: number; sideJ: number; from: number; to: number }
+    const candidates: Candidate[] = [];
+    const nearest = new Map<string, number>();
+    const keep = (index: number, side: number, offset: number) => {
+      const key = `${index}:${side}`;
+      nearest.set(key, Math.min(nearest.get(key) ?? Infinity, offset));
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const dir = unit(lines[i].a, lines[i].b);
+      for (let j = i + 1; j < lines.length; j++) {
+        const other = unit(lines[j].a, lines[j].b);
+        if (Math.abs(cross(dir, other)) > 0.02) continue;
+
+        const signed = cross(dir, sub(lines[j].a, lines[i].a));
+        const offset = Math.abs(signed);
+        if (offset < MIN_WALL_THICKNESS || offset > MAX_WALL_THICKNESS) continue;
+
+        const tA = dot(dir, sub(lines[j].a, lines[i].a));
+        const tB = dot(dir, sub(lines[j].b, lines[i].a));
+        const overlap = Math.min(lines[i].length, Math.max(tA, tB)) - Math.max(0, Math.min(tA, tB));
+        if (overlap < Math.max(offset, 0.1)) continue;
+
+        const sideI = Math.sign(signed);
+        candidates.push({
+          i, j, offset, sideI, sideJ: -sideI,
+          from: Math.min(0, tA, tB),
+          to: Math.max(lines[i].length, tA, tB)
+        });
+        keep(i, sideI, offset);
+        keep(j, -sideI, offset);
+      }
+    }
+
+    return candidates
+      .filter(c =>
+        c.offset <= nearest.get(`${c.i}:${c.sideI}`)! + 0.01 &&
+        c.offset <= nearest.get(`${c.j}:${c.sideJ}`)! + 0.01
+      )
+      .map(c => {
+        const base = lines[c.i];
+        const dir = unit(base.a, base.b);
+        const shift = { x: -dir.y * c.sideI * c.offset / 2, y: dir.x * c.sideI * c.offset / 2 };
+        return {
+          a: roundPoint({ x: base.a.x + dir.x * c.from + shift.x, y: base.a.y + dir.y * c.from + shift.y }),
+          b: roundPoint({ x: base.a.x + dir.x * c.to + shift.x, y: base.a.y + dir.y * c.to + shift.y }),
+          thickness: round(c.offset)
+        };
+      });
+  }
+
+  /**
+   * Join collinear wall pieces that touch, overlap, or are separated only by
+   * a door or window
+   */
+  private mergeCollinear(lines: CenterLine[], symbols: OpeningSymbol[]): CenterLine[] {
+    const remaining = [...lines];
+    const merged: CenterLine[] = [];
+
+    while (remaining.length > 0) {
+      const seed = remaining.shift()!;
+      const dir = unit(seed.a, seed.b);
+      const group = [seed];
+
+      for (let k = remaining.length - 1; k >= 0; k--) {
+        const line = remaining[k];
+        if (Math.abs(cross(dir, unit(line.a, line.b))) > 0.02) continue;
+        if (Math.abs(cross(dir, sub(line.a, seed.a))) > 0.05) continue;
+        if (Math.abs(line.thickness - seed.thickness) > 0.05) continue;
+        group.push(line);
+        remaining.splice(k, 1);
+      }
+
+      // Sort pieces along the line and join across small gaps
+      const spans = group
+        .map(line => {
+          const tA = dot(dir, sub(line.a, seed.a));
+          const tB = dot(dir, sub(line.b, seed.a));
+          return { from: Math.min(tA, tB), to: Math.max(tA, tB), thickness: line.thickness };
+        })
+        .sort((p, q) => p.from - q.from);
+
+      let current = { ...spans[0] };
+      const flush = () => merged.push({
+        a: roundPoint({ x: seed.a.x + dir.x * current.from, y: seed.a.y + dir.y * current.from }),
+        b: roundPoint({ x: seed.a.x + dir.x * current.to, y: seed.a.y + dir.y * current.to }),
+        thickness: current.thickness
+      });
+
+      for (const span of spans.slice(1)) {
+        const gap = span.from - current.to;
+        const bridged = gap <= 0.01 || (gap <= MAX_OPENING_GAP && symbols.some(symbol => {
+          const t = dot(dir, sub(symbol.anchor, seed.a));
+          const offset = Math.abs(cross(dir, sub(symbol.anchor, seed.a)));
+          return t >= current.to - 0.3 && t <= span.from + 0.3 && offset <= current.thickness / 2 + 0.3;
+        }));
+
+        if (bridged) {
+          current.to = Math.max(current.to, span.to);
+          current.thickness = Math.max(current.thickness, span.thickness);
+        } else {
+          flush();
+          current = { ...span };
+        }
+      }
+      flush();
+    }
+
+    return merged;
+  }
+
+  /**
+   * Wall faces stop where they meet another wall's face, so paired center
+   * lines fall short of (or run past) the center line they meet. Snap each
+   * end onto the nearest crossing wall within reach.
+   */
+  private joinCorners(lines: CenterLine[]): CenterLine[] {
+    const result = lines.map(line => ({ ...line }));
+
+    for (const line of result) {
+      for (const end of ['a', 'b'] as const) {
+        let best: Point2D | null = null;
+        let bestDistance = Infinity;
+
+        for (const other of result) {
+          if (other === line) continue;
+          const hit = lineIntersection(line.a, line.b, other.a, other.b);
+          if (!hit) continue;
+
+          const reach = Math.max(line.thickness, other.thickness) + 0.05;
+          const d = distance(line[end], hit.point);
+          const onOther = hit.u >= -reach / distance(other.a, other.b) && hit.u <= 1 + reach / distance(other.a, other.b);
+          if (d <= reach && onOther && d < bestDistance) {
+            best = hit.point;
+            bestDistance = d;
+          }
+        }
+
+        if (best) line[end] = roundPoint(best);
+      }
+    }
+
+    return result.filter(line => distance(line.a, line.b) > 0.01);
+  }
+
+  /**
+   * Split center lines wherever they cross or meet, so every edge runs
+   * between two junctions
+   */
+  private splitAtIntersections(lines: CenterLine[]): CenterLine[] {
+    const cuts = lines.map(() => [0, 1]);
+
+    for (let i = 0; i < lines.length; i++) {
+      for (let j = i + 1; j < lines.length; j++) {
+        const hit = lineIntersection(lines[i].a, lines[i].b, lines[j].a, lines[j].b);
+        if (!hit) continue;
+        const epsI = 0.005 / distance(lines[i].a, lines[i].b);
+        const epsJ = 0.005 / distance(lines[j].a, lines[j].b);
+        if (hit.t < -epsI || hit.t > 1 + epsI || hit.u < -epsJ || hit.u > 1 + epsJ) continue;
+        cuts[i].push(clampUnit(hit.t));
+        cuts[j].push(clampUnit(hit.u));
+      }
+    }
+
+    const edges: CenterLine[] = [];
+    lines.forEach((line, i) => {
+      const ts = [...new Set(cuts[i].map(t => Math.round(t * 1e6) / 1e6))].sort((p, q) => p - q);
+      for (let k = 0; k + 1 < ts.length; k++) {
+        const a = roundPoint(lerp(line.a, line.b, ts[k]));
+        const b = roundPoint(lerp(line.a, line.b, ts[k + 1]));
+        if (distance(a, b) > 0.01) edges.push({ a, b, thickness: line.thickness });
+      }
+    });
+
+    return edges;
+  }
+
+  /**
+   * Trace the bounded faces of the wall graph. Dangling walls are pruned
+   * first; the unbounded outer face is the one wound the other way.
+   */
+  private findFaces(edges: CenterLine[]): Point2D[][] {
+    const points = new Map<string, Point2D>();
+    const neighbours = new Map<string, Set<string>>();
+    for (const edge of edges) {
+      const ka = key(edge.a);
+      const kb = key(edge.b);
+      if (ka === kb) continue;
+      points.set(ka, edge.a);
+      points.set(kb, edge.b);
+      if (!neighbours.has(ka)) neighbours.set(ka, new Set());
+      if (!neighbours.has(kb)) neighbours.set(kb, new Set());
+      neighbours.get(ka)!.add(kb);
+      neighbours.get(kb)!.add(ka);
+    }
+
+    let pruned = true;
+    while (pruned) {
+      pruned = false;
+      neighbours.forEach((set, k) => {
+        if (set.size < 2) {
+          set.forEach(n => neighbours.get(n)!.delete(k));
+          neighbours.delete(k);
+          pruned = true;
+        }
+      });
+    }
+
+    // Neighbours in counter-clockwise order around each vertex
+    const sorted = new Map<string, string[]>();
+    neighbours.forEach((set, k) => {
+      const origin = points.get(k)!;
+      sorted.set(k, [...set].sort((p, q) => angleOf(origin, points.get(p)!) - angleOf(origin, points.get(q)!)));
+    });
+
+    const visited = new Set<string>();
+    const faces: Point2D[][] = [];
+
+    sorted.forEach((list, start) => {
+      for (const first of list) {
+        if (visited.has(`${start}>${first}`)) continue;
+
+        const face: string[] = [];
+        let from = start;
+        let to = first;
+        while (!visited.has(`${from}>${to}`) && face.length <= edges.length * 2) {
+          visited.add(`${from}>${to}`);
+          face.push(from);
+          // Turn as far clockwise as possible at each vertex
+          const around = sorted.get(to)!;
+          const back = around.indexOf(from);
+          const next = around[(back - 1 + around.length) % around.length];
+          from = to;
+          to = next;
+        }
+
+        const polygon = simplify(face.map(k => points.get(k)!));
+        if (polygon.length >= 3 && signedArea(polygon) > 0 && polygonArea(polygon) >= MIN_ROOM_AREA) {
+          faces.push(polygon);
+        }
+      }
+    });
+
+    return faces;
+  }
+
+  private uniquePolygons(polygons: Point2D[][]): Point2D[][] {
+    const seen = new Set<string>();
+    return polygons
+      .map(simplify)
+      .filter(polygon => {
+        const signature = polygon.map(key).sort().join(';');
+        if (polygon.length < 3 || polygonArea(polygon) < MIN_ROOM_AREA || seen.has(signature)) return false;
+        seen.add(signature);
+        return true;
+      });
+  }
+
+  /**
+   * Name and type each room from the text inside it
+   */
+  private buildRooms(polygons: Point2D[][], labels: Label[], warnings: string[]): RoomGeometry[] {
+    const counters: Record<string, number> = {};
+    let guessed = 0;
+
+    const rooms = polygons.map(vertices => {
+      const area = polygonArea(vertices);
+      const centroid = polygonCentroid(vertices);
+      // Rooms drawn overlapping may contain each other's labels; prefer the most central
+      const inside = labels
+        .filter(label => pointInPolygon(label.position, vertices))
+        .sort((p, q) => distance(p.position, centroid) - distance(q.position, centroid));
+      const named = inside
+        .map(label => ({ label, type: roomTypeFromLabel(label.text) }))
+        .find(candidate => candidate.type !== null);
+
+      let type: RoomType;
+      if (named) {
+        type = named.type!;
+      } else {
+        guessed++;
+        type = area < 6 ? 'bathroom' : 'bedroom';
+      }
+
+      counters[type] = (counters[type] || 0) + 1;
+      const bounds = boundingBox(vertices);
+
+      const room: RoomGeometry = {
+        id: `${type}${counters[type]}`,
+        type,
+        geometry: {
+          vertices,
+          centroid,
+          area,
+          bounds
+        },
+        labels: {
+          name: named ? named.label.text : `${titleCase(type)} ${counters[type]}`,
+          area: `${area.toFixed(1)} m²`,
+          dimensions: `${bounds.width.toFixed(2)} × ${bounds.height.toFixed(2)} m`
+        }
+      };
+      return room;
+    });
+
+    if (guessed > 0) {
+      warnings.push(`${guessed} room(s) had no recognisable label; their types were guessed from their size`);
+    }
+
+    return rooms;
+  }
+
+  /**
+   * Walls between junctions, with the rooms on either side. Walls with a
+   * room on one side only are exterior.
+   */
+  private buildWalls(edges: CenterLine[], rooms: RoomGeometry[]): Wall[] {
+    return edges
+      .filter(edge => distance(edge.a, edge.b) >= edge.thickness)
+      .map((edge, i) => {
+        const adjacentRooms = rooms
+          .filter(room => roomTouchesEdge(room.geometry.vertices, edge))
+          .map(room => room.id);
+        const exterior = rooms.length === 0 || adjacentRooms.length < 2;
+
+        return {
+          id: `wall_${i + 1}`,
+          type: exterior ? 'exterior' as const : 'interior' as const,
+          thickness: edge.thickness,
+          geometry: { start: edge.a, end: edge.b },
+          length: round(distance(edge.a, edge.b)),
+          structuralLoad: exterior,
+          adjacentRooms
+        };
+      });
+  }
+
+  /**
+   * Place each door and window on the wall it sits in; its width is the
+   * extent of the symbol along that wall
+   */
+  private buildOpenings(symbols: OpeningSymbol[], walls: Wall[], warnings: string[]): Opening[] {
+    const counters = { door: 0, window: 0 };
+    const openings: Opening[] = [];
+    let skipped = 0;
+    let hasEntry = false;
+
+    for (const symbol of symbols) {
+      const wall = nearestWall(symbol.anchor, walls) ?? nearestWall(boundsCenter(symbol.points), walls);
+      if (!wall) {
+        skipped++;
+        continue;
+      }
+
+      const { start, end } = wall.geometry;
+      const dir = unit(start, end);
+      const ts = symbol.points.map(p => dot(dir, sub(p, start)));
+      const from = Math.max(0, Math.min(...ts));
+      const to = Math.min(wall.length, Math.max(...ts));
+      if (to - from < 0.3) {
+        skipped++;
+        continue;
+      }
+
+      counters[symbol.type]++;
+      const isEntry = symbol.type === 'door' && wall.type === 'exterior' && !hasEntry;
+      if (isEntry) hasEntry = true;
+
+      openings.push({
+        id: `${symbol.type}_${counters[symbol.type]}`,
+        type: symbol.type,
+        width: round(to - from),
+        height: symbol.type === 'door' ? 2.1 : 1.5,
+        wallId: wall.id,
+        position: round((from + to) / 2 / wall.length),
+        properties: symbol.type === 'door'
+          ? { swingDirection: 90, ...(isEntry && { isEntry }) }
+          : { sillHeight: 0.9 }
+      });
+    }
+
+    if (skipped > 0) {
+      warnings.push(`${skipped} door or window symbol(s) were not on a wall and were skipped`);
+    }
+
+    return openings;
+  }
+
+  private assemble(rooms: RoomGeometry[], walls: Wall[], openings: Opening[], warnings: string[]): FloorPlanGeometry {
+    const wallsById = new Map(walls.map(wall => [wall.id, wall]));
+    const edges: FloorPlanGeometry['adjacencyGraph']['edges'] = [];
+    const seen = new Set<string>();
+
+    for (const opening of openings) {
+      const rooms = wallsById.get(opening.wallId)!.adjacentRooms;
+      if (opening.type !== 'door' || rooms.length !== 2) continue;
+      const [from, to] = [...rooms].sort();
+      if (seen.has(`${from}-${to}`)) continue;
+      seen.add(`${from}-${to}`);
+      edges.push({ from, to, type: 'door' });
+    }
+
+    const extent = rooms.length > 0
+      ? boundingBox(rooms.flatMap(room => room.geometry.vertices))
+      : boundingBox(walls.flatMap(wall => [wall.geometry.start, wall.geometry.end]));
+
+    return {
+      metadata: {
+        totalArea: round(rooms.reduce((sum, room) => sum + room.geometry.area, 0)),
+        buildingDimensions: { width: round(extent.width), height: round(extent.height) },
+        generatedAt: new Date().toISOString(),
+        algorithmVersion: '1.0.0',
+        confidence: Math.max(0, 100 - warnings.length * 10),
+        relaxedConstraints: []
+      },
+      rooms,
+      walls,
+      openings,
+      adjacencyGraph: {
+        nodes: rooms.map(room => ({ roomId: room.id, zone: ROOM_ZONES[room.type as keyof typeof ROOM_ZONES] || 'private' })),
+        edges
+      }
+    };
+  }
+}
+
+export const dxfImporter = new DXFImporter();
+
+function str(entity: DXFEntity, code: number): string {
+  return entity.codes.find(([c]) => c === code)?.[1] ?? '';
+}
+
+function num(entity: DXFEntity, code: number, fallback: number = 0): number {
+  const value = parseFloat(str(entity, code));
+  return isNaN(value) ? fallback : value;
+}
+
+function all(entity: DXFEntity, code: number): string[] {
+  return entity.codes.filter(([c]) => c === code).map(([, value]) => value);
+}
+
+function lwPolylinePoints(entity: DXFEntity): Point2D[] {
+  const points: Point2D[] = [];
+  for (const [code, value] of entity.codes) {
+    if (code === 10) points.push({ x: parseFloat(value), y: 0 });
+    if (code === 20 && points.length > 0) points[points.length - 1].y = parseFloat(value);
+  }
+  return points;
+}
+
+function arcSweep(entity: DXFEntity): number {
+  const start = num(entity, 50);
+  let end = num(entity, 51);
+  while (end <= start) end += 360;
+  return end - start;
+}
+
+function arcPoints(entity: DXFEntity, steps: number = 8): Point2D[] {
+  const center = { x: num(entity, 10), y: num(entity, 20) };
+  const radius = num(entity, 40);
+  const start = num(entity, 50);
+  const sweep = arcSweep(entity);
+
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = (start + sweep * i / steps) * Math.PI / 180;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
+
+/**
+ * Block coordinates to the insert's: shift off the base point, scale,
+ * rotate, then move to the insertion point
+ */
+function insertMatrix(entity: DXFEntity, base: Point2D): Transform {
+  const at = { x: num(entity, 10), y: num(entity, 20) };
+  const sx = num(entity, 41, 1);
+  const sy = num(entity, 42, 1);
+  const rotation = num(entity, 50) * Math.PI / 180;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  return p => {
+    const x = (p.x - base.x) * sx;
+    const y = (p.y - base.y) * sy;
+    return { x: at.x + x * cos - y * sin, y: at.y + x * sin + y * cos };
+  };
+}
+
+function compose(outer: Transform, inner: Transform): Transform {
+  return p => outer(inner(p));
+}
+
+function openingKind(name: string, layer: string, block: DXFBlock): 'door' | 'window' | null {
+  if (DOOR_NAME.test(name)) return 'door';
+  if (WINDOW_NAME.test(name)) return 'window';
+  if (block.entities.some(e => e.type === 'ARC')) return 'door';
+  if (DOOR_NAME.test(layer)) return 'door';
+  if (WINDOW_NAME.test(layer)) return 'window';
+  return null;
+}
+
+/**
+ * Every point drawn by a block, in block coordinates, with arcs sampled
+ */
+function blockPoints(dxf: ParsedDXF, block: DXFBlock, depth: number): Point2D[] {
+  const points: Point2D[] = [];
+  for (const entity of block.entities) {
+    switch (entity.type) {
+      case 'LINE':
+        points.push({ x: num(entity, 10), y: num(entity, 20) }, { x: num(entity, 11), y: num(entity, 21) });
+        break;
+      case 'LWPOLYLINE':
+        points.push(...lwPolylinePoints(entity));
+        break;
+      case 'POLYLINE':
+        points.push(...(entity.vertices || []));
+        break;
+      case 'ARC':
+        points.push(...arcPoints(entity));
+        break;
+      case 'INSERT': {
+        const nested = dxf.blocks.get(str(entity, 2));
+        if (nested && depth < MAX_INSERT_DEPTH) {
+          points.push(...blockPoints(dxf, nested, depth + 1).map(insertMatrix(entity, nested.base)));
+        }
+        break;
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Plain text from TEXT/MTEXT values: MTEXT formatting codes are dropped and
+ * \U+XXXX escapes decoded
+ */
+function decodeText(value: string): string {
+  return value
+    .replace(/\\U\+([0-9A-Fa-f]{4})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\P/g, ' ')
+    .replace(/\\[A-Za-z][^;\\{}]*;/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/%%[cdp]/gi, '')
+    .trim();
+}
+
+function roomTypeFromLabel(text: string): RoomType | null {
+  const type = parser.normalizeRoomType(text.replace(/\s*\d+$/, ''));
+  return type in ROOM_STANDARDS ? type as RoomType : null;
+}
+
+function roomTouchesEdge(vertices: Point2D[], edge: CenterLine): boolean {
+  const dir = unit(edge.a, edge.b);
+  const length = distance(edge.a, edge.b);
+
+  return vertices.some((v, i) => {
+    const w = vertices[(i + 1) % vertices.length];
+    if (Math.abs(cross(dir, unit(v, w))) > 0.02) return false;
+    // Room outlines may follow either the center line or a face of the wall
+    if (Math.abs(cross(dir, sub(v, edge.a))) > edge.thickness / 2 + 0.02) return false;
+    const tV = dot(dir, sub(v, edge.a));
+    const tW = dot(dir, sub(w, edge.a));
+    const overlap = Math.min(length, Math.max(tV, tW)) - Math.max(0, Math.min(tV, tW));
+    return overlap > Math.min(0.1, length / 2);
+  });
+}
+
+function nearestWall(point: Point2D, walls: Wall[]): Wall | null {
+  let best: Wall | null = null;
+  let bestDistance = Infinity;
+
+  for (const wall of walls) {
+    const d = distanceToSegment(point, wall.geometry.start, wall.geometry.end);
+    if (d <= wall.thickness / 2 + 0.25 && d < bestDistance) {
+      best = wall;
+      bestDistance = d;
+    }
+  }
+
+  return best;
+}
+
+function boundsCenter(points: Point2D[]): Point2D {
+  const bounds = boundingBox(points);
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const length = distance(a, b);
+  if (length === 0) return distance(p, a);
+  const t = clampUnit(dot(sub(p, a), sub(b, a)) / (length * length));
+  return distance(p, lerp(a, b, t));
+}
+
+/**
+ * Where the lines through a–b and c–d cross, as fractions t along a–b and
+ * u along c–d; null for parallel lines
+ */
+function lineIntersection(a: Point2D, b: Point2D, c: Point2D, d: Point2D): { point: Point2D; t: number; u: number } | null {
+  const r = sub(b, a);
+  const s = sub(d, c);
+  const denominator = cross(r, s);
+  if (Math.abs(denominator) < 1e-9 * distance(a, b) * distance(c, d)) return null;
+
+  const t = cross(sub(c, a), s) / denominator;
+  const u = cross(sub(c, a), r) / denominator;
+  return { point: lerp(a, b, t), t, u };
+}
+
+function simplify(polygon: Point2D[]): Point2D[] {
+  const points = polygon.filter((p, i) => distance(p, polygon[(i + 1) % polygon.length]) > 0.005);
+  return points.filter((p, i) => {
+    const prev = points[(i - 1 + points.length) % points.length];
+    const next = points[(i + 1) % points.length];
+    return Math.abs(cross(sub(p, prev), sub(next, p))) > 1e-6;
+  });
+}
+
+function signedArea(polygon: Point2D[]): number {
+  let sum = 0;
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    sum += p.x * q.y - q.x * p.y;
+  });
+  return sum / 2;
+}
+
+function titleCase(type: string): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+function angleOf(origin: Point2D, p: Point2D): number {
+  return Math.atan2(p.y - origin.y, p.x - origin.x);
+}
+
+function key(p: Point2D): string {
+  return `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
+}
+
+function sub(p: Point2D, q: Point2D): Point2D {
+  return { x: p.x - q.x, y: p.y - q.y };
+}
+
+function dot(p: Point2D, q: Point2D): number {
+  return p.x * q.x + p.y * q.y;
+}
+
+function cross(p: Point2D, q: Point2D): number {
+  return p.x * q.y - p.y * q.x;
+}
+
+function unit(a: Point2D, b: Point2D): Point2D {
+  const length = distance(a, b) || 1;
+  return { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+}
+
+function lerp(a: Point2D, b: Point2D, t: number): Point2D {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+function clampUnit(t: number): number {
+  return Math.max(0, Math.min(1, t));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function roundPoint(p: Point2D): Point2D {
+  return { x: round(p.x), y: round(p.y) };
+}
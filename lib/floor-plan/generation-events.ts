@@ -0,0 +1,52 @@
+/**
+ * Generation Events over Server-Sent Events
+ * Encoding for the streaming generation endpoint and a reader for the
+ * browser. Has no server dependencies so client components can import it.
+ */
+
+import { GenerationEvent } from './types';
+
+/**
+ * Encode an event as an SSE message. The event type is repeated in the
+ * `event:` field so EventSource listeners can subscribe by type.
+ */
+export function encodeGenerationEvent(event: GenerationEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Yield the events of a streaming generation response
+ */
+export async function* readGenerationEvents(response: Response): AsyncGenerator<GenerationEvent> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No reader available for streaming');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (value) {
+      buffer += decoder.decode(value, { stream: !done });
+    }
+
+    // Messages are separated by a blank line
+    const messages = buffer.split('\n\n');
+    buffer = done ? '' : messages.pop() || '';
+
+    for (const message of messages) {
+      const data = message
+        .split('\n')
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice(6))
+        .join('\n');
+      if (data) {
+        yield JSON.parse(data) as GenerationEvent;
+      }
+    }
+
+    if (done) break;
+  }
+}
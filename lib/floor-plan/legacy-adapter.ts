@@ -0,0 +1,328 @@
+/**
+ * Legacy Layout Adapter
+ * Converts pipeline variations to the flat walls/rooms/doors/windows layout
+ * the editor canvas, 3D viewer and DXF export route work with, and rebuilds
+ * geometry from that layout for exporting saved plans
+ */
+
+import {
+  BuildingGeometry,
+  FloorPlanGeometry,
+  FloorPlanSpecification,
+  FloorPlanVariation,
+  Opening,
+  Point2D,
+  RoomGeometry,
+  RoomType,
+  Wall
+} from './types';
+import { DEFAULT_CONFIG, MULTI_STOREY_CONFIG, OPENING_DEFAULTS, ROOM_ZONES } from './config';
+import { SpecificationParser } from './stage-a/spec-parser';
+import { ROOM_STANDARDS } from './stage-a/architectural-rules';
+import { boundingBox, distance, pointOnWall } from './utils';
+
+export interface LegacyFloorPlanLayout {
+  walls: Array<{ x1: number; y1: number; x2: number; y2: number }>;
+  rooms: Array<{
+    name: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    furniture: string[];
+  }>;
+  doors: Array<{ x: number; y: number; rotation: number }>;
+  windows: Array<{ x: number; y: number; width: number }>;
+}
+
+export interface LegacyFloorPlanLevel extends LegacyFloorPlanLayout {
+  level: number;
+  name: string;
+  elevation: number;
+}
+
+export interface LegacyFloorPlan extends LegacyFloorPlanLayout {
+  // Present on multi-storey plans; the top-level fields mirror the ground floor
+  levels?: LegacyFloorPlanLevel[];
+  thumbnail?: string; // PNG data URL of the generated plan; dropped once the plan is edited
+  // Pipeline output the layout came from, used by exports; dropped once the plan is edited
+  geometry?: FloorPlanGeometry;
+  building?: BuildingGeometry;
+  specification?: FloorPlanSpecification; // Kept through edits
+}
+
+// Distance within which layout points count as touching (meters)
+const TOLERANCE = 0.01;
+
+// Walls are centerlines, so a room side within a wall thickness of one is against it
+const WALL_TOLERANCE = DEFAULT_CONFIG.stageB.walls.exteriorThickness;
+
+const parser = new SpecificationParser();
+
+// Same furniture sets the legacy generator asks for
+const DEFAULT_FURNITURE: Partial<Record<RoomType, string[]>> = {
+  bedroom: ['bed', 'wardrobe', 'desk'],
+  bathroom: ['toilet', 'sink', 'shower'],
+  kitchen: ['stove', 'refrigerator', 'sink'],
+  living: ['sofa', 'tv', 'table'],
+  dining: ['dining table', 'chairs'],
+  study: ['desk', 'chair']
+};
+
+/**
+ * Convert a variation, including every level of a multi-storey building
+ */
+export function toLegacyFloorPlan(variation: FloorPlanVariation): LegacyFloorPlan {
+  const groundFloor: LegacyFloorPlan = {
+    ...toLegacyLayout(variation.geometry),
+    thumbnail: variation.preview.thumbnail,
+    geometry: variation.geometry,
+    specification: variation.specification
+  };
+  const levels = variation.building?.levels;
+
+  if (!levels || levels.length < 2) {
+    return groundFloor;
+  }
+
+  return {
+    ...groundFloor,
+    building: variation.building,
+    levels: levels.map(level => ({
+      level: level.level,
+      name: level.name,
+      elevation: level.elevation,
+      ...toLegacyLayout(level.geometry)
+    }))
+  };
+}
+
+/**
+ * Convert one level's geometry. Openings are placed at their position
+ * along the host wall; doors take the wall's direction as their rotation.
+ */
+export function toLegacyLayout(geometry: FloorPlanGeometry): LegacyFloorPlanLayout {
+  const wallsById = new Map(geometry.walls.map(wall => [wall.id, wall]));
+  const layout: LegacyFloorPlanLayout = {
+    walls: geometry.walls.map(wall => ({
+      x1: wall.geometry.start.x,
+      y1: wall.geometry.start.y,
+      x2: wall.geometry.end.x,
+      y2: wall.geometry.end.y
+    })),
+    rooms: geometry.rooms.map(room => ({
+      name: room.labels.name,
+      ...room.geometry.bounds,
+      furniture: [...(DEFAULT_FURNITURE[room.type] || [])]
+    })),
+    doors: [],
+    windows: []
+  };
+
+  for (const opening of geometry.openings) {
+    const wall = wallsById.get(opening.wallId);
+    if (!wall) continue;
+
+    const point = pointOnWall(wall, opening.position);
+    if (opening.type === 'door') {
+      const { start, end } = wall.geometry;
+      const angle = (Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI;
+      layout.doors.push({ ...point, rotation: ((Math.round(angle / 90) * 90) % 360 + 360) % 360 });
+    } else {
+      layout.windows.push({ ...point, width: opening.width });
+    }
+  }
+
+  return layout;
+}
+
+/**
+ * Geometry of a saved plan: the pipeline output it was converted from, or,
+ * once the plan has been edited, geometry rebuilt from its layout
+ */
+export function fromLegacyFloorPlan(plan: LegacyFloorPlan): { geometry: FloorPlanGeometry; building?: BuildingGeometry } {
+  if (plan.geometry) {
+    return { geometry: plan.geometry, building: plan.building };
+  }
+
+  if (!plan.levels || plan.levels.length < 2) {
+    return { geometry: fromLegacyLayout(plan) };
+  }
+
+  const levels = plan.levels.map(level => {
+    const geometry = fromLegacyLayout(level);
+    geometry.metadata.level = level.level;
+    return { level: level.level, name: level.name, elevation: level.elevation, geometry };
+  });
+  const footprint = boundingBox(levels.flatMap(level => level.geometry.rooms.flatMap(room => room.geometry.vertices)));
+
+  return {
+    geometry: levels[0].geometry,
+    building: {
+      metadata: {
+        totalArea: levels.reduce((sum, level) => sum + level.geometry.metadata.totalArea, 0),
+        floors: levels.length,
+        floorHeight: levels[1].elevation - levels[0].elevation || MULTI_STOREY_CONFIG.floorHeight,
+        footprint: { width: footprint.width, height: footprint.height },
+        generatedAt: new Date().toISOString(),
+        algorithmVersion: '1.0.0',
+        confidence: 100
+      },
+      levels,
+      verticalCores: []
+    }
+  };
+}
+
+/**
+ * Rebuild one level's geometry from its layout. Walls on the outline are
+ * exterior; doors and windows are hosted by the nearest wall.
+ */
+export function fromLegacyLayout(layout: LegacyFloorPlanLayout): FloorPlanGeometry {
+  const counters: Record<string, number> = {};
+  const rooms: RoomGeometry[] = layout.rooms.map(room => {
+    const type = roomTypeFromName(room.name, room.width * room.height);
+    counters[type] = (counters[type] || 0) + 1;
+    const { x, y, width, height } = room;
+    const area = width * height;
+
+    return {
+      id: `${type}${counters[type]}`,
+      type,
+      geometry: {
+        vertices: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }],
+        centroid: { x: x + width / 2, y: y + height / 2 },
+        area,
+        bounds: { x, y, width, height }
+      },
+      labels: {
+        name: room.name,
+        area: `${area.toFixed(1)} m²`,
+        dimensions: `${width.toFixed(2)} × ${height.toFixed(2)} m`
+      }
+    };
+  });
+
+  const ends = layout.walls.flatMap(wall => [{ x: wall.x1, y: wall.y1 }, { x: wall.x2, y: wall.y2 }]);
+  const extent = boundingBox(ends.length > 0 ? ends : rooms.flatMap(room => room.geometry.vertices));
+  const onOutline = (start: Point2D, end: Point2D) =>
+    [extent.x, extent.x + extent.width].some(x => near(start.x, x) && near(end.x, x)) ||
+    [extent.y, extent.y + extent.height].some(y => near(start.y, y) && near(end.y, y));
+
+  const walls: Wall[] = layout.walls.map((wall, index) => {
+    const start = { x: wall.x1, y: wall.y1 };
+    const end = { x: wall.x2, y: wall.y2 };
+    const exterior = onOutline(start, end);
+
+    return {
+      id: `wall_${index + 1}`,
+      type: exterior ? 'exterior' : 'interior',
+      thickness: exterior ? DEFAULT_CONFIG.stageB.walls.exteriorThickness : DEFAULT_CONFIG.stageB.walls.interiorThickness,
+      geometry: { start, end },
+      length: distance(start, end),
+      structuralLoad: exterior,
+      adjacentRooms: rooms.filter(room => roomAlongWall(room, start, end)).map(room => room.id)
+    };
+  });
+
+  const openings: Opening[] = [];
+  const place = (point: Point2D): { wall: Wall; position: number } | null => {
+    const nearest = walls
+      .map(wall => ({ wall, ...projectOntoWall(point, wall) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    return nearest ? { wall: nearest.wall, position: nearest.position } : null;
+  };
+
+  layout.doors.forEach((door, index) => {
+    const host = place(door);
+    if (!host) return;
+    openings.push({
+      id: `door_${index + 1}`,
+      type: 'door',
+      width: DEFAULT_CONFIG.stageB.openings.doorWidth.standard,
+      wallId: host.wall.id,
+      position: host.position,
+      properties: { swingDirection: 90, isEntry: host.wall.type === 'exterior' }
+    });
+  });
+
+  layout.windows.forEach((window, index) => {
+    const host = place(window);
+    if (!host) return;
+    openings.push({
+      id: `window_${index + 1}`,
+      type: 'window',
+      width: window.width,
+      wallId: host.wall.id,
+      position: host.position,
+      properties: { sillHeight: OPENING_DEFAULTS.windowSill }
+    });
+  });
+
+  const edges: FloorPlanGeometry['adjacencyGraph']['edges'] = [];
+  const seen = new Set<string>();
+  for (const opening of openings) {
+    const adjacent = walls.find(wall => wall.id === opening.wallId)!.adjacentRooms;
+    if (opening.type !== 'door' || adjacent.length !== 2) continue;
+    const [from, to] = [...adjacent].sort();
+    if (seen.has(`${from}-${to}`)) continue;
+    seen.add(`${from}-${to}`);
+    edges.push({ from, to, type: 'door' });
+  }
+
+  return {
+    metadata: {
+      totalArea: rooms.reduce((sum, room) => sum + room.geometry.area, 0),
+      buildingDimensions: { width: extent.width, height: extent.height },
+      generatedAt: new Date().toISOString(),
+      algorithmVersion: '1.0.0',
+      confidence: 100,
+      relaxedConstraints: []
+    },
+    rooms,
+    walls,
+    openings,
+    adjacencyGraph: {
+      nodes: rooms.map(room => ({ roomId: room.id, zone: ROOM_ZONES[room.type as keyof typeof ROOM_ZONES] || 'private' })),
+      edges
+    }
+  };
+}
+
+// Layout rooms are named after their type ("Bedroom 2"); unknown names are guessed from size
+function roomTypeFromName(name: string, area: number): RoomType {
+  const type = parser.normalizeRoomType(name.replace(/\s*\d+$/, ''));
+  if (type in ROOM_STANDARDS) return type as RoomType;
+  return area < 6 ? 'bathroom' : 'bedroom';
+}
+
+// An axis-aligned wall runs along one side of the room's rectangle
+function roomAlongWall(room: RoomGeometry, start: Point2D, end: Point2D): boolean {
+  const { x, y, width, height } = room.geometry.bounds;
+  const overlap = (a1: number, a2: number, b1: number, b2: number) =>
+    Math.min(Math.max(a1, a2), b2) - Math.max(Math.min(a1, a2), b1) > WALL_TOLERANCE;
+  const against = (a: number, b: number) => Math.abs(a - b) <= WALL_TOLERANCE;
+
+  if (near(start.y, end.y)) {
+    return (against(start.y, y) || against(start.y, y + height)) && overlap(start.x, end.x, x, x + width);
+  }
+  if (near(start.x, end.x)) {
+    return (against(start.x, x) || against(start.x, x + width)) && overlap(start.y, end.y, y, y + height);
+  }
+  return false;
+}
+
+function projectOntoWall(point: Point2D, wall: Wall): { position: number; distance: number } {
+  const { start, end } = wall.geometry;
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0
+    ? Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared))
+    : 0;
+  return { position: t, distance: distance(point, { x: start.x + t * dx, y: start.y + t * dy }) };
+}
+
+function near(a: number, b: number): boolean {
+  return Math.abs(a - b) <= TOLERANCE;
+}
@@ -0,0 +1,363 @@
+/**
+ * Floor Plan Generation Pipeline
+ * Runs a request through Stage A (specification), Stage B (geometry) and
+ * Stage C (SVG previews and PNG thumbnails), reporting progress as GenerationEvents so callers
+ * can stream results as each variation finishes
+ */
+
+import {
+  GenerateFloorPlanRequest,
+  GenerateFloorPlanResponse,
+  RegenerateFloorPlanRequest,
+  EditFloorPlanRequest,
+  EditFloorPlanResponse,
+  FloorPlanSpecification,
+  FloorPlanVariation,
+  GenerationError,
+  GenerationEvent,
+  LLMUsageMetadata
+} from './types';
+import { StageAOrchestrator, applySpecificationEdits } from './stage-a';
+import { StageBOrchestrator, StageBResult, BuildingEnvelope, specificationFromGeometry } from './stage-b';
+import { SVGExporter } from './stage-c/svg-exporter';
+import { PNGRasterizer } from './stage-c/png-rasterizer';
+import { Timer, createRandomSeed, deriveSeed } from './utils';
+
+export const MAX_VARIATIONS = 10;
+const DEFAULT_VARIATIONS = 5;
+
+/**
+ * Check a request before running it. Returns null when the request is valid.
+ */
+export function validateGenerateRequest(
+  request: GenerateFloorPlanRequest
+): { error: string; details?: string[] } | null {
+  if (!request.userInput && !request.parameters) {
+    return { error: 'Missing userInput or parameters' };
+  }
+
+  if (request.generationMode && !['llm', 'rule-based'].includes(request.generationMode)) {
+    return { error: `Unknown generationMode: ${request.generationMode}` };
+  }
+
+  if (request.parameters?.site) {
+    const siteErrors = BuildingEnvelope.validateSite(request.parameters.site);
+    if (siteErrors.length > 0) {
+      return { error: 'Invalid site geometry', details: siteErrors };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a regeneration request before running it. Returns null when the request is valid.
+ */
+export function validateRegenerateRequest(
+  request: RegenerateFloorPlanRequest
+): { error: string; details?: string[] } | null {
+  const rooms = request.geometry?.rooms;
+  if (!Array.isArray(rooms) || !request.geometry.metadata) {
+    return { error: 'Missing geometry' };
+  }
+
+  if (!Array.isArray(request.lockedRoomIds) || request.lockedRoomIds.some(id => typeof id !== 'string')) {
+    return { error: 'lockedRoomIds must be an array of room IDs' };
+  }
+
+  const unknown = request.lockedRoomIds.filter(id => !rooms.some(room => room.id === id));
+  if (unknown.length > 0) {
+    return { error: 'Unknown room IDs', details: unknown };
+  }
+
+  if (rooms.every(room => request.lockedRoomIds.includes(room.id))) {
+    return { error: 'Every room is locked' };
+  }
+
+  return null;
+}
+
+/**
+ * Check an edit request before running it. Returns null when the request is valid.
+ */
+export function validateEditRequest(
+  request: EditFloorPlanRequest
+): { error: string; details?: string[] } | null {
+  if (typeof request.instruction !== 'string' || !request.instruction.trim()) {
+    return { error: 'Missing instruction' };
+  }
+
+  if (!Array.isArray(request.specification?.rooms)) {
+    return { error: 'Missing specification' };
+  }
+
+  if (!Array.isArray(request.geometry?.rooms) || !request.geometry.metadata) {
+    return { error: 'Missing geometry' };
+  }
+
+  // Walls tell which rooms border a resized or removed one
+  const { walls } = request.geometry;
+  if (!Array.isArray(walls) || walls.some(wall => !Array.isArray(wall?.adjacentRooms))) {
+    return { error: 'Geometry walls must be an array of walls with their adjacent rooms' };
+  }
+
+  if (request.generationMode && !['llm', 'rule-based'].includes(request.generationMode)) {
+    return { error: `Unknown generationMode: ${request.generationMode}` };
+  }
+
+  return null;
+}
+
+/**
+ * Add the tokens one Stage A result spent to a request's running total
+ */
+function addLLMUsage(total: LLMUsageMetadata, metadata: LLMUsageMetadata): void {
+  total.llmUsage.promptTokens += metadata.llmUsage.promptTokens;
+  total.llmUsage.completionTokens += metadata.llmUsage.completionTokens;
+  total.llmUsage.totalTokens += metadata.llmUsage.totalTokens;
+  if (metadata.llm) total.llm = metadata.llm;
+}
+
+/**
+ * Runs one request. Stage B compares each layout with the ones it made
+ * before, so create a pipeline per request rather than sharing one.
+ */
+export class FloorPlanPipeline {
+  private stageA: StageAOrchestrator;
+  private stageB: StageBOrchestrator;
+  private svgExporter: SVGExporter;
+  private rasterizer: PNGRasterizer;
+
+  constructor(stageA?: StageAOrchestrator) {
+    this.stageA = stageA || new StageAOrchestrator();
+    this.stageB = new StageBOrchestrator();
+    this.svgExporter = new SVGExporter();
+    this.rasterizer = new PNGRasterizer();
+  }
+
+  /**
+   * Generate all variations for a request. Variations run in parallel and
+   * are returned sorted by confidence; `onEvent` sees them in completion order.
+   * Aborting `signal` stops work between stages and keeps what has finished.
+   * Every stochastic step is seeded from `request.seed` (random when omitted),
+   * so resubmitting with the reported seed reproduces the variations; only
+   * LLM output can still differ between runs.
+   */
+  async run(
+    request: GenerateFloorPlanRequest,
+    onEvent: (event: GenerationEvent) => void = () => {},
+    signal?: AbortSignal
+  ): Promise<GenerateFloorPlanResponse> {
+    const timer = new Timer();
+    timer.start();
+
+    const variationCount = Math.min(request.variationCount || DEFAULT_VARIATIONS, MAX_VARIATIONS);
+    const seed = request.seed ?? createRandomSeed();
+    const generationMode = this.stageA.resolveMode(request);
+    const variations: FloorPlanVariation[] = [];
+    const errors: GenerationError[] = [];
+    const usage: LLMUsageMetadata = { llmUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } };
+
+    const finish = (): GenerateFloorPlanResponse => {
+      const metadata = {
+        totalGenerationTime: timer.stop(),
+        timestamp: new Date().toISOString(),
+        seed,
+        ...usage
+      };
+      onEvent({ type: 'complete', variationCount: variations.length, metadata });
+      return { variations, errors: errors.length > 0 ? errors : undefined, metadata };
+    };
+
+    onEvent({ type: 'started', variationCount, generationMode });
+
+    // Generate base specification (Stage A)
+    let baseSpecResult;
+    try {
+      baseSpecResult = await this.stageA.generate({ ...request, seed });
+      addLLMUsage(usage, baseSpecResult.metadata);
+    } catch (error: any) {
+      const stageError: GenerationError = {
+        stage: 'A',
+        message: `Specification generation failed: ${error.message}`,
+        recoverable: false
+      };
+      errors.push(stageError);
+      onEvent({ type: 'error', error: stageError });
+      return finish();
+    }
+
+    if (signal?.aborted) {
+      return finish();
+    }
+
+    onEvent({
+      type: 'specification',
+      generationTime: baseSpecResult.metadata.generationTime,
+      warnings: baseSpecResult.metadata.validationWarnings
+    });
+
+    // Generate variations in parallel
+    await Promise.all(
+      Array.from({ length: variationCount }, async (_, i) => {
+        try {
+          if (signal?.aborted) return;
+
+          // Generate variation specification
+          const specResult = i === 0
+            ? baseSpecResult
+            : await this.stageA.generateVariation(baseSpecResult.specification, i, generationMode);
+          if (i > 0) addLLMUsage(usage, specResult.metadata);
+
+          // Generate 2D geometry for every level (Stage B)
+          const variationSeed = deriveSeed(seed, 'variation', i);
+          const geometryResult = await this.stageB.generateBuilding(specResult.specification, undefined, variationSeed);
+          const { building } = geometryResult;
+          const groundFloor = building.levels[0].geometry;
+          if (signal?.aborted) return;
+
+          onEvent({
+            type: 'layout',
+            index: i,
+            confidence: building.metadata.confidence,
+            levels: building.levels.length
+          });
+
+          // Generate SVG preview (Stage C)
+          const svg = this.svgExporter.exportBuilding(building, {
+            includeLabels: true,
+            includeDimensions: false,
+            includeFurniture: false
+          });
+
+          const thumbnail = this.rasterizer.thumbnail(groundFloor);
+
+          const variation: FloorPlanVariation = {
+            id: `variation_${i + 1}`,
+            specification: specResult.specification,
+            geometry: groundFloor,
+            ...(building.levels.length > 1 && { building }),
+            preview: {
+              svg,
+              thumbnail
+            },
+            metadata: {
+              confidence: building.metadata.confidence,
+              generationTime: specResult.metadata.generationTime + geometryResult.metadata.generationTime,
+              relaxedConstraints: [
+                ...specResult.metadata.validationWarnings,
+                ...geometryResult.metadata.relaxedConstraints
+              ],
+              seed: variationSeed
+            }
+          };
+
+          variations.push(variation);
+          onEvent({ type: 'variation', index: i, variation });
+
+        } catch (error: any) {
+          const stageError: GenerationError = {
+            stage: error.stage || 'B',
+            message: `Variation ${i + 1} failed: ${error.message}`,
+            recoverable: true
+          };
+          errors.push(stageError);
+          onEvent({ type: 'error', index: i, error: stageError });
+        }
+      })
+    );
+
+    // Sort variations by confidence
+    variations.sort((a, b) => b.metadata.confidence - a.metadata.confidence);
+
+    return finish();
+  }
+
+  /**
+   * Lay out a saved level again around its locked rooms and render it as a
+   * variation. The seed is reported so the result can be reproduced.
+   */
+  async regenerate(request: RegenerateFloorPlanRequest): Promise<FloorPlanVariation> {
+    const seed = request.seed ?? createRandomSeed();
+    const result = await this.stageB.regenerate(request.geometry, request.lockedRoomIds, {
+      specification: request.specification,
+      seed
+    });
+
+    return this.toVariation(result, request.specification ?? specificationFromGeometry(request.geometry), seed);
+  }
+
+  /**
+   * Apply an edit request ("make the master bedroom bigger") to a saved
+   * level. Stage A turns the request into specification edits; the rooms
+   * they touch, and the neighbours of resized or removed rooms, are laid
+   * out again while every other room stays where it is.
+   */
+  async edit(request: EditFloorPlanRequest): Promise<EditFloorPlanResponse> {
+    const seed = request.seed ?? createRandomSeed();
+    const { edits, summary, metadata } = await this.stageA.interpretEdit(
+      request.instruction,
+      request.specification,
+      this.stageA.resolveMode(request)
+    );
+    const applied = applySpecificationEdits(request.specification, edits);
+
+    // Rooms that change size free up or need the space around them
+    const removed = new Set(applied.removedRoomIds);
+    const moving = new Set(applied.affectedRoomIds);
+    const resized = new Set(
+      edits.flatMap(edit => (edit.action === 'resize' || edit.action === 'remove' ? [edit.room] : []))
+    );
+    for (const wall of request.geometry.walls) {
+      if (wall.adjacentRooms.some(id => resized.has(id))) {
+        wall.adjacentRooms.forEach(id => moving.add(id));
+      }
+    }
+
+    const geometry = {
+      ...request.geometry,
+      rooms: request.geometry.rooms.filter(room => !removed.has(room.id))
+    };
+    const lockedRoomIds = geometry.rooms.filter(room => !moving.has(room.id)).map(room => room.id);
+    const addRooms = applied.specification.rooms.filter(room => applied.addedRoomIds.includes(room.id));
+
+    const result = await this.stageB.regenerate(geometry, lockedRoomIds, {
+      specification: applied.specification,
+      addRooms,
+      totalArea: request.geometry.metadata.totalArea + applied.specification.totalArea - request.specification.totalArea,
+      seed
+    });
+
+    return {
+      variation: this.toVariation(result, applied.specification, seed),
+      edits,
+      changes: applied.changes,
+      summary,
+      metadata: { llmUsage: metadata.llmUsage, ...(metadata.llm && { llm: metadata.llm }) }
+    };
+  }
+
+  private toVariation(result: StageBResult, specification: FloorPlanSpecification, seed: number): FloorPlanVariation {
+    const { geometry } = result;
+
+    return {
+      id: `variation_${seed}`,
+      specification,
+      geometry,
+      preview: {
+        svg: this.svgExporter.export(geometry, {
+          includeLabels: true,
+          includeDimensions: false,
+          includeFurniture: false
+        }),
+        thumbnail: this.rasterizer.thumbnail(geometry)
+      },
+      metadata: {
+        confidence: geometry.metadata.confidence,
+        generationTime: result.metadata.generationTime,
+        relaxedConstraints: result.metadata.relaxedConstraints,
+        seed
+      }
+    };
+  }
+}
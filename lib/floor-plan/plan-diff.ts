@@ -0,0 +1,254 @@
+/**
+ * Plan Diff
+ * Compares two versions of a plan level by level. Rooms are paired by name,
+ * then by overlap so renamed rooms still pair up; openings are paired with
+ * the nearest opening of the same kind. Paired rooms that changed size are
+ * resized, and those that kept their size but changed place are moved.
+ */
+
+import {
+  BuildingGeometry,
+  FloorPlanGeometry,
+  LevelDiff,
+  Opening,
+  OpeningDiffEntry,
+  PlanDiff,
+  Point2D,
+  RoomChange,
+  RoomDiffEntry,
+  RoomGeometry
+} from './types';
+import { distance, pointOnWall } from './utils';
+
+// Smaller differences are rounding, not edits (m, m²)
+const TOLERANCE = 0.01;
+
+// Intersection over union at which differently named rooms count as the same room
+const MIN_OVERLAP = 0.5;
+
+// Openings further apart than this are a removal and an addition, not a move (m)
+const MAX_OPENING_MOVE = 3;
+
+interface PlanVersion {
+  geometry: FloorPlanGeometry; // Ground floor when the building has several levels
+  building?: BuildingGeometry;
+}
+
+interface PlacedOpening {
+  opening: Opening;
+  position: Point2D;
+}
+
+/**
+ * Diff every level; a level that exists in only one version shows all its
+ * rooms and openings as added or removed
+ */
+export function diffLevels(before: PlanVersion, after: PlanVersion): LevelDiff[] {
+  const levelsOf = (version: PlanVersion) =>
+    version.building?.levels.length
+      ? version.building.levels
+      : [{ level: 0, name: 'Ground Floor', geometry: version.geometry }];
+
+  const beforeLevels = levelsOf(before);
+  const afterLevels = levelsOf(after);
+  const numbers = [...new Set([...beforeLevels, ...afterLevels].map(level => level.level))].sort((a, b) => a - b);
+
+  return numbers.map(number => {
+    const from = beforeLevels.find(level => level.level === number);
+    const to = afterLevels.find(level => level.level === number);
+    return {
+      level: number,
+      name: (to ?? from)!.name,
+      ...diffPlans(from?.geometry ?? EMPTY_LEVEL, to?.geometry ?? EMPTY_LEVEL)
+    };
+  });
+}
+
+/**
+ * Diff one level
+ */
+export function diffPlans(before: FloorPlanGeometry, after: FloorPlanGeometry): PlanDiff {
+  const { pairs, added, removed } = pairRooms(before.rooms, after.rooms);
+  const resized: RoomChange[] = [];
+  const moved: RoomChange[] = [];
+  const renamed: PlanDiff['rooms']['renamed'] = [];
+
+  for (const [from, to] of pairs) {
+    const a = from.geometry.bounds;
+    const b = to.geometry.bounds;
+    const change: RoomChange = {
+      name: to.labels.name,
+      type: to.type,
+      before: { ...a },
+      after: { ...b },
+      areaChange: round(to.geometry.area - from.geometry.area)
+    };
+
+    if (from.labels.name !== to.labels.name) {
+      renamed.push({ from: from.labels.name, to: to.labels.name });
+    }
+    if (differs(a.width, b.width) || differs(a.height, b.height) || differs(from.geometry.area, to.geometry.area)) {
+      resized.push(change);
+    } else if (differs(a.x, b.x) || differs(a.y, b.y)) {
+      moved.push(change);
+    }
+  }
+
+  const openings = pairOpenings(placeOpenings(before), placeOpenings(after));
+
+  const diff: PlanDiff = {
+    rooms: {
+      added: added.map(roomEntry),
+      removed: removed.map(roomEntry),
+      resized,
+      moved,
+      renamed
+    },
+    openings: {
+      added: openings.added.map(openingEntry),
+      removed: openings.removed.map(openingEntry),
+      moved: openings.pairs
+        .filter(([from, to]) => distance(from.position, to.position) > TOLERANCE)
+        .map(([from, to]) => ({
+          type: to.opening.type,
+          before: roundPoint(from.position),
+          after: roundPoint(to.position),
+          distance: round(distance(from.position, to.position))
+        }))
+    },
+    unchanged: false
+  };
+
+  diff.unchanged = [...Object.values(diff.rooms), ...Object.values(diff.openings)].every(list => list.length === 0);
+  return diff;
+}
+
+const EMPTY_LEVEL: FloorPlanGeometry = {
+  metadata: {
+    totalArea: 0,
+    buildingDimensions: { width: 0, height: 0 },
+    generatedAt: '',
+    algorithmVersion: '1.0.0',
+    confidence: 100,
+    relaxedConstraints: []
+  },
+  rooms: [],
+  walls: [],
+  openings: [],
+  adjacencyGraph: { nodes: [], edges: [] }
+};
+
+/**
+ * Same-named rooms pair with the nearest of that name; what is left pairs
+ * by overlap
+ */
+function pairRooms(before: RoomGeometry[], after: RoomGeometry[]): {
+  pairs: Array<[RoomGeometry, RoomGeometry]>;
+  added: RoomGeometry[];
+  removed: RoomGeometry[];
+} {
+  const unpaired = new Set(before);
+  const pairs: Array<[RoomGeometry, RoomGeometry]> = [];
+  const leftover: RoomGeometry[] = [];
+
+  for (const room of after) {
+    const match = [...unpaired]
+      .filter(candidate => candidate.labels.name === room.labels.name)
+      .sort((a, b) => distance(a.geometry.centroid, room.geometry.centroid) - distance(b.geometry.centroid, room.geometry.centroid))[0];
+
+    if (match) {
+      unpaired.delete(match);
+      pairs.push([match, room]);
+    } else {
+      leftover.push(room);
+    }
+  }
+
+  const added: RoomGeometry[] = [];
+  for (const room of leftover) {
+    const match = [...unpaired]
+      .map(candidate => ({ candidate, overlap: intersectionOverUnion(candidate.geometry.bounds, room.geometry.bounds) }))
+      .filter(({ overlap }) => overlap >= MIN_OVERLAP)
+      .sort((a, b) => b.overlap - a.overlap)[0];
+
+    if (match) {
+      unpaired.delete(match.candidate);
+      pairs.push([match.candidate, room]);
+    } else {
+      added.push(room);
+    }
+  }
+
+  return { pairs, added, removed: [...unpaired] };
+}
+
+/**
+ * Pair openings of the same kind, closest first
+ */
+function pairOpenings(before: PlacedOpening[], after: PlacedOpening[]): {
+  pairs: Array<[PlacedOpening, PlacedOpening]>;
+  added: PlacedOpening[];
+  removed: PlacedOpening[];
+} {
+  const candidates = before
+    .flatMap(from => after.map(to => ({ from, to, gap: distance(from.position, to.position) })))
+    .filter(({ from, to, gap }) => from.opening.type === to.opening.type && gap <= MAX_OPENING_MOVE)
+    .sort((a, b) => a.gap - b.gap);
+
+  const paired = new Set<PlacedOpening>();
+  const pairs: Array<[PlacedOpening, PlacedOpening]> = [];
+  for (const { from, to } of candidates) {
+    if (paired.has(from) || paired.has(to)) continue;
+    paired.add(from);
+    paired.add(to);
+    pairs.push([from, to]);
+  }
+
+  return {
+    pairs,
+    added: after.filter(opening => !paired.has(opening)),
+    removed: before.filter(opening => !paired.has(opening))
+  };
+}
+
+function placeOpenings(geometry: FloorPlanGeometry): PlacedOpening[] {
+  const wallsById = new Map(geometry.walls.map(wall => [wall.id, wall]));
+  return geometry.openings.flatMap(opening => {
+    const wall = wallsById.get(opening.wallId);
+    return wall ? [{ opening, position: pointOnWall(wall, opening.position) }] : [];
+  });
+}
+
+function intersectionOverUnion(a: RoomDiffEntry['bounds'], b: RoomDiffEntry['bounds']): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+function roomEntry(room: RoomGeometry): RoomDiffEntry {
+  return {
+    name: room.labels.name,
+    type: room.type,
+    bounds: { ...room.geometry.bounds },
+    area: round(room.geometry.area)
+  };
+}
+
+function openingEntry({ opening, position }: PlacedOpening): OpeningDiffEntry {
+  return { type: opening.type, position: roundPoint(position), width: opening.width };
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) > TOLERANCE;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundPoint(point: Point2D): Point2D {
+  return { x: round(point.x), y: round(point.y) };
+}
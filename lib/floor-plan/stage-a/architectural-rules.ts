@@ -98,6 +98,22 @@ export const ROOM_STANDARDS: Record<RoomType, RoomStandard> = {
     minDimension: 2.0,
     optimalRatio: 1.5,
     aspectRatioRange: { min: 0.7, max: 2.5 }
+  },
+  stair: {
+    minArea: 6,
+    maxArea: 9,
+    optimalArea: 7.2,
+    minDimension: 2.2,
+    optimalRatio: 1.25,
+    aspectRatioRange: { min: 0.6, max: 1.7 }
+  },
+  lift: {
+    minArea: 2.5,
+    maxArea: 4,
+    optimalArea: 3.2,
+    minDimension: 1.5,
+    optimalRatio: 1.0,
+    aspectRatioRange: { min: 0.8, max: 1.25 }
   }
 };
 
@@ -186,7 +202,9 @@ export const ZONE_CLASSIFICATION: Record<RoomType, ZoneType> = {
   living: 'public',
   dining: 'public',
   hallway: 'public',
-  balcony: 'public'
+  balcony: 'public',
+  stair: 'public',
+  lift: 'public'
 };
 
 // ============================================================================
@@ -269,6 +287,12 @@ export const FUNCTIONAL_REQUIREMENTS: Record<RoomType, FunctionalRequirement[]>
   ],
   balcony: [
     { type: 'accessibility', description: 'Minimum width 1.5m for usability', minValue: 1.5, required: false }
+  ],
+  stair: [
+    { type: 'accessibility', description: 'Clear flight width 0.9m minimum', minValue: 0.9, required: true }
+  ],
+  lift: [
+    { type: 'accessibility', description: 'Car size 1.1m x 1.4m minimum', minValue: 1.1, required: true }
   ]
 };
 
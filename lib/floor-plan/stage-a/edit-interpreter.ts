@@ -0,0 +1,307 @@
+/**
+ * Stage A: Edit Interpreter
+ * Turns edit requests ("make the master bedroom bigger") into specification
+ * edits, checks them against the current specification and applies them
+ */
+
+import { FloorPlanSpecification, FloorPlanError, RoomSpec, RoomType, SpecificationEdit } from '../types';
+import { ROOM_AREA_RANGES } from '../config';
+import { SpecificationParser } from './spec-parser';
+import { SPEC_ROOM_TYPES } from './spec-schema';
+
+export interface EditInterpretation {
+  edits: SpecificationEdit[];
+  summary: string;
+}
+
+export interface AppliedEdits {
+  specification: FloorPlanSpecification;
+  changes: string[];
+  /** Rooms the edits resize, move or add; everything else can stay in place */
+  affectedRoomIds: string[];
+  addedRoomIds: string[];
+  removedRoomIds: string[];
+}
+
+// "bigger" / "smaller" without a number
+const RESIZE_STEP = 1.25;
+// Target areas become a range this wide either side
+const AREA_TOLERANCE = 0.1;
+
+const parser = new SpecificationParser();
+
+/**
+ * Check parsed edits against the specification, returning one message per
+ * problem so they can be fed back to the model
+ */
+export function checkEdits(edits: any[], spec: FloorPlanSpecification): string[] {
+  const issues: string[] = [];
+  const roomIds = new Set(spec.rooms.map(r => r.id));
+  const removed = new Set<string>();
+
+  edits.forEach((edit, index) => {
+    const label = `edits[${index}]`;
+    const needsRoom = edit.action !== 'add';
+    const needsTarget = edit.action === 'connect' || edit.action === 'separate';
+
+    if (needsRoom && !roomIds.has(edit.room)) {
+      issues.push(`${label}.room must be one of ${[...roomIds].join(', ')}`);
+    } else if (needsRoom && removed.has(edit.room)) {
+      issues.push(`${label}.room ${edit.room} was removed by an earlier edit`);
+    }
+    if ((needsTarget || edit.target !== undefined) && !roomIds.has(edit.target)) {
+      issues.push(`${label}.target must be one of ${[...roomIds].join(', ')}`);
+    }
+    if (needsTarget && edit.room === edit.target) {
+      issues.push(`${label}.target must differ from room`);
+    }
+    if (edit.action === 'add' && !SPEC_ROOM_TYPES.includes(edit.type)) {
+      issues.push(`${label}.type must be one of ${SPEC_ROOM_TYPES.join(', ')}`);
+    }
+    if (edit.action === 'resize' && edit.area === undefined && edit.scale === undefined) {
+      issues.push(`${label} needs an area or a scale`);
+    }
+    if (edit.action === 'remove') {
+      removed.add(edit.room);
+    }
+  });
+
+  if (removed.size >= spec.rooms.length && !edits.some(edit => edit.action === 'add')) {
+    issues.push('The edits remove every room');
+  }
+
+  return issues;
+}
+
+/**
+ * Apply edits in order. Resized and added rooms get a target area range;
+ * connect and separate replace any existing adjacency between the pair.
+ */
+export function applySpecificationEdits(spec: FloorPlanSpecification, edits: SpecificationEdit[]): AppliedEdits {
+  let rooms = [...spec.rooms];
+  let adjacencyGraph = [...spec.adjacencyGraph];
+  let constraints = [...spec.constraints];
+  let totalArea = spec.totalArea;
+  const changes: string[] = [];
+  const affected = new Set<string>();
+  const added: string[] = [];
+  const removed: string[] = [];
+
+  const findRoom = (id: string): RoomSpec => {
+    const room = rooms.find(r => r.id === id);
+    if (!room) {
+      throw new FloorPlanError(`Edit refers to unknown room: ${id}`, 'A', true, { edits });
+    }
+    return room;
+  };
+  const withoutPair = (a: string, b: string) =>
+    adjacencyGraph.filter(edge => !((edge.from === a && edge.to === b) || (edge.from === b && edge.to === a)));
+
+  for (const edit of edits) {
+    switch (edit.action) {
+      case 'resize': {
+        const room = findRoom(edit.room);
+        const current = (room.minArea + room.maxArea) / 2;
+        const target = edit.area ?? current * (edit.scale ?? RESIZE_STEP);
+        rooms = rooms.map(r => (r.id === room.id ? { ...r, ...areaRange(target) } : r));
+        totalArea += target - current;
+        affected.add(room.id);
+        changes.push(`${roomLabel(room.id)} resized from ${current.toFixed(1)} m² to ${target.toFixed(1)} m²`);
+        break;
+      }
+      case 'add': {
+        const id = edit.room && !rooms.some(r => r.id === edit.room) ? edit.room : uniqueRoomId(edit.type, rooms);
+        const area = edit.area ?? ROOM_AREA_RANGES[edit.type as keyof typeof ROOM_AREA_RANGES]?.optimal ?? 10;
+        rooms.push(parser.validateRoom({ id, type: edit.type, ...areaRange(area) }, rooms.length));
+        totalArea += area;
+        if (edit.target) {
+          findRoom(edit.target);
+          adjacencyGraph.push({ from: id, to: edit.target, weight: 9, type: 'must' });
+        }
+        affected.add(id);
+        added.push(id);
+        changes.push(
+          `Added ${roomLabel(id)} (${area.toFixed(1)} m²)` + (edit.target ? ` next to ${roomLabel(edit.target)}` : '')
+        );
+        break;
+      }
+      case 'remove': {
+        const room = findRoom(edit.room);
+        rooms = rooms.filter(r => r.id !== room.id);
+        adjacencyGraph = adjacencyGraph.filter(edge => edge.from !== room.id && edge.to !== room.id);
+        constraints = constraints.filter(c => c.room !== room.id && !c.rooms?.includes(room.id));
+        totalArea -= (room.minArea + room.maxArea) / 2;
+        affected.delete(room.id);
+        removed.push(room.id);
+        changes.push(`Removed ${roomLabel(room.id)}`);
+        break;
+      }
+      case 'connect': {
+        findRoom(edit.room);
+        findRoom(edit.target);
+        adjacencyGraph = [...withoutPair(edit.room, edit.target), { from: edit.room, to: edit.target, weight: 10, type: 'must' }];
+        affected.add(edit.room);
+        changes.push(`${roomLabel(edit.room)} moved next to ${roomLabel(edit.target)}`);
+        break;
+      }
+      case 'separate': {
+        findRoom(edit.room);
+        findRoom(edit.target);
+        adjacencyGraph = [...withoutPair(edit.room, edit.target), { from: edit.room, to: edit.target, weight: 8, type: 'avoid' }];
+        affected.add(edit.room);
+        changes.push(`${roomLabel(edit.room)} moved away from ${roomLabel(edit.target)}`);
+        break;
+      }
+    }
+  }
+
+  return {
+    specification: parser.merge(spec, { totalArea, rooms, adjacencyGraph, constraints }),
+    changes,
+    affectedRoomIds: [...affected],
+    addedRoomIds: added,
+    removedRoomIds: removed
+  };
+}
+
+/**
+ * Keyword-based interpreter for offline mode. Understands one edit per
+ * clause ("... and ...", "..., ..."), e.g. "make the kitchen bigger",
+ * "add a study next to the living room", "remove bathroom2",
+ * "move the study next to the living room", "keep the garage away from the bedrooms".
+ */
+export class RuleBasedEditInterpreter {
+  interpret(instruction: string, spec: FloorPlanSpecification): EditInterpretation {
+    const clauses = instruction
+      .toLowerCase()
+      .split(/\s*(?:,|;|\.(?!\d)|\band then\b|\bthen\b|\band\b)\s*/)
+      .map(clause => clause.replace(/^(?:please|also|could you|can you)\s+/, '').trim())
+      .filter(Boolean);
+
+    const edits: SpecificationEdit[] = [];
+    const unknown: string[] = [];
+
+    for (const clause of clauses) {
+      const edit = this.interpretClause(clause, spec);
+      if (edit) {
+        edits.push(edit);
+      } else {
+        unknown.push(clause);
+      }
+    }
+
+    if (edits.length === 0) {
+      throw new FloorPlanError(`Could not understand the edit: "${instruction}"`, 'A', true, { unknown });
+    }
+
+    return { edits, summary: capitalize(clauses.filter(c => !unknown.includes(c)).join(', ')) };
+  }
+
+  private interpretClause(clause: string, spec: FloorPlanSpecification): SpecificationEdit | null {
+    let match: RegExpMatchArray | null;
+
+    if ((match = clause.match(/^(?:remove|delete|drop|get rid of)\s+(.+)$/))) {
+      const room = this.resolveRoom(match[1], spec);
+      return room ? { action: 'remove', room } : null;
+    }
+
+    if ((match = clause.match(/^(?:add|include|create)\s+(?:an?|another|one more|one)?\s*(.+?)(?:\s+(?:next to|beside|near|by|adjacent to)\s+(.+))?$/))) {
+      const { phrase, area } = extractArea(match[1]);
+      const type = parser.normalizeRoomType(phrase.replace(/s$/, '')) as RoomType;
+      if (!SPEC_ROOM_TYPES.includes(type)) return null;
+      const target = match[2] ? this.resolveRoom(match[2], spec) : undefined;
+      if (match[2] && !target) return null;
+      return { action: 'add', type, ...(area !== undefined && { area }), ...(target && { target }) };
+    }
+
+    if ((match = clause.match(/^(?:move|put|place|bring|keep)\s+(.+?)\s+(next to|beside|near|closer to|adjacent to|by|away from|far from|apart from)\s+(.+)$/))) {
+      const room = this.resolveRoom(match[1], spec);
+      const target = this.resolveRoom(match[3], spec);
+      if (!room || !target || room === target) return null;
+      const action = /away|far|apart/.test(match[2]) ? 'separate' : 'connect';
+      return { action, room, target };
+    }
+
+    if ((match = clause.match(/^(?:make|have)\s+(.+?)\s+(?:a bit |much |slightly )?(bigger|larger|smaller|wider|narrower)(?:\s+(.*))?$/))) {
+      const room = this.resolveRoom(match[1], spec);
+      if (!room) return null;
+      const shrink = match[2] === 'smaller' || match[2] === 'narrower';
+      return this.resizeEdit(room, shrink, match[3] || '');
+    }
+
+    if ((match = clause.match(/^(enlarge|expand|extend|grow|shrink|reduce)\s+(.+?)(?:\s+((?:to|by)\s+.*))?$/))) {
+      const room = this.resolveRoom(match[2], spec);
+      if (!room) return null;
+      return this.resizeEdit(room, match[1] === 'shrink' || match[1] === 'reduce', match[3] || '');
+    }
+
+    return null;
+  }
+
+  /**
+   * "to 20 m²" sets the area, "by 30%" the scale; otherwise one step
+   */
+  private resizeEdit(room: string, shrink: boolean, amount: string): SpecificationEdit {
+    const { area } = extractArea(amount);
+    if (area !== undefined) {
+      return { action: 'resize', room, area };
+    }
+
+    const percent = amount.match(/by\s+(\d+(?:\.\d+)?)\s*%/);
+    const step = percent ? 1 + parseFloat(percent[1]) / 100 : RESIZE_STEP;
+    return { action: 'resize', room, scale: shrink ? 1 / step : step };
+  }
+
+  /**
+   * Find the room a phrase refers to: an ID ("bedroom2"), a numbered type
+   * ("bedroom 2"), the largest of a type ("master bedroom") or the first room of a type
+   */
+  private resolveRoom(phrase: string, spec: FloorPlanSpecification): string | undefined {
+    const text = phrase.replace(/^(?:the|my|our)\s+/, '').trim();
+    const compact = text.replace(/[\s_-]+/g, '');
+
+    const byId = spec.rooms.find(r => r.id.toLowerCase().replace(/[\s_-]+/g, '') === compact);
+    if (byId) return byId.id;
+
+    const numbered = text.match(/^(.+?)\s*(\d+)$/);
+    const name = (numbered ? numbered[1] : text).replace(/^(?:master|main|largest|biggest|primary)\s+/, '');
+    const type = parser.normalizeRoomType(name.replace(/s$/, ''));
+    const candidates = spec.rooms.filter(r => r.type === type);
+    if (candidates.length === 0) return undefined;
+
+    if (numbered) {
+      return candidates[parseInt(numbered[2], 10) - 1]?.id;
+    }
+    if (/^(?:master|main|largest|biggest|primary)\s/.test(text)) {
+      return [...candidates].sort((a, b) => b.maxArea - a.maxArea)[0].id;
+    }
+    return candidates[0].id;
+  }
+}
+
+function areaRange(area: number): Pick<RoomSpec, 'minArea' | 'maxArea'> {
+  return { minArea: area * (1 - AREA_TOLERANCE), maxArea: area * (1 + AREA_TOLERANCE) };
+}
+
+function extractArea(text: string): { phrase: string; area?: number } {
+  const match = text.match(/(?:to\s+|of\s+)?(\d+(?:\.\d+)?)\s*(?:m2|m²|sqm|sq m|square met(?:re|er)s?)/);
+  if (!match) return { phrase: text.trim() };
+  return { phrase: text.replace(match[0], '').replace(/\s+(?:of|with)$/, '').trim(), area: parseFloat(match[1]) };
+}
+
+function uniqueRoomId(type: string, rooms: RoomSpec[]): string {
+  let index = rooms.filter(r => r.type === type).length + 1;
+  while (rooms.some(r => r.id === `${type}${index}`)) index++;
+  return `${type}${index}`;
+}
+
+// "master_bedroom" -> "Master bedroom", "bedroom2" -> "Bedroom 2"
+function roomLabel(id: string): string {
+  return capitalize(id.replace(/[_-]+/g, ' ').replace(/([a-z])(\d)/gi, '$1 $2'));
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export const ruleBasedEditInterpreter = new RuleBasedEditInterpreter();
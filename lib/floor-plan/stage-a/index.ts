@@ -3,13 +3,26 @@
  * Main orchestrator for Stage A
  */
 
-import { GenerateFloorPlanRequest, FloorPlanSpecification, FloorPlanError } from '../types';
+import {
+  GenerateFloorPlanRequest,
+  FloorPlanSpecification,
+  FloorPlanError,
+  GenerationMode,
+  StageAConfig,
+  LLMProviderType,
+  SpecificationEdit
+} from '../types';
 import { DEFAULT_CONFIG } from '../config';
-import { Timer } from '../utils';
+import { Timer, hashString } from '../utils';
 import { LLMClient } from './llm-client';
+import { LLMProvider, isProviderConfigured } from './llm-providers';
+import { multiPassValidator } from './multi-pass-validator';
+import { FLOOR_PLAN_SPEC_SCHEMA, SPEC_SCHEMA_NAME, SPEC_EDIT_SCHEMA, SPEC_EDIT_SCHEMA_NAME, checkSchema } from './spec-schema';
+import { checkEdits, ruleBasedEditInterpreter } from './edit-interpreter';
+import { ruleBasedSpecGenerator } from './rule-based-generator';
 import { SpecificationParser } from './spec-parser';
 import { SpecificationValidator } from './spec-validator';
-import { buildSpecificationPrompt, buildVariationPrompt } from './prompt-builder';
+import { buildSpecificationPrompt, buildVariationPrompt, buildRepairPrompt, buildEditPrompt } from './prompt-builder';
 
 export interface StageAResult {
   specification: FloorPlanSpecification;
@@ -20,21 +33,51 @@ export interface StageAResult {
       completionTokens: number;
       totalTokens: number;
     };
+    llm?: {
+      provider: LLMProviderType;
+      model: string;
+    }; // Absent when the specification was generated without an LLM
+    attempts?: number; // LLM calls made, including re-prompts after validation failures
     validationWarnings: string[];
   };
 }
 
+export interface StageAEditResult {
+  edits: SpecificationEdit[];
+  summary: string;
+  metadata: Omit<StageAResult['metadata'], 'validationWarnings'>;
+}
+
+export interface StageAOptions {
+  /** LLM settings; defaults to the environment configuration */
+  llm?: StageAConfig['llm'];
+  /** Ready-made provider, e.g. a ReplayProvider in tests */
+  provider?: LLMProvider;
+}
+
 export class StageAOrchestrator {
-  private llmClient: LLMClient;
+  private llmClient: LLMClient | null = null;
+  private llmConfig: StageAConfig['llm'];
+  private provider?: LLMProvider;
   private parser: SpecificationParser;
   private validator: SpecificationValidator;
 
-  constructor() {
-    this.llmClient = new LLMClient(DEFAULT_CONFIG.stageA.llm);
+  constructor(options: StageAOptions = {}) {
+    this.llmConfig = options.llm || DEFAULT_CONFIG.stageA.llm;
+    this.provider = options.provider;
     this.parser = new SpecificationParser();
     this.validator = new SpecificationValidator();
   }
 
+  /**
+   * Resolve the generation mode for a request.
+   * Without an explicit mode, the LLM is used only when its provider is configured.
+   */
+  resolveMode(request: Pick<GenerateFloorPlanRequest, 'generationMode'>): GenerationMode {
+    if (request.generationMode) return request.generationMode;
+    return this.provider || isProviderConfigured(this.llmConfig) ? 'llm' : 'rule-based';
+  }
+
   /**
    * Generate floor plan specification from user request
    */
@@ -43,14 +86,39 @@ export class StageAOrchestrator {
     timer.start();
 
     try {
-      // Step 1: Build prompt
-      const prompt = buildSpecificationPrompt(request);
+      let specification: FloorPlanSpecification;
+      let llmUsage: StageAResult['metadata']['llmUsage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let llm: StageAResult['metadata']['llm'];
+      let attempts: number | undefined;
+      const unresolvedIssues: string[] = [];
 
-      // Step 2: Call LLM
-      const llmResponse = await this.llmClient.generate(prompt);
+      if (this.resolveMode(request) === 'rule-based') {
+        // Steps 1-3 (offline): derive the specification from the parameters
+        const seed = request.seed ?? hashString(JSON.stringify(request.parameters || {}));
+        specification = ruleBasedSpecGenerator.generate(request.parameters || {} as GenerateFloorPlanRequest['parameters'], seed);
+      } else {
+        // Step 1: Build prompt
+        const prompt = buildSpecificationPrompt(request);
 
-      // Step 3: Parse response
-      const specification = this.parser.parse(llmResponse.content);
+        // Steps 2-3: Call LLM and parse, re-prompting until the specification validates
+        const llmClient = this.getLLMClient();
+        const result = await this.generateValidatedSpecification(llmClient, prompt);
+        specification = result.specification;
+        llmUsage = result.usage;
+        llm = { provider: llmClient.providerType, model: result.model };
+        attempts = result.attempts;
+        unresolvedIssues.push(...result.unresolvedIssues);
+      }
+
+      // The requested floor count is authoritative; models tend to drop it
+      if (request.parameters?.floors > 1) {
+        specification.metadata = { ...specification.metadata, floors: request.parameters.floors };
+      }
+
+      // Site geometry is passed through untouched for Stage B
+      if (request.parameters?.site) {
+        specification.metadata = { ...specification.metadata, site: request.parameters.site };
+      }
 
       // Step 4: Validate specification
       const validationResult = this.validator.validate(specification);
@@ -73,10 +141,15 @@ export class StageAOrchestrator {
         specification,
         metadata: {
           generationTime,
-          llmUsage: llmResponse.usage,
-          validationWarnings: validationResult.errors
-            .filter(e => e.severity === 'warning')
-            .map(e => e.message)
+          llmUsage,
+          ...(llm && { llm }),
+          ...(attempts !== undefined && { attempts }),
+          validationWarnings: [
+            ...validationResult.errors
+              .filter(e => e.severity === 'warning')
+              .map(e => e.message),
+            ...unresolvedIssues
+          ]
         }
       };
 
@@ -93,26 +166,182 @@ export class StageAOrchestrator {
     }
   }
 
+  /**
+   * Call the LLM with the specification schema and re-prompt with the
+   * schema and validator errors until the specification validates or the
+   * retry budget runs out. A specification that only fails the architectural
+   * passes is still returned at the end, with those issues as warnings.
+   */
+  private async generateValidatedSpecification(
+    llmClient: LLMClient,
+    prompt: string
+  ): Promise<{
+    specification: FloorPlanSpecification;
+    usage: StageAResult['metadata']['llmUsage'];
+    model: string;
+    attempts: number;
+    unresolvedIssues: string[];
+  }> {
+    const maxAttempts = 1 + DEFAULT_CONFIG.stageA.validation.maxRepromptAttempts;
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let currentPrompt = prompt;
+    let issues: string[] = [];
+    let fallback: { specification: FloorPlanSpecification; model: string; issues: string[] } | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const response = await llmClient.generate(currentPrompt, undefined, {
+        responseSchema: { name: SPEC_SCHEMA_NAME, schema: FLOOR_PLAN_SPEC_SCHEMA }
+      });
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+
+      try {
+        const raw = this.parser.parseJSON(response.content);
+        issues = checkSchema(raw);
+
+        if (issues.length === 0) {
+          const specification = this.parser.validateAndTransform(raw);
+          issues = this.validator.validate(specification).errors
+            .filter(e => e.severity === 'error')
+            .map(e => `${e.field}: ${e.message}`);
+
+          if (issues.length === 0) {
+            const architectural = multiPassValidator.validate(specification).passResults
+              .flatMap(pass => pass.issues)
+              .filter(issue => issue.severity === 'error')
+              .map(issue => issue.suggestion ? `${issue.message} (${issue.suggestion})` : issue.message);
+
+            if (architectural.length === 0) {
+              return { specification, usage, model: response.model, attempts: attempt, unresolvedIssues: [] };
+            }
+            fallback = { specification, model: response.model, issues: architectural };
+            issues = architectural;
+          }
+        }
+      } catch (error) {
+        issues = [error instanceof Error ? error.message : 'Response could not be parsed'];
+      }
+
+      currentPrompt = buildRepairPrompt(prompt, response.content, issues);
+    }
+
+    if (fallback) {
+      return { ...fallback, usage, attempts: maxAttempts, unresolvedIssues: fallback.issues };
+    }
+
+    throw new FloorPlanError(
+      `Specification validation failed after ${maxAttempts} attempt(s): ${issues.join('; ')}`,
+      'A',
+      true,
+      { errors: issues, attempts: maxAttempts }
+    );
+  }
+
+  /**
+   * Interpret an edit request against the current specification. The LLM
+   * is re-prompted with the problems until its edits refer to real rooms;
+   * offline mode uses the keyword interpreter.
+   */
+  async interpretEdit(
+    instruction: string,
+    spec: FloorPlanSpecification,
+    mode: GenerationMode = this.resolveMode({})
+  ): Promise<StageAEditResult> {
+    const timer = new Timer();
+    timer.start();
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    if (mode === 'rule-based') {
+      const { edits, summary } = ruleBasedEditInterpreter.interpret(instruction, spec);
+      return { edits, summary, metadata: { generationTime: timer.stop(), llmUsage: usage } };
+    }
+
+    const llmClient = this.getLLMClient();
+    const prompt = buildEditPrompt(instruction, spec);
+    const maxAttempts = 1 + DEFAULT_CONFIG.stageA.validation.maxRepromptAttempts;
+    let currentPrompt = prompt;
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const response = await llmClient.generate(currentPrompt, undefined, {
+        responseSchema: { name: SPEC_EDIT_SCHEMA_NAME, schema: SPEC_EDIT_SCHEMA }
+      });
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+
+      try {
+        const raw = this.parser.parseJSON(response.content);
+        issues = checkSchema(raw, SPEC_EDIT_SCHEMA, 'edit list');
+        if (issues.length === 0) {
+          issues = checkEdits(raw.edits, spec);
+        }
+
+        if (issues.length === 0) {
+          return {
+            edits: raw.edits as SpecificationEdit[],
+            summary: typeof raw.summary === 'string' ? raw.summary : instruction,
+            metadata: {
+              generationTime: timer.stop(),
+              llmUsage: usage,
+              llm: { provider: llmClient.providerType, model: response.model },
+              attempts: attempt
+            }
+          };
+        }
+      } catch (error) {
+        issues = [error instanceof Error ? error.message : 'Response could not be parsed'];
+      }
+
+      currentPrompt = buildRepairPrompt(prompt, response.content, issues, 'edit list');
+    }
+
+    throw new FloorPlanError(
+      `Could not interpret the edit after ${maxAttempts} attempt(s): ${issues.join('; ')}`,
+      'A',
+      true,
+      { errors: issues, attempts: maxAttempts }
+    );
+  }
+
   /**
    * Generate variation of existing specification
    */
   async generateVariation(
     baseSpec: FloorPlanSpecification,
-    variationNumber: number
+    variationNumber: number,
+    mode: GenerationMode = 'llm'
   ): Promise<StageAResult> {
+    if (mode === 'rule-based') {
+      return this.createFallbackVariation(baseSpec, variationNumber, 'Generated programmatically (offline mode)');
+    }
+
     const timer = new Timer();
     timer.start();
 
     try {
       const prompt = buildVariationPrompt(baseSpec, variationNumber);
-      const llmResponse = await this.llmClient.generate(prompt);
-      const specification = this.parser.parse(llmResponse.content);
+      const llmClient = this.getLLMClient();
+      const llmResponse = await llmClient.generate(prompt);
+      const parsed = this.parser.parse(llmResponse.content);
+
+      // The parser rebuilds metadata from the response, which has no site,
+      // so the storeys and site carry over from the base specification
+      const specification: FloorPlanSpecification = {
+        ...parsed,
+        metadata: {
+          ...parsed.metadata,
+          ...(baseSpec.metadata?.floors !== undefined && { floors: baseSpec.metadata.floors }),
+          ...(baseSpec.metadata?.site && { site: baseSpec.metadata.site })
+        }
+      };
       
       // Validate variation
       const validationResult = this.validator.validate(specification);
       if (!validationResult.valid) {
         // For variations, fall back to base spec with minor adjustments
-        return this.createFallbackVariation(baseSpec, variationNumber);
+        return this.createFallbackVariation(baseSpec, variationNumber, undefined, llmResponse.usage);
       }
 
       const generationTime = timer.stop();
@@ -122,6 +351,7 @@ export class StageAOrchestrator {
         metadata: {
           generationTime,
           llmUsage: llmResponse.usage,
+          llm: { provider: llmClient.providerType, model: llmResponse.model },
           validationWarnings: validationResult.errors
             .filter(e => e.severity === 'warning')
             .map(e => e.message)
@@ -135,11 +365,14 @@ export class StageAOrchestrator {
   }
 
   /**
-   * Create programmatic variation when LLM fails
+   * Create programmatic variation when LLM fails. `llmUsage` is what the
+   * failed call spent, if it got a response.
    */
   private createFallbackVariation(
     baseSpec: FloorPlanSpecification,
-    variationNumber: number
+    variationNumber: number,
+    reason: string = 'Generated programmatically (LLM variation failed)',
+    llmUsage: StageAResult['metadata']['llmUsage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
   ): StageAResult {
     const factor = 0.95 + (variationNumber * 0.02); // 0.95, 0.97, 0.99, 1.01, 1.03
 
@@ -160,15 +393,42 @@ export class StageAOrchestrator {
       specification: variation,
       metadata: {
         generationTime: 0,
-        llmUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-        validationWarnings: ['Generated programmatically (LLM variation failed)']
+        llmUsage,
+        validationWarnings: [reason]
       }
     };
   }
+
+  /**
+   * Create the LLM client on first use so offline mode needs no API key
+   */
+  private getLLMClient(): LLMClient {
+    if (!this.llmClient) {
+      this.llmClient = new LLMClient(this.llmConfig, this.provider);
+    }
+    return this.llmClient;
+  }
 }
 
 // Export all Stage A components
 export { LLMClient } from './llm-client';
+export {
+  OpenAICompatibleProvider,
+  AnthropicProvider,
+  ReplayProvider,
+  createLLMProvider,
+  isProviderConfigured
+} from './llm-providers';
+export type { LLMProvider, LLMResponse, ReplayFixture } from './llm-providers';
 export { SpecificationParser } from './spec-parser';
 export { SpecificationValidator } from './spec-validator';
-export { buildSpecificationPrompt, buildVariationPrompt } from './prompt-builder';
+export { RuleBasedSpecGenerator, ruleBasedSpecGenerator } from './rule-based-generator';
+export { buildSpecificationPrompt, buildVariationPrompt, buildRepairPrompt, buildEditPrompt } from './prompt-builder';
+export { FLOOR_PLAN_SPEC_SCHEMA, SPEC_SCHEMA_NAME, SPEC_EDIT_SCHEMA, SPEC_EDIT_SCHEMA_NAME, checkSchema } from './spec-schema';
+export {
+  RuleBasedEditInterpreter,
+  ruleBasedEditInterpreter,
+  applySpecificationEdits,
+  checkEdits
+} from './edit-interpreter';
+export type { EditInterpretation, AppliedEdits } from './edit-interpreter';
@@ -0,0 +1,421 @@
+/**
+ * Stage A: LLM Providers
+ * Backends the LLM client can talk to: OpenRouter and other OpenAI-compatible
+ * servers (llama.cpp, Ollama), Anthropic's Messages API, and a replay
+ * provider that serves recorded responses for tests and offline runs
+ */
+
+import { readFileSync } from 'fs';
+import { StageAConfig, LLMProviderType, FloorPlanError } from '../types';
+import { retryWithBackoff, hashString } from '../utils';
+
+export interface LLMResponse {
+  content: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  model: string;
+}
+
+export interface LLMGenerateOptions {
+  /** Ask for JSON matching this schema (providers with structured output only) */
+  responseSchema?: {
+    name: string;
+    schema: object;
+  };
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  readonly supportsStructuredOutput: boolean;
+  generate(prompt: string, systemPrompt?: string, options?: LLMGenerateOptions): Promise<LLMResponse>;
+  generateStream?(prompt: string, systemPrompt?: string): AsyncGenerator<string>;
+}
+
+type LLMConfig = StageAConfig['llm'];
+
+// ============================================================================
+// OPENAI-COMPATIBLE (OpenRouter, llama.cpp, Ollama, vLLM)
+// ============================================================================
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  readonly supportsStructuredOutput: boolean;
+  private config: LLMConfig;
+
+  constructor(config: LLMConfig) {
+    this.config = config;
+    this.type = config.provider;
+    this.model = config.model;
+    this.supportsStructuredOutput = config.structuredOutput !== false;
+  }
+
+  async generate(prompt: string, systemPrompt?: string, options: LLMGenerateOptions = {}): Promise<LLMResponse> {
+    const schema = this.supportsStructuredOutput ? options.responseSchema : undefined;
+    const body = {
+      ...this.requestBody(prompt, systemPrompt, false),
+      ...(schema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: schema.name, schema: schema.schema, strict: false }
+        }
+      })
+    };
+
+    const response = await retryWithBackoff(
+      async () => {
+        const res = await fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: this.headers(),
+          body: JSON.stringify(body)
+        });
+
+        if (!res.ok) {
+          const error = await res.text();
+          throw new Error(`${this.label()} API error: ${res.status} - ${error}`);
+        }
+
+        return res.json();
+      },
+      3, // max attempts
+      2000 // initial delay
+    );
+
+    const content = response.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('No content in LLM response');
+    }
+
+    return {
+      content,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        totalTokens: response.usage?.total_tokens || 0
+      },
+      model: response.model || this.model
+    };
+  }
+
+  async *generateStream(prompt: string, systemPrompt?: string): AsyncGenerator<string> {
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(this.requestBody(prompt, systemPrompt, true))
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${this.label()} API error: ${response.status} - ${error}`);
+    }
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') continue;
+
+      try {
+        const content = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      } catch (e) {
+        // Skip invalid JSON
+        continue;
+      }
+    }
+  }
+
+  private requestBody(prompt: string, systemPrompt: string | undefined, stream: boolean) {
+    return {
+      model: this.model,
+      messages: [
+        ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+        { role: 'user', content: prompt }
+      ],
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+      ...(stream && { stream: true })
+    };
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    // Local servers usually run without a key
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    if (this.type === 'openrouter') {
+      headers['HTTP-Referer'] = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+      headers['X-Title'] = 'PlotSync Floor Plan Generator';
+    }
+
+    return headers;
+  }
+
+  private label(): string {
+    return this.type === 'openrouter' ? 'OpenRouter' : 'LLM server';
+  }
+}
+
+// ============================================================================
+// ANTHROPIC MESSAGES API
+// ============================================================================
+
+export class AnthropicProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'anthropic';
+  readonly model: string;
+  readonly supportsStructuredOutput: boolean;
+  private config: LLMConfig;
+
+  private static readonly API_VERSION = '2023-06-01';
+
+  constructor(config: LLMConfig) {
+    this.config = config;
+    this.model = config.model;
+    this.supportsStructuredOutput = config.structuredOutput !== false;
+  }
+
+  /**
+   * Structured output uses a single forced tool whose input is the schema
+   */
+  async generate(prompt: string, systemPrompt?: string, options: LLMGenerateOptions = {}): Promise<LLMResponse> {
+    const schema = this.supportsStructuredOutput ? options.responseSchema : undefined;
+    const body = {
+      ...this.requestBody(prompt, systemPrompt, false),
+      ...(schema && {
+        tools: [{ name: schema.name, description: 'Return the result', input_schema: schema.schema }],
+        tool_choice: { type: 'tool', name: schema.name }
+      })
+    };
+
+    const response = await retryWithBackoff(
+      async () => {
+        const res = await fetch(`${this.config.baseUrl}/messages`, {
+          method: 'POST',
+          headers: this.headers(),
+          body: JSON.stringify(body)
+        });
+
+        if (!res.ok) {
+          const error = await res.text();
+          throw new Error(`Anthropic API error: ${res.status} - ${error}`);
+        }
+
+        return res.json();
+      },
+      3,
+      2000
+    );
+
+    const blocks = response.content || [];
+    const toolUse = blocks.find((block: { type: string }) => block.type === 'tool_use');
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : blocks
+          .filter((block: { type: string }) => block.type === 'text')
+          .map((block: { text: string }) => block.text)
+          .join('');
+    if (!content) {
+      throw new Error('No content in LLM response');
+    }
+
+    const promptTokens = response.usage?.input_tokens || 0;
+    const completionTokens = response.usage?.output_tokens || 0;
+
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      model: response.model || this.model
+    };
+  }
+
+  async *generateStream(prompt: string, systemPrompt?: string): AsyncGenerator<string> {
+    const response = await fetch(`${this.config.baseUrl}/messages`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(this.requestBody(prompt, systemPrompt, true))
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+    }
+
+    for await (const data of readServerSentEvents(response)) {
+      try {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield event.delta.text;
+        }
+      } catch (e) {
+        continue;
+      }
+    }
+  }
+
+  private requestBody(prompt: string, systemPrompt: string | undefined, stream: boolean) {
+    return {
+      model: this.model,
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      ...(systemPrompt && { system: systemPrompt }),
+      messages: [{ role: 'user', content: prompt }],
+      ...(stream && { stream: true })
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': AnthropicProvider.API_VERSION
+    };
+  }
+}
+
+// ============================================================================
+// REPLAY (recorded fixtures)
+// ============================================================================
+
+/**
+ * A recorded response. `promptHash` (hashString of the prompt) matches one
+ * exact prompt; `match` matches any prompt containing the text. An entry with
+ * neither is the fallback.
+ */
+export interface ReplayFixture {
+  promptHash?: number;
+  match?: string;
+  content: string;
+  usage?: LLMResponse['usage'];
+}
+
+export class ReplayProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'replay';
+  readonly model: string;
+  readonly supportsStructuredOutput = false;
+  private fixtures: ReplayFixture[];
+
+  constructor(fixtures: ReplayFixture[], model: string = 'replay') {
+    this.fixtures = fixtures;
+    this.model = model;
+  }
+
+  /**
+   * Load fixtures from a JSON file containing an array of ReplayFixture
+   */
+  static fromFile(path: string, model?: string): ReplayProvider {
+    try {
+      const fixtures = JSON.parse(readFileSync(path, 'utf-8'));
+      if (!Array.isArray(fixtures)) {
+        throw new Error('expected an array of fixtures');
+      }
+      return new ReplayProvider(fixtures, model);
+    } catch (error) {
+      throw new FloorPlanError(
+        `Could not load LLM replay fixtures from ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'A',
+        false
+      );
+    }
+  }
+
+  /**
+   * Record a response for an exact prompt
+   */
+  static record(prompt: string, content: string): ReplayFixture {
+    return { promptHash: hashString(prompt), content };
+  }
+
+  async generate(prompt: string, systemPrompt?: string): Promise<LLMResponse> {
+    const hash = hashString(prompt);
+    const fixture =
+      this.fixtures.find(f => f.promptHash === hash) ||
+      this.fixtures.find(f => f.match !== undefined && prompt.includes(f.match)) ||
+      this.fixtures.find(f => f.promptHash === undefined && f.match === undefined);
+
+    if (!fixture) {
+      throw new Error(`No replay fixture for prompt (hash ${hash})`);
+    }
+
+    return {
+      content: fixture.content,
+      usage: fixture.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      model: this.model
+    };
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create the provider selected by the configuration
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  if (!isProviderConfigured(config)) {
+    const variable = config.provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENROUTER_API_KEY';
+    const message = config.provider === 'replay'
+      ? 'LLM replay provider needs fixtures. Set LLM_REPLAY_FIXTURES to a fixture file.'
+      : `${config.provider} API key not configured. Set ${variable} or LLM_API_KEY environment variable.`;
+    throw new FloorPlanError(message, 'A', false);
+  }
+
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'replay':
+      return ReplayProvider.fromFile(config.fixturePath!, config.model);
+    case 'openrouter':
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config);
+    default:
+      throw new FloorPlanError(`Unknown LLM provider: ${config.provider}`, 'A', false);
+  }
+}
+
+/**
+ * Whether the configuration has what its provider needs to make calls
+ */
+export function isProviderConfigured(config: LLMConfig): boolean {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return !!config.baseUrl;
+    case 'replay':
+      return !!config.fixturePath;
+    default:
+      return !!config.apiKey;
+  }
+}
+
+/**
+ * Yield the data payloads of a server-sent event stream
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No reader available for streaming');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        yield line.slice(6);
+      }
+    }
+  }
+}
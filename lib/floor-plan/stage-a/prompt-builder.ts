@@ -3,7 +3,7 @@
  * Constructs optimized prompts with architectural context for floor plan specification generation
  */
 
-import { GenerateFloorPlanRequest } from '../types';
+import { GenerateFloorPlanRequest, FloorPlanSpecification } from '../types';
 import { ROOM_AREA_RANGES, ROOM_ASPECT_RATIOS, ROOM_ZONES, DEFAULT_ADJACENCIES } from '../config';
 import { 
   ROOM_STANDARDS, 
@@ -11,6 +11,7 @@ import {
   classifyBuildingTypology,
   FUNCTIONAL_REQUIREMENTS 
 } from './architectural-rules';
+import { SPEC_ROOM_TYPES } from './spec-schema';
 
 export function buildSpecificationPrompt(request: GenerateFloorPlanRequest): string {
   const { userInput, parameters } = request;
@@ -71,6 +72,11 @@ User Description: "${userInput}"
   }
   
   prompt += `Floors: ${parameters.floors}\n`;
+  if (parameters.floors > 1) {
+    prompt += `- Total area is the gross area summed over all ${parameters.floors} floors\n`;
+    prompt += `- Do not add stairs or lifts as rooms; the layout engine inserts the vertical core\n`;
+    prompt += `- Living, dining and kitchen belong on the ground floor (floor 0), bedrooms upstairs\n`;
+  }
   
   // Room counts
   const roomCounts: string[] = [];
@@ -197,7 +203,8 @@ OUTPUT SCHEMA:
       "zone": <string>,             // One of: public, private, service
       "requiresWindow": <boolean>,  // True if room needs natural light
       "requiresDoor": <boolean>,    // True if room needs door
-      "priority": <number>          // Placement priority (1-10, higher = place first)
+      "priority": <number>,         // Placement priority (1-10, higher = place first)
+      "floor": <number>             // Optional: level index for multi-storey buildings (0 = ground)
     }
   ],
   "adjacencyGraph": [               // Room connection preferences
@@ -327,3 +334,65 @@ ${JSON.stringify(baseSpec, null, 2)}
 Variation ${variationNumber}: Generate a JSON specification with these subtle changes.
 Output ONLY the JSON (no markdown, no explanations):`;
 }
+
+/**
+ * Follow-up prompt asking the model to fix a specification that failed
+ * schema or architectural validation
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  previousResponse: string,
+  issues: string[],
+  subject: string = 'specification'
+): string {
+  return `${originalPrompt}
+
+Your previous response:
+${previousResponse}
+
+It was rejected for these reasons:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the complete corrected ${subject}. Keep everything that was valid and fix only the problems listed.
+Output ONLY the JSON (no markdown, no explanations):`;
+}
+
+/**
+ * Build prompt for turning an edit request into a list of edits
+ * against the current specification
+ */
+export function buildEditPrompt(instruction: string, spec: FloorPlanSpecification): string {
+  const rooms = spec.rooms
+    .map(room => `- ${room.id} (${room.type}, ${room.minArea}-${room.maxArea}m²)`)
+    .join('\n');
+  const adjacencies = spec.adjacencyGraph
+    .map(edge => `- ${edge.from} ↔ ${edge.to} (${edge.type || 'should'}, weight ${edge.weight})`)
+    .join('\n');
+
+  return `You are editing an existing floor plan. Translate the user's request into a list of edits.
+
+Current rooms:
+${rooms}
+
+Current adjacencies:
+${adjacencies || '- none'}
+
+User request: "${instruction}"
+
+Available edit actions:
+- resize: change a room's size. "room" is the room ID; give either "area" (target m²) or "scale" (e.g. 1.25 for 25% bigger)
+- add: add a room. "type" is one of ${SPEC_ROOM_TYPES.join(', ')}; optional "area" in m² and "target" (room ID to place it next to)
+- remove: remove the room with ID "room"
+- connect: place room "room" next to room "target"
+- separate: keep room "room" away from room "target"
+
+Rules:
+1. Refer to existing rooms by their exact ID from the list above
+2. Only include edits the user asked for
+3. "summary" describes the changes in one short sentence
+
+Output format:
+{"edits": [{"action": "resize", "room": "bedroom1", "scale": 1.25}, {"action": "connect", "room": "study", "target": "living"}], "summary": "Enlarged the master bedroom and moved the study next to the living room"}
+
+Output ONLY the JSON (no markdown, no explanations):`;
+}
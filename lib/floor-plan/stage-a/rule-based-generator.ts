@@ -0,0 +1,288 @@
+/**
+ * Stage A: Rule-Based Specification Generator
+ * Builds a floor plan specification from request parameters using the
+ * architectural rule tables instead of an LLM. Output depends only on the
+ * parameters and the seed, so it runs offline and in tests.
+ */
+
+import {
+  GenerateFloorPlanRequest,
+  FloorPlanSpecification,
+  RoomSpec,
+  RoomType,
+  AdjacencyEdge,
+  Constraint
+} from '../types';
+import { CIRCULATION_FACTOR, RULE_BASED_CONFIG } from '../config';
+import { clamp, createSeededRandom, sqftToSqm } from '../utils';
+import {
+  ROOM_STANDARDS,
+  MANDATORY_ADJACENCIES,
+  ZONE_CLASSIFICATION,
+  FUNCTIONAL_REQUIREMENTS,
+  classifyBuildingTypology,
+  determineEntranceStrategy
+} from './architectural-rules';
+
+type RequestParameters = GenerateFloorPlanRequest['parameters'];
+
+// Placement order used by the solver (higher first)
+const ROOM_PRIORITY: Partial<Record<RoomType, number>> = {
+  living: 9,
+  kitchen: 9,
+  bedroom: 8,
+  bathroom: 8,
+  dining: 7,
+  hallway: 6,
+  study: 5,
+  utility: 4
+};
+
+// Request room keys in the order rooms are listed in the specification
+const REQUEST_ROOM_TYPES: Array<[keyof RequestParameters['rooms'], RoomType]> = [
+  ['livingRoom', 'living'],
+  ['kitchen', 'kitchen'],
+  ['diningRoom', 'dining'],
+  ['bedroom', 'bedroom'],
+  ['bathroom', 'bathroom'],
+  ['study', 'study'],
+  ['utility', 'utility']
+];
+
+export class RuleBasedSpecGenerator {
+  private config = RULE_BASED_CONFIG;
+
+  /**
+   * Generate a specification from request parameters
+   */
+  generate(parameters: RequestParameters, seed: number): FloorPlanSpecification {
+    const random = createSeededRandom(seed);
+    const preferences = parameters.preferences || {};
+
+    const roomTypes = this.resolveRoomTypes(parameters);
+    const totalArea = this.resolveTotalArea(parameters, roomTypes);
+    const typology = classifyBuildingTypology(totalArea, roomTypes.length);
+    const entrance = determineEntranceStrategy(totalArea, roomTypes, typology);
+
+    const rooms = this.buildRooms(roomTypes, totalArea, random);
+    const adjacencyGraph = this.buildAdjacencies(rooms, preferences);
+    const constraints = this.buildConstraints(rooms);
+
+    return {
+      totalArea,
+      tolerance: this.config.tolerance,
+      rooms,
+      adjacencyGraph,
+      constraints,
+      style: parameters.style || 'modern',
+      metadata: {
+        floors: Math.max(1, parameters.floors || 1),
+        entrance: entrance.location,
+        preferences,
+        ...(parameters.site && { site: parameters.site })
+      }
+    };
+  }
+
+  /**
+   * Expand room counts into a list of room types, adding a hallway for
+   * larger homes
+   */
+  private resolveRoomTypes(parameters: RequestParameters): RoomType[] {
+    const requested = parameters.rooms || {};
+    const types: RoomType[] = [];
+
+    for (const [key, type] of REQUEST_ROOM_TYPES) {
+      const count = Math.max(0, Math.round(requested[key] ?? this.config.defaultRooms[key]));
+      for (let i = 0; i < count; i++) types.push(type);
+    }
+
+    if (types.length >= this.config.hallwayMinRooms || (parameters.floors || 1) > 1) {
+      types.push('hallway');
+    }
+
+    return types;
+  }
+
+  /**
+   * Requested area in m², or the sum of optimal room areas plus circulation
+   */
+  private resolveTotalArea(parameters: RequestParameters, roomTypes: RoomType[]): number {
+    if (parameters.totalArea && parameters.totalArea > 0) {
+      return parameters.unit === 'imperial' ? sqftToSqm(parameters.totalArea) : parameters.totalArea;
+    }
+
+    const roomArea = roomTypes.reduce((sum, type) => sum + ROOM_STANDARDS[type].optimalArea, 0);
+    return Math.round(roomArea / (1 - CIRCULATION_FACTOR));
+  }
+
+  /**
+   * Size rooms in proportion to their optimal areas so the rooms fill the
+   * usable area (total minus circulation), varied slightly by the seed
+   */
+  private buildRooms(roomTypes: RoomType[], totalArea: number, random: () => number): RoomSpec[] {
+    const budget = totalArea * (1 - CIRCULATION_FACTOR);
+    const counters: Partial<Record<RoomType, number>> = {};
+
+    const weights = roomTypes.map((type, index) => {
+      const jitter = 1 + (random() * 2 - 1) * this.config.areaJitter;
+      // The first bedroom is the master bedroom
+      const master = type === 'bedroom' && roomTypes.indexOf('bedroom') === index ? 1.2 : 1;
+      return ROOM_STANDARDS[type].optimalArea * jitter * master;
+    });
+
+    const scale = budget / weights.reduce((sum, w) => sum + w, 0);
+    let targets = roomTypes.map((type, index) =>
+      clamp(weights[index] * scale, ROOM_STANDARDS[type].minArea, ROOM_STANDARDS[type].maxArea)
+    );
+
+    // Too many rooms for the area: shrink below the standards rather than overflow
+    const targetSum = targets.reduce((sum, t) => sum + t, 0);
+    if (targetSum > budget * 1.1) {
+      targets = targets.map(t => t * (budget / targetSum));
+    }
+
+    return roomTypes.map((type, index) => {
+      counters[type] = (counters[type] || 0) + 1;
+      const standard = ROOM_STANDARDS[type];
+      const target = targets[index];
+      const width = Math.sqrt(target * standard.optimalRatio);
+
+      return {
+        id: `${type}${counters[type]}`,
+        type,
+        minArea: round1(target * this.config.minAreaFactor),
+        maxArea: round1(target * this.config.maxAreaFactor),
+        aspectRatio: { ...standard.aspectRatioRange },
+        zone: ZONE_CLASSIFICATION[type],
+        requiresWindow: this.requirementLevel(type, 'naturalLight') !== 'optional',
+        requiresDoor: true,
+        priority: type === 'bedroom' && counters[type] === 1 ? 9 : ROOM_PRIORITY[type] ?? 5,
+        dimensionalConstraints: {
+          minWidth: standard.minDimension,
+          optimalDimensions: { width: round1(width), height: round1(target / width) }
+        },
+        functionalRequirements: {
+          naturalLight: this.requirementLevel(type, 'naturalLight'),
+          ventilation: this.requirementLevel(type, 'ventilation')
+        },
+        spatialPreferences: {
+          exteriorWall: type === 'living' || type === 'bedroom',
+          quietZone: ZONE_CLASSIFICATION[type] === 'private'
+        }
+      };
+    });
+  }
+
+  /**
+   * Map FUNCTIONAL_REQUIREMENTS entries to the specification's requirement levels
+   */
+  private requirementLevel(type: RoomType, requirement: 'naturalLight' | 'ventilation'): 'required' | 'preferred' | 'optional' {
+    const entry = FUNCTIONAL_REQUIREMENTS[type].find(r => r.type === requirement);
+    if (!entry) return 'optional';
+    return entry.required ? 'required' : 'preferred';
+  }
+
+  /**
+   * Turn the type-level adjacency rules into room-level edges
+   */
+  private buildAdjacencies(rooms: RoomSpec[], preferences: NonNullable<RequestParameters['preferences']>): AdjacencyEdge[] {
+    const edges = new Map<string, AdjacencyEdge>();
+    const ofType = (type: string) => rooms.filter(r => r.type === type);
+
+    const add = (from: RoomSpec, to: RoomSpec, edge: Omit<AdjacencyEdge, 'from' | 'to'>) => {
+      if (from.id === to.id) return;
+      const key = [from.id, to.id].sort().join('|');
+      const existing = edges.get(key);
+      // Stronger positive preferences replace weaker ones; 'avoid' never overrides
+      if (!existing || (edge.type !== 'avoid' && existing.type !== 'avoid' && edge.weight > existing.weight)) {
+        edges.set(key, { from: from.id, to: to.id, ...edge });
+      }
+    };
+
+    for (const rule of MANDATORY_ADJACENCIES) {
+      const froms = ofType(rule.from);
+      const tos = ofType(rule.to);
+      if (froms.length === 0 || tos.length === 0) continue;
+
+      if (rule.from === 'bedroom' && rule.to === 'bathroom') {
+        this.addBathroomEdges(froms, tos, !!preferences.ensuites, add);
+        continue;
+      }
+
+      if (rule.type === 'avoid') {
+        froms.forEach(from => tos.forEach(to =>
+          add(from, to, { weight: rule.weight, type: 'avoid', justification: rule.justification })
+        ));
+        continue;
+      }
+
+      // Spread the rule across rooms of the target type
+      froms.forEach((from, index) => {
+        add(from, tos[index % tos.length], { weight: rule.weight, type: rule.type, justification: rule.justification });
+      });
+    }
+
+    const [living] = ofType('living');
+    const [kitchen] = ofType('kitchen');
+    const [dining] = ofType('dining');
+    const [hallway] = ofType('hallway');
+
+    if (preferences.openPlan) {
+      if (kitchen && living) add(kitchen, living, { weight: 10, type: 'must', justification: 'Open plan living' });
+      if (dining && living) add(dining, living, { weight: 9, type: 'must', justification: 'Open plan living' });
+    }
+
+    if (hallway) {
+      if (living) add(hallway, living, { weight: 8, type: 'should', justification: 'Entrance circulation' });
+      rooms
+        .filter(r => r.zone === 'private')
+        .forEach(room => add(hallway, room, { weight: 7, type: 'should', justification: 'Circulation to private zone' }));
+    }
+
+    return Array.from(edges.values());
+  }
+
+  /**
+   * Ensuites pair each bedroom with its own bathroom (keeping one shared
+   * bathroom when there are not enough); otherwise the master bedroom sits
+   * near the first bathroom
+   */
+  private addBathroomEdges(
+    bedrooms: RoomSpec[],
+    bathrooms: RoomSpec[],
+    ensuites: boolean,
+    add: (from: RoomSpec, to: RoomSpec, edge: Omit<AdjacencyEdge, 'from' | 'to'>) => void
+  ) {
+    if (!ensuites) {
+      add(bedrooms[0], bathrooms[0], { weight: 6, type: 'should', justification: 'Bathroom close to bedrooms' });
+      return;
+    }
+
+    const ensuiteCount = bathrooms.length > bedrooms.length
+      ? bedrooms.length
+      : Math.max(1, bathrooms.length - 1);
+
+    for (let i = 0; i < ensuiteCount; i++) {
+      add(bedrooms[i], bathrooms[i], { weight: 10, type: 'must', justification: 'Ensuite bathroom' });
+    }
+  }
+
+  /**
+   * Minimum dimension constraints from the room standards
+   */
+  private buildConstraints(rooms: RoomSpec[]): Constraint[] {
+    return rooms.map(room => ({
+      type: 'minDimension' as const,
+      room: room.id,
+      value: ROOM_STANDARDS[room.type].minDimension,
+      priority: room.zone === 'private' || room.type === 'living' ? 'required' as const : 'strong' as const
+    }));
+  }
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export const ruleBasedSpecGenerator = new RuleBasedSpecGenerator();
@@ -6,12 +6,49 @@
 import { FloorPlanSpecification, FloorPlanError, RoomSpec } from '../types';
 import { ROOM_AREA_RANGES, ROOM_ASPECT_RATIOS, ROOM_ZONES } from '../config';
 
+// Names models commonly use instead of the canonical room types
+const ROOM_TYPE_ALIASES: Record<string, string> = {
+  'living room': 'living',
+  'living_room': 'living',
+  'livingroom': 'living',
+  'lounge': 'living',
+  'family room': 'living',
+  'master bedroom': 'bedroom',
+  'guest bedroom': 'bedroom',
+  'bath': 'bathroom',
+  'ensuite': 'bathroom',
+  'toilet': 'bathroom',
+  'wc': 'bathroom',
+  'dining room': 'dining',
+  'dining_room': 'dining',
+  'office': 'study',
+  'laundry': 'utility',
+  'storage': 'utility',
+  'hall': 'hallway',
+  'corridor': 'hallway',
+  'entrance': 'hallway',
+  'foyer': 'hallway',
+  'terrace': 'balcony'
+};
+
 export class SpecificationParser {
   
   /**
    * Parse LLM response into FloorPlanSpecification
    */
   parse(llmResponse: string): FloorPlanSpecification {
+    // Steps 1-2: Extract and repair the JSON
+    const parsed = this.parseJSON(llmResponse);
+    
+    // Step 3: Validate and transform to typed specification
+    return this.validateAndTransform(parsed);
+  }
+
+  /**
+   * Extract the JSON object from an LLM response and apply the tolerant
+   * repair pass, without validating it as a specification
+   */
+  parseJSON(llmResponse: string): any {
     // Step 1: Extract JSON from response (handle markdown code blocks)
     const jsonString = this.extractJSON(llmResponse);
     
@@ -34,8 +71,7 @@ export class SpecificationParser {
       }
     }
     
-    // Step 3: Validate and transform to typed specification
-    return this.validateAndTransform(parsed);
+    return this.repairStructure(parsed);
   }
 
   /**
@@ -65,6 +101,10 @@ export class SpecificationParser {
    */
   private repairJSON(jsonString: string): string {
     let repaired = jsonString;
+
+    // Strip line comments copied from the schema in the prompt
+    repaired = repaired.replace(/^\s*\/\/[^\n]*$/gm, '');
+    repaired = repaired.replace(/([,{\[])\s*\/\/[^\n]*/g, '$1');
     
     // Fix trailing commas in arrays and objects
     repaired = repaired.replace(/,(\s*[}\]])/g, '$1');
@@ -84,10 +124,86 @@ export class SpecificationParser {
     return repaired;
   }
 
+  /**
+   * Tolerant repair pass for providers without structured output: unwraps
+   * nested specifications, coerces numeric strings, normalizes enum casing
+   * and room type aliases, swaps inverted ranges and fills missing room ids
+   */
+  private repairStructure(parsed: any): any {
+    if (!parsed || typeof parsed !== 'object') return parsed;
+
+    // { "specification": { ... } }
+    if (!parsed.rooms) {
+      const nested = parsed.specification || parsed.spec || parsed.floorPlan;
+      if (nested && typeof nested === 'object') parsed = nested;
+    }
+
+    const spec = { ...parsed };
+    spec.totalArea = toNumber(spec.totalArea);
+    if (spec.tolerance !== undefined) spec.tolerance = toNumber(spec.tolerance);
+    if (typeof spec.style === 'string') spec.style = spec.style.toLowerCase();
+
+    // Rooms keyed by id instead of listed
+    if (spec.rooms && !Array.isArray(spec.rooms) && typeof spec.rooms === 'object') {
+      spec.rooms = Object.entries(spec.rooms).map(([id, room]: [string, any]) => ({ id, ...room }));
+    }
+
+    if (Array.isArray(spec.rooms)) {
+      const counters: Record<string, number> = {};
+      spec.rooms = spec.rooms.map((room: any) => {
+        if (!room || typeof room !== 'object') return room;
+        const repaired = { ...room };
+
+        if (typeof repaired.type === 'string') {
+          const type = repaired.type.trim().toLowerCase();
+          repaired.type = this.normalizeRoomType(type);
+        }
+        if (typeof repaired.zone === 'string') repaired.zone = repaired.zone.toLowerCase();
+
+        repaired.minArea = toNumber(repaired.minArea);
+        repaired.maxArea = toNumber(repaired.maxArea);
+        if (typeof repaired.minArea === 'number' && typeof repaired.maxArea === 'number' && repaired.minArea > repaired.maxArea) {
+          [repaired.minArea, repaired.maxArea] = [repaired.maxArea, repaired.minArea];
+        }
+
+        if (Array.isArray(repaired.aspectRatio) && repaired.aspectRatio.length === 2) {
+          repaired.aspectRatio = { min: repaired.aspectRatio[0], max: repaired.aspectRatio[1] };
+        }
+        if (repaired.aspectRatio && typeof repaired.aspectRatio === 'object') {
+          const min = toNumber(repaired.aspectRatio.min);
+          const max = toNumber(repaired.aspectRatio.max);
+          repaired.aspectRatio = min > max ? { min: max, max: min } : { min, max };
+        }
+
+        if (repaired.priority !== undefined) repaired.priority = toNumber(repaired.priority);
+        if (repaired.floor !== undefined) repaired.floor = toNumber(repaired.floor);
+
+        if (!repaired.id && typeof repaired.type === 'string') {
+          counters[repaired.type] = (counters[repaired.type] || 0) + 1;
+          repaired.id = `${repaired.type}${counters[repaired.type]}`;
+        }
+        return repaired;
+      });
+    }
+
+    if (Array.isArray(spec.adjacencyGraph)) {
+      const roomIds = new Set(Array.isArray(spec.rooms) ? spec.rooms.map((r: any) => r?.id) : []);
+      spec.adjacencyGraph = spec.adjacencyGraph
+        .filter((edge: any) => edge && roomIds.has(edge.from) && roomIds.has(edge.to))
+        .map((edge: any) => ({
+          ...edge,
+          weight: typeof toNumber(edge.weight) === 'number' ? Math.max(0, Math.min(10, toNumber(edge.weight))) : 5,
+          ...(typeof edge.type === 'string' && { type: edge.type.toLowerCase() })
+        }));
+    }
+
+    return spec;
+  }
+
   /**
    * Validate and transform parsed JSON to typed specification
    */
-  private validateAndTransform(parsed: any): FloorPlanSpecification {
+  validateAndTransform(parsed: any): FloorPlanSpecification {
     // Validate required fields
     if (typeof parsed.totalArea !== 'number' || parsed.totalArea <= 0) {
       throw new FloorPlanError(
@@ -153,9 +269,9 @@ export class SpecificationParser {
   }
 
   /**
-   * Validate individual room specification
+   * Validate individual room specification, filling defaults for its type
    */
-  private validateRoom(room: any, index: number): RoomSpec {
+  validateRoom(room: any, index: number): RoomSpec {
     if (!room.id || typeof room.id !== 'string') {
       throw new FloorPlanError(
         `Room at index ${index} missing valid id`,
@@ -207,10 +323,19 @@ export class SpecificationParser {
       requiresDoor: typeof room.requiresDoor === 'boolean'
         ? room.requiresDoor
         : room.type !== 'hallway',
-      priority: typeof room.priority === 'number' ? room.priority : 5
+      priority: typeof room.priority === 'number' ? room.priority : 5,
+      ...(typeof room.floor === 'number' && { floor: room.floor })
     };
   }
 
+  /**
+   * Canonical room type for a name such as "Living Room" or "ensuite"
+   */
+  normalizeRoomType(name: string): string {
+    const type = name.trim().toLowerCase();
+    return ROOM_TYPE_ALIASES[type] || type;
+  }
+
   /**
    * Merge specification with user overrides
    */
@@ -228,3 +353,12 @@ export class SpecificationParser {
     };
   }
 }
+
+/**
+ * Coerce numeric strings ("12", "12.5 m²") to numbers, leaving other values as-is
+ */
+function toNumber(value: any): any {
+  if (typeof value !== 'string') return value;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : value;
+}
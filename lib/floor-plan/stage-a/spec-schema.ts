@@ -0,0 +1,198 @@
+/**
+ * Stage A: Specification JSON Schema
+ * The FloorPlanSpecification shape as a JSON schema, sent to providers that
+ * support structured output, plus a checker for the subset of JSON schema
+ * used here so schema violations can be fed back to the model
+ */
+
+import { ROOM_STANDARDS } from './architectural-rules';
+
+export const SPEC_SCHEMA_NAME = 'floor_plan_specification';
+
+// Stairs and lifts are inserted by the layout engine, never requested from the model
+export const SPEC_ROOM_TYPES = Object.keys(ROOM_STANDARDS).filter(type => type !== 'stair' && type !== 'lift');
+
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  anyOf?: JSONSchema[];
+  description?: string;
+  additionalProperties?: boolean;
+}
+
+const range: JSONSchema = {
+  type: 'object',
+  properties: {
+    min: { type: 'number', minimum: 0 },
+    max: { type: 'number', minimum: 0 }
+  },
+  required: ['min', 'max']
+};
+
+export const FLOOR_PLAN_SPEC_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    totalArea: { type: 'number', minimum: 1, description: 'Target total floor area in m²' },
+    tolerance: { type: 'number', minimum: 0, maximum: 20, description: 'Acceptable deviation in %' },
+    rooms: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Unique room identifier, e.g. bedroom1' },
+          type: { type: 'string', enum: SPEC_ROOM_TYPES },
+          minArea: { type: 'number', minimum: 0 },
+          maxArea: { type: 'number', minimum: 0 },
+          aspectRatio: range,
+          zone: { type: 'string', enum: ['public', 'private', 'service'] },
+          requiresWindow: { type: 'boolean' },
+          requiresDoor: { type: 'boolean' },
+          priority: { type: 'number', minimum: 1, maximum: 10 },
+          floor: { type: 'integer', minimum: 0, description: 'Level index for multi-storey buildings (0 = ground)' }
+        },
+        required: ['id', 'type', 'minArea', 'maxArea', 'aspectRatio', 'zone', 'requiresWindow', 'requiresDoor']
+      }
+    },
+    adjacencyGraph: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+          weight: { type: 'number', minimum: 0, maximum: 10 },
+          type: { type: 'string', enum: ['must', 'should', 'neutral', 'avoid'] }
+        },
+        required: ['from', 'to', 'weight']
+      }
+    },
+    constraints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['minDimension', 'maxDimension', 'aspectRatio', 'adjacency', 'separation', 'alignment'] },
+          room: { type: 'string' },
+          rooms: { type: 'array', items: { type: 'string' } },
+          value: { anyOf: [{ type: 'number' }, range] },
+          priority: { type: 'string', enum: ['required', 'strong', 'medium', 'weak'] }
+        },
+        required: ['type', 'value']
+      }
+    },
+    style: { type: 'string', enum: ['modern', 'traditional', 'minimalist', 'industrial'] },
+    metadata: {
+      type: 'object',
+      properties: {
+        floors: { type: 'integer', minimum: 1 },
+        entrance: { type: 'string', enum: ['north', 'south', 'east', 'west'] },
+        preferences: {
+          type: 'object',
+          properties: {
+            openPlan: { type: 'boolean' },
+            ensuites: { type: 'boolean' },
+            gardenAccess: { type: 'boolean' }
+          }
+        }
+      }
+    }
+  },
+  required: ['totalArea', 'rooms', 'adjacencyGraph']
+};
+
+export const SPEC_EDIT_SCHEMA_NAME = 'floor_plan_edits';
+
+// Flat edit objects; which fields an action needs is checked after parsing
+export const SPEC_EDIT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    edits: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['resize', 'add', 'remove', 'connect', 'separate'] },
+          room: { type: 'string', description: 'ID of the room being changed' },
+          type: { type: 'string', enum: SPEC_ROOM_TYPES, description: 'Type of an added room' },
+          area: { type: 'number', minimum: 1, description: 'Target area in m²' },
+          scale: { type: 'number', minimum: 0.3, maximum: 3, description: 'Area multiplier for resize' },
+          target: { type: 'string', description: 'ID of the room to move next to or away from' }
+        },
+        required: ['action']
+      }
+    },
+    summary: { type: 'string' }
+  },
+  required: ['edits']
+};
+
+/**
+ * Check a value against a schema, returning one message per violation
+ * (e.g. "rooms[2].zone must be one of public, private, service")
+ */
+export function checkSchema(value: unknown, schema: JSONSchema = FLOOR_PLAN_SPEC_SCHEMA, path: string = ''): string[] {
+  const label = path || 'specification';
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => checkSchema(value, option, path).length === 0);
+    return matches ? [] : [`${label} does not match any allowed shape`];
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${label} must be ${schema.type === 'array' || schema.type === 'integer' ? 'an' : 'a'} ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${label} must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${label} must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${label} must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${label} must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...checkSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) errors.push(`${path ? path + '.' : ''}${key} is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        errors.push(...checkSchema(record[key], propertySchema, path ? `${path}.${key}` : key));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: NonNullable<JSONSchema['type']>): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
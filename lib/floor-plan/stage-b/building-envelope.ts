@@ -0,0 +1,334 @@
+/**
+ * Stage B: Building Envelope
+ * Buildable outline derived from the site boundary, setbacks and an optional
+ * fixed footprint. Coordinates are normalized so the outline's bounding box
+ * starts at the origin, matching the placers' coordinate space.
+ */
+
+import { Point2D, SiteConstraints, FloorPlanError } from '../types';
+import {
+  polygonArea,
+  polygonCentroid,
+  pointInPolygon,
+  boundingBox,
+  lineSegmentsIntersect
+} from '../utils';
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export class BuildingEnvelope {
+  readonly polygon: Point2D[];
+  readonly origin: Point2D; // Site coordinates of the normalized origin
+  readonly width: number;
+  readonly height: number;
+  readonly area: number;
+
+  constructor(polygon: Point2D[], origin: Point2D = { x: 0, y: 0 }) {
+    const bounds = boundingBox(polygon);
+    this.polygon = polygon.map(p => ({ x: p.x - bounds.x, y: p.y - bounds.y }));
+    this.origin = { x: origin.x + bounds.x, y: origin.y + bounds.y };
+    this.width = bounds.width;
+    this.height = bounds.height;
+    this.area = polygonArea(polygon);
+  }
+
+  /**
+   * Build the envelope for a site.
+   * A fixed footprint is used as-is; otherwise the site boundary is inset by
+   * the setbacks and trimmed to roughly the target floor area.
+   */
+  static fromSite(site: SiteConstraints | undefined, targetArea: number): BuildingEnvelope | null {
+    if (!site || (!site.footprint && !site.boundary)) return null;
+
+    const errors = BuildingEnvelope.validateSite(site);
+    if (errors.length > 0) {
+      throw new FloorPlanError(`Invalid site: ${errors.join('; ')}`, 'B', false, { site });
+    }
+
+    if (site.footprint) {
+      return new BuildingEnvelope(site.footprint);
+    }
+
+    const buildable = insetPolygon(site.boundary!, site.setbacks ?? 0);
+    if (!buildable) {
+      throw new FloorPlanError('Setbacks leave no buildable area on the site', 'B', false, { site });
+    }
+
+    return new BuildingEnvelope(trimToArea(buildable, targetArea));
+  }
+
+  /**
+   * Check site polygons for obvious input errors
+   */
+  static validateSite(site: SiteConstraints): string[] {
+    const errors: string[] = [];
+
+    const checkPolygon = (name: string, polygon: unknown) => {
+      if (!Array.isArray(polygon) || polygon.length < 3) {
+        errors.push(`${name} must have at least 3 points`);
+        return;
+      }
+      if (!polygon.every(p => Number.isFinite(p?.x) && Number.isFinite(p?.y))) {
+        errors.push(`${name} points must have numeric x and y`);
+        return;
+      }
+      if (polygonArea(polygon) < 1) {
+        errors.push(`${name} has no area`);
+      } else if (isSelfIntersecting(polygon)) {
+        errors.push(`${name} is self-intersecting`);
+      }
+    };
+
+    if (site.boundary !== undefined) checkPolygon('Site boundary', site.boundary);
+    if (site.footprint !== undefined) checkPolygon('Footprint', site.footprint);
+
+    if (site.setbacks !== undefined) {
+      const values = Array.isArray(site.setbacks) ? site.setbacks : [site.setbacks];
+      if (!values.every(v => Number.isFinite(v) && v >= 0)) {
+        errors.push('Setbacks must be non-negative numbers');
+      }
+      if (Array.isArray(site.setbacks) && site.boundary && site.setbacks.length !== site.boundary.length) {
+        errors.push('Provide one setback per site boundary edge');
+      }
+    }
+
+    if (site.boundary && site.footprint && errors.length === 0) {
+      const outside = site.footprint.some(p => !pointInPolygon(p, site.boundary!) && !onBoundary(p, site.boundary!));
+      if (outside) errors.push('Footprint extends outside the site boundary');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether the outline is simply its bounding box
+   */
+  get isRectangular(): boolean {
+    return Math.abs(this.area - this.width * this.height) < 0.01;
+  }
+
+  /**
+   * Check that a rectangle lies inside the outline (touching the edge is allowed)
+   */
+  containsRect(rect: Rect, tolerance: number = 0.01): boolean {
+    const corners = [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height },
+      { x: rect.x, y: rect.y + rect.height }
+    ];
+
+    if (!corners.every(c => this.containsPoint(c, tolerance))) return false;
+    if (this.isRectangular) return true;
+
+    // Concave outlines: a notch can sit inside the rectangle even when all
+    // corners are inside, so look for outline vertices or edges crossing it
+    const inner = {
+      x: rect.x + tolerance,
+      y: rect.y + tolerance,
+      width: rect.width - 2 * tolerance,
+      height: rect.height - 2 * tolerance
+    };
+
+    const vertexInside = this.polygon.some(p =>
+      p.x > inner.x && p.x < inner.x + inner.width &&
+      p.y > inner.y && p.y < inner.y + inner.height
+    );
+    if (vertexInside) return false;
+
+    const innerCorners = [
+      { x: inner.x, y: inner.y },
+      { x: inner.x + inner.width, y: inner.y },
+      { x: inner.x + inner.width, y: inner.y + inner.height },
+      { x: inner.x, y: inner.y + inner.height }
+    ];
+
+    for (let i = 0; i < this.polygon.length; i++) {
+      const a = this.polygon[i];
+      const b = this.polygon[(i + 1) % this.polygon.length];
+      for (let j = 0; j < 4; j++) {
+        if (lineSegmentsIntersect(a, b, innerCorners[j], innerCorners[(j + 1) % 4])) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Point inside the outline, or within tolerance of its edge
+   */
+  containsPoint(point: Point2D, tolerance: number = 0.01): boolean {
+    return pointInPolygon(point, this.polygon) || onBoundary(point, this.polygon, tolerance);
+  }
+}
+
+// ============================================================================
+// POLYGON HELPERS
+// ============================================================================
+
+function signedArea(polygon: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const j = (i + 1) % polygon.length;
+    area += polygon[i].x * polygon[j].y - polygon[j].x * polygon[i].y;
+  }
+  return area / 2;
+}
+
+function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function onBoundary(point: Point2D, polygon: Point2D[], tolerance: number = 0.01): boolean {
+  for (let i = 0; i < polygon.length; i++) {
+    if (distanceToSegment(point, polygon[i], polygon[(i + 1) % polygon.length]) <= tolerance) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isSelfIntersecting(polygon: Point2D[]): boolean {
+  const n = polygon.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // Adjacent through the closing edge
+      if (lineSegmentsIntersect(polygon[i], polygon[(i + 1) % n], polygon[j], polygon[(j + 1) % n])) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Offset every edge inwards by its setback and intersect neighbouring edges.
+ * Returns null when the setbacks consume the polygon.
+ */
+function insetPolygon(polygon: Point2D[], setbacks: number | number[]): Point2D[] | null {
+  const distances = Array.isArray(setbacks) ? setbacks : polygon.map(() => setbacks);
+  if (distances.every(d => d === 0)) return polygon;
+
+  // Work counter-clockwise so the inward normal is the left-hand normal
+  const ccw = signedArea(polygon) > 0;
+  const points = ccw ? polygon : [...polygon].reverse();
+  const offsets = ccw ? distances : [...distances].reverse().map((_, i, arr) => arr[(i + 1) % arr.length]);
+  const n = points.length;
+
+  const lines = points.map((start, i) => {
+    const end = points[(i + 1) % n];
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    const normal = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+    const d = offsets[i];
+    return {
+      point: { x: start.x + normal.x * d, y: start.y + normal.y * d },
+      direction: { x: end.x - start.x, y: end.y - start.y }
+    };
+  });
+
+  const result: Point2D[] = [];
+  for (let i = 0; i < n; i++) {
+    const prev = lines[(i - 1 + n) % n];
+    const curr = lines[i];
+    const cross = prev.direction.x * curr.direction.y - prev.direction.y * curr.direction.x;
+
+    if (Math.abs(cross) < 1e-9) {
+      // Collinear edges: keep the offset start point
+      result.push(curr.point);
+      continue;
+    }
+
+    const t = ((curr.point.x - prev.point.x) * curr.direction.y - (curr.point.y - prev.point.y) * curr.direction.x) / cross;
+    result.push({ x: prev.point.x + prev.direction.x * t, y: prev.point.y + prev.direction.y * t });
+  }
+
+  if (signedArea(result) <= 1 || isSelfIntersecting(result)) return null;
+  return result;
+}
+
+/**
+ * Sutherland-Hodgman clip of a polygon against an axis-aligned rectangle
+ */
+function clipToRect(polygon: Point2D[], rect: Rect): Point2D[] {
+  const edges: Array<{ inside: (p: Point2D) => boolean; intersect: (a: Point2D, b: Point2D) => Point2D }> = [
+    { inside: p => p.x >= rect.x, intersect: (a, b) => lerpAtX(a, b, rect.x) },
+    { inside: p => p.x <= rect.x + rect.width, intersect: (a, b) => lerpAtX(a, b, rect.x + rect.width) },
+    { inside: p => p.y >= rect.y, intersect: (a, b) => lerpAtY(a, b, rect.y) },
+    { inside: p => p.y <= rect.y + rect.height, intersect: (a, b) => lerpAtY(a, b, rect.y + rect.height) }
+  ];
+
+  let output = polygon;
+  for (const edge of edges) {
+    const input = output;
+    output = [];
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const previous = input[(i - 1 + input.length) % input.length];
+      if (edge.inside(current)) {
+        if (!edge.inside(previous)) output.push(edge.intersect(previous, current));
+        output.push(current);
+      } else if (edge.inside(previous)) {
+        output.push(edge.intersect(previous, current));
+      }
+    }
+    if (output.length === 0) break;
+  }
+  return output;
+}
+
+function lerpAtX(a: Point2D, b: Point2D, x: number): Point2D {
+  const t = (x - a.x) / (b.x - a.x);
+  return { x, y: a.y + (b.y - a.y) * t };
+}
+
+function lerpAtY(a: Point2D, b: Point2D, y: number): Point2D {
+  const t = (y - a.y) / (b.y - a.y);
+  return { x: a.x + (b.x - a.x) * t, y };
+}
+
+/**
+ * Trim a large buildable area to a rectangle window around its centroid,
+ * growing the window until the clipped outline reaches the target area
+ */
+function trimToArea(polygon: Point2D[], targetArea: number): Point2D[] {
+  if (polygonArea(polygon) <= targetArea * 1.2) return polygon;
+
+  const bounds = boundingBox(polygon);
+  const centroid = polygonCentroid(polygon);
+  let width = Math.sqrt(targetArea) * 1.2;
+  let height = targetArea / width;
+
+  for (let attempt = 0; attempt < 30; attempt++) {
+    const w = Math.min(width, bounds.width);
+    const h = Math.min(height, bounds.height);
+    const rect = {
+      x: Math.max(bounds.x, Math.min(centroid.x - w / 2, bounds.x + bounds.width - w)),
+      y: Math.max(bounds.y, Math.min(centroid.y - h / 2, bounds.y + bounds.height - h)),
+      width: w,
+      height: h
+    };
+
+    const clipped = clipToRect(polygon, rect);
+    if (clipped.length >= 3 && polygonArea(clipped) >= targetArea) {
+      return dedupe(clipped);
+    }
+
+    width *= 1.1;
+    height *= 1.1;
+  }
+
+  return polygon;
+}
+
+function dedupe(polygon: Point2D[]): Point2D[] {
+  return polygon.filter((p, i) => {
+    const next = polygon[(i + 1) % polygon.length];
+    return Math.hypot(p.x - next.x, p.y - next.y) > 1e-6;
+  });
+}
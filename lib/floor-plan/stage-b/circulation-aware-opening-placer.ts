@@ -5,7 +5,7 @@
 
 import { Wall, Opening, FloorPlanSpecification, RoomSpec } from '../types';
 import { DEFAULT_CONFIG } from '../config';
-import { distance, generateId } from '../utils';
+import { distance, generateId, RandomSource } from '../utils';
 import { PlacedRoom } from './zone-based-placer';
 import { determineEntranceStrategy } from '../stage-a/architectural-rules';
 
@@ -17,6 +17,7 @@ interface CirculationNode {
 
 export class CirculationAwareOpeningPlacer {
   private config = DEFAULT_CONFIG.stageB.openings;
+  private random?: RandomSource; // Seeded source for opening IDs during placeOpenings()
 
   /**
    * Place openings with circulation awareness
@@ -24,8 +25,10 @@ export class CirculationAwareOpeningPlacer {
   placeOpenings(
     rooms: PlacedRoom[],
     walls: Wall[],
-    spec: FloorPlanSpecification
+    spec: FloorPlanSpecification,
+    random?: RandomSource
   ): Opening[] {
+    this.random = random;
     const openings: Opening[] = [];
 
     // Step 1: Analyze circulation pattern
@@ -146,7 +149,7 @@ export class CirculationAwareOpeningPlacer {
     }
 
     return {
-      id: generateId('door_entry'),
+      id: generateId('door_entry', this.random),
       type: 'door',
       width: this.config.doorWidth.entrance,
       wallId: entranceWall.id,
@@ -339,7 +342,7 @@ export class CirculationAwareOpeningPlacer {
 
           if (sharedWall.length >= doorWidth + 2 * this.config.minClearance) {
             doors.push({
-              id: generateId('door'),
+              id: generateId('door', this.random),
               type: 'door',
               width: doorWidth,
               wallId: sharedWall.id,
@@ -368,7 +371,7 @@ export class CirculationAwareOpeningPlacer {
 
         if (sharedWall.length >= doorWidth + 2 * this.config.minClearance) {
           doors.push({
-            id: generateId('door'),
+            id: generateId('door', this.random),
             type: 'door',
             width: doorWidth,
             wallId: sharedWall.id,
@@ -467,7 +470,7 @@ export class CirculationAwareOpeningPlacer {
             const position = numWindows === 1 ? 0.5 : (i === 0 ? 0.33 : 0.67);
 
             windows.push({
-              id: generateId('window'),
+              id: generateId('window', this.random),
               type: 'window',
               width: windowWidth / numWindows,
               height: 1.5,
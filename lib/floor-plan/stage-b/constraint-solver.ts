@@ -3,14 +3,34 @@
  * Integrates zone-based placement, template-based layout, multi-objective scoring, and simulated annealing
  */
 
-import { FloorPlanSpecification, RoomSpec, ConstraintSolution, FloorPlanError } from '../types';
+import { FloorPlanSpecification, RoomSpec, ConstraintSolution, FloorPlanError, Dimensions } from '../types';
 import { DEFAULT_CONFIG, CIRCULATION_FACTOR } from '../config';
-import { rectanglesOverlap, clamp } from '../utils';
+import { rectanglesOverlap, clamp, RandomSource } from '../utils';
 import { zoneBasedPlacer, PlacedRoom } from './zone-based-placer';
 import { templateBasedPlacer } from './template-based-placer';
 import { multiObjectiveScorer } from './multi-objective-scorer';
 import { simulatedAnnealingOptimizer } from './simulated-annealing';
 import { variationDiversityScorer } from './variation-diversity';
+import { BuildingEnvelope } from './building-envelope';
+
+export interface FixedRoom {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SolveOptions {
+  /** Rooms that must keep their exact position and size (e.g. stair cores) */
+  fixedRooms?: FixedRoom[];
+  /** Override the building dimensions derived from spec.totalArea */
+  buildingDimensions?: Dimensions;
+  /** Irregular building outline; its bounding box replaces the derived dimensions */
+  envelope?: BuildingEnvelope;
+  /** Seeded random source for the optimizer (defaults to Math.random) */
+  random?: RandomSource;
+}
 
 export class ConstraintSolver {
   private config = DEFAULT_CONFIG.stageB;
@@ -26,7 +46,7 @@ export class ConstraintSolver {
   /**
    * Solve room placement with enhanced template-based or zone-based approach
    */
-  solve(spec: FloorPlanSpecification, variationSeed?: number): ConstraintSolution {
+  solve(spec: FloorPlanSpecification, variationSeed?: number, options: SolveOptions = {}): ConstraintSolution {
     const relaxedConstraints: string[] = [];
     
     // Calculate available area (accounting for circulation)
@@ -34,8 +54,20 @@ export class ConstraintSolver {
     
     // Estimate building dimensions (try to keep square-ish)
     const buildingSide = Math.sqrt(spec.totalArea);
-    const buildingWidth = buildingSide * 1.2; // Slightly rectangular
-    const buildingHeight = spec.totalArea / buildingWidth;
+    const envelope = options.envelope;
+    const buildingWidth = envelope?.width ?? options.buildingDimensions?.width ?? buildingSide * 1.2; // Slightly rectangular
+    const buildingHeight = envelope?.height ?? options.buildingDimensions?.height ?? spec.totalArea / buildingWidth;
+
+    // Fixed rooms are anchored after placement, so the placers only see the movable rooms
+    const fixedRooms = options.fixedRooms || [];
+    const fixedIds = new Set(fixedRooms.map(r => r.id));
+    const placementSpec: FloorPlanSpecification = fixedIds.size > 0
+      ? {
+          ...spec,
+          rooms: spec.rooms.filter(r => !fixedIds.has(r.id)),
+          adjacencyGraph: spec.adjacencyGraph.filter(e => !fixedIds.has(e.from) && !fixedIds.has(e.to))
+        }
+      : spec;
 
     console.log(`[ConstraintSolver] Building dimensions: ${buildingWidth.toFixed(2)}m x ${buildingHeight.toFixed(2)}m`);
     console.log(`[ConstraintSolver] Using ${this.useTemplates ? 'template-based' : 'zone-based'} placement`);
@@ -48,10 +80,11 @@ export class ConstraintSolver {
       try {
         console.log('[ConstraintSolver] Attempting template-based placement');
         const templateResult = templateBasedPlacer.placeWithTemplate(
-          spec,
+          placementSpec,
           buildingWidth,
           buildingHeight,
-          variationSeed
+          variationSeed,
+          envelope
         );
         
         placed = templateResult.placed;
@@ -64,29 +97,34 @@ export class ConstraintSolver {
         }
       } catch (error) {
         console.log(`[ConstraintSolver] Template placement failed: ${error}, using zone-based fallback`);
-        placed = this.zoneBasedPlacement(spec, buildingWidth, buildingHeight);
+        placed = this.zoneBasedPlacement(placementSpec, buildingWidth, buildingHeight, envelope);
         placementMethod = 'zone-based (fallback)';
       }
     } else {
       // Use zone-based placement
-      placed = this.zoneBasedPlacement(spec, buildingWidth, buildingHeight);
+      placed = this.zoneBasedPlacement(placementSpec, buildingWidth, buildingHeight, envelope);
       placementMethod = 'zone-based';
     }
 
     // Check for missing rooms
-    if (placed.length < spec.rooms.length) {
-      relaxedConstraints.push(`Could not place all rooms: ${spec.rooms.length - placed.length} rooms missing`);
+    if (placed.length < placementSpec.rooms.length) {
+      relaxedConstraints.push(`Could not place all rooms: ${placementSpec.rooms.length - placed.length} rooms missing`);
       
       // Try fallback placement for missing rooms
       const placedIds = new Set(placed.map(p => p.id));
-      const missingRooms = spec.rooms.filter(r => !placedIds.has(r.id));
+      const missingRooms = placementSpec.rooms.filter(r => !placedIds.has(r.id));
       
       for (const room of missingRooms) {
-        const fallback = this.forcePlacement(room, placed, buildingWidth, buildingHeight);
+        const fallback = this.forcePlacement(room, placed, buildingWidth, buildingHeight, envelope);
         placed.push(fallback);
       }
     }
 
+    // Anchor fixed rooms and move anything that landed on top of them
+    if (fixedRooms.length > 0) {
+      placed = this.applyFixedRooms(placed, fixedRooms, spec, buildingWidth, buildingHeight, relaxedConstraints, envelope);
+    }
+
     // Phase 2: Score initial placement
     console.log('[ConstraintSolver] Phase 2: Scoring initial placement');
     const initialScore = multiObjectiveScorer.score(placed, spec, buildingWidth, buildingHeight);
@@ -99,7 +137,8 @@ export class ConstraintSolver {
       placed,
       spec,
       buildingWidth,
-      buildingHeight
+      buildingHeight,
+      { fixedRoomIds: fixedIds, envelope, random: options.random }
     );
 
     console.log(`[ConstraintSolver] Optimized score: ${optimizationResult.bestScore.total.toFixed(2)} (${optimizationResult.iterations} iterations)`);
@@ -108,7 +147,9 @@ export class ConstraintSolver {
 
     placed = optimizationResult.bestPlacement;
 
-    // Check diversity if multiple variations
+    // Check diversity if multiple variations. Only logged: the result depends
+    // on which variations finished first, and a layout must depend only on
+    // its specification and seed to be reproducible.
     if (this.previousVariations.length > 0) {
       const diversityCheck = variationDiversityScorer.checkVariationSetDiversity(
         [...this.previousVariations, placed],
@@ -117,7 +158,7 @@ export class ConstraintSolver {
       console.log(`[ConstraintSolver] Variation diversity: ${diversityCheck.averageDiversity.toFixed(1)}%`);
       
       if (!diversityCheck.hasSufficientDiversity) {
-        relaxedConstraints.push('Low diversity compared to previous variations');
+        console.log('[ConstraintSolver] Low diversity compared to previous variations');
       }
     }
 
@@ -157,11 +198,103 @@ export class ConstraintSolver {
   private zoneBasedPlacement(
     spec: FloorPlanSpecification,
     buildingWidth: number,
-    buildingHeight: number
+    buildingHeight: number,
+    envelope?: BuildingEnvelope
   ): PlacedRoom[] {
     console.log('[ConstraintSolver] Phase 1: Zone allocation and hierarchical placement');
     const zoneAllocations = zoneBasedPlacer.allocateZones(spec, buildingWidth, buildingHeight);
-    return zoneBasedPlacer.placeRoomsInZones(zoneAllocations, spec, buildingWidth, buildingHeight);
+    return zoneBasedPlacer.placeRoomsInZones(zoneAllocations, spec, buildingWidth, buildingHeight, envelope);
+  }
+
+  /**
+   * Insert fixed rooms at their exact position. Movable rooms that overlap a
+   * fixed room are trimmed to the largest remaining side, or re-placed when
+   * the trimmed rectangle would be too small.
+   */
+  private applyFixedRooms(
+    placed: PlacedRoom[],
+    fixedRooms: FixedRoom[],
+    spec: FloorPlanSpecification,
+    buildingWidth: number,
+    buildingHeight: number,
+    relaxedConstraints: string[],
+    envelope?: BuildingEnvelope
+  ): PlacedRoom[] {
+    const anchored: PlacedRoom[] = fixedRooms.map(fixed => {
+      const roomSpec = spec.rooms.find(r => r.id === fixed.id);
+      if (!roomSpec) {
+        throw new FloorPlanError(
+          `Fixed room ${fixed.id} is not part of the specification`,
+          'B',
+          false,
+          { fixedRoom: fixed }
+        );
+      }
+      return { ...fixed, spec: roomSpec, zone: roomSpec.zone };
+    });
+
+    const result: PlacedRoom[] = [...anchored];
+    const displaced: PlacedRoom[] = [];
+
+    for (const room of placed) {
+      const blocking = anchored.filter(f => this.intersects(room, f));
+      if (blocking.length === 0) {
+        result.push(room);
+        continue;
+      }
+
+      const trimmed = this.trimAround(room, blocking[0]);
+      if (trimmed && !anchored.some(f => this.intersects(trimmed, f))) {
+        result.push(trimmed);
+      } else {
+        displaced.push(room);
+      }
+    }
+
+    for (const room of displaced) {
+      relaxedConstraints.push(`Room ${room.id} moved to make way for fixed room`);
+      result.push(this.forcePlacement(room.spec, result, buildingWidth, buildingHeight, envelope));
+    }
+
+    return result;
+  }
+
+  /**
+   * Largest usable part of a room that does not intersect the obstacle
+   */
+  private trimAround(room: PlacedRoom, obstacle: FixedRoom): PlacedRoom | null {
+    const minSide = 1.0;
+    const candidates = [
+      { x: room.x, y: room.y, width: obstacle.x - room.x, height: room.height },
+      { x: obstacle.x + obstacle.width, y: room.y, width: room.x + room.width - obstacle.x - obstacle.width, height: room.height },
+      { x: room.x, y: room.y, width: room.width, height: obstacle.y - room.y },
+      { x: room.x, y: obstacle.y + obstacle.height, width: room.width, height: room.y + room.height - obstacle.y - obstacle.height }
+    ].filter(c =>
+      c.width >= minSide &&
+      c.height >= minSide &&
+      c.width * c.height >= room.spec.minArea * 0.75
+    );
+
+    if (candidates.length === 0) return null;
+
+    const best = candidates.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+    return { ...room, ...best };
+  }
+
+  /**
+   * Strict interior intersection (shared edges are allowed)
+   */
+  private intersects(
+    a: { x: number; y: number; width: number; height: number },
+    b: { x: number; y: number; width: number; height: number }
+  ): boolean {
+    const epsilon = 0.01;
+    return (
+      a.x < b.x + b.width - epsilon &&
+      b.x < a.x + a.width - epsilon &&
+      a.y < b.y + b.height - epsilon &&
+      b.y < a.y + a.height - epsilon
+    );
   }
 
   /**
@@ -218,7 +351,8 @@ export class ConstraintSolver {
     room: RoomSpec,
     placed: PlacedRoom[],
     maxWidth: number,
-    maxHeight: number
+    maxHeight: number,
+    envelope?: BuildingEnvelope
   ): PlacedRoom {
     const targetArea = room.minArea;
     const width = Math.sqrt(targetArea);
@@ -235,7 +369,7 @@ export class ConstraintSolver {
           zone: room.zone
         };
 
-        if (!this.hasOverlap(testRoom, placed)) {
+        if (!this.hasOverlap(testRoom, placed) && (!envelope || envelope.containsRect(testRoom))) {
           return testRoom;
         }
       }
@@ -5,7 +5,7 @@
 
 import { Wall, Point2D } from '../types';
 import { DEFAULT_CONFIG } from '../config';
-import { distance, generateId } from '../utils';
+import { distance, generateId, RandomSource } from '../utils';
 import { PlacedRoom } from './zone-based-placer';
 
 interface WallSegment {
@@ -17,15 +17,18 @@ interface WallSegment {
 
 export class EnhancedWallSynthesizer {
   private config = DEFAULT_CONFIG.stageB.walls;
+  private random?: RandomSource; // Seeded source for wall IDs during synthesize()
 
   /**
-   * Generate walls with support for complex room shapes
+   * Generate walls with support for complex room shapes.
+   * An explicit building outline (site footprint) replaces the derived perimeter.
    */
-  synthesize(rooms: PlacedRoom[]): Wall[] {
+  synthesize(rooms: PlacedRoom[], outline?: Point2D[], random?: RandomSource): Wall[] {
+    this.random = random;
     const walls: Wall[] = [];
 
     // Step 1: Generate building envelope
-    const envelope = this.generateComplexEnvelope(rooms);
+    const envelope = this.generateComplexEnvelope(rooms, outline);
     walls.push(...envelope);
 
     // Step 2: Generate interior walls with L-shape support
@@ -41,11 +44,13 @@ export class EnhancedWallSynthesizer {
   /**
    * Generate complex building envelope (supports non-rectangular footprints)
    */
-  private generateComplexEnvelope(rooms: PlacedRoom[]): Wall[] {
+  private generateComplexEnvelope(rooms: PlacedRoom[], outline?: Point2D[]): Wall[] {
     if (rooms.length === 0) return [];
 
     // Calculate building perimeter points
-    const perimeterPoints = this.calculateBuildingPerimeter(rooms);
+    const perimeterPoints = outline && outline.length >= 3
+      ? outline.map(p => ({ ...p }))
+      : this.calculateBuildingPerimeter(rooms);
 
     // Generate walls from perimeter
     const walls: Wall[] = [];
@@ -54,7 +59,7 @@ export class EnhancedWallSynthesizer {
       const end = perimeterPoints[(i + 1) % perimeterPoints.length];
 
       walls.push({
-        id: generateId('wall_ext'),
+        id: generateId('wall_ext', this.random),
         type: 'exterior',
         thickness: this.config.exteriorThickness,
         geometry: { start, end },
@@ -124,7 +129,7 @@ export class EnhancedWallSynthesizer {
     // Convert segments to walls
     for (const segment of wallSegments) {
       walls.push({
-        id: generateId('wall_int'),
+        id: generateId('wall_int', this.random),
         type: segment.type,
         thickness: this.config.interiorThickness,
         geometry: {
@@ -276,7 +281,7 @@ export class EnhancedWallSynthesizer {
         if (!isCovered) {
           // Add partition wall
           walls.push({
-            id: generateId('wall_partition'),
+            id: generateId('wall_partition', this.random),
             type: 'interior',
             thickness: this.config.interiorThickness,
             geometry: {
@@ -490,7 +495,7 @@ export class EnhancedWallSynthesizer {
         }
 
         return {
-          id: generateId('wall_merged'),
+          id: generateId('wall_merged', this.random),
           type: wall1.type,
           thickness: wall1.thickness,
           geometry: { start, end },
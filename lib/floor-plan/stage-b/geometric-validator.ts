@@ -6,6 +6,7 @@
 import * as turf from '@turf/turf';
 import { GeometricValidationResult, FloorPlanGeometry, RoomGeometry, Wall } from '../types';
 import { polygonArea } from '../utils';
+import { BuildingEnvelope } from './building-envelope';
 
 export class GeometricValidator {
   
@@ -19,7 +20,8 @@ export class GeometricValidator {
       doorAccessibility: this.checkDoorAccessibility(geometry),
       windowExposure: this.checkWindowExposure(geometry),
       areaAccuracy: this.checkAreaAccuracy(geometry),
-      codeCompliance: this.checkCodeCompliance(geometry)
+      codeCompliance: this.checkCodeCompliance(geometry),
+      footprintContainment: this.checkFootprintContainment(geometry)
     };
 
     const errors: string[] = [];
@@ -43,6 +45,9 @@ export class GeometricValidator {
     if (!checks.codeCompliance) {
       warnings.push('Layout may not meet building code requirements');
     }
+    if (!checks.footprintContainment) {
+      errors.push('Rooms extend outside the building footprint');
+    }
 
     return {
       valid: errors.length === 0,
@@ -173,6 +178,21 @@ export class GeometricValidator {
     return true;
   }
 
+  /**
+   * Check that every room lies inside the building footprint (if constrained)
+   */
+  private checkFootprintContainment(geometry: FloorPlanGeometry): boolean {
+    const footprint = geometry.metadata.footprint;
+    if (!footprint || footprint.length < 3) return true;
+
+    const envelope = new BuildingEnvelope(footprint);
+    const { x, y } = envelope.origin; // Non-zero if the footprint is not normalized
+
+    return geometry.rooms.every(room =>
+      envelope.containsRect({ ...room.geometry.bounds, x: room.geometry.bounds.x - x, y: room.geometry.bounds.y - y })
+    );
+  }
+
   /**
    * Check that total area matches specification
    */
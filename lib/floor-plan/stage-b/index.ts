@@ -3,12 +3,16 @@
  * Main orchestrator for Stage B
  */
 
-import { FloorPlanSpecification, FloorPlanGeometry, FloorPlanError, RoomGeometry } from '../types';
-import { Timer, polygonArea, polygonCentroid, boundingBox, generateId } from '../utils';
-import { ConstraintSolver } from './constraint-solver';
+import { FloorPlanSpecification, FloorPlanGeometry, FloorPlanError, RoomGeometry, RoomSpec, BuildingGeometry } from '../types';
+import { MULTI_STOREY_CONFIG } from '../config';
+import { Timer, polygonArea, polygonCentroid, boundingBox, createSeededRandom, createRandomSeed, deriveSeed } from '../utils';
+import { ConstraintSolver, SolveOptions } from './constraint-solver';
+import { multiStoreyPlanner } from './multi-storey-planner';
 import { WallSynthesizer } from './wall-synthesizer';
 import { OpeningPlacer } from './opening-placer';
 import { GeometricValidator } from './geometric-validator';
+import { BuildingEnvelope } from './building-envelope';
+import { specificationFromGeometry, resolveLockedRooms } from './layout-regeneration';
 
 export interface StageBResult {
   geometry: FloorPlanGeometry;
@@ -20,6 +24,32 @@ export interface StageBResult {
   };
 }
 
+export interface StageBOptions extends SolveOptions {
+  /** Seeds placement, optimization and element IDs; recorded in the geometry metadata */
+  seed?: number;
+}
+
+export interface RegenerateOptions {
+  /** Specification the geometry was generated from; derived from the geometry when omitted */
+  specification?: FloorPlanSpecification;
+  /** Rooms to place that are not in the geometry yet */
+  addRooms?: RoomSpec[];
+  /** Floor area of the new layout; defaults to the saved area plus any added rooms */
+  totalArea?: number;
+  /** Random when omitted; recorded in the geometry metadata either way */
+  seed?: number;
+}
+
+export interface StageBBuildingResult {
+  building: BuildingGeometry;
+  metadata: {
+    generationTime: number;
+    iterations: number;
+    relaxedConstraints: string[];
+    validationWarnings: string[];
+  };
+}
+
 export class StageBOrchestrator {
   private solver: ConstraintSolver;
   private wallSynthesizer: WallSynthesizer;
@@ -38,13 +68,29 @@ export class StageBOrchestrator {
   /**
    * Generate 2D geometric layout from specification
    */
-  async generate(spec: FloorPlanSpecification, variationSeed?: number): Promise<StageBResult> {
+  async generate(
+    spec: FloorPlanSpecification,
+    variationSeed?: number,
+    options: StageBOptions = {}
+  ): Promise<StageBResult> {
     const timer = new Timer();
     timer.start();
 
     try {
+      // Step 0: Resolve the buildable outline from the site, if any
+      const envelope = options.envelope ?? BuildingEnvelope.fromSite(spec.metadata?.site, spec.totalArea) ?? undefined;
+      const envelopeWarnings: string[] = [];
+      if (envelope && envelope.area < spec.totalArea * 0.95) {
+        envelopeWarnings.push(
+          `Building footprint (${envelope.area.toFixed(1)}m²) is smaller than the requested area (${spec.totalArea.toFixed(1)}m²)`
+        );
+      }
+
+      // The same specification and seed always give the same geometry
+      const random = options.seed !== undefined ? createSeededRandom(options.seed) : undefined;
+
       // Step 1: Solve room placement constraints
-      const solution = this.solver.solve(spec, variationSeed);
+      const solution = this.solver.solve(spec, variationSeed, { ...options, envelope, random });
       
       if (!solution.solved && solution.relaxedConstraints.length > 5) {
         throw new FloorPlanError(
@@ -59,7 +105,7 @@ export class StageBOrchestrator {
       const rooms = this.convertToRoomGeometry(solution.rooms, spec);
 
       // Step 3: Generate walls
-      const walls = this.wallSynthesizer.synthesize(solution.rooms);
+      const walls = this.wallSynthesizer.synthesize(solution.rooms, envelope?.polygon, random);
 
       // Step 4: Place doors and windows
       const openings = this.openingPlacer.placeOpenings(
@@ -68,7 +114,8 @@ export class StageBOrchestrator {
           spec: spec.rooms.find(sr => sr.id === r.id)!
         })),
         walls,
-        spec
+        spec,
+        random
       );
 
       // Step 5: Calculate building dimensions
@@ -89,7 +136,10 @@ export class StageBOrchestrator {
           generatedAt: new Date().toISOString(),
           algorithmVersion: '1.0.0',
           confidence: this.calculateConfidence(solution, spec),
-          relaxedConstraints: solution.relaxedConstraints
+          relaxedConstraints: solution.relaxedConstraints,
+          ...(spec.metadata?.level !== undefined && { level: spec.metadata.level }),
+          ...(envelope && { footprint: envelope.polygon }),
+          ...(options.seed !== undefined && { seed: options.seed })
         },
         rooms,
         walls,
@@ -99,6 +149,15 @@ export class StageBOrchestrator {
 
       // Step 8: Validate geometry
       const validationResult = this.validator.validate(geometry);
+
+      if (!validationResult.checks.footprintContainment) {
+        throw new FloorPlanError(
+          'Layout spills outside the building footprint',
+          'B',
+          true,
+          { validation: validationResult }
+        );
+      }
       
       if (!validationResult.valid) {
         const criticalErrors = validationResult.errors;
@@ -120,7 +179,7 @@ export class StageBOrchestrator {
           generationTime,
           iterations: solution.iterations,
           relaxedConstraints: solution.relaxedConstraints,
-          validationWarnings: validationResult.warnings
+          validationWarnings: [...envelopeWarnings, ...validationResult.warnings]
         }
       };
 
@@ -137,6 +196,109 @@ export class StageBOrchestrator {
     }
   }
 
+  /**
+   * Generate a complete building, one geometry per level.
+   * Single-storey specifications produce a building with one level.
+   * Each level is seeded separately (see deriveSeed) from `seed`.
+   */
+  async generateBuilding(
+    spec: FloorPlanSpecification,
+    variationSeed?: number,
+    seed?: number
+  ): Promise<StageBBuildingResult> {
+    const timer = new Timer();
+    timer.start();
+
+    // Every level shares the outline, sized for one storey's share of the area
+    const floors = multiStoreyPlanner.resolveFloorCount(spec);
+    const envelope = BuildingEnvelope.fromSite(spec.metadata?.site, spec.totalArea / floors) ?? undefined;
+    const plan = multiStoreyPlanner.plan(spec, envelope);
+    const levels: BuildingGeometry['levels'] = [];
+    let iterations = 0;
+    const relaxedConstraints: string[] = [];
+    const validationWarnings: string[] = [];
+
+    for (const levelPlan of plan.levels) {
+      const result = await this.generate(levelPlan.spec, variationSeed, {
+        fixedRooms: levelPlan.fixedRooms,
+        buildingDimensions: plan.floors > 1 ? plan.footprint : undefined,
+        envelope,
+        seed: seed !== undefined ? deriveSeed(seed, 'level', levelPlan.level) : undefined
+      });
+
+      const prefix = plan.floors > 1 ? `${levelPlan.name}: ` : '';
+      iterations += result.metadata.iterations;
+      relaxedConstraints.push(...result.metadata.relaxedConstraints.map(c => prefix + c));
+      validationWarnings.push(...result.metadata.validationWarnings.map(w => prefix + w));
+
+      levels.push({
+        level: levelPlan.level,
+        name: levelPlan.name,
+        elevation: levelPlan.elevation,
+        geometry: result.geometry
+      });
+    }
+
+    const building: BuildingGeometry = {
+      metadata: {
+        totalArea: spec.totalArea,
+        floors: plan.floors,
+        floorHeight: MULTI_STOREY_CONFIG.floorHeight,
+        footprint: plan.floors > 1 ? plan.footprint : levels[0].geometry.metadata.buildingDimensions,
+        generatedAt: new Date().toISOString(),
+        algorithmVersion: '1.0.0',
+        confidence: Math.min(...levels.map(l => l.geometry.metadata.confidence)),
+        ...(seed !== undefined && { seed })
+      },
+      levels,
+      verticalCores: plan.verticalCores
+    };
+
+    return {
+      building,
+      metadata: {
+        generationTime: timer.stop(),
+        iterations,
+        relaxedConstraints,
+        validationWarnings
+      }
+    };
+  }
+
+  /**
+   * Lay out one saved level again, keeping the locked rooms (and any stair
+   * or lift core) exactly where they are. Only the other rooms go through
+   * placement and optimization; walls and openings are synthesized afresh.
+   * Without a fixed footprint the building grows with any added rooms.
+   */
+  async regenerate(
+    geometry: FloorPlanGeometry,
+    lockedRoomIds: string[],
+    options: RegenerateOptions = {}
+  ): Promise<StageBResult> {
+    const fixedRooms = resolveLockedRooms(geometry, lockedRoomIds);
+    if (fixedRooms.length === geometry.rooms.length && !options.addRooms?.length) {
+      throw new FloorPlanError('Every room is locked; unlock at least one room to regenerate', 'B', false);
+    }
+
+    const spec = specificationFromGeometry(geometry, options.specification, options.addRooms);
+    if (options.totalArea !== undefined) {
+      spec.totalArea = options.totalArea;
+    }
+    const { footprint, buildingDimensions } = geometry.metadata;
+    const growth = Math.sqrt(Math.max(1, spec.totalArea / geometry.metadata.totalArea));
+
+    return this.generate(spec, undefined, {
+      fixedRooms,
+      buildingDimensions: {
+        width: buildingDimensions.width * growth,
+        height: buildingDimensions.height * growth
+      },
+      envelope: footprint ? new BuildingEnvelope(footprint) : undefined,
+      seed: options.seed ?? createRandomSeed()
+    });
+  }
+
   /**
    * Convert solver output to room geometry
    */
@@ -229,7 +391,9 @@ export class StageBOrchestrator {
       study: 'Study',
       utility: 'Utility',
       garage: 'Garage',
-      balcony: 'Balcony'
+      balcony: 'Balcony',
+      stair: 'Stair',
+      lift: 'Lift'
     };
 
     return typeNames[type] || type.charAt(0).toUpperCase() + type.slice(1);
@@ -253,6 +417,9 @@ export class StageBOrchestrator {
 
 // Export all Stage B components
 export { ConstraintSolver } from './constraint-solver';
+export { multiStoreyPlanner } from './multi-storey-planner';
+export { BuildingEnvelope } from './building-envelope';
+export { specificationFromGeometry, resolveLockedRooms } from './layout-regeneration';
 export { WallSynthesizer } from './wall-synthesizer';
 export { OpeningPlacer } from './opening-placer';
 export { GeometricValidator } from './geometric-validator';
@@ -0,0 +1,104 @@
+/**
+ * Stage B: Layout Regeneration
+ * Rebuilds the specification of a saved level so part of it can be laid out
+ * again around rooms the user has locked in place
+ */
+
+import { FloorPlanSpecification, FloorPlanGeometry, FloorPlanError, RoomSpec, RoomGeometry, AdjacencyEdge } from '../types';
+import { ROOM_ASPECT_RATIOS, ROOM_ZONES } from '../config';
+import { FixedRoom } from './constraint-solver';
+
+// Saved areas may drift this far when a room is laid out again
+const AREA_TOLERANCE = 0.15;
+
+// Vertical cores line up with the floors above and below, so they never move
+const CORE_TYPES = new Set(['stair', 'lift']);
+
+// Room types that do without a window when derived from geometry alone
+const INTERIOR_TYPES = new Set(['hallway', 'utility', 'stair', 'lift']);
+
+/**
+ * Specification for exactly the rooms in `geometry`, plus `addRooms`. Rooms
+ * described by the saved specification keep their requirements; the rest are
+ * derived from their current size, and adjacencies fall back to the rooms'
+ * door connections.
+ */
+export function specificationFromGeometry(
+  geometry: FloorPlanGeometry,
+  saved?: FloorPlanSpecification,
+  addRooms: RoomSpec[] = []
+): FloorPlanSpecification {
+  const roomIds = new Set([...geometry.rooms.map(r => r.id), ...addRooms.map(r => r.id)]);
+  const savedRooms = new Map((saved?.rooms || []).map(r => [r.id, r]));
+
+  const rooms = [...geometry.rooms.map(room => savedRooms.get(room.id) ?? deriveRoomSpec(room)), ...addRooms];
+  const addedArea = addRooms.reduce((sum, room) => sum + (room.minArea + room.maxArea) / 2, 0);
+
+  const adjacencyGraph: AdjacencyEdge[] = saved
+    ? saved.adjacencyGraph.filter(edge => roomIds.has(edge.from) && roomIds.has(edge.to))
+    : geometry.adjacencyGraph.edges.map(edge => ({
+        from: edge.from,
+        to: edge.to,
+        weight: 7,
+        type: 'should' as const
+      }));
+
+  const constraints = (saved?.constraints || []).filter(constraint =>
+    (!constraint.room || roomIds.has(constraint.room)) &&
+    (!constraint.rooms || constraint.rooms.every(id => roomIds.has(id)))
+  );
+
+  const level = geometry.metadata.level ?? saved?.metadata?.level;
+
+  return {
+    totalArea: geometry.metadata.totalArea + addedArea,
+    tolerance: saved?.tolerance ?? 10,
+    rooms,
+    adjacencyGraph,
+    constraints,
+    style: saved?.style ?? 'modern',
+    metadata: {
+      ...saved?.metadata,
+      // The geometry is a single level; its footprint replaces the site
+      floors: 1,
+      site: undefined,
+      ...(level !== undefined && { level })
+    }
+  };
+}
+
+/**
+ * The rooms that keep their position: the requested ones plus any stair or
+ * lift core. Throws for IDs that are not rooms of the geometry.
+ */
+export function resolveLockedRooms(geometry: FloorPlanGeometry, lockedRoomIds: string[]): FixedRoom[] {
+  const unknown = lockedRoomIds.filter(id => !geometry.rooms.some(r => r.id === id));
+  if (unknown.length > 0) {
+    throw new FloorPlanError(`Unknown room IDs: ${unknown.join(', ')}`, 'B', false, { unknown });
+  }
+
+  const locked = new Set(lockedRoomIds);
+  return geometry.rooms
+    .filter(room => locked.has(room.id) || CORE_TYPES.has(room.type))
+    .map(room => ({ id: room.id, ...room.geometry.bounds }));
+}
+
+function deriveRoomSpec(room: RoomGeometry): RoomSpec {
+  const type = room.type as keyof typeof ROOM_ASPECT_RATIOS;
+  const { width, height } = room.geometry.bounds;
+  const aspect = width / height;
+  const range = ROOM_ASPECT_RATIOS[type] || { min: 0.5, max: 2.0 };
+
+  return {
+    id: room.id,
+    type: room.type,
+    minArea: room.geometry.area * (1 - AREA_TOLERANCE),
+    maxArea: room.geometry.area * (1 + AREA_TOLERANCE),
+    // Widened so the current shape is always acceptable
+    aspectRatio: { min: Math.min(range.min, aspect), max: Math.max(range.max, aspect) },
+    zone: ROOM_ZONES[type] || 'private',
+    requiresWindow: !INTERIOR_TYPES.has(room.type),
+    requiresDoor: true,
+    priority: 5
+  };
+}
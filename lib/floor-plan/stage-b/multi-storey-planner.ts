@@ -0,0 +1,313 @@
+/**
+ * Stage B: Multi-Storey Planner
+ * Splits a building specification into one specification per level, placing
+ * a stair core (and lift for taller buildings) at the same position on every floor
+ */
+
+import { FloorPlanSpecification, RoomSpec, AdjacencyEdge, VerticalCore, Dimensions } from '../types';
+import { MULTI_STOREY_CONFIG, ROOM_ASPECT_RATIOS } from '../config';
+import { FixedRoom } from './constraint-solver';
+import { BuildingEnvelope } from './building-envelope';
+
+export interface LevelPlan {
+  level: number;
+  name: string;
+  elevation: number;
+  spec: FloorPlanSpecification;
+  fixedRooms: FixedRoom[];
+}
+
+export interface MultiStoreyPlan {
+  floors: number;
+  footprint: Dimensions;
+  verticalCores: VerticalCore[];
+  levels: LevelPlan[];
+}
+
+const LEVEL_NAMES = ['Ground Floor', 'First Floor', 'Second Floor', 'Third Floor'];
+
+// Room types that always stay on the ground floor
+const GROUND_FLOOR_TYPES = new Set(['living', 'dining', 'kitchen', 'utility', 'garage', 'hallway']);
+
+export class MultiStoreyPlanner {
+  private config = MULTI_STOREY_CONFIG;
+
+  /**
+   * Resolve the number of floors requested by a specification
+   */
+  resolveFloorCount(spec: FloorPlanSpecification): number {
+    const requested = Math.round(spec.metadata?.floors || 1);
+    return Math.max(1, Math.min(this.config.maxFloors, requested));
+  }
+
+  /**
+   * Build the per-level plan for a specification.
+   * With an envelope, every level shares its outline and the cores are kept inside it.
+   */
+  plan(spec: FloorPlanSpecification, envelope?: BuildingEnvelope): MultiStoreyPlan {
+    const floors = this.resolveFloorCount(spec);
+
+    // Same proportions the constraint solver uses for a single storey
+    const footprintArea = spec.totalArea / floors;
+    const width = envelope?.width ?? Math.sqrt(footprintArea) * 1.2;
+    const footprint = { width, height: envelope?.height ?? footprintArea / width };
+
+    const verticalCores = floors > 1 ? this.placeCores(floors, footprint, envelope) : [];
+    const assignment = this.assignFloors(spec.rooms, floors);
+
+    const levels: LevelPlan[] = [];
+    for (let level = 0; level < floors; level++) {
+      levels.push(this.buildLevel(spec, level, floors, footprintArea, assignment, verticalCores));
+    }
+
+    return { floors, footprint, verticalCores, levels };
+  }
+
+  /**
+   * Place the stair against the east wall, centred in depth so it can reach
+   * both the public (front) and private (rear) zones. The lift sits beside it.
+   */
+  private placeCores(floors: number, footprint: Dimensions, envelope?: BuildingEnvelope): VerticalCore[] {
+    const servesLevels = Array.from({ length: floors }, (_, i) => i);
+    const stair = this.config.stairCore;
+
+    const stairBounds = this.fitInEnvelope({
+      x: footprint.width - stair.width,
+      y: Math.max(0, (footprint.height - stair.height) / 2),
+      width: stair.width,
+      height: Math.min(stair.height, footprint.height)
+    }, footprint, envelope);
+
+    const cores: VerticalCore[] = [
+      { id: 'core-stair', type: 'stair', bounds: stairBounds, servesLevels }
+    ];
+
+    if (floors >= this.config.liftMinFloors) {
+      const lift = this.config.liftCore;
+      const below = { x: stairBounds.x + stairBounds.width - lift.width, y: stairBounds.y - lift.height, width: lift.width, height: lift.height };
+      const beside = { x: stairBounds.x - lift.width, y: stairBounds.y, width: lift.width, height: lift.height };
+      const fitsBelow = below.y >= 0 && (!envelope || envelope.containsRect(below));
+
+      cores.push({
+        id: 'core-lift',
+        type: 'lift',
+        bounds: fitsBelow ? below : beside,
+        servesLevels
+      });
+    }
+
+    return cores;
+  }
+
+  /**
+   * Keep a core at its preferred position if it fits the outline, otherwise
+   * move it to the contained position nearest the east wall
+   */
+  private fitInEnvelope(
+    bounds: { x: number; y: number; width: number; height: number },
+    footprint: Dimensions,
+    envelope?: BuildingEnvelope
+  ) {
+    if (!envelope || envelope.containsRect(bounds)) return bounds;
+
+    const step = 0.5;
+    let best: typeof bounds | null = null;
+    let bestCost = Infinity;
+    for (let x = footprint.width - bounds.width; x >= 0; x -= step) {
+      for (let y = 0; y <= footprint.height - bounds.height; y += step) {
+        const candidate = { ...bounds, x, y };
+        if (!envelope.containsRect(candidate)) continue;
+        const cost = Math.abs(x - bounds.x) + Math.abs(y - bounds.y);
+        if (cost < bestCost) {
+          best = candidate;
+          bestCost = cost;
+        }
+      }
+    }
+    return best || bounds;
+  }
+
+  /**
+   * Assign every room to a level.
+   * Public and service rooms stay on the ground floor, private rooms go
+   * upstairs, and one bathroom stays downstairs when there is more than one.
+   */
+  private assignFloors(rooms: RoomSpec[], floors: number): Map<string, number> {
+    const assignment = new Map<string, number>();
+    if (floors === 1) {
+      rooms.forEach(room => assignment.set(room.id, 0));
+      return assignment;
+    }
+
+    const upperLoad = new Array(floors).fill(0);
+    const bedroomsPerLevel = new Array(floors).fill(0);
+    const bathroomsPerLevel = new Array(floors).fill(0);
+    const bathrooms = rooms.filter(r => r.type === 'bathroom' && r.floor === undefined);
+
+    const assign = (room: RoomSpec, level: number) => {
+      assignment.set(room.id, level);
+      upperLoad[level] += room.minArea;
+      if (room.type === 'bedroom') bedroomsPerLevel[level]++;
+      if (room.type === 'bathroom') bathroomsPerLevel[level]++;
+    };
+
+    const lightestUpperLevel = () => {
+      let best = 1;
+      for (let level = 2; level < floors; level++) {
+        if (upperLoad[level] < upperLoad[best]) best = level;
+      }
+      return best;
+    };
+
+    // Explicit assignments win
+    for (const room of rooms) {
+      if (room.floor !== undefined) {
+        assign(room, Math.max(0, Math.min(floors - 1, Math.round(room.floor))));
+      }
+    }
+
+    for (const room of rooms) {
+      if (assignment.has(room.id) || room.type === 'bathroom') continue;
+
+      if (GROUND_FLOOR_TYPES.has(room.type)) {
+        assign(room, 0);
+      }
+    }
+
+    // Private rooms (and balconies) fill the upper floors, largest first
+    const upstairs = rooms
+      .filter(r => !assignment.has(r.id) && r.type !== 'bathroom')
+      .sort((a, b) => b.minArea - a.minArea);
+    for (const room of upstairs) {
+      assign(room, lightestUpperLevel());
+    }
+
+    // Bathrooms: a guest bathroom downstairs, the rest where the bedrooms are
+    bathrooms.forEach((room, index) => {
+      if (index === 0 && bathrooms.length > 1) {
+        assign(room, 0);
+        return;
+      }
+
+      let best = 1;
+      for (let level = 1; level < floors; level++) {
+        const demand = bedroomsPerLevel[level] - bathroomsPerLevel[level];
+        if (demand > bedroomsPerLevel[best] - bathroomsPerLevel[best]) best = level;
+      }
+      assign(room, best);
+    });
+
+    return assignment;
+  }
+
+  /**
+   * Build the specification for a single level
+   */
+  private buildLevel(
+    spec: FloorPlanSpecification,
+    level: number,
+    floors: number,
+    footprintArea: number,
+    assignment: Map<string, number>,
+    verticalCores: VerticalCore[]
+  ): LevelPlan {
+    const rooms: RoomSpec[] = spec.rooms
+      .filter(room => assignment.get(room.id) === level)
+      .map(room => ({ ...room, floor: level }));
+    const roomIds = new Set(rooms.map(r => r.id));
+
+    const adjacencyGraph: AdjacencyEdge[] = spec.adjacencyGraph.filter(
+      edge => roomIds.has(edge.from) && roomIds.has(edge.to)
+    );
+    const constraints = spec.constraints.filter(c => {
+      if (c.room) return roomIds.has(c.room);
+      if (c.rooms) return c.rooms.every(id => roomIds.has(id));
+      return true;
+    });
+
+    const fixedRooms: FixedRoom[] = [];
+
+    for (const core of verticalCores) {
+      rooms.push(this.coreRoomSpec(core, level));
+      fixedRooms.push({ id: core.id, ...core.bounds });
+    }
+
+    const stair = verticalCores.find(c => c.type === 'stair');
+    if (stair) {
+      if (level === 0) {
+        const hub = rooms.find(r => r.type === 'hallway') || rooms.find(r => r.type === 'living');
+        if (hub) {
+          adjacencyGraph.push({ from: stair.id, to: hub.id, weight: 9, type: 'must', justification: 'Stair rises from the entrance circulation' });
+        }
+      } else {
+        // Upper floors are reached through a landing in front of the stair
+        const landingId = `landing-L${level}`;
+        const aspect = ROOM_ASPECT_RATIOS.hallway;
+        rooms.push({
+          id: landingId,
+          type: 'hallway',
+          minArea: this.config.landingArea,
+          maxArea: this.config.landingArea * 2.5,
+          aspectRatio: { min: aspect.min, max: 1 / aspect.min },
+          zone: 'public',
+          requiresWindow: false,
+          requiresDoor: false,
+          priority: 10,
+          floor: level
+        });
+
+        adjacencyGraph.push({ from: landingId, to: stair.id, weight: 10, type: 'must', justification: 'Landing serves the stair' });
+        for (const room of rooms) {
+          if (room.id !== landingId && room.type !== 'stair' && room.type !== 'lift') {
+            adjacencyGraph.push({ from: landingId, to: room.id, weight: 8, type: 'should', justification: 'Access from landing' });
+          }
+        }
+      }
+    }
+
+    const floorHeight = this.config.floorHeight;
+
+    return {
+      level,
+      name: LEVEL_NAMES[level] || `Level ${level}`,
+      elevation: level * floorHeight,
+      fixedRooms,
+      spec: {
+        ...spec,
+        totalArea: footprintArea,
+        rooms,
+        adjacencyGraph,
+        constraints,
+        metadata: {
+          ...spec.metadata,
+          floors,
+          level
+        }
+      }
+    };
+  }
+
+  /**
+   * Room specification occupying a vertical core on one level
+   */
+  private coreRoomSpec(core: VerticalCore, level: number): RoomSpec {
+    const { width, height } = core.bounds;
+    const area = width * height;
+    const ratio = width / height;
+
+    return {
+      id: core.id,
+      type: core.type,
+      minArea: area,
+      maxArea: area,
+      aspectRatio: { min: ratio, max: ratio },
+      zone: 'public',
+      requiresWindow: false,
+      requiresDoor: true,
+      priority: 10,
+      floor: level
+    };
+  }
+}
+
+export const multiStoreyPlanner = new MultiStoreyPlanner();
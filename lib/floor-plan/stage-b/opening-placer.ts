@@ -5,7 +5,7 @@
 
 import { Wall, Opening, Point2D, FloorPlanSpecification, RoomSpec } from '../types';
 import { DEFAULT_CONFIG } from '../config';
-import { distance, generateId, pointOnWall } from '../utils';
+import { distance, generateId, pointOnWall, RandomSource } from '../utils';
 
 interface RoomBounds {
   id: string;
@@ -18,6 +18,7 @@ interface RoomBounds {
 
 export class OpeningPlacer {
   private config = DEFAULT_CONFIG.stageB.openings;
+  private random?: RandomSource; // Seeded source for opening IDs during placeOpenings()
 
   /**
    * Place doors and windows on walls
@@ -25,13 +26,17 @@ export class OpeningPlacer {
   placeOpenings(
     rooms: RoomBounds[],
     walls: Wall[],
-    spec: FloorPlanSpecification
+    spec: FloorPlanSpecification,
+    random?: RandomSource
   ): Opening[] {
+    this.random = random;
     const openings: Opening[] = [];
 
-    // Step 1: Place entry door
-    const entryDoor = this.placeEntryDoor(walls, spec);
-    if (entryDoor) openings.push(entryDoor);
+    // Step 1: Place entry door (ground floor only)
+    if (!spec.metadata?.level) {
+      const entryDoor = this.placeEntryDoor(walls, spec);
+      if (entryDoor) openings.push(entryDoor);
+    }
 
     // Step 2: Place interior doors
     const interiorDoors = this.placeInteriorDoors(rooms, walls, spec);
@@ -85,7 +90,7 @@ export class OpeningPlacer {
     }
 
     return {
-      id: generateId('door_entry'),
+      id: generateId('door_entry', this.random),
       type: 'door',
       width: this.config.doorWidth.entrance,
       wallId: targetWall.id,
@@ -125,7 +130,7 @@ export class OpeningPlacer {
         // Check if wall is long enough for door
         if (sharedWall.length >= this.config.doorWidth.standard + 2 * this.config.minClearance) {
           doors.push({
-            id: generateId('door'),
+            id: generateId('door', this.random),
             type: 'door',
             width: this.config.doorWidth.standard,
             wallId: sharedWall.id,
@@ -158,7 +163,7 @@ export class OpeningPlacer {
           for (const wall of roomWalls) {
             if (wall.length >= this.config.doorWidth.standard + 2 * this.config.minClearance) {
               doors.push({
-                id: generateId('door'),
+                id: generateId('door', this.random),
                 type: 'door',
                 width: this.config.doorWidth.standard,
                 wallId: wall.id,
@@ -229,7 +234,7 @@ export class OpeningPlacer {
             const position = numWindows === 1 ? 0.5 : (i === 0 ? 0.33 : 0.67);
             
             windows.push({
-              id: generateId('window'),
+              id: generateId('window', this.random),
               type: 'window',
               width: windowWidth / numWindows,
               height: 1.5, // Standard window height
@@ -6,6 +6,8 @@
 import { FloorPlanSpecification } from '../types';
 import { PlacedRoom } from './zone-based-placer';
 import { multiObjectiveScorer, LayoutScore } from './multi-objective-scorer';
+import { BuildingEnvelope } from './building-envelope';
+import { RandomSource } from '../utils';
 
 export interface AnnealingConfig {
   initialTemperature: number;
@@ -23,8 +25,18 @@ export interface OptimizationResult {
   converged: boolean;
 }
 
+export interface OptimizeOptions {
+  /** Rooms the optimizer must not move or resize */
+  fixedRoomIds?: Set<string>;
+  /** Irregular building outline rooms must stay inside */
+  envelope?: BuildingEnvelope;
+  /** Seeded random source for reproducible runs (defaults to Math.random) */
+  random?: RandomSource;
+}
+
 export class SimulatedAnnealingOptimizer {
   private config: AnnealingConfig;
+  private random: RandomSource = Math.random;
 
   constructor(config?: Partial<AnnealingConfig>) {
     this.config = {
@@ -44,8 +56,11 @@ export class SimulatedAnnealingOptimizer {
     initialPlacement: PlacedRoom[],
     spec: FloorPlanSpecification,
     buildingWidth: number,
-    buildingHeight: number
+    buildingHeight: number,
+    options: OptimizeOptions = {}
   ): OptimizationResult {
+    const fixedRoomIds = options.fixedRoomIds || new Set<string>();
+    this.random = options.random || Math.random;
     let currentPlacement = this.deepCopyPlacement(initialPlacement);
     let currentScore = multiObjectiveScorer.score(currentPlacement, spec, buildingWidth, buildingHeight);
     
@@ -69,7 +84,8 @@ export class SimulatedAnnealingOptimizer {
       for (let p = 0; p < this.config.perturbationsPerIteration; p++) {
         const neighbor = this.generateNeighbor(currentPlacement, spec, buildingWidth, buildingHeight);
         
-        if (!neighbor) continue;
+        if (!neighbor || this.movesFixedRoom(neighbor, currentPlacement, fixedRoomIds)) continue;
+        if (options.envelope && this.leavesEnvelope(neighbor, currentPlacement, options.envelope)) continue;
 
         const neighborScore = multiObjectiveScorer.score(neighbor, spec, buildingWidth, buildingHeight);
         const scoreDelta = neighborScore.total - currentScore.total;
@@ -77,7 +93,7 @@ export class SimulatedAnnealingOptimizer {
         // Accept if better, or with probability based on temperature
         const acceptanceProbability = scoreDelta > 0 ? 1 : Math.exp(scoreDelta / temperature);
         
-        if (Math.random() < acceptanceProbability) {
+        if (this.random() < acceptanceProbability) {
           currentPlacement = neighbor;
           currentScore = neighborScore;
 
@@ -118,7 +134,7 @@ export class SimulatedAnnealingOptimizer {
     maxWidth: number,
     maxHeight: number
   ): PlacedRoom[] | null {
-    const perturbationType = Math.random();
+    const perturbationType = this.random();
     
     if (perturbationType < 0.3) {
       // Type 1: Swap two rooms
@@ -142,8 +158,8 @@ export class SimulatedAnnealingOptimizer {
     if (placement.length < 2) return null;
 
     const neighbor = this.deepCopyPlacement(placement);
-    const idx1 = Math.floor(Math.random() * neighbor.length);
-    const idx2 = Math.floor(Math.random() * neighbor.length);
+    const idx1 = Math.floor(this.random() * neighbor.length);
+    const idx2 = Math.floor(this.random() * neighbor.length);
     
     if (idx1 === idx2) return null;
 
@@ -188,11 +204,11 @@ export class SimulatedAnnealingOptimizer {
     if (placement.length === 0) return null;
 
     const neighbor = this.deepCopyPlacement(placement);
-    const idx = Math.floor(Math.random() * neighbor.length);
+    const idx = Math.floor(this.random() * neighbor.length);
     const room = neighbor[idx];
 
     // Adjust by ±10%
-    const adjustmentFactor = 0.9 + Math.random() * 0.2; // 0.9 to 1.1
+    const adjustmentFactor = 0.9 + this.random() * 0.2; // 0.9 to 1.1
     const newWidth = room.width * adjustmentFactor;
     const newHeight = room.height / adjustmentFactor; // Maintain approximate area
 
@@ -233,12 +249,12 @@ export class SimulatedAnnealingOptimizer {
     if (placement.length === 0) return null;
 
     const neighbor = this.deepCopyPlacement(placement);
-    const idx = Math.floor(Math.random() * neighbor.length);
+    const idx = Math.floor(this.random() * neighbor.length);
     const room = neighbor[idx];
 
     // Shift by small random amount
-    const shiftX = (Math.random() - 0.5) * 1.0; // ±0.5m
-    const shiftY = (Math.random() - 0.5) * 1.0;
+    const shiftX = (this.random() - 0.5) * 1.0; // ±0.5m
+    const shiftY = (this.random() - 0.5) * 1.0;
 
     room.x += shiftX;
     room.y += shiftY;
@@ -274,7 +290,7 @@ export class SimulatedAnnealingOptimizer {
     const neighbor = this.deepCopyPlacement(placement);
     
     // Select a random room and find its adjacent rooms
-    const seedIdx = Math.floor(Math.random() * neighbor.length);
+    const seedIdx = Math.floor(this.random() * neighbor.length);
     const seedRoom = neighbor[seedIdx];
     const cluster = [seedRoom];
 
@@ -329,6 +345,38 @@ export class SimulatedAnnealingOptimizer {
     return neighbor;
   }
 
+  /**
+   * Check whether a perturbation touched any fixed room
+   */
+  private movesFixedRoom(neighbor: PlacedRoom[], current: PlacedRoom[], fixedRoomIds: Set<string>): boolean {
+    if (fixedRoomIds.size === 0) return false;
+
+    return neighbor.some(room => {
+      if (!fixedRoomIds.has(room.id)) return false;
+      const before = current.find(r => r.id === room.id);
+      return !before ||
+        before.x !== room.x ||
+        before.y !== room.y ||
+        before.width !== room.width ||
+        before.height !== room.height;
+    });
+  }
+
+  /**
+   * Check whether a perturbation pushed a room outside the building outline
+   */
+  private leavesEnvelope(neighbor: PlacedRoom[], current: PlacedRoom[], envelope: BuildingEnvelope): boolean {
+    return neighbor.some((room, index) => {
+      const before = current[index];
+      const changed = !before ||
+        before.x !== room.x ||
+        before.y !== room.y ||
+        before.width !== room.width ||
+        before.height !== room.height;
+      return changed && !envelope.containsRect(room);
+    });
+  }
+
   /**
    * Check if rooms are adjacent
    */
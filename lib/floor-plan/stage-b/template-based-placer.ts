@@ -7,6 +7,7 @@ import { FloorPlanSpecification, RoomSpec } from '../types';
 import { PlacedRoom } from './zone-based-placer';
 import { LayoutTemplate, templateSelector } from './layout-templates';
 import { classifyBuildingTypology } from '../stage-a/architectural-rules';
+import { BuildingEnvelope } from './building-envelope';
 
 export interface TemplatePlacementResult {
   placed: PlacedRoom[];
@@ -22,7 +23,8 @@ export class TemplateBasedPlacer {
     spec: FloorPlanSpecification,
     buildingWidth: number,
     buildingHeight: number,
-    variationSeed?: number
+    variationSeed?: number,
+    envelope?: BuildingEnvelope
   ): TemplatePlacementResult {
     // Classify building typology
     const typology = classifyBuildingTypology(spec.totalArea, spec.rooms.length);
@@ -49,7 +51,8 @@ export class TemplateBasedPlacer {
       spec,
       buildingWidth,
       buildingHeight,
-      variationSeed
+      variationSeed,
+      envelope
     );
 
     // Calculate confidence based on constraint satisfaction
@@ -70,7 +73,8 @@ export class TemplateBasedPlacer {
     spec: FloorPlanSpecification,
     buildingWidth: number,
     buildingHeight: number,
-    variationSeed?: number
+    variationSeed?: number,
+    envelope?: BuildingEnvelope
   ): PlacedRoom[] {
     const placed: PlacedRoom[] = [];
 
@@ -99,7 +103,8 @@ export class TemplateBasedPlacer {
         placed,
         spec,
         template,
-        variationSeed
+        variationSeed,
+        envelope
       );
 
       placed.push(...zonePlaced);
@@ -183,7 +188,8 @@ export class TemplateBasedPlacer {
     existingPlacements: PlacedRoom[],
     spec: FloorPlanSpecification,
     template: LayoutTemplate,
-    variationSeed?: number
+    variationSeed?: number,
+    envelope?: BuildingEnvelope
   ): PlacedRoom[] {
     const placed: PlacedRoom[] = [];
 
@@ -212,7 +218,7 @@ export class TemplateBasedPlacer {
       }
 
       // Find position using packing strategy
-      const position = packingStrategy(
+      let position = packingStrategy(
         room,
         width,
         height,
@@ -222,6 +228,11 @@ export class TemplateBasedPlacer {
         spec
       );
 
+      // Irregular footprints: fall back to a grid search restricted to the outline
+      if (position && envelope && !envelope.containsRect(position)) {
+        position = this.gridPacking(room, width, height, zoneBounds, placed, existingPlacements, spec, envelope);
+      }
+
       if (position) {
         placed.push({
           id: room.id,
@@ -424,7 +435,8 @@ export class TemplateBasedPlacer {
     bounds: { x: number; y: number; width: number; height: number },
     zonePlaced: PlacedRoom[],
     allPlaced: PlacedRoom[],
-    spec: FloorPlanSpecification
+    spec: FloorPlanSpecification,
+    envelope?: BuildingEnvelope
   ): { x: number; y: number; width: number; height: number } | null {
     const gridSize = 0.5;
     const margin = 0.2;
@@ -432,6 +444,7 @@ export class TemplateBasedPlacer {
     // Grid search for valid position
     for (let y = bounds.y + margin; y <= bounds.y + bounds.height - height - margin; y += gridSize) {
       for (let x = bounds.x + margin; x <= bounds.x + bounds.width - width - margin; x += gridSize) {
+        if (envelope && !envelope.containsRect({ x, y, width, height })) continue;
         if (!this.wouldOverlap(x, y, width, height, [...zonePlaced, ...allPlaced])) {
           return { x, y, width, height };
         }
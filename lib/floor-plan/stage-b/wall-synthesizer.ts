@@ -5,7 +5,7 @@
 
 import { Wall, Point2D, FloorPlanError } from '../types';
 import { DEFAULT_CONFIG } from '../config';
-import { distance, generateId } from '../utils';
+import { distance, generateId, RandomSource } from '../utils';
 
 interface RoomBounds {
   id: string;
@@ -17,15 +17,21 @@ interface RoomBounds {
 
 export class WallSynthesizer {
   private config = DEFAULT_CONFIG.stageB.walls;
+  private random?: RandomSource; // Seeded source for wall IDs during synthesize()
 
   /**
-   * Generate walls from room placements
+   * Generate walls from room placements.
+   * When a building outline is given, exterior walls follow it instead of
+   * the rooms' bounding box.
    */
-  synthesize(rooms: RoomBounds[]): Wall[] {
+  synthesize(rooms: RoomBounds[], outline?: Point2D[], random?: RandomSource): Wall[] {
+    this.random = random;
     const walls: Wall[] = [];
 
     // Step 1: Generate building envelope (exterior walls)
-    const envelope = this.generateEnvelope(rooms);
+    const envelope = outline && outline.length >= 3
+      ? this.generateOutlineEnvelope(outline)
+      : this.generateEnvelope(rooms);
     walls.push(...envelope);
 
     // Step 2: Generate interior walls (shared and partition)
@@ -66,7 +72,7 @@ export class WallSynthesizer {
     const walls: Wall[] = [
       // Bottom wall
       {
-        id: generateId('wall_ext'),
+        id: generateId('wall_ext', this.random),
         type: 'exterior',
         thickness: this.config.exteriorThickness,
         geometry: {
@@ -79,7 +85,7 @@ export class WallSynthesizer {
       },
       // Right wall
       {
-        id: generateId('wall_ext'),
+        id: generateId('wall_ext', this.random),
         type: 'exterior',
         thickness: this.config.exteriorThickness,
         geometry: {
@@ -92,7 +98,7 @@ export class WallSynthesizer {
       },
       // Top wall
       {
-        id: generateId('wall_ext'),
+        id: generateId('wall_ext', this.random),
         type: 'exterior',
         thickness: this.config.exteriorThickness,
         geometry: {
@@ -105,7 +111,7 @@ export class WallSynthesizer {
       },
       // Left wall
       {
-        id: generateId('wall_ext'),
+        id: generateId('wall_ext', this.random),
         type: 'exterior',
         thickness: this.config.exteriorThickness,
         geometry: {
@@ -121,6 +127,24 @@ export class WallSynthesizer {
     return walls;
   }
 
+  /**
+   * Generate one exterior wall per edge of an irregular building outline
+   */
+  private generateOutlineEnvelope(outline: Point2D[]): Wall[] {
+    return outline.map((start, i) => {
+      const end = outline[(i + 1) % outline.length];
+      return {
+        id: generateId('wall_ext', this.random),
+        type: 'exterior' as const,
+        thickness: this.config.exteriorThickness,
+        geometry: { start: { ...start }, end: { ...end } },
+        length: distance(start, end),
+        structuralLoad: true,
+        adjacentRooms: []
+      };
+    });
+  }
+
   /**
    * Generate interior walls
    */
@@ -168,7 +192,7 @@ export class WallSynthesizer {
           : room2.x + room2.width;
 
         walls.push({
-          id: generateId('wall_int'),
+          id: generateId('wall_int', this.random),
           type: 'interior',
           thickness: this.config.interiorThickness,
           geometry: {
@@ -196,7 +220,7 @@ export class WallSynthesizer {
           : room2.y + room2.height;
 
         walls.push({
-          id: generateId('wall_int'),
+          id: generateId('wall_int', this.random),
           type: 'interior',
           thickness: this.config.interiorThickness,
           geometry: {
@@ -270,7 +294,7 @@ export class WallSynthesizer {
       if (Math.abs(wall1.geometry.end.x - wall2.geometry.start.x) < tolerance) {
         return {
           ...wall1,
-          id: generateId('wall_merged'),
+          id: generateId('wall_merged', this.random),
           geometry: {
             start: wall1.geometry.start,
             end: wall2.geometry.end
@@ -290,7 +314,7 @@ export class WallSynthesizer {
       if (Math.abs(wall1.geometry.end.y - wall2.geometry.start.y) < tolerance) {
         return {
           ...wall1,
-          id: generateId('wall_merged'),
+          id: generateId('wall_merged', this.random),
           geometry: {
             start: wall1.geometry.start,
             end: wall2.geometry.end
@@ -5,6 +5,7 @@
 
 import { FloorPlanSpecification, RoomSpec, Point2D, ZoneType } from '../types';
 import { ZONE_CLASSIFICATION } from '../stage-a/architectural-rules';
+import { BuildingEnvelope } from './building-envelope';
 
 export interface ZoneAllocation {
   zone: ZoneType;
@@ -121,7 +122,8 @@ export class ZoneBasedPlacer {
     zoneAllocations: ZoneAllocation[],
     spec: FloorPlanSpecification,
     buildingWidth: number,
-    buildingHeight: number
+    buildingHeight: number,
+    envelope?: BuildingEnvelope
   ): PlacedRoom[] {
     const placed: PlacedRoom[] = [];
 
@@ -140,8 +142,24 @@ export class ZoneBasedPlacer {
       // Place anchor room first
       const anchorRoom = sortedRooms[0];
       if (anchorRoom && allocation.bounds) {
-        const placedAnchor = this.placeAnchorRoom(anchorRoom, allocation, placed);
-        placed.push(placedAnchor);
+        let placedAnchor: PlacedRoom | null = this.placeAnchorRoom(anchorRoom, allocation, placed);
+
+        // Irregular footprints: the zone centre may fall outside the outline
+        if (envelope && !envelope.containsRect(placedAnchor)) {
+          placedAnchor = this.findAnyValidPosition(
+            anchorRoom,
+            placedAnchor.width,
+            placedAnchor.height,
+            placed,
+            allocation.bounds,
+            buildingWidth,
+            buildingHeight,
+            envelope
+          );
+        }
+        if (placedAnchor) {
+          placed.push(placedAnchor);
+        }
 
         // Place remaining rooms in cluster
         for (let i = 1; i < sortedRooms.length; i++) {
@@ -152,7 +170,8 @@ export class ZoneBasedPlacer {
             placed,
             spec,
             buildingWidth,
-            buildingHeight
+            buildingHeight,
+            envelope
           );
           if (placedRoom) {
             placed.push(placedRoom);
@@ -217,7 +236,8 @@ export class ZoneBasedPlacer {
     placed: PlacedRoom[],
     spec: FloorPlanSpecification,
     maxWidth: number,
-    maxHeight: number
+    maxHeight: number,
+    envelope?: BuildingEnvelope
   ): PlacedRoom | null {
     const bounds = allocation.bounds!;
     
@@ -254,13 +274,13 @@ export class ZoneBasedPlacer {
         zone: allocation.zone
       };
 
-      if (!this.hasOverlap(testRoom, placed) && this.isWithinBounds(testRoom, maxWidth, maxHeight)) {
+      if (!this.hasOverlap(testRoom, placed) && this.isWithinBounds(testRoom, maxWidth, maxHeight, envelope)) {
         return testRoom;
       }
     }
 
     // Fallback: find any valid position in zone
-    return this.findAnyValidPosition(room, width, height, placed, bounds, maxWidth, maxHeight);
+    return this.findAnyValidPosition(room, width, height, placed, bounds, maxWidth, maxHeight, envelope);
   }
 
   /**
@@ -345,7 +365,8 @@ export class ZoneBasedPlacer {
     placed: PlacedRoom[],
     zoneBounds: { x: number; y: number; width: number; height: number },
     maxWidth: number,
-    maxHeight: number
+    maxHeight: number,
+    envelope?: BuildingEnvelope
   ): PlacedRoom | null {
     const gridSize = 0.5;
     
@@ -358,7 +379,7 @@ export class ZoneBasedPlacer {
           zone: room.zone
         };
 
-        if (!this.hasOverlap(testRoom, placed) && this.isWithinBounds(testRoom, maxWidth, maxHeight)) {
+        if (!this.hasOverlap(testRoom, placed) && this.isWithinBounds(testRoom, maxWidth, maxHeight, envelope)) {
           return testRoom;
         }
       }
@@ -401,14 +422,15 @@ export class ZoneBasedPlacer {
   }
 
   /**
-   * Check if within building bounds
+   * Check if within building bounds (and the footprint outline, if any)
    */
-  private isWithinBounds(room: PlacedRoom, maxWidth: number, maxHeight: number): boolean {
+  private isWithinBounds(room: PlacedRoom, maxWidth: number, maxHeight: number, envelope?: BuildingEnvelope): boolean {
     return (
       room.x >= 0 &&
       room.y >= 0 &&
       room.x + room.width <= maxWidth &&
-      room.y + room.height <= maxHeight
+      room.y + room.height <= maxHeight &&
+      (!envelope || envelope.containsRect(room))
     );
   }
 }
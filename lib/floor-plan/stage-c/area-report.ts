@@ -0,0 +1,275 @@
+/**
+ * Stage C: Area Report Generator
+ * Area take-off for one level: gross internal area, net room areas,
+ * circulation against CIRCULATION_FACTOR, wall lengths, perimeter and, per
+ * room, door and window counts and the glazing-to-floor ratio. Reports are
+ * written as CSV, JSON or an HTML table.
+ */
+
+import { AreaReport, FloorPlanGeometry, Point2D, RoomAreaEntry, RoomGeometry, Wall } from '../types';
+import { CIRCULATION_FACTOR, OPENING_DEFAULTS } from '../config';
+import { boundingBox, distance, formatCSV, pointOnWall, polygonArea } from '../utils';
+
+// Room types counted as circulation rather than net area
+const CIRCULATION_TYPES = new Set(['hallway', 'stair', 'lift']);
+
+// Gap between a wall face and the room behind it still counted as the room's side (m)
+const ROOM_TOLERANCE = 0.1;
+
+// Wall ends closer than this are joined when tracing the outline (m)
+const JOIN_TOLERANCE = 0.01;
+
+export class AreaReportGenerator {
+  /**
+   * Measure one level
+   */
+  generate(geometry: FloorPlanGeometry): AreaReport {
+    const exteriorWalls = geometry.walls.filter(wall => wall.type === 'exterior');
+    const outline = this.outline(geometry);
+    const perimeter = outline.reduce((sum, point, i) => sum + distance(point, outline[(i + 1) % outline.length]), 0);
+
+    // The outline runs along wall centerlines; step in by half the wall
+    // thickness. Exact for rectilinear outlines, whose convex corners
+    // outnumber reflex ones by four.
+    const exteriorLength = exteriorWalls.reduce((sum, wall) => sum + wall.length, 0);
+    const inset = exteriorLength > 0
+      ? exteriorWalls.reduce((sum, wall) => sum + wall.length * wall.thickness, 0) / exteriorLength / 2
+      : 0;
+    const grossInternalArea = Math.max(0, polygonArea(outline) - perimeter * inset + 4 * inset * inset);
+
+    const rooms = geometry.rooms.map(room => this.roomEntry(room));
+    this.countOpenings(geometry, rooms);
+
+    const circulationArea =
+      rooms.filter(room => CIRCULATION_TYPES.has(room.type)).reduce((sum, room) => sum + room.area, 0) +
+      (geometry.circulation || []).reduce((sum, path) => sum + polygonArea(path.geometry.vertices), 0);
+    const netArea = rooms.filter(room => !CIRCULATION_TYPES.has(room.type)).reduce((sum, room) => sum + room.area, 0);
+
+    const wallLength = (type: Wall['type']) =>
+      geometry.walls.filter(wall => wall.type === type).reduce((sum, wall) => sum + wall.length, 0);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      level: geometry.metadata.level,
+      grossInternalArea: round(grossInternalArea),
+      netArea: round(netArea),
+      circulation: {
+        area: round(circulationArea),
+        percentage: grossInternalArea > 0 ? round((circulationArea / grossInternalArea) * 100, 1) : 0,
+        target: round(CIRCULATION_FACTOR * 100, 1)
+      },
+      perimeter: round(perimeter),
+      wallLengths: {
+        exterior: round(wallLength('exterior')),
+        interior: round(wallLength('interior')),
+        total: round(wallLength('exterior') + wallLength('interior'))
+      },
+      openings: {
+        doors: geometry.openings.filter(opening => opening.type === 'door').length,
+        windows: geometry.openings.filter(opening => opening.type === 'window').length
+      },
+      rooms: rooms.map(room => ({
+        ...room,
+        glazingArea: round(room.glazingArea),
+        glazingRatio: room.area > 0 ? round(room.glazingArea / room.area, 3) : 0
+      }))
+    };
+  }
+
+  /**
+   * One row per room, then the level totals
+   */
+  toCSV(report: AreaReport): string {
+    return formatCSV([
+      ['Room', 'Type', 'Area (m²)', 'Width (m)', 'Depth (m)', 'Doors', 'Windows', 'Glazing (m²)', 'Glazing ratio'],
+      ...report.rooms.map(room => [
+        room.name,
+        room.type,
+        room.area.toFixed(2),
+        room.width.toFixed(2),
+        room.depth.toFixed(2),
+        room.doors,
+        room.windows,
+        room.glazingArea.toFixed(2),
+        room.glazingRatio.toFixed(3)
+      ]),
+      [],
+      ['Measure', 'Value'],
+      ...this.summary(report)
+    ]);
+  }
+
+  toJSON(report: AreaReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * Standalone <table>: rooms in the body, totals in the footer
+   */
+  toHTML(report: AreaReport): string {
+    const cell = (tag: 'th' | 'td', value: string | number, attributes: string = '') =>
+      `<${tag}${attributes}>${escapeHTML(String(value))}</${tag}>`;
+    const numeric = ' style="text-align:right"';
+    const headings = ['Room', 'Type', 'Area (m²)', 'Size (m)', 'Doors', 'Windows', 'Glazing (m²)', 'Glazing ratio'];
+
+    const rows = report.rooms.map(room => '    <tr>' + [
+      cell('td', room.name),
+      cell('td', room.type),
+      cell('td', room.area.toFixed(2), numeric),
+      cell('td', `${room.width.toFixed(2)} × ${room.depth.toFixed(2)}`, numeric),
+      cell('td', room.doors, numeric),
+      cell('td', room.windows, numeric),
+      cell('td', room.glazingArea.toFixed(2), numeric),
+      cell('td', room.glazingRatio.toFixed(3), numeric)
+    ].join('') + '</tr>');
+
+    const totals = this.summary(report).map(([label, value]) =>
+      `    <tr>${cell('th', label, ' colspan="2" style="text-align:left"')}${cell('td', value, ` colspan="${headings.length - 2}"`)}</tr>`
+    );
+
+    return [
+      '<table class="area-report">',
+      '  <thead>',
+      `    <tr>${headings.map(heading => cell('th', heading)).join('')}</tr>`,
+      '  </thead>',
+      '  <tbody>',
+      ...rows,
+      '  </tbody>',
+      '  <tfoot>',
+      ...totals,
+      '  </tfoot>',
+      '</table>',
+      ''
+    ].join('\n');
+  }
+
+  private summary(report: AreaReport): Array<[string, string]> {
+    const { circulation, wallLengths, openings } = report;
+    return [
+      ['Gross internal area (m²)', report.grossInternalArea.toFixed(2)],
+      ['Net area (m²)', report.netArea.toFixed(2)],
+      ['Circulation (m²)', circulation.area.toFixed(2)],
+      ['Circulation (% of GIA)', `${circulation.percentage.toFixed(1)} (target ${circulation.target.toFixed(1)})`],
+      ['Perimeter (m)', report.perimeter.toFixed(2)],
+      ['Exterior walls (m)', wallLengths.exterior.toFixed(2)],
+      ['Interior walls (m)', wallLengths.interior.toFixed(2)],
+      ['Doors', String(openings.doors)],
+      ['Windows', String(openings.windows)]
+    ];
+  }
+
+  private roomEntry(room: RoomGeometry): RoomAreaEntry {
+    return {
+      roomId: room.id,
+      name: room.labels.name,
+      type: room.type,
+      area: round(room.geometry.area),
+      width: round(room.geometry.bounds.width),
+      depth: round(room.geometry.bounds.height),
+      doors: 0,
+      windows: 0,
+      glazingArea: 0,
+      glazingRatio: 0
+    };
+  }
+
+  /**
+   * Credit each opening to the rooms beside it: the wall's adjacent rooms
+   * when it lists them, otherwise the rooms whose sides meet the opening
+   * (the nearest one only, on exterior walls)
+   */
+  private countOpenings(geometry: FloorPlanGeometry, entries: RoomAreaEntry[]): void {
+    const wallsById = new Map(geometry.walls.map(wall => [wall.id, wall]));
+    const entriesById = new Map(entries.map(entry => [entry.roomId, entry]));
+
+    for (const opening of geometry.openings) {
+      const wall = wallsById.get(opening.wallId);
+      if (!wall) continue;
+
+      const point = pointOnWall(wall, opening.position);
+      const reach = wall.thickness / 2 + ROOM_TOLERANCE;
+      const beside = geometry.rooms
+        .map(room => ({ room, gap: distanceToOutline(point, room.geometry.vertices) }))
+        .filter(({ room, gap }) => wall.adjacentRooms.length > 0 ? wall.adjacentRooms.includes(room.id) : gap <= reach)
+        .sort((a, b) => a.gap - b.gap)
+        .slice(0, wall.type === 'exterior' ? 1 : 2);
+
+      for (const { room } of beside) {
+        const entry = entriesById.get(room.id)!;
+        if (opening.type === 'door') {
+          entry.doors++;
+        } else {
+          entry.windows++;
+          entry.glazingArea += opening.width * (opening.height ?? OPENING_DEFAULTS.windowHeight);
+        }
+      }
+    }
+  }
+
+  /**
+   * The exterior walls traced into one loop; the site footprint or the
+   * overall extent when they do not close
+   */
+  private outline(geometry: FloorPlanGeometry): Point2D[] {
+    const exterior = geometry.walls.filter(wall => wall.type === 'exterior');
+    const traced = traceLoop(exterior);
+    if (traced) return traced;
+    if (geometry.metadata.footprint?.length) return geometry.metadata.footprint;
+
+    const points = exterior.length > 0
+      ? exterior.flatMap(wall => [wall.geometry.start, wall.geometry.end])
+      : geometry.rooms.flatMap(room => room.geometry.vertices);
+    const { x, y, width, height } = boundingBox(points);
+    return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+  }
+}
+
+function traceLoop(walls: Wall[]): Point2D[] | null {
+  if (walls.length < 3) return null;
+
+  const remaining = walls.slice(1);
+  const points = [walls[0].geometry.start];
+  let current = walls[0].geometry.end;
+
+  while (remaining.length > 0) {
+    const index = remaining.findIndex(wall => joins(wall.geometry.start, current) || joins(wall.geometry.end, current));
+    if (index < 0) return null;
+
+    const [wall] = remaining.splice(index, 1);
+    points.push(current);
+    current = joins(wall.geometry.start, current) ? wall.geometry.end : wall.geometry.start;
+  }
+
+  return joins(current, points[0]) ? points : null;
+}
+
+function joins(p: Point2D, q: Point2D): boolean {
+  return distance(p, q) <= JOIN_TOLERANCE;
+}
+
+function distanceToOutline(point: Point2D, vertices: Point2D[]): number {
+  let nearest = Infinity;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0
+      ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+      : 0;
+    nearest = Math.min(nearest, distance(point, { x: a.x + t * dx, y: a.y + t * dy }));
+  }
+  return nearest;
+}
+
+function escapeHTML(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export const areaReportGenerator = new AreaReportGenerator();
@@ -0,0 +1,735 @@
+/**
+ * Stage C: DXF Exporter
+ * Writes floor plan geometry as an AutoCAD R2000 (AC1015) drawing: walls cut
+ * at their openings, door and window blocks, room outlines with hatches,
+ * labels and linear dimensions on AIA-style layers, in metres or inches
+ */
+
+import {
+  FloorPlanGeometry,
+  BuildingGeometry,
+  DXFExportOptions,
+  Point2D,
+  Wall,
+  Opening
+} from '../types';
+import { formatArea, formatDimension, polygonCentroid } from '../utils';
+import { DoorArcCalculator } from './door-arc-calculator';
+
+type GroupValue = string | number;
+type Pair = [number, GroupValue];
+
+interface LayerDefinition {
+  name: string;
+  color: number; // AutoCAD color index
+  lineweight: number; // 1/100 mm
+}
+
+interface DXFEntity {
+  type: string;
+  layer: string;
+  pairs: Pair[]; // Everything after the common entity header
+}
+
+interface DXFBlock {
+  name: string;
+  anonymous: boolean;
+  entities: DXFEntity[];
+}
+
+interface LevelInput {
+  geometry: FloorPlanGeometry;
+  name?: string;
+  suffix: string;
+  offsetX: number;
+}
+
+// AIA CAD layer names
+const LAYERS: Record<string, LayerDefinition> = {
+  wall: { name: 'A-WALL', color: 7, lineweight: 50 },
+  partition: { name: 'A-WALL-PRTN', color: 7, lineweight: 30 },
+  door: { name: 'A-DOOR', color: 3, lineweight: 25 },
+  glazing: { name: 'A-GLAZ', color: 5, lineweight: 25 },
+  area: { name: 'A-AREA', color: 8, lineweight: 13 },
+  hatch: { name: 'A-AREA-PATT', color: 254, lineweight: 9 },
+  labels: { name: 'A-AREA-IDEN', color: 7, lineweight: 18 },
+  dimensions: { name: 'A-ANNO-DIMS', color: 1, lineweight: 18 },
+  titles: { name: 'A-ANNO-TTLB', color: 7, lineweight: 25 }
+};
+
+const INCHES_PER_METER = 39.3701;
+
+// Gap between levels when a multi-storey building is laid out side by side (m)
+const LEVEL_SPACING = 5;
+
+// Drawing sizes in metres, converted with the units
+const TEXT_HEIGHT = 0.25;
+const DIMENSION_OFFSET = 1.0;
+const OVERALL_DIMENSION_OFFSET = 2.0;
+const TICK_SIZE = 0.1;
+
+export class DXFExporter {
+  private doorArcs = new DoorArcCalculator();
+
+  /**
+   * Export one level
+   */
+  export(geometry: FloorPlanGeometry, options: Partial<DXFExportOptions> = {}): string {
+    return this.exportLevels([{ geometry, suffix: '', offsetX: 0 }], this.resolveOptions(options));
+  }
+
+  /**
+   * Export every level of a building side by side, each with its own set of
+   * layers (A-WALL-L1, ...) and a title
+   */
+  exportBuilding(building: BuildingGeometry, options: Partial<DXFExportOptions> = {}): string {
+    if (building.levels.length < 2) {
+      return this.export(building.levels[0].geometry, options);
+    }
+
+    let offsetX = 0;
+    const levels: LevelInput[] = building.levels.map(level => {
+      const input = { geometry: level.geometry, name: level.name, suffix: `-L${level.level}`, offsetX };
+      offsetX += level.geometry.metadata.buildingDimensions.width + LEVEL_SPACING;
+      return input;
+    });
+
+    return this.exportLevels(levels, this.resolveOptions(options));
+  }
+
+  private resolveOptions(options: Partial<DXFExportOptions>): DXFExportOptions {
+    return {
+      layerSeparation: true,
+      includeDimensions: true,
+      units: 'metric',
+      ...options
+    };
+  }
+
+  private exportLevels(levels: LevelInput[], options: DXFExportOptions): string {
+    const scale = options.units === 'imperial' ? INCHES_PER_METER : 1;
+    const layers = new Map<string, LayerDefinition>();
+    const blocks: DXFBlock[] = [doorBlock(), windowBlock()];
+    const entities: DXFEntity[] = [];
+
+    const useLayer = (key: string, suffix: string): string => {
+      if (!options.layerSeparation) return '0';
+      const layer = { ...LAYERS[key], name: LAYERS[key].name + suffix };
+      layers.set(layer.name, layer);
+      return layer.name;
+    };
+
+    for (const level of levels) {
+      // Plans are drawn y-down; CAD is y-up
+      const maxY = Math.max(...level.geometry.rooms.flatMap(r => r.geometry.vertices.map(v => v.y)), 0);
+      const toDrawing = (p: Point2D): Point2D => ({
+        x: (p.x + level.offsetX) * scale,
+        y: (maxY - p.y) * scale
+      });
+      const context: LevelContext = {
+        geometry: level.geometry,
+        options,
+        scale,
+        toDrawing,
+        layer: key => useLayer(key, level.suffix)
+      };
+
+      if (level.name) {
+        entities.push(text(context.layer('titles'), toDrawing({ x: 0, y: -1.5 }), TEXT_HEIGHT * 2 * scale, level.name, false));
+      }
+
+      entities.push(...this.roomEntities(context));
+      entities.push(...this.wallEntities(context));
+      entities.push(...this.openingEntities(context));
+      if (options.includeDimensions) {
+        const dimensions = this.dimensionEntities(context, blocks.length);
+        entities.push(...dimensions.entities);
+        blocks.push(...dimensions.blocks);
+      }
+    }
+
+    return writeDrawing(layers, blocks, entities, options, extents(entities));
+  }
+
+  /**
+   * Room outlines, solid hatches and name/area labels
+   */
+  private roomEntities(context: LevelContext): DXFEntity[] {
+    const { toDrawing, options, scale } = context;
+    const entities: DXFEntity[] = [];
+
+    for (const room of context.geometry.rooms) {
+      const outline = room.geometry.vertices.map(toDrawing);
+      entities.push(hatch(context.layer('hatch'), outline));
+      entities.push(polyline(context.layer('area'), outline, true));
+
+      const center = toDrawing(room.geometry.centroid ?? polygonCentroid(room.geometry.vertices));
+      const height = TEXT_HEIGHT * scale;
+      entities.push(text(context.layer('labels'), { x: center.x, y: center.y + height * 0.75 }, height, room.labels.name));
+      entities.push(text(
+        context.layer('labels'),
+        { x: center.x, y: center.y - height * 0.75 },
+        height * 0.8,
+        formatArea(room.geometry.area, options.units)
+      ));
+    }
+
+    return entities;
+  }
+
+  /**
+   * Each wall as closed outlines of its thickness, cut where openings sit
+   */
+  private wallEntities(context: LevelContext): DXFEntity[] {
+    const openingsByWall = new Map<string, Opening[]>();
+    for (const opening of context.geometry.openings) {
+      openingsByWall.set(opening.wallId, [...(openingsByWall.get(opening.wallId) || []), opening]);
+    }
+
+    return context.geometry.walls.flatMap(wall => {
+      const layer = context.layer(wall.type === 'exterior' ? 'wall' : 'partition');
+      return wallPieces(wall, openingsByWall.get(wall.id) || []).map(([from, to]) =>
+        polyline(layer, wallOutline(wall, from, to).map(context.toDrawing), true)
+      );
+    });
+  }
+
+  /**
+   * Door blocks hinged and swung as in the SVG previews, window blocks
+   * spanning the wall thickness
+   */
+  private openingEntities(context: LevelContext): DXFEntity[] {
+    const { geometry, toDrawing, scale } = context;
+    const wallsById = new Map(geometry.walls.map(wall => [wall.id, wall]));
+    const roomTypes = new Map(geometry.rooms.map(room => [room.id, room.type]));
+    const entities: DXFEntity[] = [];
+
+    for (const opening of geometry.openings) {
+      const wall = wallsById.get(opening.wallId);
+      if (!wall || wall.length === 0) continue;
+
+      const span = this.doorArcs.calculateDoorOpeningPosition(wall, opening.position, opening.width);
+
+      if (opening.type === 'door') {
+        const hingeSide = this.doorArcs.determineHingeSide(opening, wall, {
+          room1Type: roomTypes.get(wall.adjacentRooms[0]),
+          room2Type: roomTypes.get(wall.adjacentRooms[1])
+        });
+        const arc = this.doorArcs.calculateArcGeometry(span, wall, opening.width, hingeSide);
+
+        // Block X runs along the closed leaf, block Y along the open leaf
+        const hinge = toDrawing(arc.centerPoint);
+        const closed = toDrawing(hingeSide === 'start' ? span.end : span.start);
+        const open = toDrawing(arc.endPoint);
+        const along = { x: closed.x - hinge.x, y: closed.y - hinge.y };
+        const across = { x: open.x - hinge.x, y: open.y - hinge.y };
+        const mirrored = along.x * across.y - along.y * across.x < 0;
+        const size = opening.width * scale;
+
+        entities.push(insert(context.layer('door'), 'DOOR', hinge, size, mirrored ? -size : size, angleOf(along)));
+      } else {
+        const start = toDrawing(span.start);
+        const end = toDrawing(span.end);
+        entities.push(insert(
+          context.layer('glazing'),
+          'WINDOW',
+          start,
+          opening.width * scale,
+          wall.thickness * scale,
+          angleOf({ x: end.x - start.x, y: end.y - start.y })
+        ));
+      }
+    }
+
+    return entities;
+  }
+
+  /**
+   * Aligned dimensions along each exterior wall plus the overall width and
+   * depth. Every dimension gets the anonymous block CAD programs display.
+   */
+  private dimensionEntities(
+    context: LevelContext,
+    firstBlock: number
+  ): { entities: DXFEntity[]; blocks: DXFBlock[] } {
+    const { geometry, toDrawing, options, scale } = context;
+    const layer = context.layer('dimensions');
+    const entities: DXFEntity[] = [];
+    const blocks: DXFBlock[] = [];
+
+    const vertices = geometry.rooms.flatMap(room => room.geometry.vertices);
+    if (vertices.length === 0) return { entities, blocks };
+    const minX = Math.min(...vertices.map(v => v.x));
+    const maxX = Math.max(...vertices.map(v => v.x));
+    const minY = Math.min(...vertices.map(v => v.y));
+    const maxY = Math.max(...vertices.map(v => v.y));
+    const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+
+    const addDimension = (start: Point2D, end: Point2D, offset: number) => {
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      if (length < 0.01) return;
+
+      // Offset away from the middle of the plan
+      let normal = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+      const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+      if (normal.x * (mid.x - center.x) + normal.y * (mid.y - center.y) < 0) {
+        normal = { x: -normal.x, y: -normal.y };
+      }
+
+      const name = `*D${firstBlock + blocks.length}`;
+      const dimension = alignedDimension(
+        layer,
+        name,
+        toDrawing(start),
+        toDrawing(end),
+        toDrawing({ x: start.x + normal.x * offset, y: start.y + normal.y * offset }),
+        toDrawing({ x: end.x + normal.x * offset, y: end.y + normal.y * offset }),
+        formatDimension(length, options.units),
+        scale
+      );
+      entities.push(dimension.entity);
+      blocks.push(dimension.block);
+    };
+
+    for (const wall of geometry.walls.filter(w => w.type === 'exterior')) {
+      addDimension(wall.geometry.start, wall.geometry.end, DIMENSION_OFFSET);
+    }
+
+    addDimension({ x: minX, y: minY }, { x: maxX, y: minY }, OVERALL_DIMENSION_OFFSET);
+    addDimension({ x: minX, y: minY }, { x: minX, y: maxY }, OVERALL_DIMENSION_OFFSET);
+
+    return { entities, blocks };
+  }
+}
+
+interface LevelContext {
+  geometry: FloorPlanGeometry;
+  options: DXFExportOptions;
+  scale: number;
+  toDrawing: (p: Point2D) => Point2D;
+  layer: (key: string) => string;
+}
+
+// ============================================================================
+// GEOMETRY HELPERS
+// ============================================================================
+
+/**
+ * Distances along the wall [from, to] that are solid wall, between openings
+ */
+function wallPieces(wall: Wall, openings: Opening[]): Array<[number, number]> {
+  const length = Math.hypot(wall.geometry.end.x - wall.geometry.start.x, wall.geometry.end.y - wall.geometry.start.y);
+  const gaps = openings
+    .map(o => [Math.max(0, o.position * length - o.width / 2), Math.min(length, o.position * length + o.width / 2)])
+    .sort((a, b) => a[0] - b[0]);
+
+  const pieces: Array<[number, number]> = [];
+  let cursor = 0;
+  for (const [from, to] of gaps) {
+    if (from - cursor > 0.001) pieces.push([cursor, from]);
+    cursor = Math.max(cursor, to);
+  }
+  if (length - cursor > 0.001) pieces.push([cursor, length]);
+  return pieces;
+}
+
+function wallOutline(wall: Wall, from: number, to: number): Point2D[] {
+  const { start, end } = wall.geometry;
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const dir = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+  const half = { x: -dir.y * wall.thickness / 2, y: dir.x * wall.thickness / 2 };
+  const at = (distance: number, side: number) => ({
+    x: start.x + dir.x * distance + half.x * side,
+    y: start.y + dir.y * distance + half.y * side
+  });
+  return [at(from, 1), at(to, 1), at(to, -1), at(from, -1)];
+}
+
+function angleOf(v: Point2D): number {
+  return (Math.atan2(v.y, v.x) * 180) / Math.PI;
+}
+
+function extents(entities: DXFEntity[]): { min: Point2D; max: Point2D } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  // A hatch's 10/20 is its elevation point, not a vertex
+  for (const entity of entities.filter(e => e.type !== 'HATCH')) {
+    entity.pairs.forEach(([code, value]) => {
+      if (code === 10) xs.push(value as number);
+      if (code === 20) ys.push(value as number);
+    });
+  }
+  if (xs.length === 0) return { min: { x: 0, y: 0 }, max: { x: 0, y: 0 } };
+  return {
+    min: { x: Math.min(...xs), y: Math.min(...ys) },
+    max: { x: Math.max(...xs), y: Math.max(...ys) }
+  };
+}
+
+// ============================================================================
+// ENTITIES
+// ============================================================================
+
+function line(layer: string, start: Point2D, end: Point2D): DXFEntity {
+  return {
+    type: 'LINE',
+    layer,
+    pairs: [[100, 'AcDbLine'], [10, start.x], [20, start.y], [30, 0], [11, end.x], [21, end.y], [31, 0]]
+  };
+}
+
+function arc(layer: string, center: Point2D, radius: number, startAngle: number, endAngle: number): DXFEntity {
+  return {
+    type: 'ARC',
+    layer,
+    pairs: [
+      [100, 'AcDbCircle'], [10, center.x], [20, center.y], [30, 0], [40, radius],
+      [100, 'AcDbArc'], [50, startAngle], [51, endAngle]
+    ]
+  };
+}
+
+function polyline(layer: string, points: Point2D[], closed: boolean): DXFEntity {
+  return {
+    type: 'LWPOLYLINE',
+    layer,
+    pairs: [
+      [100, 'AcDbPolyline'], [90, points.length], [70, closed ? 1 : 0], [43, 0],
+      ...points.flatMap(p => [[10, p.x], [20, p.y]] as Pair[])
+    ]
+  };
+}
+
+/**
+ * Solid fill bounded by one closed polyline path
+ */
+function hatch(layer: string, points: Point2D[]): DXFEntity {
+  return {
+    type: 'HATCH',
+    layer,
+    pairs: [
+      [100, 'AcDbHatch'], [10, 0], [20, 0], [30, 0], [210, 0], [220, 0], [230, 1],
+      [2, 'SOLID'], [70, 1], [71, 0], [91, 1],
+      [92, 3], [72, 0], [73, 1], [93, points.length],
+      ...points.flatMap(p => [[10, p.x], [20, p.y]] as Pair[]),
+      [97, 0], [75, 0], [76, 1], [98, 0]
+    ]
+  };
+}
+
+function text(
+  layer: string,
+  position: Point2D,
+  height: number,
+  value: string,
+  centered: boolean = true,
+  rotation: number = 0
+): DXFEntity {
+  const alignment: Pair[] = centered ? [[72, 1], [11, position.x], [21, position.y], [31, 0]] : [];
+  return {
+    type: 'TEXT',
+    layer,
+    pairs: [
+      [100, 'AcDbText'], [10, position.x], [20, position.y], [30, 0], [40, height], [1, encodeText(value)],
+      ...(rotation !== 0 ? [[50, rotation] as Pair] : []),
+      ...alignment,
+      [100, 'AcDbText'], ...(centered ? [[73, 2] as Pair] : [])
+    ]
+  };
+}
+
+function insert(layer: string, block: string, position: Point2D, xScale: number, yScale: number, rotation: number): DXFEntity {
+  return {
+    type: 'INSERT',
+    layer,
+    pairs: [
+      [100, 'AcDbBlockReference'], [2, block], [10, position.x], [20, position.y], [30, 0],
+      [41, xScale], [42, yScale], [43, 1], [50, rotation]
+    ]
+  };
+}
+
+/**
+ * An aligned DIMENSION between two points, drawn through the points on the
+ * dimension line, with architectural ticks
+ */
+function alignedDimension(
+  layer: string,
+  blockName: string,
+  start: Point2D,
+  end: Point2D,
+  lineStart: Point2D,
+  lineEnd: Point2D,
+  label: string,
+  scale: number
+): { entity: DXFEntity; block: DXFBlock } {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const dir = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+  const tick = TICK_SIZE * scale;
+  const textHeight = TEXT_HEIGHT * 0.8 * scale;
+  const mid = { x: (lineStart.x + lineEnd.x) / 2, y: (lineStart.y + lineEnd.y) / 2 };
+  const outward = { x: lineStart.x - start.x, y: lineStart.y - start.y };
+  const outwardLength = Math.hypot(outward.x, outward.y) || 1;
+  const textPoint = {
+    x: mid.x + (outward.x / outwardLength) * textHeight,
+    y: mid.y + (outward.y / outwardLength) * textHeight
+  };
+
+  // Text reads left to right or bottom to top
+  let rotation = angleOf(dir);
+  if (rotation > 90.001 || rotation <= -90) rotation += 180;
+  const tickAt = (p: Point2D) => line('0',
+    { x: p.x - (dir.x - dir.y) * tick, y: p.y - (dir.y + dir.x) * tick },
+    { x: p.x + (dir.x - dir.y) * tick, y: p.y + (dir.y + dir.x) * tick }
+  );
+
+  const block: DXFBlock = {
+    name: blockName,
+    anonymous: true,
+    entities: [
+      line('0', lineStart, lineEnd),
+      line('0', start, lineStart),
+      line('0', end, lineEnd),
+      tickAt(lineStart),
+      tickAt(lineEnd),
+      text('0', textPoint, textHeight, label, true, rotation)
+    ]
+  };
+
+  const entity: DXFEntity = {
+    type: 'DIMENSION',
+    layer,
+    pairs: [
+      [100, 'AcDbDimension'], [2, blockName],
+      [10, lineEnd.x], [20, lineEnd.y], [30, 0],
+      [11, textPoint.x], [21, textPoint.y], [31, 0],
+      [70, 1 + 32], [1, encodeText(label)], [3, 'Standard'], [42, length],
+      [100, 'AcDbAlignedDimension'],
+      [13, start.x], [23, start.y], [33, 0],
+      [14, end.x], [24, end.y], [34, 0]
+    ]
+  };
+
+  return { entity, block };
+}
+
+/**
+ * Unit door: hinge at the origin, closed leaf along +X, open leaf along +Y
+ */
+function doorBlock(): DXFBlock {
+  return {
+    name: 'DOOR',
+    anonymous: false,
+    entities: [
+      line('0', { x: 0, y: 0 }, { x: 0, y: 1 }),
+      arc('0', { x: 0, y: 0 }, 1, 0, 90)
+    ]
+  };
+}
+
+/**
+ * Unit window: one long, one wall thick, centred on the wall line
+ */
+function windowBlock(): DXFBlock {
+  return {
+    name: 'WINDOW',
+    anonymous: false,
+    entities: [
+      polyline('0', [{ x: 0, y: -0.5 }, { x: 1, y: -0.5 }, { x: 1, y: 0.5 }, { x: 0, y: 0.5 }], true),
+      line('0', { x: 0, y: 0 }, { x: 1, y: 0 })
+    ]
+  };
+}
+
+// ============================================================================
+// FILE STRUCTURE
+// ============================================================================
+
+/**
+ * Writes group codes and hands out entity handles
+ */
+class DXFWriter {
+  private lines: string[] = [];
+  private nextHandle = 1;
+
+  handle(): string {
+    return (this.nextHandle++).toString(16).toUpperCase();
+  }
+
+  get handseed(): string {
+    return this.nextHandle.toString(16).toUpperCase();
+  }
+
+  pair(code: number, value: GroupValue): this {
+    this.lines.push(String(code), typeof value === 'number' ? formatNumber(value) : value);
+    return this;
+  }
+
+  pairs(pairs: Pair[]): this {
+    pairs.forEach(([code, value]) => this.pair(code, value));
+    return this;
+  }
+
+  entity(entity: DXFEntity, owner: string): this {
+    return this
+      .pair(0, entity.type).pair(5, this.handle()).pair(330, owner)
+      .pair(100, 'AcDbEntity').pair(8, entity.layer)
+      .pairs(entity.pairs);
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+function writeDrawing(
+  layers: Map<string, LayerDefinition>,
+  blocks: DXFBlock[],
+  entities: DXFEntity[],
+  options: DXFExportOptions,
+  bounds: { min: Point2D; max: Point2D }
+): string {
+  const imperial = options.units === 'imperial';
+  const scale = imperial ? INCHES_PER_METER : 1;
+  const body = new DXFWriter();
+
+  const blockRecords = [
+    { name: '*Model_Space', handle: body.handle(), block: null as DXFBlock | null },
+    { name: '*Paper_Space', handle: body.handle(), block: null as DXFBlock | null },
+    ...blocks.map(block => ({ name: block.name, handle: body.handle(), block }))
+  ];
+  const modelSpace = blockRecords[0].handle;
+
+  // TABLES
+  body.pair(0, 'SECTION').pair(2, 'TABLES');
+
+  const table = (name: string, count: number, writeEntries: (owner: string) => void, subclass?: string) => {
+    const owner = body.handle();
+    body.pair(0, 'TABLE').pair(2, name).pair(5, owner).pair(330, '0').pair(100, 'AcDbSymbolTable').pair(70, count);
+    if (subclass) body.pair(100, subclass).pair(71, 0);
+    writeEntries(owner);
+    body.pair(0, 'ENDTAB');
+  };
+  const record = (type: string, owner: string, subclass: string, name: string) =>
+    body.pair(0, type).pair(type === 'DIMSTYLE' ? 105 : 5, body.handle()).pair(330, owner)
+      .pair(100, 'AcDbSymbolTableRecord').pair(100, subclass).pair(2, name).pair(70, 0);
+
+  const width = Math.max(bounds.max.x - bounds.min.x, 1);
+  const height = Math.max(bounds.max.y - bounds.min.y, 1);
+  table('VPORT', 1, owner => {
+    record('VPORT', owner, 'AcDbViewportTableRecord', '*ACTIVE').pairs([
+      [10, 0], [20, 0], [11, 1], [21, 1],
+      [12, (bounds.min.x + bounds.max.x) / 2], [22, (bounds.min.y + bounds.max.y) / 2],
+      [13, 0], [23, 0], [14, 0.5 * scale], [24, 0.5 * scale], [15, 0.5 * scale], [25, 0.5 * scale],
+      [16, 0], [26, 0], [36, 1], [17, 0], [27, 0], [37, 0],
+      [40, height * 1.2], [41, width / height], [42, 50], [43, 0], [44, 0], [50, 0], [51, 0],
+      [71, 0], [72, 100], [73, 1], [74, 3], [75, 0], [76, 0], [77, 0], [78, 0]
+    ]);
+  });
+
+  table('LTYPE', 3, owner => {
+    for (const [name, description] of [['ByBlock', ''], ['ByLayer', ''], ['Continuous', 'Solid line']]) {
+      record('LTYPE', owner, 'AcDbLinetypeTableRecord', name).pairs([[3, description], [72, 65], [73, 0], [40, 0]]);
+    }
+  });
+
+  const allLayers = [{ name: '0', color: 7, lineweight: -3 }, ...layers.values()];
+  table('LAYER', allLayers.length, owner => {
+    for (const layer of allLayers) {
+      record('LAYER', owner, 'AcDbLayerTableRecord', layer.name)
+        .pairs([[62, layer.color], [6, 'Continuous'], [370, layer.lineweight]]);
+    }
+  });
+
+  table('STYLE', 1, owner => {
+    record('STYLE', owner, 'AcDbTextStyleTableRecord', 'Standard')
+      .pairs([[40, 0], [41, 1], [50, 0], [71, 0], [42, TEXT_HEIGHT * scale], [3, 'txt'], [4, '']]);
+  });
+
+  table('VIEW', 0, () => {});
+  table('UCS', 0, () => {});
+
+  table('APPID', 1, owner => {
+    record('APPID', owner, 'AcDbRegAppTableRecord', 'ACAD');
+  });
+
+  table('DIMSTYLE', 1, owner => {
+    record('DIMSTYLE', owner, 'AcDbDimStyleTableRecord', 'Standard').pairs([
+      [40, 1], [41, TICK_SIZE * scale], [42, 0.05 * scale], [44, 0.1 * scale],
+      [140, TEXT_HEIGHT * 0.8 * scale], [142, TICK_SIZE * scale], [147, 0.05 * scale],
+      [77, 1], [271, 2], [277, imperial ? 4 : 2]
+    ]);
+  }, 'AcDbDimStyleTable');
+
+  table('BLOCK_RECORD', blockRecords.length, owner => {
+    for (const blockRecord of blockRecords) {
+      body.pair(0, 'BLOCK_RECORD').pair(5, blockRecord.handle).pair(330, owner)
+        .pair(100, 'AcDbSymbolTableRecord').pair(100, 'AcDbBlockTableRecord').pair(2, blockRecord.name);
+    }
+  });
+
+  body.pair(0, 'ENDSEC');
+
+  // BLOCKS
+  body.pair(0, 'SECTION').pair(2, 'BLOCKS');
+  for (const blockRecord of blockRecords) {
+    body.pair(0, 'BLOCK').pair(5, body.handle()).pair(330, blockRecord.handle)
+      .pair(100, 'AcDbEntity').pair(8, '0').pair(100, 'AcDbBlockBegin')
+      .pair(2, blockRecord.name).pair(70, blockRecord.block?.anonymous ? 1 : 0)
+      .pair(10, 0).pair(20, 0).pair(30, 0).pair(3, blockRecord.name).pair(1, '');
+    blockRecord.block?.entities.forEach(entity => body.entity(entity, blockRecord.handle));
+    body.pair(0, 'ENDBLK').pair(5, body.handle()).pair(330, blockRecord.handle)
+      .pair(100, 'AcDbEntity').pair(8, '0').pair(100, 'AcDbBlockEnd');
+  }
+  body.pair(0, 'ENDSEC');
+
+  // ENTITIES
+  body.pair(0, 'SECTION').pair(2, 'ENTITIES');
+  entities.forEach(entity => body.entity(entity, modelSpace));
+  body.pair(0, 'ENDSEC');
+
+  // OBJECTS
+  const root = body.handle();
+  const groups = body.handle();
+  body.pair(0, 'SECTION').pair(2, 'OBJECTS')
+    .pair(0, 'DICTIONARY').pair(5, root).pair(330, '0').pair(100, 'AcDbDictionary').pair(281, 1)
+    .pair(3, 'ACAD_GROUP').pair(350, groups)
+    .pair(0, 'DICTIONARY').pair(5, groups).pair(330, root).pair(100, 'AcDbDictionary').pair(281, 1)
+    .pair(0, 'ENDSEC')
+    .pair(0, 'EOF');
+
+  // The header needs the final handle seed, so it is written last
+  const header = new DXFWriter().pairs([
+    [0, 'SECTION'], [2, 'HEADER'],
+    [9, '$ACADVER'], [1, 'AC1015'],
+    [9, '$DWGCODEPAGE'], [3, 'ANSI_1252'],
+    [9, '$HANDSEED'], [5, body.handseed],
+    [9, '$INSUNITS'], [70, imperial ? 1 : 6],
+    [9, '$MEASUREMENT'], [70, imperial ? 0 : 1],
+    [9, '$LUNITS'], [70, imperial ? 4 : 2],
+    [9, '$LUPREC'], [70, imperial ? 4 : 3],
+    [9, '$EXTMIN'], [10, bounds.min.x], [20, bounds.min.y], [30, 0],
+    [9, '$EXTMAX'], [10, bounds.max.x], [20, bounds.max.y], [30, 0],
+    [9, '$DIMSTYLE'], [2, 'Standard'],
+    [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'CLASSES'], [0, 'ENDSEC']
+  ]);
+
+  return header.toString() + body.toString();
+}
+
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  return (Object.is(rounded, -0) ? 0 : rounded).toString();
+}
+
+/**
+ * DXF text is ANSI; other characters (m², accents) use \U+XXXX escapes
+ */
+function encodeText(value: string): string {
+  return value.replace(/[^\x20-\x7e]/g, char =>
+    `\\U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`
+  );
+}
+
+export const dxfExporter = new DXFExporter();
@@ -0,0 +1,265 @@
+/**
+ * Stage C: Export Bundler
+ * Runs the requested exporters over one plan and packs the results into a
+ * ZIP archive, together with the raw geometry, the specification the plan
+ * was generated from, a room schedule and a manifest. Multi-storey plans are
+ * exported whole where the format supports levels (DXF, PDF, glTF, IFC); the
+ * SVG and PNG show the ground floor.
+ */
+
+import { deflateRawSync } from 'zlib';
+import {
+  BuildingGeometry,
+  ExportBundle,
+  ExportFormat,
+  FloorPlanError,
+  FloorPlanGeometry,
+  FloorPlanSpecification
+} from '../types';
+import { crc32, formatCSV } from '../utils';
+import { EnhancedSVGExporter } from './enhanced-svg-exporter';
+import { PNGRasterizer } from './png-rasterizer';
+import { DXFExporter } from './dxf-exporter';
+import { PDFExporter } from './pdf-exporter';
+import { GLTFExporter } from './gltf-exporter';
+import { IFCExporter } from './ifc-exporter';
+
+export interface BundleSource {
+  geometry: FloorPlanGeometry; // Ground floor when the building has several levels
+  building?: BuildingGeometry;
+  specification?: FloorPlanSpecification;
+  projectName?: string;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ['svg', 'png', 'dxf', 'pdf', 'gltf', 'ifc'];
+
+// Version of the archive layout, bumped when files are renamed or restructured
+const BUNDLE_VERSION = '1.0';
+
+// File format version written by each exporter
+const FORMAT_VERSIONS: Record<ExportFormat, string> = {
+  svg: 'SVG 1.1',
+  png: 'PNG 1.2',
+  dxf: 'AutoCAD R2000 (AC1015)',
+  pdf: 'PDF 1.4',
+  gltf: 'glTF 2.0',
+  ifc: 'IFC4'
+};
+
+const FILE_NAMES: Record<ExportFormat, string> = {
+  svg: 'floor-plan.svg',
+  png: 'floor-plan.png',
+  dxf: 'floor-plan.dxf',
+  pdf: 'floor-plan.pdf',
+  gltf: 'floor-plan.glb',
+  ifc: 'floor-plan.ifc'
+};
+
+// Full-size PNG; thumbnails use THUMBNAIL_SIZE
+const PNG_SIZE = { width: 1024, height: 768, padding: 24 };
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export class ExportBundler {
+  private svgExporter = new EnhancedSVGExporter();
+  private rasterizer = new PNGRasterizer();
+  private dxfExporter = new DXFExporter();
+  private pdfExporter = new PDFExporter();
+  private gltfExporter = new GLTFExporter();
+  private ifcExporter = new IFCExporter();
+
+  /**
+   * Export a plan in each requested format as a ZIP archive
+   */
+  async export(source: BundleSource, formats: ExportFormat[]): Promise<Uint8Array> {
+    return this.toZip(this.bundle(source, formats));
+  }
+
+  /**
+   * Run the exporters for each requested format
+   */
+  bundle(source: BundleSource, formats: ExportFormat[]): ExportBundle {
+    const unknown = formats.filter(format => !EXPORT_FORMATS.includes(format));
+    if (unknown.length > 0) {
+      throw new FloorPlanError(`Unknown export format: ${unknown.join(', ')}`, 'C', true, { supported: EXPORT_FORMATS });
+    }
+
+    const { geometry, building, specification, projectName } = source;
+    const requested = EXPORT_FORMATS.filter(format => formats.includes(format));
+    const bundle: ExportBundle = {
+      json: JSON.stringify(building ?? geometry, null, 2),
+      specification: specification ? JSON.stringify(specification, null, 2) : undefined,
+      schedule: this.roomSchedule(source),
+      metadata: {
+        exportedAt: new Date().toISOString(),
+        formats: requested,
+        versions: {
+          bundle: BUNDLE_VERSION,
+          algorithm: (building ?? geometry).metadata.algorithmVersion,
+          ...Object.fromEntries(requested.map(format => [format, FORMAT_VERSIONS[format]]))
+        }
+      }
+    };
+
+    if (requested.includes('svg') || requested.includes('png')) {
+      const svg = this.svgExporter.export(geometry);
+      if (requested.includes('svg')) bundle.svg = svg;
+      if (requested.includes('png')) bundle.png = toBlob(this.rasterizer.rasterize(svg, PNG_SIZE), 'image/png');
+    }
+    if (requested.includes('dxf')) {
+      bundle.dxf = building ? this.dxfExporter.exportBuilding(building) : this.dxfExporter.export(geometry);
+    }
+    if (requested.includes('pdf')) {
+      const options = projectName ? { projectName } : {};
+      bundle.pdf = building
+        ? toBlob(this.pdfExporter.exportBuilding(building, options), 'application/pdf')
+        : this.pdfExporter.exportAsBlob(geometry, options);
+    }
+    if (requested.includes('gltf')) {
+      bundle.gltf = building
+        ? toBlob(this.gltfExporter.exportBuilding(building), 'model/gltf-binary')
+        : this.gltfExporter.exportAsBlob(geometry);
+    }
+    if (requested.includes('ifc')) {
+      const options = projectName ? { projectName } : {};
+      bundle.ifc = building ? this.ifcExporter.exportBuilding(building, options) : this.ifcExporter.export(geometry, options);
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Pack a bundle as a ZIP archive with a manifest listing its files
+   */
+  async toZip(bundle: ExportBundle): Promise<Uint8Array> {
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = [];
+    const add = (name: string, data: string | Uint8Array) => {
+      entries.push({ name, data: typeof data === 'string' ? encoder.encode(data) : data });
+    };
+
+    for (const format of bundle.metadata.formats) {
+      const content = bundle[format];
+      if (content === undefined) continue;
+      add(FILE_NAMES[format], content instanceof Blob ? new Uint8Array(await content.arrayBuffer()) : content);
+    }
+    add('geometry.json', bundle.json);
+    if (bundle.specification) add('specification.json', bundle.specification);
+    add('room-schedule.csv', bundle.schedule);
+
+    const manifest = {
+      ...bundle.metadata,
+      files: [...entries.map(entry => entry.name), 'manifest.json']
+    };
+    add('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return writeZip(entries, new Date(bundle.metadata.exportedAt));
+  }
+
+  /**
+   * One row per room, level by level
+   */
+  private roomSchedule({ geometry, building }: BundleSource): string {
+    const levels = building?.levels.length ? building.levels : [{ name: 'Ground Floor', geometry }];
+    const rows: string[][] = [['Level', 'Room', 'Type', 'Area (m²)', 'Width (m)', 'Depth (m)']];
+
+    for (const level of levels) {
+      for (const room of level.geometry.rooms) {
+        const { area, bounds } = room.geometry;
+        rows.push([level.name, room.labels.name, room.type, area.toFixed(2), bounds.width.toFixed(2), bounds.height.toFixed(2)]);
+      }
+    }
+
+    return formatCSV(rows);
+  }
+}
+
+function toBlob(data: Uint8Array, type: string): Blob {
+  return new Blob([data.buffer as ArrayBuffer], { type });
+}
+
+/**
+ * ZIP archive with each entry deflated, or stored when deflating does not help
+ */
+function writeZip(entries: ZipEntry[], date: Date): Uint8Array {
+  const time = (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1);
+  const day = ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate();
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const deflated = deflateRawSync(entry.data);
+    const stored = deflated.length >= entry.data.length;
+    const data = stored ? entry.data : new Uint8Array(deflated.buffer, deflated.byteOffset, deflated.length);
+    const fields = {
+      method: stored ? 0 : 8,
+      crc: crc32(entry.data),
+      compressedSize: data.length,
+      size: entry.data.length
+    };
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    writeEntryFields(localView, 4, fields, time, day, name.length);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // Made by
+    writeEntryFields(centralView, 6, fields, time, day, name.length);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, central) => sum + central.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const output = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+// Fields shared by local and central headers, from "version needed" to the name length
+function writeEntryFields(
+  view: DataView,
+  at: number,
+  fields: { method: number; crc: number; compressedSize: number; size: number },
+  time: number,
+  day: number,
+  nameLength: number
+): void {
+  view.setUint16(at, 20, true); // Version needed
+  view.setUint16(at + 2, 0x0800, true); // UTF-8 names
+  view.setUint16(at + 4, fields.method, true);
+  view.setUint16(at + 6, time, true);
+  view.setUint16(at + 8, day, true);
+  view.setUint32(at + 10, fields.crc, true);
+  view.setUint32(at + 14, fields.compressedSize, true);
+  view.setUint32(at + 18, fields.size, true);
+  view.setUint16(at + 22, nameLength, true);
+}
+
+export const exportBundler = new ExportBundler();
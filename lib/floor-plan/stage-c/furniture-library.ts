@@ -340,6 +340,8 @@ export const ROOM_FURNITURE_MAPPING: Record<RoomType, FurnitureType[]> = {
   utility: [], // Minimal furniture
   garage: [], // No furniture
   balcony: [], // No indoor furniture
+  stair: [], // Vertical circulation
+  lift: [], // Vertical circulation
 };
 
 /**
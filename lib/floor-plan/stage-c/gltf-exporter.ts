@@ -0,0 +1,747 @@
+/**
+ * Stage C: glTF Exporter
+ * Builds the 3D model of a plan without a GPU: walls extruded to the
+ * configured heights with door and window openings cut out, floor slabs,
+ * door leaves, glazing and furniture boxes, written as binary glTF 2.0 (GLB)
+ */
+
+import {
+  FloorPlanGeometry,
+  BuildingGeometry,
+  GLTFExportOptions,
+  Material3D,
+  StageCConfig,
+  FloorPlanError,
+  Point2D,
+  Wall,
+  Opening,
+  RoomGeometry
+} from '../types';
+import { DEFAULT_CONFIG, OPENING_DEFAULTS } from '../config';
+import { pointInPolygon } from '../utils';
+import { FURNITURE_LIBRARY, FurnitureType, getFurnitureForRoom } from './furniture-library';
+
+type Vec3 = [number, number, number];
+
+interface MeshData {
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  indices: number[];
+}
+
+interface SceneElement {
+  name: string;
+  material: string;
+  mesh: MeshData;
+}
+
+interface SceneLevel {
+  name: string;
+  elevation: number;
+  groups: Array<{ name: string; elements: SceneElement[] }>;
+}
+
+interface FurniturePlacement {
+  type: FurnitureType;
+  footprint: Point2D[];
+}
+
+export const DEFAULT_MATERIALS: Material3D[] = [
+  { name: 'wall-exterior', type: 'wall', properties: { color: '#E8E4DC', roughness: 0.9, metalness: 0 } },
+  { name: 'wall-interior', type: 'wall', properties: { color: '#FAFAFA', roughness: 0.9, metalness: 0 } },
+  { name: 'floor-wood', type: 'floor', properties: { color: '#C8A27A', roughness: 0.7, metalness: 0 } },
+  { name: 'floor-tile', type: 'floor', properties: { color: '#D9D9D6', roughness: 0.4, metalness: 0 } },
+  { name: 'floor-concrete', type: 'floor', properties: { color: '#A7A7A2', roughness: 0.95, metalness: 0 } },
+  { name: 'door', type: 'door', properties: { color: '#8B5A2B', roughness: 0.6, metalness: 0 } },
+  { name: 'glass', type: 'window', properties: { color: '#BFDFF0', roughness: 0.05, metalness: 0, transmission: 0.9 } },
+  { name: 'furniture', type: 'furniture', properties: { color: '#A0AEC0', roughness: 0.8, metalness: 0 } }
+];
+
+// Floor finish by room type; anything else gets wood
+const FLOOR_MATERIALS: Record<string, string> = {
+  bathroom: 'floor-tile',
+  kitchen: 'floor-tile',
+  utility: 'floor-tile',
+  garage: 'floor-concrete',
+  balcony: 'floor-concrete',
+  stair: 'floor-concrete',
+  lift: 'floor-concrete'
+};
+
+const DOOR_LEAF_THICKNESS = 0.04;
+const GLASS_THICKNESS = 0.02;
+
+// Gap kept between furniture and the wall faces (m)
+const FURNITURE_INSET = 0.12;
+
+// FURNITURE_LIBRARY only has plan dimensions; heights for the boxes (m)
+const FURNITURE_HEIGHTS: Partial<Record<FurnitureType, number>> = {
+  'bed-single': 0.5,
+  'bed-double': 0.5,
+  'bed-queen': 0.5,
+  'bed-king': 0.5,
+  wardrobe: 2.0,
+  nightstand: 0.55,
+  dresser: 0.85,
+  'sofa-2seat': 0.8,
+  'sofa-3seat': 0.8,
+  armchair: 0.8,
+  'coffee-table': 0.45,
+  'tv-stand': 0.5,
+  bookshelf: 1.8,
+  'dining-chair': 0.9,
+  refrigerator: 1.8,
+  toilet: 0.75,
+  'sink-bathroom': 0.85,
+  bathtub: 0.55,
+  shower: 2.0,
+  'office-chair': 1.0,
+  'filing-cabinet': 1.1
+};
+const DEFAULT_FURNITURE_HEIGHT = 0.9;
+
+// glTF constants
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const GLB_MAGIC = 0x46546c67;
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+export class GLTFExporter {
+  private extrusion: StageCConfig['extrusion'];
+  private materials: Material3D[];
+
+  constructor(
+    extrusion: StageCConfig['extrusion'] = DEFAULT_CONFIG.stageC.extrusion,
+    materials: Material3D[] = DEFAULT_MATERIALS
+  ) {
+    this.extrusion = extrusion;
+    this.materials = materials;
+  }
+
+  /**
+   * Export one level as GLB
+   */
+  export(geometry: FloorPlanGeometry, options: Partial<GLTFExportOptions> = {}): Uint8Array {
+    const resolved = this.resolveOptions(options);
+    return this.writeGLB([this.buildLevel(geometry, 'Level 0', 0)], resolved);
+  }
+
+  /**
+   * Export every level of a building, each raised to its elevation
+   */
+  exportBuilding(building: BuildingGeometry, options: Partial<GLTFExportOptions> = {}): Uint8Array {
+    const resolved = this.resolveOptions(options);
+    const levels = building.levels.map(level => this.buildLevel(level.geometry, level.name, level.elevation));
+    return this.writeGLB(levels, resolved);
+  }
+
+  /**
+   * The GLB of a level as a Blob, as carried by ExportBundle.gltf
+   */
+  exportAsBlob(geometry: FloorPlanGeometry, options?: Partial<GLTFExportOptions>): Blob {
+    return new Blob([this.export(geometry, options).buffer as ArrayBuffer], { type: 'model/gltf-binary' });
+  }
+
+  private resolveOptions(options: Partial<GLTFExportOptions>): GLTFExportOptions {
+    const resolved: GLTFExportOptions = {
+      includeTextures: false,
+      optimizeGeometry: false,
+      compression: 'none',
+      ...options
+    };
+
+    if (resolved.compression !== 'none') {
+      throw new FloorPlanError(`Unsupported compression: ${resolved.compression}`, 'C', false);
+    }
+
+    return resolved;
+  }
+
+  private buildLevel(geometry: FloorPlanGeometry, name: string, elevation: number): SceneLevel {
+    return {
+      name,
+      elevation,
+      groups: [
+        { name: 'Floors', elements: geometry.rooms.map(room => this.floorSlab(room)) },
+        { name: 'Walls', elements: this.walls(geometry) },
+        { name: 'Openings', elements: this.openings(geometry) },
+        { name: 'Furniture', elements: geometry.rooms.flatMap(room => this.furniture(room)) }
+      ]
+    };
+  }
+
+  /**
+   * Room floors as slabs whose top is the finished floor level
+   */
+  private floorSlab(room: RoomGeometry): SceneElement {
+    const mesh = emptyMesh();
+    addPrism(mesh, room.geometry.vertices, -this.extrusion.floorThickness, 0);
+    return { name: room.id, material: FLOOR_MATERIALS[room.type] || 'floor-wood', mesh };
+  }
+
+  /**
+   * Walls extruded to full height between openings, with lintels over doors
+   * and the wall below and above every window
+   */
+  private walls(geometry: FloorPlanGeometry): SceneElement[] {
+    const openingsByWall = groupOpenings(geometry.openings);
+
+    return geometry.walls.filter(wall => wall.length > 0).map(wall => {
+      const height = this.wallHeight(wall);
+      const mesh = emptyMesh();
+      const openings = openingsByWall.get(wall.id) || [];
+
+      for (const [from, to] of solidSpans(wall, openings)) {
+        addPrism(mesh, wallBox(wall, from, to, wall.thickness), 0, height);
+      }
+
+      for (const opening of openings) {
+        const [from, to] = openingSpan(wall, opening);
+        if (to - from < 0.001) continue;
+
+        if (opening.type === 'door') {
+          const top = Math.min(opening.height ?? OPENING_DEFAULTS.doorHeight, height);
+          if (top < height) addPrism(mesh, wallBox(wall, from, to, wall.thickness), top, height);
+        } else {
+          const [sill, top] = windowRange(opening, height);
+          if (sill > 0) addPrism(mesh, wallBox(wall, from, to, wall.thickness), 0, sill);
+          if (top < height) addPrism(mesh, wallBox(wall, from, to, wall.thickness), top, height);
+        }
+      }
+
+      return { name: wall.id, material: wall.type === 'exterior' ? 'wall-exterior' : 'wall-interior', mesh };
+    });
+  }
+
+  /**
+   * Closed door leaves and window panes on the wall center line
+   */
+  private openings(geometry: FloorPlanGeometry): SceneElement[] {
+    const wallsById = new Map(geometry.walls.map(wall => [wall.id, wall]));
+
+    return geometry.openings.flatMap(opening => {
+      const wall = wallsById.get(opening.wallId);
+      if (!wall || wall.length === 0) return [];
+
+      const height = this.wallHeight(wall);
+      const [from, to] = openingSpan(wall, opening);
+      const mesh = emptyMesh();
+
+      if (opening.type === 'door') {
+        addPrism(mesh, wallBox(wall, from, to, DOOR_LEAF_THICKNESS), 0, Math.min(opening.height ?? OPENING_DEFAULTS.doorHeight, height));
+        return [{ name: opening.id, material: 'door', mesh }];
+      }
+
+      const [sill, top] = windowRange(opening, height);
+      addPrism(mesh, wallBox(wall, from, to, GLASS_THICKNESS), sill, top);
+      return [{ name: opening.id, material: 'glass', mesh }];
+    });
+  }
+
+  private furniture(room: RoomGeometry): SceneElement[] {
+    return placeFurniture(room).map((item, i) => {
+      const mesh = emptyMesh();
+      const height = FURNITURE_LIBRARY[item.type].dimensions.height ?? FURNITURE_HEIGHTS[item.type] ?? DEFAULT_FURNITURE_HEIGHT;
+      addPrism(mesh, item.footprint, 0, height);
+      return { name: `${room.id}-${item.type}-${i + 1}`, material: 'furniture', mesh };
+    });
+  }
+
+  private wallHeight(wall: Wall): number {
+    return wall.type === 'exterior' ? this.extrusion.wallHeight.exterior : this.extrusion.wallHeight.interior;
+  }
+
+  /**
+   * Lay the scene out as glTF: one node per level, a node per element group
+   * and a mesh per element (or per material when optimizing), with all
+   * vertex data in the GLB binary chunk
+   */
+  private writeGLB(levels: SceneLevel[], options: GLTFExportOptions): Uint8Array {
+    const materialIndex = new Map(this.materials.map((material, i) => [material.name, i]));
+    const gltf: any = {
+      asset: { version: '2.0', generator: 'PlotSync floor plan exporter' },
+      scene: 0,
+      scenes: [{ name: 'Floor Plan', nodes: [] as number[] }],
+      nodes: [] as any[],
+      meshes: [] as any[],
+      materials: this.materials.map(material => toGLTFMaterial(material)),
+      accessors: [] as any[],
+      bufferViews: [] as any[],
+      buffers: [] as any[]
+    };
+
+    if (this.materials.some(material => material.properties.transmission)) {
+      gltf.extensionsUsed = ['KHR_materials_transmission'];
+    }
+    if (options.includeTextures) {
+      addTextures(gltf, this.materials);
+    }
+
+    const chunks: Uint8Array[] = [];
+    let byteLength = 0;
+    const addView = (data: Float32Array | Uint32Array, target: number): number => {
+      const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+      gltf.bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, target });
+      chunks.push(bytes);
+      byteLength += bytes.length;
+      return gltf.bufferViews.length - 1;
+    };
+
+    const addMesh = (element: SceneElement): number => {
+      const { positions, normals, uvs, indices } = element.mesh;
+      const vertexCount = positions.length / 3;
+      const accessor = (view: number, type: string, count: number, componentType: number, extra: object = {}) => {
+        gltf.accessors.push({ bufferView: view, componentType, count, type, ...extra });
+        return gltf.accessors.length - 1;
+      };
+
+      const attributes: Record<string, number> = {
+        POSITION: accessor(addView(new Float32Array(positions), ARRAY_BUFFER), 'VEC3', vertexCount, FLOAT, bounds(positions)),
+        NORMAL: accessor(addView(new Float32Array(normals), ARRAY_BUFFER), 'VEC3', vertexCount, FLOAT)
+      };
+      if (options.includeTextures) {
+        attributes.TEXCOORD_0 = accessor(addView(new Float32Array(uvs), ARRAY_BUFFER), 'VEC2', vertexCount, FLOAT);
+      }
+      const indexAccessor = accessor(addView(new Uint32Array(indices), ELEMENT_ARRAY_BUFFER), 'SCALAR', indices.length, UNSIGNED_INT);
+
+      gltf.meshes.push({
+        name: element.name,
+        primitives: [{ attributes, indices: indexAccessor, material: materialIndex.get(element.material) ?? 0 }]
+      });
+      return gltf.meshes.length - 1;
+    };
+
+    const addNode = (node: object): number => {
+      gltf.nodes.push(node);
+      return gltf.nodes.length - 1;
+    };
+
+    for (const level of levels) {
+      const groupNodes = level.groups.map(group => {
+        const elements = (options.optimizeGeometry ? mergeByMaterial(group.name, group.elements) : group.elements)
+          .filter(element => element.mesh.indices.length > 0);
+        const children = elements.map(element => addNode({ name: element.name, mesh: addMesh(element) }));
+        return addNode({ name: group.name, ...(children.length > 0 && { children }) });
+      });
+
+      gltf.scenes[0].nodes.push(addNode({
+        name: level.name,
+        children: groupNodes,
+        ...(level.elevation !== 0 && { translation: [0, level.elevation, 0] })
+      }));
+    }
+
+    const binary = new Uint8Array(align(byteLength));
+    let offset = 0;
+    for (const chunk of chunks) {
+      binary.set(chunk, offset);
+      offset += chunk.length;
+    }
+    if (binary.length > 0) gltf.buffers.push({ byteLength: binary.length });
+
+    // glTF arrays may not be empty, e.g. for a plan with no rooms
+    for (const key of ['meshes', 'accessors', 'bufferViews', 'buffers']) {
+      if (gltf[key].length === 0) delete gltf[key];
+    }
+
+    return packGLB(gltf, binary);
+  }
+}
+
+export const gltfExporter = new GLTFExporter();
+
+function emptyMesh(): MeshData {
+  return { positions: [], normals: [], uvs: [], indices: [] };
+}
+
+/**
+ * Plan (x, y, height) to glTF (x right, y up, z toward the viewer); plan y
+ * runs down the page so it maps straight onto z
+ */
+function toScene(p: Point2D, height: number): Vec3 {
+  return [p.x, height, p.y];
+}
+
+/**
+ * Add one flat-shaded triangle, wound so its front face looks along `normal`
+ */
+function addTriangle(mesh: MeshData, a: Vec3, b: Vec3, c: Vec3, normal: Vec3): void {
+  const faceNormal = crossVec(subVec(b, a), subVec(c, a));
+  const vertices = dotVec(faceNormal, normal) < 0 ? [a, c, b] : [a, b, c];
+  const base = mesh.positions.length / 3;
+
+  // Planar mapping at one texture repeat per metre
+  const axis = Math.abs(normal[1]) > 0.5 ? [0, 2] : Math.abs(normal[0]) > 0.5 ? [2, 1] : [0, 1];
+
+  for (const v of vertices) {
+    mesh.positions.push(...v);
+    mesh.normals.push(...normal);
+    mesh.uvs.push(v[axis[0]], v[axis[1]]);
+  }
+  mesh.indices.push(base, base + 1, base + 2);
+}
+
+/**
+ * Extrude a plan polygon between two heights: top and bottom caps plus a
+ * quad for every edge
+ */
+function addPrism(mesh: MeshData, polygon: Point2D[], bottom: number, top: number): void {
+  if (polygon.length < 3 || top - bottom < 0.001) return;
+
+  for (const [i, j, k] of triangulate(polygon)) {
+    addTriangle(mesh, toScene(polygon[i], top), toScene(polygon[j], top), toScene(polygon[k], top), [0, 1, 0]);
+    addTriangle(mesh, toScene(polygon[i], bottom), toScene(polygon[j], bottom), toScene(polygon[k], bottom), [0, -1, 0]);
+  }
+
+  const outward = signedArea(polygon) > 0 ? 1 : -1;
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    const length = Math.hypot(q.x - p.x, q.y - p.y);
+    if (length < 1e-6) return;
+
+    // Right-hand normal of a counter-clockwise edge points out of the polygon
+    const normal: Vec3 = [((q.y - p.y) / length) * outward, 0, (-(q.x - p.x) / length) * outward];
+    const corners = [toScene(p, bottom), toScene(q, bottom), toScene(q, top), toScene(p, top)];
+    addTriangle(mesh, corners[0], corners[1], corners[2], normal);
+    addTriangle(mesh, corners[0], corners[2], corners[3], normal);
+  });
+}
+
+/**
+ * Ear-clipping triangulation of a simple polygon
+ */
+function triangulate(polygon: Point2D[]): Array<[number, number, number]> {
+  const remaining = polygon.map((_, i) => i);
+  const orientation = signedArea(polygon) > 0 ? 1 : -1;
+  const triangles: Array<[number, number, number]> = [];
+
+  while (remaining.length > 3) {
+    let clipped = false;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const a = remaining[(i - 1 + remaining.length) % remaining.length];
+      const b = remaining[i];
+      const c = remaining[(i + 1) % remaining.length];
+      const [pa, pb, pc] = [polygon[a], polygon[b], polygon[c]];
+
+      const turn = (pb.x - pa.x) * (pc.y - pb.y) - (pb.y - pa.y) * (pc.x - pb.x);
+      if (turn * orientation <= 1e-12) continue;
+      if (remaining.some(j => j !== a && j !== b && j !== c && insideTriangle(polygon[j], pa, pb, pc))) continue;
+
+      triangles.push([a, b, c]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+
+    // Degenerate outline: fan what is left
+    if (!clipped) break;
+  }
+
+  for (let k = 1; k + 1 < remaining.length; k++) {
+    triangles.push([remaining[0], remaining[k], remaining[k + 1]]);
+  }
+  return triangles;
+}
+
+function insideTriangle(p: Point2D, a: Point2D, b: Point2D, c: Point2D): boolean {
+  const d1 = (p.x - b.x) * (a.y - b.y) - (a.x - b.x) * (p.y - b.y);
+  const d2 = (p.x - c.x) * (b.y - c.y) - (b.x - c.x) * (p.y - c.y);
+  const d3 = (p.x - a.x) * (c.y - a.y) - (c.x - a.x) * (p.y - a.y);
+  const negative = d1 < 0 || d2 < 0 || d3 < 0;
+  const positive = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(negative && positive);
+}
+
+function signedArea(polygon: Point2D[]): number {
+  let sum = 0;
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    sum += p.x * q.y - q.x * p.y;
+  });
+  return sum / 2;
+}
+
+function groupOpenings(openings: Opening[]): Map<string, Opening[]> {
+  const byWall = new Map<string, Opening[]>();
+  for (const opening of openings) {
+    byWall.set(opening.wallId, [...(byWall.get(opening.wallId) || []), opening]);
+  }
+  return byWall;
+}
+
+function openingSpan(wall: Wall, opening: Opening): [number, number] {
+  const length = wallLength(wall);
+  return [
+    Math.max(0, opening.position * length - opening.width / 2),
+    Math.min(length, opening.position * length + opening.width / 2)
+  ];
+}
+
+/**
+ * Stretches of a wall with no opening in them, as distances from its start
+ */
+function solidSpans(wall: Wall, openings: Opening[]): Array<[number, number]> {
+  const length = wallLength(wall);
+  const gaps = openings.map(opening => openingSpan(wall, opening)).sort((a, b) => a[0] - b[0]);
+
+  const spans: Array<[number, number]> = [];
+  let cursor = 0;
+  for (const [from, to] of gaps) {
+    if (from - cursor > 0.001) spans.push([cursor, from]);
+    cursor = Math.max(cursor, to);
+  }
+  if (length - cursor > 0.001) spans.push([cursor, length]);
+  return spans;
+}
+
+function windowRange(opening: Opening, wallHeight: number): [number, number] {
+  const sill = Math.min(opening.properties.sillHeight ?? OPENING_DEFAULTS.windowSill, wallHeight);
+  return [sill, Math.min(sill + (opening.height ?? OPENING_DEFAULTS.windowHeight), wallHeight)];
+}
+
+/**
+ * Plan rectangle covering part of a wall, `thickness` wide across it
+ */
+function wallBox(wall: Wall, from: number, to: number, thickness: number): Point2D[] {
+  const { start, end } = wall.geometry;
+  const length = wallLength(wall);
+  const dir = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+  const side = { x: -dir.y * thickness / 2, y: dir.x * thickness / 2 };
+  const at = (t: number) => ({ x: start.x + dir.x * t, y: start.y + dir.y * t });
+
+  const a = at(from);
+  const b = at(to);
+  return [
+    { x: a.x + side.x, y: a.y + side.y },
+    { x: b.x + side.x, y: b.y + side.y },
+    { x: b.x - side.x, y: b.y - side.y },
+    { x: a.x - side.x, y: a.y - side.y }
+  ];
+}
+
+function wallLength(wall: Wall): number {
+  return Math.hypot(wall.geometry.end.x - wall.geometry.start.x, wall.geometry.end.y - wall.geometry.start.y);
+}
+
+/**
+ * Place a room's furniture set: pieces that belong against a wall go round
+ * the walls clockwise from the top-left corner, the rest fill in from the
+ * middle. Pieces that do not fit are left out.
+ */
+function placeFurniture(room: RoomGeometry): FurniturePlacement[] {
+  const { x, y, width, height } = room.geometry.bounds;
+  const inner = {
+    x: x + FURNITURE_INSET,
+    y: y + FURNITURE_INSET,
+    width: width - FURNITURE_INSET * 2,
+    height: height - FURNITURE_INSET * 2
+  };
+  if (inner.width <= 0 || inner.height <= 0) return [];
+
+  const placed: Array<FurniturePlacement & { box: { x: number; y: number; width: number; height: number } }> = [];
+  const fits = (box: { x: number; y: number; width: number; height: number }) =>
+    box.x >= inner.x - 1e-6 && box.y >= inner.y - 1e-6 &&
+    box.x + box.width <= inner.x + inner.width + 1e-6 && box.y + box.height <= inner.y + inner.height + 1e-6 &&
+    corners(box).every(corner => pointInPolygon(corner, room.geometry.vertices)) &&
+    placed.every(other => !boxesOverlap(box, other.box));
+
+  for (const type of getFurnitureForRoom(room.type, room.geometry.area)) {
+    const symbol = FURNITURE_LIBRARY[type];
+    const { width: w, depth: d } = symbol.dimensions;
+
+    const candidates = symbol.wallPlacement
+      ? wallCandidates(inner, w, d)
+      : [{ x: inner.x + (inner.width - w) / 2, y: inner.y + (inner.height - d) / 2, width: w, height: d }];
+
+    const box = candidates.find(fits);
+    if (box) placed.push({ type, footprint: corners(box), box });
+  }
+
+  return placed.map(({ type, footprint }) => ({ type, footprint }));
+}
+
+/**
+ * Positions along each wall of the room, stepping in 10 cm increments; the
+ * piece's back is against the wall, so it is rotated on the side walls
+ */
+function wallCandidates(
+  inner: { x: number; y: number; width: number; height: number },
+  width: number,
+  depth: number
+): Array<{ x: number; y: number; width: number; height: number }> {
+  const candidates: Array<{ x: number; y: number; width: number; height: number }> = [];
+  const step = 0.1;
+
+  for (let t = 0; t + width <= inner.width + 1e-6; t += step) {
+    candidates.push({ x: inner.x + t, y: inner.y, width, height: depth });
+  }
+  for (let t = 0; t + width <= inner.height + 1e-6; t += step) {
+    candidates.push({ x: inner.x + inner.width - depth, y: inner.y + t, width: depth, height: width });
+  }
+  for (let t = 0; t + width <= inner.width + 1e-6; t += step) {
+    candidates.push({ x: inner.x + inner.width - width - t, y: inner.y + inner.height - depth, width, height: depth });
+  }
+  for (let t = 0; t + width <= inner.height + 1e-6; t += step) {
+    candidates.push({ x: inner.x, y: inner.y + inner.height - width - t, width: depth, height: width });
+  }
+
+  return candidates;
+}
+
+function corners(box: { x: number; y: number; width: number; height: number }): Point2D[] {
+  return [
+    { x: box.x, y: box.y },
+    { x: box.x + box.width, y: box.y },
+    { x: box.x + box.width, y: box.y + box.height },
+    { x: box.x, y: box.y + box.height }
+  ];
+}
+
+function boxesOverlap(
+  a: { x: number; y: number; width: number; height: number },
+  b: { x: number; y: number; width: number; height: number }
+): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * One element per material, for viewers that prefer few draw calls
+ */
+function mergeByMaterial(groupName: string, elements: SceneElement[]): SceneElement[] {
+  const merged = new Map<string, SceneElement>();
+
+  for (const element of elements) {
+    let target = merged.get(element.material);
+    if (!target) {
+      target = { name: `${groupName}-${element.material}`, material: element.material, mesh: emptyMesh() };
+      merged.set(element.material, target);
+    }
+
+    const base = target.mesh.positions.length / 3;
+    target.mesh.positions.push(...element.mesh.positions);
+    target.mesh.normals.push(...element.mesh.normals);
+    target.mesh.uvs.push(...element.mesh.uvs);
+    target.mesh.indices.push(...element.mesh.indices.map(index => index + base));
+  }
+
+  return [...merged.values()];
+}
+
+function toGLTFMaterial(material: Material3D): any {
+  const { color = '#CCCCCC', roughness = 0.8, metalness = 0, transmission } = material.properties;
+  const [r, g, b] = hexToLinear(color);
+
+  return {
+    name: material.name,
+    pbrMetallicRoughness: {
+      baseColorFactor: [r, g, b, transmission ? 1 - transmission * 0.7 : 1],
+      metallicFactor: metalness,
+      roughnessFactor: roughness
+    },
+    ...(transmission && {
+      alphaMode: 'BLEND',
+      doubleSided: true,
+      extensions: { KHR_materials_transmission: { transmissionFactor: transmission } }
+    })
+  };
+}
+
+/**
+ * Reference material textures by URL; meshes carry planar UVs for them
+ */
+function addTextures(gltf: any, materials: Material3D[]): void {
+  const images: Array<{ uri: string }> = [];
+  const textureFor = (uri: string): number => {
+    let index = images.findIndex(image => image.uri === uri);
+    if (index < 0) {
+      images.push({ uri });
+      index = images.length - 1;
+    }
+    return index;
+  };
+
+  materials.forEach((material, i) => {
+    const { textureUrl, normalMapUrl } = material.properties;
+    if (textureUrl) gltf.materials[i].pbrMetallicRoughness.baseColorTexture = { index: textureFor(textureUrl) };
+    if (normalMapUrl) gltf.materials[i].normalTexture = { index: textureFor(normalMapUrl) };
+  });
+
+  if (images.length > 0) {
+    gltf.images = images;
+    gltf.samplers = [{ wrapS: 10497, wrapT: 10497 }];
+    gltf.textures = images.map((_, source) => ({ sampler: 0, source }));
+  }
+}
+
+function hexToLinear(hex: string): Vec3 {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const channel = (shift: number) => {
+    const c = ((value >> shift) & 0xff) / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return [channel(16), channel(8), channel(0)];
+}
+
+function bounds(positions: number[]): { min: number[]; max: number[] } {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      // Stored as float32, so the bounds must be too
+      const value = Math.fround(positions[i + axis]);
+      min[axis] = Math.min(min[axis], value);
+      max[axis] = Math.max(max[axis], value);
+    }
+  }
+  return { min, max };
+}
+
+function align(length: number): number {
+  return Math.ceil(length / 4) * 4;
+}
+
+/**
+ * GLB container: 12-byte header, JSON chunk padded with spaces, binary
+ * chunk padded with zeros
+ */
+function packGLB(gltf: object, binary: Uint8Array): Uint8Array {
+  const encoded = new TextEncoder().encode(JSON.stringify(gltf));
+  const json = new Uint8Array(align(encoded.length)).fill(0x20);
+  json.set(encoded);
+
+  const total = 12 + 8 + json.length + 8 + binary.length;
+  const glb = new Uint8Array(total);
+  const view = new DataView(glb.buffer);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+
+  view.setUint32(12, json.length, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  glb.set(json, 20);
+
+  const binaryStart = 20 + json.length;
+  view.setUint32(binaryStart, binary.length, true);
+  view.setUint32(binaryStart + 4, CHUNK_BIN, true);
+  glb.set(binary, binaryStart + 8);
+
+  return glb;
+}
+
+function subVec(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function crossVec(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dotVec(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
@@ -0,0 +1,580 @@
+/**
+ * Stage C: IFC Exporter
+ * Writes a plan as an IFC4 STEP file for BIM tools: each level becomes an
+ * IfcBuildingStorey with a floor slab, walls become IfcWallStandardCase with
+ * material layers, doors and windows fill IfcOpeningElement voids in their
+ * walls, and rooms become IfcSpace with area quantities
+ */
+
+import {
+  FloorPlanGeometry,
+  BuildingGeometry,
+  IFCExportOptions,
+  Point2D,
+  Wall,
+  Opening,
+  RoomGeometry
+} from '../types';
+import { DEFAULT_CONFIG, OPENING_DEFAULTS } from '../config';
+import { boundingBox, hashString, polygonArea } from '../utils';
+
+interface LevelInput {
+  name: string;
+  elevation: number;
+  geometry: FloorPlanGeometry;
+}
+
+// Shared entities every element refers to
+interface ModelContext {
+  writer: StepWriter;
+  options: IFCExportOptions;
+  ownerHistory: string;
+  bodyContext: string;
+  axisContext: string;
+  guid: (key: string) => string;
+  toModel: (p: Point2D) => Point2D;
+}
+
+// Characters of the 22-character compressed IFC GlobalId
+const GUID_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$';
+
+// Openings are cut a little deeper than their wall so they always go through (m)
+const OPENING_CLEARANCE = 0.1;
+const DOOR_LEAF_THICKNESS = 0.05;
+const WINDOW_FRAME_THICKNESS = 0.07;
+
+// Room types that are open to the outside
+const EXTERNAL_SPACES = new Set(['balcony']);
+
+export class IFCExporter {
+  private extrusion = DEFAULT_CONFIG.stageC.extrusion;
+
+  /**
+   * Export one level as a single-storey building
+   */
+  export(geometry: FloorPlanGeometry, options: Partial<IFCExportOptions> = {}): string {
+    return this.exportLevels(
+      [{ name: 'Ground Floor', elevation: 0, geometry }],
+      this.resolveOptions(options),
+      geometry.metadata.generatedAt
+    );
+  }
+
+  /**
+   * Export every level of a building as its own storey
+   */
+  exportBuilding(building: BuildingGeometry, options: Partial<IFCExportOptions> = {}): string {
+    return this.exportLevels(
+      building.levels.map(level => ({ name: level.name, elevation: level.elevation, geometry: level.geometry })),
+      this.resolveOptions(options),
+      building.metadata.generatedAt
+    );
+  }
+
+  private resolveOptions(options: Partial<IFCExportOptions>): IFCExportOptions {
+    return {
+      projectName: 'PlotSync Project',
+      buildingName: 'Building',
+      author: 'PlotSync',
+      organization: 'PlotSync',
+      includeQuantities: true,
+      ...options
+    };
+  }
+
+  private exportLevels(levels: LevelInput[], options: IFCExportOptions, generatedAt: string): string {
+    const writer = new StepWriter();
+
+    // GlobalIds are derived from the plan, so exporting it again keeps them stable
+    const guid = (key: string) => compressGuid(
+      [0, 1, 2, 3].map(i => hashString(`${options.projectName}|${generatedAt}|${key}|${i}`))
+    );
+
+    // Model y runs north, plan y runs down the page
+    const points = levels.flatMap(level => [
+      ...level.geometry.rooms.flatMap(room => room.geometry.vertices),
+      ...level.geometry.walls.flatMap(wall => [wall.geometry.start, wall.geometry.end])
+    ]);
+    const maxY = points.length > 0 ? Math.max(...points.map(p => p.y)) : 0;
+    const toModel = (p: Point2D): Point2D => ({ x: p.x, y: maxY - p.y });
+
+    const timestamp = Math.floor(Date.parse(generatedAt) / 1000) || 0;
+    const person = writer.add('IFCPERSON', '$', str(options.author), '$', '$', '$', '$', '$', '$');
+    const organization = writer.add('IFCORGANIZATION', '$', str(options.organization), '$', '$', '$');
+    const user = writer.add('IFCPERSONANDORGANIZATION', person, organization, '$');
+    const application = writer.add('IFCAPPLICATION', organization, str('1.0'), str('PlotSync'), str('PlotSync'));
+    const ownerHistory = writer.add('IFCOWNERHISTORY', user, application, '$', '.ADDED.', '$', '$', '$', String(timestamp));
+
+    const units = writer.add('IFCUNITASSIGNMENT', list([
+      writer.add('IFCSIUNIT', '*', '.LENGTHUNIT.', '$', '.METRE.'),
+      writer.add('IFCSIUNIT', '*', '.AREAUNIT.', '$', '.SQUARE_METRE.'),
+      writer.add('IFCSIUNIT', '*', '.VOLUMEUNIT.', '$', '.CUBIC_METRE.'),
+      writer.add('IFCSIUNIT', '*', '.PLANEANGLEUNIT.', '$', '.RADIAN.')
+    ]));
+
+    const modelContext = writer.add(
+      'IFCGEOMETRICREPRESENTATIONCONTEXT', '$', str('Model'), '3', real(1e-5), placement3D(writer), '$'
+    );
+    const bodyContext = writer.add(
+      'IFCGEOMETRICREPRESENTATIONSUBCONTEXT', str('Body'), str('Model'), '*', '*', '*', '*', modelContext, '$', '.MODEL_VIEW.', '$'
+    );
+    const axisContext = writer.add(
+      'IFCGEOMETRICREPRESENTATIONSUBCONTEXT', str('Axis'), str('Model'), '*', '*', '*', '*', modelContext, '$', '.GRAPH_VIEW.', '$'
+    );
+
+    const context: ModelContext = { writer, options, ownerHistory, bodyContext, axisContext, guid, toModel };
+
+    const project = writer.add(
+      'IFCPROJECT', str(guid('project')), ownerHistory, str(options.projectName), '$', '$', '$', '$', list([modelContext]), units
+    );
+
+    const sitePlacement = writer.add('IFCLOCALPLACEMENT', '$', placement3D(writer));
+    const site = writer.add(
+      'IFCSITE', str(guid('site')), ownerHistory, str('Site'), '$', '$', sitePlacement, '$', '$', '.ELEMENT.', '$', '$', '$', '$', '$'
+    );
+    const buildingPlacement = writer.add('IFCLOCALPLACEMENT', sitePlacement, placement3D(writer));
+    const building = writer.add(
+      'IFCBUILDING', str(guid('building')), ownerHistory, str(options.buildingName), '$', '$', buildingPlacement, '$', '$', '.ELEMENT.', '$', '$', '$'
+    );
+
+    this.aggregate(context, 'project', project, [site]);
+    this.aggregate(context, 'site', site, [building]);
+
+    const storeys = levels.map((level, index) =>
+      this.writeStorey(context, level, `level${index}`, buildingPlacement)
+    );
+    this.aggregate(context, 'building', building, storeys);
+
+    return writer.toString({
+      fileName: `${options.projectName}.ifc`,
+      timestamp: new Date(timestamp * 1000).toISOString().slice(0, 19),
+      author: options.author,
+      organization: options.organization
+    });
+  }
+
+  /**
+   * A storey with its slab, walls, doors and windows, and spaces
+   */
+  private writeStorey(context: ModelContext, level: LevelInput, key: string, buildingPlacement: string): string {
+    const { writer, ownerHistory, guid } = context;
+    const { geometry } = level;
+
+    const placement = writer.add('IFCLOCALPLACEMENT', buildingPlacement, placement3D(writer, [0, 0, level.elevation]));
+    const storey = writer.add(
+      'IFCBUILDINGSTOREY', str(guid(key)), ownerHistory, str(level.name), '$', '$', placement, '$', '$', '.ELEMENT.', real(level.elevation)
+    );
+
+    const elements: string[] = [];
+    const slab = this.writeSlab(context, geometry, `${key}/slab`, placement);
+    if (slab) elements.push(slab);
+
+    const openingsByWall = new Map<string, Opening[]>();
+    for (const opening of geometry.openings) {
+      openingsByWall.set(opening.wallId, [...(openingsByWall.get(opening.wallId) || []), opening]);
+    }
+
+    // One material layer set per wall thickness
+    const wallsByThickness = new Map<number, string[]>();
+    for (const wall of geometry.walls) {
+      const length = wallLength(wall);
+      if (length === 0) continue;
+
+      const ifcWall = this.writeWall(context, wall, length, `${key}/${wall.id}`, placement);
+      elements.push(ifcWall.ref);
+      const thickness = Math.round(wall.thickness * 1000) / 1000;
+      wallsByThickness.set(thickness, [...(wallsByThickness.get(thickness) || []), ifcWall.ref]);
+
+      for (const opening of openingsByWall.get(wall.id) || []) {
+        elements.push(this.writeOpening(context, wall, length, opening, `${key}/${opening.id}`, ifcWall));
+      }
+    }
+    wallsByThickness.forEach((walls, thickness) => this.writeWallMaterial(context, `${key}/${thickness}`, thickness, walls));
+
+    if (elements.length > 0) {
+      writer.add(
+        'IFCRELCONTAINEDINSPATIALSTRUCTURE', str(guid(`${key}/contains`)), ownerHistory, '$', '$', list(elements), storey
+      );
+    }
+
+    const spaces = geometry.rooms.map(room => this.writeSpace(context, room, `${key}/${room.id}`, placement));
+    if (spaces.length > 0) {
+      this.aggregate(context, key, storey, spaces);
+    }
+
+    return storey;
+  }
+
+  /**
+   * Floor slab under the whole level, its top at the storey elevation
+   */
+  private writeSlab(context: ModelContext, geometry: FloorPlanGeometry, key: string, storeyPlacement: string): string | null {
+    const { writer, ownerHistory, guid, toModel } = context;
+    const outline = slabOutline(geometry);
+    if (outline.length < 3) return null;
+
+    const thickness = this.extrusion.floorThickness;
+    const profile = writer.add('IFCARBITRARYCLOSEDPROFILEDEF', '.AREA.', '$', polyline(writer, outline.map(toModel), true));
+    const solid = writer.add('IFCEXTRUDEDAREASOLID', profile, placement3D(writer, [0, 0, -thickness]), direction(writer, [0, 0, 1]), real(thickness));
+    const shape = productShape(writer, [writer.add('IFCSHAPEREPRESENTATION', context.bodyContext, str('Body'), str('SweptSolid'), list([solid]))]);
+
+    const placement = writer.add('IFCLOCALPLACEMENT', storeyPlacement, placement3D(writer));
+    const slab = writer.add('IFCSLAB', str(guid(key)), ownerHistory, str('Floor Slab'), '$', '$', placement, shape, '$', '.FLOOR.');
+
+    if (context.options.includeQuantities) {
+      const area = polygonArea(outline);
+      this.writeQuantities(context, key, slab, 'Qto_SlabBaseQuantities', [
+        ['IFCQUANTITYLENGTH', 'Depth', thickness],
+        ['IFCQUANTITYAREA', 'GrossArea', area],
+        ['IFCQUANTITYVOLUME', 'GrossVolume', area * thickness]
+      ]);
+    }
+
+    return slab;
+  }
+
+  /**
+   * IfcWallStandardCase along the wall's center line: an axis curve plus a
+   * rectangle of the wall's thickness extruded to the storey's wall height
+   */
+  private writeWall(
+    context: ModelContext,
+    wall: Wall,
+    length: number,
+    key: string,
+    storeyPlacement: string
+  ): { ref: string; placement: string } {
+    const { writer, ownerHistory, guid, toModel } = context;
+    const height = this.wallHeight(wall);
+    const start = toModel(wall.geometry.start);
+    const end = toModel(wall.geometry.end);
+    const along: [number, number, number] = [(end.x - start.x) / length, (end.y - start.y) / length, 0];
+
+    const placement = writer.add(
+      'IFCLOCALPLACEMENT', storeyPlacement, placement3D(writer, [start.x, start.y, 0], along)
+    );
+
+    const axis = writer.add(
+      'IFCSHAPEREPRESENTATION', context.axisContext, str('Axis'), str('Curve2D'),
+      list([polyline(writer, [{ x: 0, y: 0 }, { x: length, y: 0 }], false)])
+    );
+    const body = writer.add(
+      'IFCSHAPEREPRESENTATION', context.bodyContext, str('Body'), str('SweptSolid'),
+      list([extrudedRectangle(writer, length, wall.thickness, height, [length / 2, 0])])
+    );
+
+    const ifcWall = writer.add(
+      'IFCWALLSTANDARDCASE', str(guid(key)), ownerHistory, str(wall.id), '$', '$', placement, productShape(writer, [axis, body]), '$', '.STANDARD.'
+    );
+
+    this.writeProperties(context, key, ifcWall, 'Pset_WallCommon', [
+      ['IsExternal', bool(wall.type === 'exterior')],
+      ['LoadBearing', bool(wall.structuralLoad)]
+    ]);
+
+    if (context.options.includeQuantities) {
+      this.writeQuantities(context, key, ifcWall, 'Qto_WallBaseQuantities', [
+        ['IFCQUANTITYLENGTH', 'Length', length],
+        ['IFCQUANTITYLENGTH', 'Width', wall.thickness],
+        ['IFCQUANTITYLENGTH', 'Height', height],
+        ['IFCQUANTITYAREA', 'GrossSideArea', length * height],
+        ['IFCQUANTITYVOLUME', 'GrossVolume', length * height * wall.thickness]
+      ]);
+    }
+
+    return { ref: ifcWall, placement };
+  }
+
+  /**
+   * The opening void in the wall and the door or window that fills it. The
+   * opening is placed in wall coordinates; x runs along the wall.
+   */
+  private writeOpening(
+    context: ModelContext,
+    wall: Wall,
+    length: number,
+    opening: Opening,
+    key: string,
+    ifcWall: { ref: string; placement: string }
+  ): string {
+    const { writer, ownerHistory, guid } = context;
+    const wallHeight = this.wallHeight(wall);
+    const from = Math.max(0, opening.position * length - opening.width / 2);
+    const width = Math.min(length, opening.position * length + opening.width / 2) - from;
+
+    const [bottom, top] = opening.type === 'door'
+      ? [0, Math.min(opening.height ?? OPENING_DEFAULTS.doorHeight, wallHeight)]
+      : windowRange(opening, wallHeight);
+    const height = top - bottom;
+
+    const voidPlacement = writer.add('IFCLOCALPLACEMENT', ifcWall.placement, placement3D(writer, [from, 0, bottom]));
+    const voidShape = productShape(writer, [writer.add(
+      'IFCSHAPEREPRESENTATION', context.bodyContext, str('Body'), str('SweptSolid'),
+      list([extrudedRectangle(writer, width, wall.thickness + OPENING_CLEARANCE, height, [width / 2, 0])])
+    )]);
+    const voidElement = writer.add(
+      'IFCOPENINGELEMENT', str(guid(`${key}/void`)), ownerHistory, str(`${opening.id} opening`), '$', '$', voidPlacement, voidShape, '$', '.OPENING.'
+    );
+    writer.add('IFCRELVOIDSELEMENT', str(guid(`${key}/voids`)), ownerHistory, '$', '$', ifcWall.ref, voidElement);
+
+    const fillThickness = opening.type === 'door' ? DOOR_LEAF_THICKNESS : WINDOW_FRAME_THICKNESS;
+    const fillPlacement = writer.add('IFCLOCALPLACEMENT', voidPlacement, placement3D(writer));
+    const fillShape = productShape(writer, [writer.add(
+      'IFCSHAPEREPRESENTATION', context.bodyContext, str('Body'), str('SweptSolid'),
+      list([extrudedRectangle(writer, width, fillThickness, height, [width / 2, 0])])
+    )]);
+
+    const isExternal = wall.type === 'exterior';
+    const fill = opening.type === 'door'
+      ? writer.add(
+          'IFCDOOR', str(guid(key)), ownerHistory, str(opening.id), '$', '$', fillPlacement, fillShape, '$',
+          real(height), real(width), '.DOOR.', '.SINGLE_SWING_LEFT.', '$'
+        )
+      : writer.add(
+          'IFCWINDOW', str(guid(key)), ownerHistory, str(opening.id), '$', '$', fillPlacement, fillShape, '$',
+          real(height), real(width), '.WINDOW.', '.SINGLE_PANEL.', '$'
+        );
+    writer.add('IFCRELFILLSELEMENT', str(guid(`${key}/fills`)), ownerHistory, '$', '$', voidElement, fill);
+
+    this.writeProperties(context, key, fill, opening.type === 'door' ? 'Pset_DoorCommon' : 'Pset_WindowCommon', [
+      ['IsExternal', bool(isExternal)],
+      ...(opening.properties.isEntry ? [['Reference', `IFCIDENTIFIER(${str('Entrance')})`] as [string, string]] : [])
+    ]);
+
+    return fill;
+  }
+
+  /**
+   * IfcSpace extruded from the room outline, with its floor area
+   */
+  private writeSpace(context: ModelContext, room: RoomGeometry, key: string, storeyPlacement: string): string {
+    const { writer, ownerHistory, guid, toModel } = context;
+    const height = this.extrusion.wallHeight.interior;
+    const vertices = room.geometry.vertices.map(toModel);
+
+    const profile = writer.add('IFCARBITRARYCLOSEDPROFILEDEF', '.AREA.', '$', polyline(writer, vertices, true));
+    const solid = writer.add('IFCEXTRUDEDAREASOLID', profile, placement3D(writer), direction(writer, [0, 0, 1]), real(height));
+    const shape = productShape(writer, [writer.add('IFCSHAPEREPRESENTATION', context.bodyContext, str('Body'), str('SweptSolid'), list([solid]))]);
+    const placement = writer.add('IFCLOCALPLACEMENT', storeyPlacement, placement3D(writer));
+
+    const external = EXTERNAL_SPACES.has(room.type);
+    const space = writer.add(
+      'IFCSPACE', str(guid(key)), ownerHistory, str(room.id), '$', str(room.type), placement, shape,
+      str(room.labels.name), '.ELEMENT.', external ? '.EXTERNAL.' : '.INTERNAL.', '$'
+    );
+
+    this.writeProperties(context, key, space, 'Pset_SpaceCommon', [['IsExternal', bool(external)]]);
+
+    if (context.options.includeQuantities) {
+      this.writeQuantities(context, key, space, 'Qto_SpaceBaseQuantities', [
+        ['IFCQUANTITYLENGTH', 'Height', height],
+        ['IFCQUANTITYAREA', 'NetFloorArea', room.geometry.area],
+        ['IFCQUANTITYAREA', 'GrossFloorArea', room.geometry.area],
+        ['IFCQUANTITYLENGTH', 'GrossPerimeter', perimeter(room.geometry.vertices)],
+        ['IFCQUANTITYVOLUME', 'NetVolume', room.geometry.area * height]
+      ]);
+    }
+
+    return space;
+  }
+
+  /**
+   * A single-layer material set centered on the wall axis
+   */
+  private writeWallMaterial(context: ModelContext, key: string, thickness: number, walls: string[]): void {
+    const { writer, ownerHistory, guid } = context;
+    const material = writer.add('IFCMATERIAL', str('Masonry'), '$', str('Wall'));
+    const layer = writer.add('IFCMATERIALLAYER', material, real(thickness), '$', str('Core'), '$', '$', '$');
+    const layerSet = writer.add('IFCMATERIALLAYERSET', list([layer]), str(`Wall ${Math.round(thickness * 1000)} mm`), '$');
+    const usage = writer.add('IFCMATERIALLAYERSETUSAGE', layerSet, '.AXIS2.', '.POSITIVE.', real(-thickness / 2), '$');
+    writer.add('IFCRELASSOCIATESMATERIAL', str(guid(`${key}/material`)), ownerHistory, '$', '$', list(walls), usage);
+  }
+
+  private writeProperties(context: ModelContext, key: string, element: string, name: string, values: Array<[string, string]>): void {
+    const { writer, ownerHistory, guid } = context;
+    const properties = values.map(([property, value]) => writer.add('IFCPROPERTYSINGLEVALUE', str(property), '$', value, '$'));
+    const set = writer.add('IFCPROPERTYSET', str(guid(`${key}/${name}`)), ownerHistory, str(name), '$', list(properties));
+    writer.add('IFCRELDEFINESBYPROPERTIES', str(guid(`${key}/${name}/rel`)), ownerHistory, '$', '$', list([element]), set);
+  }
+
+  private writeQuantities(
+    context: ModelContext,
+    key: string,
+    element: string,
+    name: string,
+    values: Array<[string, string, number]>
+  ): void {
+    const { writer, ownerHistory, guid } = context;
+    const quantities = values.map(([type, quantity, value]) => writer.add(type, str(quantity), '$', '$', real(value), '$'));
+    const set = writer.add('IFCELEMENTQUANTITY', str(guid(`${key}/${name}`)), ownerHistory, str(name), '$', '$', list(quantities));
+    writer.add('IFCRELDEFINESBYPROPERTIES', str(guid(`${key}/${name}/rel`)), ownerHistory, '$', '$', list([element]), set);
+  }
+
+  private aggregate(context: ModelContext, key: string, whole: string, parts: string[]): void {
+    const { writer, ownerHistory, guid } = context;
+    writer.add('IFCRELAGGREGATES', str(guid(`${key}/aggregates`)), ownerHistory, '$', '$', whole, list(parts));
+  }
+
+  private wallHeight(wall: Wall): number {
+    return wall.type === 'exterior' ? this.extrusion.wallHeight.exterior : this.extrusion.wallHeight.interior;
+  }
+}
+
+export const ifcExporter = new IFCExporter();
+
+/**
+ * Numbers entities as they are added and writes the ISO 10303-21 file
+ */
+class StepWriter {
+  private entities: string[] = [];
+
+  add(type: string, ...args: string[]): string {
+    this.entities.push(`${type}(${args.join(',')})`);
+    return `#${this.entities.length}`;
+  }
+
+  toString(header: { fileName: string; timestamp: string; author: string; organization: string }): string {
+    return [
+      'ISO-10303-21;',
+      'HEADER;',
+      `FILE_DESCRIPTION((${str('ViewDefinition [ReferenceView_V1.2]')}),'2;1');`,
+      `FILE_NAME(${str(header.fileName)},${str(header.timestamp)},(${str(header.author)}),(${str(header.organization)}),'PlotSync','PlotSync','');`,
+      "FILE_SCHEMA(('IFC4'));",
+      'ENDSEC;',
+      'DATA;',
+      ...this.entities.map((entity, i) => `#${i + 1}=${entity};`),
+      'ENDSEC;',
+      'END-ISO-10303-21;',
+      ''
+    ].join('\n');
+  }
+}
+
+/**
+ * STEP string literal: quotes and backslashes doubled, anything outside
+ * printable ASCII written as \X2\ UTF-16 escapes
+ */
+function str(value: string): string {
+  let out = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === "'") out += "''";
+    else if (char === '\\') out += '\\\\';
+    else if (code >= 0x20 && code < 0x7f) out += char;
+    else {
+      const units = Array.from({ length: char.length }, (_, i) => char.charCodeAt(i).toString(16).toUpperCase().padStart(4, '0'));
+      out += `\\X2\\${units.join('')}\\X0\\`;
+    }
+  }
+  return `'${out}'`;
+}
+
+/**
+ * STEP reals always carry a decimal point
+ */
+function real(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  const text = String(rounded === 0 ? 0 : rounded);
+  return text.includes('.') ? text : `${text}.`;
+}
+
+function bool(value: boolean): string {
+  return `IFCBOOLEAN(${value ? '.T.' : '.F.'})`;
+}
+
+function list(items: string[]): string {
+  return `(${items.join(',')})`;
+}
+
+function point(writer: StepWriter, coordinates: number[]): string {
+  return writer.add('IFCCARTESIANPOINT', list(coordinates.map(real)));
+}
+
+function direction(writer: StepWriter, ratios: number[]): string {
+  return writer.add('IFCDIRECTION', list(ratios.map(real)));
+}
+
+/**
+ * Placement at `location`; `xAxis` turns the local x axis in plan, z stays up
+ */
+function placement3D(writer: StepWriter, location: number[] = [0, 0, 0], xAxis?: [number, number, number]): string {
+  return xAxis
+    ? writer.add('IFCAXIS2PLACEMENT3D', point(writer, location), direction(writer, [0, 0, 1]), direction(writer, xAxis))
+    : writer.add('IFCAXIS2PLACEMENT3D', point(writer, location), '$', '$');
+}
+
+function polyline(writer: StepWriter, points: Point2D[], closed: boolean): string {
+  const refs = points.map(p => point(writer, [p.x, p.y]));
+  return writer.add('IFCPOLYLINE', list(closed ? [...refs, refs[0]] : refs));
+}
+
+function extrudedRectangle(writer: StepWriter, xDim: number, yDim: number, depth: number, center: [number, number]): string {
+  const position = writer.add('IFCAXIS2PLACEMENT2D', point(writer, center), '$');
+  const profile = writer.add('IFCRECTANGLEPROFILEDEF', '.AREA.', '$', position, real(xDim), real(yDim));
+  return writer.add('IFCEXTRUDEDAREASOLID', profile, placement3D(writer), direction(writer, [0, 0, 1]), real(depth));
+}
+
+function productShape(writer: StepWriter, representations: string[]): string {
+  return writer.add('IFCPRODUCTDEFINITIONSHAPE', '$', '$', list(representations));
+}
+
+/**
+ * 128 bits in the 22-character base-64 form IFC uses for GlobalIds
+ */
+function compressGuid(words: number[]): string {
+  let value = [...words];
+  const digits: number[] = [];
+
+  for (let i = 0; i < 22; i++) {
+    let remainder = 0;
+    value = value.map(word => {
+      const current = remainder * 2 ** 32 + word;
+      remainder = current % 64;
+      return Math.floor(current / 64);
+    });
+    digits.unshift(remainder);
+  }
+
+  return digits.map(digit => GUID_CHARS[digit]).join('');
+}
+
+/**
+ * The level's outline: the site-constrained footprint when there is one,
+ * otherwise the extent of its walls
+ */
+function slabOutline(geometry: FloorPlanGeometry): Point2D[] {
+  if (geometry.metadata.footprint && geometry.metadata.footprint.length >= 3) {
+    return geometry.metadata.footprint;
+  }
+
+  const points = geometry.walls.flatMap(wall => [wall.geometry.start, wall.geometry.end]);
+  if (points.length === 0) {
+    points.push(...geometry.rooms.flatMap(room => room.geometry.vertices));
+  }
+  if (points.length === 0) return [];
+
+  const outer = Math.max(0, ...geometry.walls.filter(w => w.type === 'exterior').map(w => w.thickness)) / 2;
+  const { x, y, width, height } = boundingBox(points);
+  return [
+    { x: x - outer, y: y - outer },
+    { x: x + width + outer, y: y - outer },
+    { x: x + width + outer, y: y + height + outer },
+    { x: x - outer, y: y + height + outer }
+  ];
+}
+
+function windowRange(opening: Opening, wallHeight: number): [number, number] {
+  const sill = Math.min(opening.properties.sillHeight ?? OPENING_DEFAULTS.windowSill, wallHeight);
+  return [sill, Math.min(sill + (opening.height ?? OPENING_DEFAULTS.windowHeight), wallHeight)];
+}
+
+function wallLength(wall: Wall): number {
+  return Math.hypot(wall.geometry.end.x - wall.geometry.start.x, wall.geometry.end.y - wall.geometry.start.y);
+}
+
+function perimeter(vertices: Point2D[]): number {
+  return vertices.reduce((sum, p, i) => {
+    const q = vertices[(i + 1) % vertices.length];
+    return sum + Math.hypot(q.x - p.x, q.y - p.y);
+  }, 0);
+}
@@ -0,0 +1,553 @@
+/**
+ * Stage C: PDF Exporter
+ * Prints plans as a drawing set with one sheet per variation or level. Each
+ * plan is drawn from the Enhanced SVG exporter output at a true architectural
+ * scale, next to a room schedule and a title block with scale bar and north arrow
+ */
+
+import { FloorPlanGeometry, BuildingGeometry, PDFExportOptions, FloorPlanError } from '../types';
+import { SHEET_SIZES, DRAWING_SCALES } from '../config';
+import { EnhancedSVGExporter } from './enhanced-svg-exporter';
+import { parseSVG, PathSegment, SVGColor } from './svg-parser';
+
+export interface PDFSheet {
+  title: string; // Proposal or level name shown in the title block
+  geometry: FloorPlanGeometry;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface RenderedPlan {
+  svg: string;
+  width: number; // mm on the sheet
+  height: number;
+}
+
+type Color = SVGColor;
+
+const PT_PER_MM = 72 / 25.4;
+
+// Sheet layout (mm)
+const MARGIN = 10;
+const GUTTER = 5;
+const PANEL_WIDTH = 75;
+const TITLE_BLOCK_HEIGHT = 62;
+const CAPTION_HEIGHT = 8;
+const SCHEDULE_ROW = 5;
+const SCALE_BAR_LENGTH = 48;
+
+const BLACK: Color = [0, 0, 0];
+const GREY: Color = [0.4, 0.4, 0.4];
+const HEADER_FILL: Color = [0.9, 0.9, 0.9];
+
+// Helvetica and Helvetica-Bold advance widths for ASCII 32–126 (1/1000 em)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778,
+  722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778,
+  722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// WinAnsi codes outside Latin-1 for the punctuation labels commonly use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+export class PDFExporter {
+  private svgExporter = new EnhancedSVGExporter();
+
+  /**
+   * Export one plan as a single sheet
+   */
+  export(geometry: FloorPlanGeometry, options: Partial<PDFExportOptions> = {}): Uint8Array {
+    return this.exportSheets([{ title: 'Floor Plan', geometry }], options);
+  }
+
+  /**
+   * Export the variations of a proposal, one sheet each
+   */
+  exportVariations(variations: FloorPlanGeometry[], options: Partial<PDFExportOptions> = {}): Uint8Array {
+    return this.exportSheets(
+      variations.map((geometry, index) => ({ title: `Variation ${index + 1}`, geometry })),
+      options
+    );
+  }
+
+  /**
+   * Export every level of a building, one sheet each
+   */
+  exportBuilding(building: BuildingGeometry, options: Partial<PDFExportOptions> = {}): Uint8Array {
+    return this.exportSheets(
+      building.levels.map(level => ({ title: level.name, geometry: level.geometry })),
+      options
+    );
+  }
+
+  /**
+   * Export a drawing set; every sheet is printed at the same scale
+   */
+  exportSheets(sheets: PDFSheet[], options: Partial<PDFExportOptions> = {}): Uint8Array {
+    const opts: PDFExportOptions = {
+      sheetSize: 'A3',
+      orientation: 'landscape',
+      projectName: 'PlotSync Project',
+      date: new Date().toISOString().slice(0, 10),
+      northAngle: 0,
+      includeRoomSchedule: true,
+      ...options
+    };
+
+    if (sheets.length === 0) {
+      throw new FloorPlanError('No sheets to export', 'C', false);
+    }
+    const empty = sheets.find(sheet => sheet.geometry.rooms.length === 0);
+    if (empty) {
+      throw new FloorPlanError(`${empty.title} has no rooms to draw`, 'C', false);
+    }
+
+    const size = SHEET_SIZES[opts.sheetSize];
+    if (!size) {
+      throw new FloorPlanError(`Unknown sheet size: ${opts.sheetSize}`, 'C', false);
+    }
+    const landscape = opts.orientation === 'landscape';
+    const pageWidth = landscape ? size.height : size.width;
+    const pageHeight = landscape ? size.width : size.height;
+
+    const panelX = pageWidth - MARGIN - PANEL_WIDTH;
+    const drawingArea: Box = {
+      x: MARGIN + GUTTER,
+      y: MARGIN + GUTTER + CAPTION_HEIGHT,
+      width: panelX - MARGIN - 2 * GUTTER,
+      height: pageHeight - 2 * MARGIN - 2 * GUTTER - CAPTION_HEIGHT
+    };
+
+    const { scale, plans } = this.fitScale(sheets, opts, drawingArea);
+
+    const pages = sheets.map((sheet, index) => {
+      const canvas = new Canvas();
+
+      canvas.lineStyle(0.5);
+      canvas.rect(MARGIN, MARGIN, pageWidth - 2 * MARGIN, pageHeight - 2 * MARGIN, 'S');
+      canvas.line(panelX, MARGIN, panelX, pageHeight - MARGIN);
+
+      this.drawPlan(canvas, plans[index], drawingArea, `${sheet.title}  1:${scale}`);
+
+      if (opts.includeRoomSchedule) {
+        this.drawSchedule(canvas, sheet.geometry, {
+          x: panelX,
+          y: MARGIN + TITLE_BLOCK_HEIGHT + GUTTER,
+          width: PANEL_WIDTH,
+          height: pageHeight - 2 * MARGIN - TITLE_BLOCK_HEIGHT - GUTTER
+        });
+      }
+
+      this.drawTitleBlock(
+        canvas,
+        { x: panelX, y: MARGIN, width: PANEL_WIDTH, height: TITLE_BLOCK_HEIGHT },
+        sheet,
+        opts,
+        scale,
+        `${index + 1} of ${sheets.length}`
+      );
+
+      return canvas.toString();
+    });
+
+    return writePDF(pages, pageWidth * PT_PER_MM, pageHeight * PT_PER_MM, opts);
+  }
+
+  /**
+   * Export as Blob for downloads
+   */
+  exportAsBlob(geometry: FloorPlanGeometry, options: Partial<PDFExportOptions> = {}): Blob {
+    return new Blob([this.export(geometry, options).buffer as ArrayBuffer], { type: 'application/pdf' });
+  }
+
+  /**
+   * The requested scale, or the largest standard one at which every plan fits
+   */
+  private fitScale(
+    sheets: PDFSheet[],
+    opts: PDFExportOptions,
+    area: Box
+  ): { scale: number; plans: RenderedPlan[] } {
+    const candidates = opts.scale ? [opts.scale] : DRAWING_SCALES;
+
+    for (const scale of candidates) {
+      const plans = sheets.map(sheet => this.renderPlan(sheet.geometry, scale));
+      if (plans.every(plan => plan.width <= area.width && plan.height <= area.height)) {
+        return { scale, plans };
+      }
+    }
+
+    throw new FloorPlanError(
+      opts.scale
+        ? `Plan does not fit on ${opts.sheetSize} at 1:${opts.scale}; choose a larger sheet or a smaller scale`
+        : `Plan does not fit on ${opts.sheetSize} at any standard scale`,
+      'C',
+      true,
+      { sheetSize: opts.sheetSize, scale: opts.scale }
+    );
+  }
+
+  /**
+   * SVG of a plan with one SVG unit per point of the printed sheet
+   */
+  private renderPlan(geometry: FloorPlanGeometry, scale: number): RenderedPlan {
+    const svg = this.svgExporter.export(geometry, { scale: (1000 / scale) * PT_PER_MM });
+    const width = parseFloat(svg.match(/\swidth="([\d.]+)"/)![1]);
+    const height = parseFloat(svg.match(/\sheight="([\d.]+)"/)![1]);
+    return { svg, width: width / PT_PER_MM, height: height / PT_PER_MM };
+  }
+
+  private drawPlan(canvas: Canvas, plan: RenderedPlan, area: Box, caption: string): void {
+    const left = area.x + (area.width - plan.width) / 2;
+    const top = area.y + (area.height + plan.height) / 2;
+
+    // SVG units are points with y running down the sheet
+    canvas.push('q', `${num(1 / PT_PER_MM)} 0 0 ${num(-1 / PT_PER_MM)} ${num(left)} ${num(top)} cm`);
+    drawSVG(canvas, plan.svg);
+    canvas.push('Q');
+
+    canvas.text(caption.toUpperCase(), left, top - plan.height - 5, 3.5, { bold: true });
+  }
+
+  /**
+   * Room names, areas and overall sizes, with the total below
+   */
+  private drawSchedule(canvas: Canvas, geometry: FloorPlanGeometry, box: Box): void {
+    const capacity = Math.floor(box.height / SCHEDULE_ROW) - 3;
+    if (capacity < 2) return;
+
+    const rooms = geometry.rooms.length > capacity ? geometry.rooms.slice(0, capacity - 1) : geometry.rooms;
+    const nameWidth = 36;
+    const areaRight = box.x + 52;
+    const sizeRight = box.x + box.width - 2;
+    let y = box.y + box.height;
+
+    const row = (cells: [string, string, string], bold: boolean = false) => {
+      y -= SCHEDULE_ROW;
+      canvas.text(fitText(cells[0], nameWidth, 2.5, bold), box.x + 2, y + 1.6, 2.5, { bold });
+      canvas.text(cells[1], areaRight, y + 1.6, 2.5, { bold, align: 'right' });
+      canvas.text(cells[2], sizeRight, y + 1.6, 2.5, { bold, align: 'right' });
+      canvas.lineStyle(0.1);
+      canvas.line(box.x, y, box.x + box.width, y);
+    };
+
+    y -= SCHEDULE_ROW;
+    canvas.text('ROOM SCHEDULE', box.x + 2, y + 1.5, 3, { bold: true });
+    canvas.lineStyle(0.35);
+    canvas.line(box.x, y, box.x + box.width, y);
+
+    canvas.fillColor(HEADER_FILL);
+    canvas.rect(box.x, y - SCHEDULE_ROW, box.width, SCHEDULE_ROW, 'f');
+    canvas.fillColor(BLACK);
+    row(['Room', 'Area m²', 'Size m'], true);
+
+    for (const room of rooms) {
+      const { width, height } = room.geometry.bounds;
+      row([room.labels.name, room.geometry.area.toFixed(1), `${width.toFixed(2)} × ${height.toFixed(2)}`]);
+    }
+    if (rooms.length < geometry.rooms.length) {
+      row([`+ ${geometry.rooms.length - rooms.length} more rooms`, '', '']);
+    }
+
+    const total = geometry.rooms.reduce((sum, room) => sum + room.geometry.area, 0);
+    row(['Total', total.toFixed(1), ''], true);
+  }
+
+  private drawTitleBlock(
+    canvas: Canvas,
+    box: Box,
+    sheet: PDFSheet,
+    opts: PDFExportOptions,
+    scale: number,
+    sheetNumber: string
+  ): void {
+    const left = box.x + 2;
+    const top = box.y + box.height;
+    const textWidth = box.width - 4;
+
+    canvas.lineStyle(0.5);
+    canvas.line(box.x, top, box.x + box.width, top);
+
+    const field = (label: string, x: number, y: number) => {
+      canvas.fillColor(GREY);
+      canvas.text(label, x, y, 1.8);
+      canvas.fillColor(BLACK);
+    };
+
+    field('PROJECT', left, top - 3.5);
+    canvas.text(fitText(opts.projectName, textWidth, 4.5, true), left, top - 10, 4.5, { bold: true });
+
+    canvas.lineStyle(0.25);
+    canvas.line(box.x, top - 14, box.x + box.width, top - 14);
+    field('DRAWING', left, top - 17.5);
+    canvas.text(fitText(sheet.title, textWidth, 3.5, true), left, top - 23, 3.5, { bold: true });
+
+    canvas.line(box.x, top - 26, box.x + box.width, top - 26);
+    const cell = box.width / 3;
+    const cells: Array<[string, string]> = [
+      ['DATE', opts.date],
+      ['SCALE', `1:${scale} @ ${opts.sheetSize}`],
+      ['SHEET', sheetNumber]
+    ];
+    cells.forEach(([label, value], index) => {
+      const x = box.x + index * cell;
+      if (index > 0) canvas.line(x, top - 26, x, top - 36);
+      field(label, x + 2, top - 29.5);
+      canvas.text(fitText(value, cell - 4, 2.8, false), x + 2, top - 34, 2.8);
+    });
+
+    canvas.line(box.x, top - 36, box.x + box.width, top - 36);
+    this.drawScaleBar(canvas, left + 2, top - 49, scale);
+    this.drawNorthArrow(canvas, box.x + box.width - 11, box.y + 12, opts.northAngle);
+  }
+
+  /**
+   * Alternating bar of a round length in metres that fits the title block
+   */
+  private drawScaleBar(canvas: Canvas, x: number, y: number, scale: number): void {
+    const metres = [1, 2, 5, 10, 20, 50, 100, 200]
+      .filter(length => (length * 1000) / scale <= SCALE_BAR_LENGTH)
+      .pop() ?? 1;
+    const length = (metres * 1000) / scale;
+    const segments = metres % 5 === 0 ? 5 : 4;
+    const step = length / segments;
+
+    canvas.lineStyle(0.2);
+    for (let i = 0; i < segments; i++) {
+      canvas.fillColor(i % 2 === 0 ? BLACK : [1, 1, 1]);
+      canvas.rect(x + i * step, y, step, 2, 'B');
+    }
+    canvas.fillColor(BLACK);
+
+    canvas.text('0', x, y - 3, 2.2, { align: 'center' });
+    canvas.text(`${metres / 2}`, x + length / 2, y - 3, 2.2, { align: 'center' });
+    canvas.text(`${metres} m`, x + length, y - 3, 2.2, { align: 'center' });
+    canvas.text(`SCALE 1:${scale}`, x, y + 4, 2.2, { bold: true });
+  }
+
+  private drawNorthArrow(canvas: Canvas, cx: number, cy: number, angle: number): void {
+    const radius = 7;
+    const theta = (angle * Math.PI) / 180;
+    const rotate = (x: number, y: number): [number, number] => [
+      cx + x * Math.cos(theta) + y * Math.sin(theta),
+      cy - x * Math.sin(theta) + y * Math.cos(theta)
+    ];
+
+    canvas.lineStyle(0.25);
+    canvas.circle(cx, cy, radius);
+    canvas.polygon([rotate(0, radius), rotate(-radius * 0.45, -radius * 0.6), rotate(0, -radius * 0.25), rotate(radius * 0.45, -radius * 0.6)], 'f');
+
+    const [nx, ny] = rotate(0, radius + 2.2);
+    canvas.text('N', nx, ny - 1.1, 3, { bold: true, align: 'center' });
+  }
+}
+
+/**
+ * PDF content stream in sheet millimetres with y running up
+ */
+class Canvas {
+  private ops: string[] = [`${num(PT_PER_MM)} 0 0 ${num(PT_PER_MM)} 0 0 cm`];
+
+  push(...ops: string[]): void {
+    this.ops.push(...ops);
+  }
+
+  lineStyle(width: number, color: Color = BLACK, dash: number[] = [], cap: number = 0): void {
+    this.ops.push(`${num(width)} w`, `[${dash.map(num).join(' ')}] 0 d`, `${cap} J`, `${color.map(num).join(' ')} RG`);
+  }
+
+  fillColor(color: Color): void {
+    this.ops.push(`${color.map(num).join(' ')} rg`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number): void {
+    this.ops.push(`${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, paint: string): void {
+    this.ops.push(`${num(x)} ${num(y)} ${num(width)} ${num(height)} re ${paint}`);
+  }
+
+  polygon(points: Array<[number, number]>, paint: string): void {
+    const [first, ...rest] = points;
+    this.ops.push(
+      `${num(first[0])} ${num(first[1])} m ${rest.map(([x, y]) => `${num(x)} ${num(y)} l`).join(' ')} h ${paint}`
+    );
+  }
+
+  circle(cx: number, cy: number, radius: number): void {
+    const k = 0.5523 * radius;
+    this.ops.push(
+      `${num(cx + radius)} ${num(cy)} m`,
+      `${num(cx + radius)} ${num(cy + k)} ${num(cx + k)} ${num(cy + radius)} ${num(cx)} ${num(cy + radius)} c`,
+      `${num(cx - k)} ${num(cy + radius)} ${num(cx - radius)} ${num(cy + k)} ${num(cx - radius)} ${num(cy)} c`,
+      `${num(cx - radius)} ${num(cy - k)} ${num(cx - k)} ${num(cy - radius)} ${num(cx)} ${num(cy - radius)} c`,
+      `${num(cx + k)} ${num(cy - radius)} ${num(cx + radius)} ${num(cy - k)} ${num(cx + radius)} ${num(cy)} c S`
+    );
+  }
+
+  /**
+   * Text with its baseline at y; flipped draws into a y-down space such as the plan
+   */
+  text(
+    value: string,
+    x: number,
+    y: number,
+    size: number,
+    style: { bold?: boolean; align?: 'left' | 'center' | 'right'; flipped?: boolean } = {}
+  ): void {
+    if (!value) return;
+
+    const width = textWidth(value, size, style.bold ?? false);
+    const shift = style.align === 'center' ? width / 2 : style.align === 'right' ? width : 0;
+    const matrix = `1 0 0 ${style.flipped ? -1 : 1} ${num(x - shift)} ${num(y)} Tm`;
+    this.ops.push(`BT /${style.bold ? 'F2' : 'F1'} ${num(size)} Tf ${matrix} ${pdfString(value)} Tj ET`);
+  }
+
+  toString(): string {
+    return this.ops.join('\n');
+  }
+}
+
+/**
+ * Paint the shapes and text of an SVG document the way its styles describe
+ */
+function drawSVG(canvas: Canvas, svg: string): void {
+  for (const element of parseSVG(svg).elements) {
+    if (element.type === 'text') {
+      canvas.fillColor(element.fill);
+      canvas.text(element.text, element.x, element.y + (element.centered ? element.fontSize * 0.35 : 0), element.fontSize, {
+        bold: element.bold,
+        align: element.anchor === 'middle' ? 'center' : element.anchor === 'end' ? 'right' : 'left',
+        flipped: true
+      });
+      continue;
+    }
+
+    const { stroke, fill } = element;
+    if (!stroke && !fill) continue;
+
+    if (stroke) {
+      canvas.lineStyle(element.strokeWidth, stroke, element.dash, ['butt', 'round', 'square'].indexOf(element.lineCap));
+    }
+    if (fill) canvas.fillColor(fill);
+    canvas.push(`${pathOps(element.path)} ${stroke && fill ? 'B' : fill ? 'f' : 'S'}`);
+  }
+}
+
+function pathOps(path: PathSegment[]): string {
+  return path.map(segment => {
+    if (segment[0] === 'Z') return 'h';
+    const [op, ...values] = segment;
+    return `${values.map(num).join(' ')} ${op === 'M' ? 'm' : op === 'L' ? 'l' : 'c'}`;
+  }).join(' ');
+}
+
+/**
+ * Width of a line of text in the standard Helvetica faces
+ */
+function textWidth(value: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units / 1000) * size;
+}
+
+/**
+ * Shorten text with an ellipsis until it fits a width
+ */
+function fitText(value: string, width: number, size: number, bold: boolean): string {
+  if (textWidth(value, size, bold) <= width) return value;
+
+  let text = value;
+  while (text.length > 1 && textWidth(`${text}…`, size, bold) > width) {
+    text = text.slice(0, -1);
+  }
+  return `${text.trimEnd()}…`;
+}
+
+/**
+ * PDF literal string in WinAnsi encoding
+ */
+function pdfString(value: string): string {
+  let result = '(';
+  for (const char of value) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      result += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      result += char;
+    } else if (code <= 255 && (code >= 160 || WIN_ANSI_EXTRAS[char])) {
+      result += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      result += '?';
+    }
+  }
+  return `${result})`;
+}
+
+function num(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * Assemble the page content streams into a PDF 1.4 file
+ */
+function writePDF(pages: string[], width: number, height: number, opts: PDFExportOptions): Uint8Array {
+  const objects: string[] = [];
+  const fonts = '<< /F1 3 0 R /F2 4 0 R >>';
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pages.map((_, i) => `${6 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title ${pdfString(opts.projectName)} /Producer (PlotSync) /CreationDate (D:${opts.date.replace(/-/g, '')}) >>`;
+
+  pages.forEach((content, i) => {
+    objects[6 + i * 2] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+      `/Resources << /Font ${fonts} >> /Contents ${7 + i * 2} 0 R >>`;
+    objects[7 + i * 2] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let file = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = file.length;
+    file += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = file.length;
+  file += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    file += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  file += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(file.length);
+  for (let i = 0; i < file.length; i++) bytes[i] = file.charCodeAt(i);
+  return bytes;
+}
+
+export const pdfExporter = new PDFExporter();
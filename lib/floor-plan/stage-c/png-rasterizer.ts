@@ -0,0 +1,399 @@
+/**
+ * Stage C: PNG Rasterizer
+ * Renders exporter SVG to PNG on the server, without a browser or native
+ * canvas, for the thumbnails stored with variations and saved plans. Shapes
+ * are filled and stroked with supersampled antialiasing; text is left out
+ * since labels are not legible at thumbnail size.
+ */
+
+import { deflateSync } from 'zlib';
+import { FloorPlanGeometry, PNGRasterOptions, FloorPlanError } from '../types';
+import { THUMBNAIL_SIZE } from '../config';
+import { crc32 } from '../utils';
+import { LegacyFloorPlanLayout } from '../legacy-adapter';
+import { EnhancedSVGExporter } from './enhanced-svg-exporter';
+import { parseSVG, parseColor, PathSegment, SVGColor } from './svg-parser';
+
+type Point = [number, number];
+
+interface Subpath {
+  points: Point[];
+  closed: boolean;
+}
+
+// Samples per pixel along each axis
+const SUPERSAMPLING = 3;
+const MAX_DIMENSION = 4096;
+
+// Segments per full turn for round caps and joins
+const ROUND_SEGMENTS = 16;
+
+// Units per metre for SVG drawn from a saved layout; fitted to the image anyway
+const LAYOUT_SCALE = 20;
+const LAYOUT_WALL_WIDTH = 0.15;
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+export class PNGRasterizer {
+  private svgExporter = new EnhancedSVGExporter();
+
+  /**
+   * Render SVG markup to a PNG file
+   */
+  rasterize(svg: string, options: Partial<PNGRasterOptions> = {}): Uint8Array {
+    const opts: PNGRasterOptions = { ...THUMBNAIL_SIZE, background: '#FFFFFF', ...options };
+    const { width, height, padding } = opts;
+
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1 ||
+        width > MAX_DIMENSION || height > MAX_DIMENSION) {
+      throw new FloorPlanError(`Image size must be 1–${MAX_DIMENSION} pixels, got ${width} × ${height}`, 'C', false);
+    }
+
+    const document = parseSVG(svg);
+    const surface = new Surface(width * SUPERSAMPLING, height * SUPERSAMPLING, parseColor(opts.background));
+
+    // Fit the viewBox inside the padding, centered
+    const [viewX, viewY, viewWidth, viewHeight] = document.viewBox;
+    const scale = viewWidth > 0 && viewHeight > 0
+      ? Math.max(0, Math.min((width - 2 * padding) / viewWidth, (height - 2 * padding) / viewHeight)) * SUPERSAMPLING
+      : 0;
+    const offsetX = (width * SUPERSAMPLING - viewWidth * scale) / 2 - viewX * scale;
+    const offsetY = (height * SUPERSAMPLING - viewHeight * scale) / 2 - viewY * scale;
+    const toDevice = (x: number, y: number): Point => [x * scale + offsetX, y * scale + offsetY];
+
+    for (const element of document.elements) {
+      if (element.type !== 'shape' || scale === 0) continue;
+      const subpaths = flatten(element.path, toDevice);
+
+      if (element.fill && element.fillOpacity > 0) {
+        surface.fill(subpaths.map(subpath => subpath.points), element.fill, element.fillOpacity);
+      }
+      if (element.stroke && element.strokeOpacity > 0 && element.strokeWidth > 0) {
+        // Hairlines still cover a whole pixel
+        const strokeWidth = Math.max(element.strokeWidth * scale, SUPERSAMPLING);
+        const polygons = strokePolygons(subpaths, strokeWidth, element.dash.map(length => length * scale), element.lineCap);
+        surface.fill(polygons, element.stroke, element.strokeOpacity);
+      }
+    }
+
+    return encodePNG(surface.downsample(SUPERSAMPLING), width, height);
+  }
+
+  /**
+   * Render SVG markup to a PNG data URL
+   */
+  toDataURL(svg: string, options: Partial<PNGRasterOptions> = {}): string {
+    return `data:image/png;base64,${Buffer.from(this.rasterize(svg, options)).toString('base64')}`;
+  }
+
+  /**
+   * Thumbnail of a generated plan, drawn the way the Enhanced SVG exporter draws it
+   */
+  thumbnail(geometry: FloorPlanGeometry, options: Partial<PNGRasterOptions> = {}): string {
+    return this.toDataURL(this.svgExporter.export(geometry, { includeLabels: false }), options);
+  }
+
+  /**
+   * Thumbnail of a saved layout, which keeps rooms and walls but no geometry
+   */
+  layoutThumbnail(layout: LegacyFloorPlanLayout, options: Partial<PNGRasterOptions> = {}): string {
+    const xs = [...layout.walls.flatMap(w => [w.x1, w.x2]), ...layout.rooms.flatMap(r => [r.x, r.x + r.width])];
+    const ys = [...layout.walls.flatMap(w => [w.y1, w.y2]), ...layout.rooms.flatMap(r => [r.y, r.y + r.height])];
+    const minX = xs.length > 0 ? Math.min(...xs) : 0;
+    const minY = ys.length > 0 ? Math.min(...ys) : 0;
+    const width = Math.max(1, (xs.length > 0 ? Math.max(...xs) : 1) - minX) * LAYOUT_SCALE;
+    const height = Math.max(1, (ys.length > 0 ? Math.max(...ys) : 1) - minY) * LAYOUT_SCALE;
+    const margin = LAYOUT_WALL_WIDTH * LAYOUT_SCALE;
+    const x = (value: number) => (value - minX) * LAYOUT_SCALE + margin;
+    const y = (value: number) => (value - minY) * LAYOUT_SCALE + margin;
+
+    const svg = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width + 2 * margin}" height="${height + 2 * margin}" viewBox="0 0 ${width + 2 * margin} ${height + 2 * margin}">`,
+      ...layout.rooms.map(room =>
+        `<rect x="${x(room.x)}" y="${y(room.y)}" width="${room.width * LAYOUT_SCALE}" height="${room.height * LAYOUT_SCALE}" fill="#F5F5F5" />`
+      ),
+      ...layout.walls.map(wall =>
+        `<line x1="${x(wall.x1)}" y1="${y(wall.y1)}" x2="${x(wall.x2)}" y2="${y(wall.y2)}" stroke="#000000" stroke-width="${margin}" stroke-linecap="square" />`
+      ),
+      '</svg>'
+    ].join('\n');
+
+    return this.toDataURL(svg, options);
+  }
+}
+
+/**
+ * Premultiplied RGBA samples, painted with the nonzero winding rule
+ */
+class Surface {
+  private pixels: Float32Array;
+
+  constructor(private width: number, private height: number, background: SVGColor | null) {
+    this.pixels = new Float32Array(width * height * 4);
+    if (background) {
+      for (let i = 0; i < this.pixels.length; i += 4) {
+        this.pixels.set([background[0], background[1], background[2], 1], i);
+      }
+    }
+  }
+
+  fill(polygons: Point[][], color: SVGColor, alpha: number): void {
+    const edges: Array<[number, number, number, number]> = [];
+    let minY = Infinity;
+    let maxY = -Infinity;
+
+    for (const polygon of polygons) {
+      for (let i = 0; i < polygon.length; i++) {
+        const [x0, y0] = polygon[i];
+        const [x1, y1] = polygon[(i + 1) % polygon.length];
+        if (y0 === y1) continue;
+        edges.push([x0, y0, x1, y1]);
+        minY = Math.min(minY, y0, y1);
+        maxY = Math.max(maxY, y0, y1);
+      }
+    }
+    if (edges.length === 0) return;
+
+    const [r, g, b] = color;
+    const firstRow = Math.max(0, Math.floor(minY));
+    const lastRow = Math.min(this.height - 1, Math.ceil(maxY));
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      const sampleY = row + 0.5;
+      const crossings: Array<[number, number]> = [];
+      for (const [x0, y0, x1, y1] of edges) {
+        if ((y0 <= sampleY && y1 > sampleY) || (y1 <= sampleY && y0 > sampleY)) {
+          crossings.push([x0 + ((sampleY - y0) / (y1 - y0)) * (x1 - x0), y1 > y0 ? 1 : -1]);
+        }
+      }
+      crossings.sort((a, b) => a[0] - b[0]);
+
+      let winding = 0;
+      for (let i = 0; i < crossings.length - 1; i++) {
+        winding += crossings[i][1];
+        if (winding === 0) continue;
+
+        // Samples whose centers lie between the two crossings
+        const start = Math.max(0, Math.ceil(crossings[i][0] - 0.5));
+        const end = Math.min(this.width - 1, Math.ceil(crossings[i + 1][0] - 0.5) - 1);
+        for (let column = start; column <= end; column++) {
+          const index = (row * this.width + column) * 4;
+          const keep = 1 - alpha;
+          this.pixels[index] = r * alpha + this.pixels[index] * keep;
+          this.pixels[index + 1] = g * alpha + this.pixels[index + 1] * keep;
+          this.pixels[index + 2] = b * alpha + this.pixels[index + 2] * keep;
+          this.pixels[index + 3] = alpha + this.pixels[index + 3] * keep;
+        }
+      }
+    }
+  }
+
+  /**
+   * Average each block of samples into one straight-alpha RGBA pixel
+   */
+  downsample(factor: number): Uint8Array {
+    const width = this.width / factor;
+    const height = this.height / factor;
+    const output = new Uint8Array(width * height * 4);
+    const samples = factor * factor;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const sum = [0, 0, 0, 0];
+        for (let sy = 0; sy < factor; sy++) {
+          for (let sx = 0; sx < factor; sx++) {
+            const index = ((y * factor + sy) * this.width + x * factor + sx) * 4;
+            for (let channel = 0; channel < 4; channel++) sum[channel] += this.pixels[index + channel];
+          }
+        }
+
+        const alpha = sum[3] / samples;
+        const index = (y * width + x) * 4;
+        for (let channel = 0; channel < 3; channel++) {
+          output[index + channel] = alpha > 0 ? Math.round((sum[channel] / samples / alpha) * 255) : 0;
+        }
+        output[index + 3] = Math.round(alpha * 255);
+      }
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Path segments as polylines in device space, with curves subdivided
+ */
+function flatten(path: PathSegment[], toDevice: (x: number, y: number) => Point): Subpath[] {
+  const subpaths: Subpath[] = [];
+  let current: Subpath | null = null;
+
+  for (const segment of path) {
+    if (segment[0] === 'M') {
+      current = { points: [toDevice(segment[1], segment[2])], closed: false };
+      subpaths.push(current);
+    } else if (segment[0] === 'Z') {
+      if (current) current.closed = true;
+      current = null;
+    } else {
+      if (!current) {
+        current = { points: [subpaths[subpaths.length - 1]?.points[0] ?? [0, 0]], closed: false };
+        subpaths.push(current);
+      }
+      if (segment[0] === 'L') {
+        current.points.push(toDevice(segment[1], segment[2]));
+      } else {
+        const [x0, y0] = current.points[current.points.length - 1];
+        const [x1, y1] = toDevice(segment[1], segment[2]);
+        const [x2, y2] = toDevice(segment[3], segment[4]);
+        const [x3, y3] = toDevice(segment[5], segment[6]);
+        const length = Math.hypot(x1 - x0, y1 - y0) + Math.hypot(x2 - x1, y2 - y1) + Math.hypot(x3 - x2, y3 - y2);
+        const steps = Math.max(2, Math.min(64, Math.ceil(length / 4)));
+        for (let i = 1; i <= steps; i++) {
+          const t = i / steps;
+          const u = 1 - t;
+          current.points.push([
+            u * u * u * x0 + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+            u * u * u * y0 + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3
+          ]);
+        }
+      }
+    }
+  }
+
+  return subpaths.filter(subpath => subpath.points.length > 0);
+}
+
+/**
+ * Outline of a stroke as polygons of one orientation, so that overlapping
+ * pieces join up under the nonzero rule instead of painting twice
+ */
+function strokePolygons(subpaths: Subpath[], width: number, dash: number[], cap: 'butt' | 'round' | 'square'): Point[][] {
+  const half = width / 2;
+  const polygons: Point[][] = [];
+
+  for (const subpath of subpaths) {
+    const points = subpath.closed ? [...subpath.points, subpath.points[0]] : subpath.points;
+    const pieces = dash.length > 0 ? applyDash(points, dash) : [points];
+
+    for (const piece of pieces) {
+      for (let i = 0; i < piece.length - 1; i++) {
+        const [x0, y0] = piece[i];
+        const [x1, y1] = piece[i + 1];
+        const length = Math.hypot(x1 - x0, y1 - y0);
+        if (length === 0) continue;
+
+        const [dx, dy] = [(x1 - x0) / length, (y1 - y0) / length];
+        const [nx, ny] = [-dy * half, dx * half];
+        // Square caps extend the open ends of the piece by half the width
+        const extendStart = cap === 'square' && i === 0 && !(subpath.closed && dash.length === 0) ? half : 0;
+        const extendEnd = cap === 'square' && i === piece.length - 2 && !(subpath.closed && dash.length === 0) ? half : 0;
+        const [sx, sy] = [x0 - dx * extendStart, y0 - dy * extendStart];
+        const [ex, ey] = [x1 + dx * extendEnd, y1 + dy * extendEnd];
+
+        polygons.push(oriented([[sx + nx, sy + ny], [ex + nx, ey + ny], [ex - nx, ey - ny], [sx - nx, sy - ny]]));
+      }
+
+      // Round joins between segments, and round caps at the ends
+      const joints = piece.slice(cap === 'round' ? 0 : 1, cap === 'round' ? piece.length : piece.length - 1);
+      if (subpath.closed && dash.length === 0 && cap !== 'round') joints.push(piece[0]);
+      for (const [cx, cy] of joints) {
+        polygons.push(oriented(Array.from({ length: ROUND_SEGMENTS }, (_, k): Point => {
+          const angle = (2 * Math.PI * k) / ROUND_SEGMENTS;
+          return [cx + Math.cos(angle) * half, cy + Math.sin(angle) * half];
+        })));
+      }
+    }
+  }
+
+  return polygons;
+}
+
+/**
+ * Split a polyline into the pieces a dash pattern draws
+ */
+function applyDash(points: Point[], dash: number[]): Point[][] {
+  const pattern = dash.length % 2 === 0 ? dash : [...dash, ...dash];
+  const pieces: Point[][] = [];
+  let index = 0;
+  let remaining = pattern[0];
+  let current: Point[] | null = [points[0]];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    let [x, y] = points[i];
+    const [x1, y1] = points[i + 1];
+    let length = Math.hypot(x1 - x, y1 - y);
+
+    while (length > 0) {
+      const step = Math.min(remaining, length);
+      const t = step / length;
+      [x, y] = [x + (x1 - x) * t, y + (y1 - y) * t];
+      length -= step;
+      remaining -= step;
+      if (current) current.push([x, y]);
+
+      if (remaining <= 1e-9) {
+        if (current) {
+          if (current.length > 1) pieces.push(current);
+          current = null;
+        } else {
+          current = [[x, y]];
+        }
+        index = (index + 1) % pattern.length;
+        remaining = pattern[index];
+        if (remaining <= 0) remaining = 1e-9;
+      }
+    }
+  }
+  if (current && current.length > 1) pieces.push(current);
+
+  return pieces;
+}
+
+function oriented(polygon: Point[]): Point[] {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x0, y0] = polygon[i];
+    const [x1, y1] = polygon[(i + 1) % polygon.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  return area < 0 ? polygon.reverse() : polygon;
+}
+
+/**
+ * RGBA PNG with unfiltered scanlines
+ */
+function encodePNG(rgba: Uint8Array, width: number, height: number): Uint8Array {
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, deflate, no filter method, no interlace
+
+  const chunks = [chunk('IHDR', header), chunk('IDAT', deflateSync(raw)), chunk('IEND', new Uint8Array(0))];
+  const output = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((sum, c) => sum + c.length, 0));
+  output.set(PNG_SIGNATURE);
+  let offset = PNG_SIGNATURE.length;
+  for (const c of chunks) {
+    output.set(c, offset);
+    offset += c.length;
+  }
+  return output;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(12 + data.length);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) output[4 + i] = type.charCodeAt(i);
+  output.set(data, 8);
+  view.setUint32(8 + data.length, crc32(output.subarray(4, 8 + data.length)));
+  return output;
+}
+
+export const pngRasterizer = new PNGRasterizer();
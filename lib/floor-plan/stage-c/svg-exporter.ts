@@ -3,7 +3,7 @@
  * Generates editable SVG from floor plan geometry
  */
 
-import { FloorPlanGeometry, SVGExportOptions } from '../types';
+import { FloorPlanGeometry, BuildingGeometry, SVGExportOptions } from '../types';
 import { formatArea, formatDimension } from '../utils';
 
 export class SVGExporter {
@@ -85,6 +85,53 @@ export class SVGExporter {
     return svg;
   }
 
+  /**
+   * Export a multi-storey building, with the levels laid out side by side
+   */
+  exportBuilding(building: BuildingGeometry, options: Partial<SVGExportOptions> = {}): string {
+    if (building.levels.length === 1) {
+      return this.export(building.levels[0].geometry, options);
+    }
+
+    const scale = options.scale ?? this.scale;
+    const titleHeight = 30;
+    const gap = 40;
+
+    let offsetX = 0;
+    let maxHeight = 0;
+    let content = '';
+
+    for (const level of building.levels) {
+      const { width, height } = level.geometry.metadata.buildingDimensions;
+      const panelWidth = width * scale + 2 * this.padding;
+      const panelHeight = height * scale + 2 * this.padding;
+      const levelSvg = this.export(level.geometry, options).replace(/^<\?xml[^>]*>\s*/, '');
+
+      content += `  <!-- Level ${level.level}: ${level.name} -->\n`;
+      content += `  <g id="level-${level.level}" transform="translate(${offsetX}, 0)">\n`;
+      content += `    <text x="${panelWidth / 2}" y="20" class="level-title">${level.name}</text>\n`;
+      content += `    <g transform="translate(0, ${titleHeight})">\n${levelSvg}\n    </g>\n`;
+      content += '  </g>\n\n';
+
+      offsetX += panelWidth + gap;
+      maxHeight = Math.max(maxHeight, panelHeight + titleHeight);
+    }
+
+    const viewWidth = offsetX - gap;
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" 
+     width="${viewWidth}" 
+     height="${maxHeight}"
+     viewBox="0 0 ${viewWidth} ${maxHeight}">
+  <defs>
+    <style>
+      .level-title { font-family: Arial, sans-serif; font-size: 14px; font-weight: bold; fill: #333; text-anchor: middle; }
+    </style>
+  </defs>
+${content}</svg>`;
+  }
+
   /**
    * Generate room fill polygons
    */
@@ -0,0 +1,422 @@
+/**
+ * Stage C: SVG Parser
+ * Reads the SVG our exporters write into flat shapes and text, so the PDF
+ * exporter and PNG rasterizer can paint it. Covers the subset they use:
+ * rect, line, polygon, path (M, L, H, V, Q, C, A, Z), text, class styles
+ * from the <style> block and group transforms.
+ */
+
+export type SVGColor = [number, number, number];
+
+// Absolute path segments; curves are all cubic
+export type PathSegment =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+export interface SVGShape {
+  type: 'shape';
+  path: PathSegment[];
+  fill: SVGColor | null;
+  stroke: SVGColor | null;
+  fillOpacity: number;
+  strokeOpacity: number;
+  strokeWidth: number;
+  dash: number[];
+  lineCap: 'butt' | 'round' | 'square';
+}
+
+export interface SVGText {
+  type: 'text';
+  x: number;
+  y: number; // Baseline, or the middle of the text when centered is set
+  centered: boolean;
+  text: string;
+  fontSize: number;
+  bold: boolean;
+  anchor: 'start' | 'middle' | 'end';
+  fill: SVGColor;
+  opacity: number;
+}
+
+export interface SVGDocument {
+  width: number;
+  height: number;
+  viewBox: [number, number, number, number];
+  elements: Array<SVGShape | SVGText>;
+}
+
+// Affine transform [a, b, c, d, e, f] as in SVG matrix()
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  gray: '#808080',
+  grey: '#808080',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff'
+};
+
+/**
+ * Parse an SVG document into shapes and text in viewBox coordinates
+ */
+export function parseSVG(svg: string): SVGDocument {
+  const classes: Record<string, Record<string, string>> = {};
+  for (const [, body] of svg.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/g)) {
+    for (const [, name, rules] of body.matchAll(/\.([\w-]+)\s*\{([^}]*)\}/g)) {
+      classes[name] = { ...classes[name], ...declarations(rules) };
+    }
+  }
+
+  const root = attributesOf(svg.match(/<svg\b([^>]*)>/)?.[1] ?? '');
+  const width = parseFloat(root.width ?? '0');
+  const height = parseFloat(root.height ?? '0');
+  const box = (root.viewBox ?? '').trim().split(/[\s,]+/).map(parseFloat);
+  const viewBox: [number, number, number, number] = box.length === 4 && box.every(v => !isNaN(v))
+    ? [box[0], box[1], box[2], box[3]]
+    : [0, 0, width, height];
+
+  const elements: Array<SVGShape | SVGText> = [];
+  const stack: Array<{ matrix: Matrix; inherited: Record<string, string> }> = [{ matrix: IDENTITY, inherited: {} }];
+  let hidden = 0; // Depth inside <defs>
+
+  const tags = /<(\/?)([\w:-]+)\b([^>]*?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(svg))) {
+    const [, closing, tag, attributeText, selfClosing] = match;
+
+    if (tag === 'defs') {
+      if (!selfClosing) hidden += closing ? -1 : 1;
+      continue;
+    }
+    if (hidden > 0) continue;
+
+    if (tag === 'g') {
+      if (closing) {
+        if (stack.length > 1) stack.pop();
+      } else if (!selfClosing) {
+        const attributes = attributesOf(attributeText);
+        const parent = stack[stack.length - 1];
+        stack.push({
+          matrix: multiply(parent.matrix, parseTransform(attributes.transform ?? '')),
+          inherited: { ...parent.inherited, ...styleOf(attributes, classes) }
+        });
+      }
+      continue;
+    }
+    if (closing || !['rect', 'line', 'polygon', 'polyline', 'path', 'text'].includes(tag)) continue;
+
+    const attributes = attributesOf(attributeText);
+    const parent = stack[stack.length - 1];
+    const matrix = multiply(parent.matrix, parseTransform(attributes.transform ?? ''));
+    const props = { ...parent.inherited, ...styleOf(attributes, classes) };
+    const number = (name: string) => parseFloat(attributes[name] ?? '0') || 0;
+    const opacity = parseOpacity(props.opacity);
+
+    if (tag === 'text') {
+      const end = svg.indexOf('</text>', tags.lastIndex);
+      const content = selfClosing || end < 0 ? '' : svg.slice(tags.lastIndex, end).replace(/<[^>]*>/g, '');
+      const [x, y] = apply(matrix, number('x'), number('y'));
+      const scale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+      elements.push({
+        type: 'text',
+        x,
+        y,
+        centered: ['middle', 'central'].includes(props['dominant-baseline']),
+        text: decodeEntities(content).trim(),
+        fontSize: parseFloat(props['font-size'] ?? '16') * scale,
+        bold: props['font-weight'] === 'bold' || parseInt(props['font-weight'] ?? '400', 10) >= 600,
+        anchor: props['text-anchor'] === 'middle' ? 'middle' : props['text-anchor'] === 'end' ? 'end' : 'start',
+        fill: parseColor(props.fill ?? '#000') ?? [0, 0, 0],
+        opacity: opacity * parseOpacity(props['fill-opacity'])
+      });
+      continue;
+    }
+
+    let path: PathSegment[];
+    if (tag === 'rect') {
+      const [x, y, w, h] = [number('x'), number('y'), number('width'), number('height')];
+      path = [['M', x, y], ['L', x + w, y], ['L', x + w, y + h], ['L', x, y + h], ['Z']];
+    } else if (tag === 'line') {
+      path = [['M', number('x1'), number('y1')], ['L', number('x2'), number('y2')]];
+    } else if (tag === 'polygon' || tag === 'polyline') {
+      const values = (attributes.points ?? '').trim().split(/[\s,]+/).map(parseFloat);
+      path = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        path.push([path.length === 0 ? 'M' : 'L', values[i], values[i + 1]]);
+      }
+      if (tag === 'polygon' && path.length > 0) path.push(['Z']);
+    } else {
+      path = parsePath(attributes.d ?? '');
+    }
+    if (path.length === 0) continue;
+
+    const stroke = parseColor(props.stroke ?? 'none');
+    const fill = tag === 'line' ? null : parseColor(props.fill ?? '#000');
+    const dash = props['stroke-dasharray'] && props['stroke-dasharray'] !== 'none'
+      ? props['stroke-dasharray'].split(/[\s,]+/).map(parseFloat).filter(v => v >= 0)
+      : [];
+    const scale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+
+    elements.push({
+      type: 'shape',
+      path: transformPath(path, matrix),
+      fill,
+      stroke,
+      fillOpacity: opacity * parseOpacity(props['fill-opacity']),
+      strokeOpacity: opacity * parseOpacity(props['stroke-opacity']),
+      strokeWidth: parseFloat(props['stroke-width'] ?? '1') * scale,
+      dash: dash.some(v => v > 0) ? dash.map(v => v * scale) : [],
+      lineCap: props['stroke-linecap'] === 'round' || props['stroke-linecap'] === 'square' ? props['stroke-linecap'] : 'butt'
+    });
+  }
+
+  return { width: width || viewBox[2], height: height || viewBox[3], viewBox, elements };
+}
+
+/**
+ * Parse a color; null for none or anything unsupported
+ */
+export function parseColor(value: string): SVGColor | null {
+  const trimmed = value.trim().toLowerCase();
+  const hex = (NAMED_COLORS[trimmed] ?? trimmed).replace('#', '');
+
+  const rgb = trimmed.match(/^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/);
+  if (rgb) return [1, 2, 3].map(i => Math.min(255, Number(rgb[i])) / 255) as SVGColor;
+  if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/.test(hex)) return null;
+
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255) as SVGColor;
+}
+
+/**
+ * Presentation attributes, then class rules, then the style attribute
+ */
+function styleOf(attributes: Record<string, string>, classes: Record<string, Record<string, string>>): Record<string, string> {
+  const props: Record<string, string> = {};
+  for (const name of [
+    'fill', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-linecap', 'opacity', 'fill-opacity',
+    'stroke-opacity', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline'
+  ]) {
+    if (attributes[name] !== undefined) props[name] = attributes[name];
+  }
+  for (const name of (attributes.class ?? '').split(/\s+/)) {
+    Object.assign(props, classes[name]);
+  }
+  return { ...props, ...declarations(attributes.style ?? '') };
+}
+
+function attributesOf(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of text.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+function declarations(body: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const declaration of body.split(';')) {
+    const [name, value] = declaration.split(':').map(part => part.trim());
+    if (name && value) result[name] = value;
+  }
+  return result;
+}
+
+function parseOpacity(value: string | undefined): number {
+  const opacity = parseFloat(value ?? '1');
+  return isNaN(opacity) ? 1 : Math.max(0, Math.min(1, opacity));
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function parseTransform(value: string): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const v = args.trim().split(/[\s,]+/).map(parseFloat);
+    if (name === 'translate') {
+      matrix = multiply(matrix, [1, 0, 0, 1, v[0] || 0, v[1] || 0]);
+    } else if (name === 'scale') {
+      matrix = multiply(matrix, [v[0], 0, 0, v[1] ?? v[0], 0, 0]);
+    } else if (name === 'rotate') {
+      const angle = ((v[0] || 0) * Math.PI) / 180;
+      const [cx, cy] = [v[1] || 0, v[2] || 0];
+      matrix = multiply(matrix, [1, 0, 0, 1, cx, cy]);
+      matrix = multiply(matrix, [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0]);
+      matrix = multiply(matrix, [1, 0, 0, 1, -cx, -cy]);
+    } else if (name === 'matrix' && v.length === 6) {
+      matrix = multiply(matrix, v as Matrix);
+    }
+  }
+  return matrix;
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+}
+
+function apply(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+function transformPath(path: PathSegment[], m: Matrix): PathSegment[] {
+  if (m.every((value, i) => value === IDENTITY[i])) return path;
+
+  return path.map(segment => {
+    if (segment[0] === 'Z') return segment;
+    if (segment[0] === 'C') {
+      return ['C', ...apply(m, segment[1], segment[2]), ...apply(m, segment[3], segment[4]), ...apply(m, segment[5], segment[6])];
+    }
+    return [segment[0], ...apply(m, segment[1], segment[2])];
+  });
+}
+
+/**
+ * Path data to absolute segments; quadratic curves and arcs become cubics
+ */
+function parsePath(d: string): PathSegment[] {
+  const tokens = d.match(/[A-Za-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const path: PathSegment[] = [];
+  let command = '';
+  let [x, y, startX, startY] = [0, 0, 0, 0];
+  let i = 0;
+  const next = () => parseFloat(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/[A-Za-z]/.test(tokens[i])) command = tokens[i++];
+    const relative = command === command.toLowerCase();
+    const [ox, oy] = relative ? [x, y] : [0, 0];
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        [x, y] = [ox + next(), oy + next()];
+        [startX, startY] = [x, y];
+        path.push(['M', x, y]);
+        command = relative ? 'l' : 'L'; // Further pairs are line segments
+        break;
+      case 'L':
+        [x, y] = [ox + next(), oy + next()];
+        path.push(['L', x, y]);
+        break;
+      case 'H':
+        x = (relative ? x : 0) + next();
+        path.push(['L', x, y]);
+        break;
+      case 'V':
+        y = (relative ? y : 0) + next();
+        path.push(['L', x, y]);
+        break;
+      case 'Q': {
+        const [qx, qy, ex, ey] = [ox + next(), oy + next(), ox + next(), oy + next()];
+        path.push(['C', x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y), ex + (2 / 3) * (qx - ex), ey + (2 / 3) * (qy - ey), ex, ey]);
+        [x, y] = [ex, ey];
+        break;
+      }
+      case 'C': {
+        const values = [ox + next(), oy + next(), ox + next(), oy + next(), ox + next(), oy + next()];
+        path.push(['C', values[0], values[1], values[2], values[3], values[4], values[5]]);
+        [x, y] = [values[4], values[5]];
+        break;
+      }
+      case 'A': {
+        const [rx, ry, rotation, largeArc, sweep] = [next(), next(), next(), next(), next()];
+        const [ex, ey] = [ox + next(), oy + next()];
+        for (const curve of arcToBeziers(x, y, rx, ry, rotation, largeArc !== 0, sweep !== 0, ex, ey)) {
+          path.push(['C', curve[0], curve[1], curve[2], curve[3], curve[4], curve[5]]);
+        }
+        [x, y] = [ex, ey];
+        break;
+      }
+      case 'Z':
+        path.push(['Z']);
+        [x, y] = [startX, startY];
+        break;
+      default:
+        return path; // Unsupported command; keep what was read
+    }
+  }
+
+  return path;
+}
+
+/**
+ * Cubic Bézier segments of an SVG elliptical arc, at most a quarter turn each
+ */
+function arcToBeziers(
+  x1: number, y1: number, rx: number, ry: number, rotation: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): number[][] {
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) {
+    return [[x1, y1, x2, y2, x2, y2]];
+  }
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // Center parameterization (SVG 1.1, appendix F.6.5)
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (factor * rx * y1p) / ry;
+  const cyp = (-factor * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const count = Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9);
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const at = (t: number, rScale: number, dt: number): [number, number] => {
+    const ex = rx * (Math.cos(t) - rScale * dt * Math.sin(t));
+    const ey = ry * (Math.sin(t) + rScale * dt * Math.cos(t));
+    return [cx + cos * ex - sin * ey, cy + sin * ex + cos * ey];
+  };
+
+  const curves: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = start + i * step;
+    const t2 = t1 + step;
+    curves.push([...at(t1, 1, k), ...at(t2, -1, k), ...at(t2, 0, 0)]);
+  }
+  return curves;
+}
@@ -16,7 +16,9 @@ export type RoomType =
   | 'study'
   | 'utility'
   | 'garage'
-  | 'balcony';
+  | 'balcony'
+  | 'stair'
+  | 'lift';
 
 export type ZoneType = 'public' | 'private' | 'service';
 
@@ -24,6 +26,8 @@ export type ArchitecturalStyle = 'modern' | 'traditional' | 'minimalist' | 'indu
 
 export type UnitSystem = 'metric' | 'imperial';
 
+export type GenerationMode = 'llm' | 'rule-based';
+
 export interface Point2D {
   x: number;
   y: number;
@@ -34,6 +38,16 @@ export interface Dimensions {
   height: number;
 }
 
+/**
+ * Plot geometry in meters. Setbacks are a single distance or one per
+ * boundary edge (edge i runs from boundary[i] to boundary[i + 1]).
+ */
+export interface SiteConstraints {
+  boundary?: Point2D[];
+  setbacks?: number | number[];
+  footprint?: Point2D[]; // Fixed building outline; overrides boundary and setbacks
+}
+
 export interface AspectRatio {
   min: number;
   max: number;
@@ -53,6 +67,7 @@ export interface RoomSpec {
   requiresWindow: boolean;
   requiresDoor: boolean;
   priority?: number; // For placement order
+  floor?: number; // Level index (0 = ground), assigned by the multi-storey planner
   
   // Enhanced fields for better specification
   dimensionalConstraints?: {
@@ -101,12 +116,14 @@ export interface FloorPlanSpecification {
   style: ArchitecturalStyle;
   metadata?: {
     floors?: number;
+    level?: number; // Set when this spec describes a single storey of a multi-storey building
     entrance?: 'north' | 'south' | 'east' | 'west';
     preferences?: {
       openPlan?: boolean;
       ensuites?: boolean;
       gardenAccess?: boolean;
     };
+    site?: SiteConstraints;
   };
 }
 
@@ -190,6 +207,9 @@ export interface FloorPlanGeometry {
     algorithmVersion: string;
     confidence: number; // 0-100
     relaxedConstraints: string[];
+    level?: number; // Level index within a BuildingGeometry (0 = ground)
+    footprint?: Point2D[]; // Building outline when constrained by a site
+    seed?: number; // Stage B seed; regenerating the specification with it reproduces this geometry
   };
   rooms: RoomGeometry[];
   walls: Wall[];
@@ -201,6 +221,40 @@ export interface FloorPlanGeometry {
   };
 }
 
+export interface VerticalCore {
+  id: string;
+  type: 'stair' | 'lift';
+  bounds: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  servesLevels: number[];
+}
+
+export interface BuildingLevel {
+  level: number;     // 0 = ground
+  name: string;      // e.g. "Ground Floor"
+  elevation: number; // Meters above ground floor finish
+  geometry: FloorPlanGeometry;
+}
+
+export interface BuildingGeometry {
+  metadata: {
+    totalArea: number;
+    floors: number;
+    floorHeight: number;
+    footprint: Dimensions;
+    generatedAt: string;
+    algorithmVersion: string;
+    confidence: number; // 0-100, lowest level confidence
+    seed?: number; // Level seeds are derived from it
+  };
+  levels: BuildingLevel[];
+  verticalCores: VerticalCore[];
+}
+
 export interface ConstraintSolution {
   rooms: Array<{
     id: string;
@@ -223,6 +277,7 @@ export interface GeometricValidationResult {
     windowExposure: boolean;
     areaAccuracy: boolean;
     codeCompliance: boolean;
+    footprintContainment: boolean;
   };
   errors: string[];
   warnings: string[];
@@ -307,15 +362,157 @@ export interface DXFExportOptions {
   units: UnitSystem;
 }
 
+export interface IFCExportOptions {
+  projectName: string;
+  buildingName: string;
+  author: string;
+  organization: string;
+  includeQuantities: boolean; // Qto_* base quantities on walls, slabs and spaces
+}
+
+export type SheetSize = 'A4' | 'A3' | 'A2' | 'A1' | 'A0' | 'ANSI-A' | 'ANSI-B' | 'ANSI-C' | 'ANSI-D' | 'ANSI-E';
+
+export interface PDFExportOptions {
+  sheetSize: SheetSize;
+  orientation: 'landscape' | 'portrait';
+  scale?: number; // Scale denominator (100 for 1:100); the largest standard scale that fits when omitted
+  projectName: string;
+  date: string; // Shown in the title block, YYYY-MM-DD
+  northAngle: number; // Degrees clockwise from the top of the sheet
+  includeRoomSchedule: boolean;
+}
+
+export interface PNGRasterOptions {
+  width: number; // Pixels; the drawing is fitted inside and centered
+  height: number;
+  background: string; // CSS color, or 'none' for transparent
+  padding: number; // Pixels kept clear around the drawing
+}
+
+export type ExportFormat = 'svg' | 'png' | 'dxf' | 'pdf' | 'gltf' | 'ifc';
+
 export interface ExportBundle {
   svg?: string;
+  png?: Blob;
   gltf?: Blob;
   dxf?: string;
+  pdf?: Blob;
+  ifc?: string;
   json: string; // Always include JSON
+  specification?: string; // JSON of the FloorPlanSpecification the plan was generated from
+  schedule: string; // Room schedule CSV
   metadata: {
     exportedAt: string;
-    formats: string[];
+    formats: ExportFormat[];
+    versions: Record<string, string>; // Generator and file format versions
+  };
+}
+
+export interface RoomAreaEntry {
+  roomId: string;
+  name: string;
+  type: RoomType;
+  area: number; // Net floor area, m²
+  width: number;
+  depth: number;
+  doors: number;
+  windows: number;
+  glazingArea: number; // Window area, m²
+  glazingRatio: number; // Glazing area ÷ floor area
+}
+
+export interface AreaReport {
+  generatedAt: string;
+  level?: number;
+  grossInternalArea: number; // Inside the external walls, m²
+  netArea: number; // Rooms other than circulation, m²
+  circulation: {
+    area: number; // Hallways, stairs, lifts and circulation paths, m²
+    percentage: number; // Of the gross internal area
+    target: number; // CIRCULATION_FACTOR as a percentage
+  };
+  perimeter: number; // External wall centerlines, m
+  wallLengths: {
+    exterior: number;
+    interior: number;
+    total: number;
+  };
+  openings: {
+    doors: number;
+    windows: number;
   };
+  rooms: RoomAreaEntry[];
+}
+
+export interface RoomDiffEntry {
+  name: string;
+  type: RoomType;
+  bounds: { x: number; y: number; width: number; height: number };
+  area: number;
+}
+
+export interface RoomChange {
+  name: string; // Name in the later version
+  type: RoomType;
+  before: RoomDiffEntry['bounds'];
+  after: RoomDiffEntry['bounds'];
+  areaChange: number; // m², positive when the room grew
+}
+
+export interface OpeningDiffEntry {
+  type: 'door' | 'window';
+  position: Point2D;
+  width: number;
+}
+
+export interface OpeningMove {
+  type: 'door' | 'window';
+  before: Point2D;
+  after: Point2D;
+  distance: number; // m
+}
+
+export interface PlanDiff {
+  rooms: {
+    added: RoomDiffEntry[];
+    removed: RoomDiffEntry[];
+    resized: RoomChange[];
+    moved: RoomChange[]; // Same size, new place
+    renamed: Array<{ from: string; to: string }>;
+  };
+  openings: {
+    added: OpeningDiffEntry[];
+    removed: OpeningDiffEntry[];
+    moved: OpeningMove[];
+  };
+  unchanged: boolean;
+}
+
+export interface LevelDiff extends PlanDiff {
+  level: number;
+  name: string;
+}
+
+export type CommentAnchorType = 'room' | 'wall' | 'door' | 'window' | 'point';
+
+/**
+ * Where a review comment is pinned on a saved plan. Elements of the saved
+ * layout have no ids, so they are named by kind and index (e.g. 'room-2');
+ * the pin position is kept as well, so it still shows if the element goes.
+ */
+export interface CommentAnchor {
+  type: CommentAnchorType;
+  elementId: string | null; // null when pinned to a point
+  position: Point2D; // m
+  level: number;
+}
+
+// A comment thread as drawn on the plan views
+export interface CommentPin {
+  id: string;
+  number: number; // Shown on the pin, matching the comment list
+  position: Point2D; // m
+  resolved: boolean;
 }
 
 // ============================================================================
@@ -343,39 +540,109 @@ export interface GenerateFloorPlanRequest {
       ensuites?: boolean;
       gardenAccess?: boolean;
     };
+    site?: SiteConstraints;
   };
   variationCount: number;
+  generationMode?: GenerationMode; // Defaults to 'llm' when an API key is configured
+  seed?: number; // Seeds the whole pipeline; random when omitted and reported in the response
+}
+
+export interface RegenerateFloorPlanRequest {
+  geometry: FloorPlanGeometry; // Saved level to lay out again
+  specification?: FloorPlanSpecification; // Keeps the original room requirements when supplied
+  lockedRoomIds: string[]; // Rooms that keep their position and size
+  seed?: number;
+}
+
+// One change to a specification, as interpreted from an edit request
+export type SpecificationEdit =
+  | { action: 'resize'; room: string; area?: number; scale?: number }
+  | { action: 'add'; type: RoomType; room?: string; area?: number; target?: string }
+  | { action: 'remove'; room: string }
+  | { action: 'connect'; room: string; target: string }
+  | { action: 'separate'; room: string; target: string };
+
+export interface EditFloorPlanRequest {
+  instruction: string; // e.g. "make the master bedroom bigger"
+  specification: FloorPlanSpecification;
+  geometry: FloorPlanGeometry; // Level the edit applies to
+  generationMode?: GenerationMode;
+  seed?: number;
+}
+
+export interface EditFloorPlanResponse {
+  variation: FloorPlanVariation;
+  edits: SpecificationEdit[];
+  changes: string[]; // One line per applied edit
+  summary: string;
+  metadata: LLMUsageMetadata;
 }
 
 export interface FloorPlanVariation {
   id: string;
   specification: FloorPlanSpecification;
-  geometry: FloorPlanGeometry;
+  geometry: FloorPlanGeometry; // Ground floor when the building has several levels
+  building?: BuildingGeometry;
   scene3D?: FloorPlan3DScene;
   preview: {
     svg: string;
-    thumbnail: string; // Base64 PNG
+    thumbnail: string; // PNG data URL
   };
   metadata: {
     confidence: number;
     generationTime: number;
     relaxedConstraints: string[];
+    seed?: number; // Stage B seed of this variation (see generateBuilding)
   };
 }
 
+export interface GenerationError {
+  stage: 'A' | 'B' | 'C';
+  message: string;
+  recoverable: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * LLM tokens spent on a request, summed over every Stage A call it made
+ */
+export interface LLMUsageMetadata {
+  llmUsage: LLMUsage;
+  llm?: {
+    provider: LLMProviderType;
+    model: string;
+  }; // Absent when no LLM was called
+}
+
 export interface GenerateFloorPlanResponse {
   variations: FloorPlanVariation[];
-  errors?: Array<{
-    stage: 'A' | 'B' | 'C';
-    message: string;
-    recoverable: boolean;
-  }>;
-  metadata: {
+  errors?: GenerationError[];
+  metadata: LLMUsageMetadata & {
     totalGenerationTime: number;
     timestamp: string;
+    seed?: number; // Resubmit the request with this seed to get the same variations
   };
 }
 
+/**
+ * Progress events emitted while a request runs through the pipeline, in
+ * order: started, specification (Stage A done), then per variation layout
+ * (Stage B done) and variation (preview ready) or error, then complete.
+ * `index` is the variation's position in the request (0-based).
+ */
+export type GenerationEvent =
+  | { type: 'started'; variationCount: number; generationMode: GenerationMode }
+  | { type: 'specification'; generationTime: number; warnings: string[] }
+  | { type: 'layout'; index: number; confidence: number; levels: number }
+  | { type: 'variation'; index: number; variation: FloorPlanVariation }
+  | { type: 'error'; index?: number; error: GenerationError }
+  | { type: 'complete'; variationCount: number; metadata: GenerateFloorPlanResponse['metadata'] };
+
 // ============================================================================
 // ERROR TYPES
 // ============================================================================
@@ -403,19 +670,25 @@ export interface RetryStrategy {
 // CONFIGURATION TYPES
 // ============================================================================
 
+export type LLMProviderType = 'openrouter' | 'openai-compatible' | 'anthropic' | 'replay';
+
 export interface StageAConfig {
   llm: {
+    provider: LLMProviderType;
     model: string;
     temperature: number;
     maxTokens: number;
     apiKey: string;
     baseUrl: string;
+    fixturePath?: string; // Replay provider: JSON file of recorded responses
+    structuredOutput?: boolean; // Send the specification JSON schema (default true)
   };
   validation: {
     minTotalArea: number;
     maxTotalArea: number;
     minRoomCount: number;
     maxRoomCount: number;
+    maxRepromptAttempts: number; // Follow-up prompts when the specification fails validation
   };
 }
 
@@ -279,17 +279,33 @@ export function formatDimension(meters: number, unit: 'metric' | 'imperial'): st
   return `${meters.toFixed(2)} m`;
 }
 
+/**
+ * CSV text (RFC 4180): fields with commas, quotes or line breaks are quoted
+ */
+export function formatCSV(rows: Array<Array<string | number>>): string {
+  const field = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(field).join(',')).join('\r\n') + '\r\n';
+}
+
 // ============================================================================
 // ID GENERATION
 // ============================================================================
 
 /**
- * Generate unique ID
+ * Generate unique ID. With a seeded random source the ID leaves out the
+ * timestamp, so regenerating from the same seed gives the same IDs.
  */
-export function generateId(prefix: string = ''): string {
+export function generateId(prefix: string = '', random?: RandomSource): string {
+  if (random) {
+    const suffix = random().toString(36).substring(2, 11);
+    return prefix ? `${prefix}_${suffix}` : suffix;
+  }
   const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 9);
-  return prefix ? `${prefix}_${timestamp}_${random}` : `${timestamp}_${random}`;
+  const suffix = Math.random().toString(36).substring(2, 9);
+  return prefix ? `${prefix}_${timestamp}_${suffix}` : `${timestamp}_${suffix}`;
 }
 
 // ============================================================================
@@ -331,15 +347,90 @@ export function unique<T>(array: T[]): T[] {
 /**
  * Shuffle array (Fisher-Yates)
  */
-export function shuffle<T>(array: T[]): T[] {
+export function shuffle<T>(array: T[], random: RandomSource = Math.random): T[] {
   const result = [...array];
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [result[i], result[j]] = [result[j], result[i]];
   }
   return result;
 }
 
+// ============================================================================
+// RANDOM UTILITIES
+// ============================================================================
+
+/**
+ * Source of random numbers in [0, 1). Stochastic components take one so a
+ * seeded generator can replace Math.random.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Seeded pseudo-random generator (mulberry32), returns values in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stable 32-bit hash of a string (FNV-1a), used to derive seeds
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Fresh 32-bit seed for requests that do not bring their own
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Independent seed for one part of a seeded run (a variation, a level), so
+ * each part can be regenerated on its own
+ */
+export function deriveSeed(seed: number, ...parts: Array<string | number>): number {
+  return hashString(`${seed}:${parts.join(':')}`);
+}
+
+// ============================================================================
+// BINARY UTILITIES
+// ============================================================================
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 checksum as used by PNG chunks and ZIP entries
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
 // ============================================================================
 // PERFORMANCE UTILITIES
 // ============================================================================
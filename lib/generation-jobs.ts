@@ -0,0 +1,362 @@
+import { GenerationJob as GenerationJobRecord, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { FloorPlanPipeline } from "@/lib/floor-plan/pipeline"
+import { recordUsage } from "@/lib/usage"
+import {
+  FloorPlanVariation,
+  GenerateFloorPlanRequest,
+  GenerationError,
+  GenerationEvent,
+} from "@/lib/floor-plan/types"
+
+export type GenerationJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled"
+
+// Stage reached by a variation that has not finished yet
+export type JobVariationProgress = "specification" | "layout" | "preview" | "failed"
+
+export interface GenerationJob {
+  id: string
+  userId: string
+  projectId: string | null
+  status: GenerationJobStatus
+  request: GenerateFloorPlanRequest
+  variations: FloorPlanVariation[]
+  errors: GenerationError[]
+  progress: Record<number, JobVariationProgress>
+  cancelRequested: boolean
+  attempts: number
+  // Reserved when the job was queued; the job's usage is written to it
+  usageRecordId: string | null
+  createdAt: Date
+  updatedAt: Date
+  startedAt: Date | null
+  completedAt: Date | null
+}
+
+export type GenerationJobSummary = Omit<GenerationJob, "request" | "variations"> & {
+  variationCount: number
+}
+
+const TERMINAL_STATUSES: GenerationJobStatus[] = ["completed", "failed", "cancelled"]
+
+const WORKER_CONCURRENCY = Number(process.env.GENERATION_WORKERS) || 2
+// A running job with no progress for this long lost its worker (e.g. a restart)
+const STALE_JOB_MS = 5 * 60 * 1000
+const MAX_ATTEMPTS = 3
+
+export function isTerminalStatus(status: GenerationJobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status)
+}
+
+/**
+ * Persistent generation queue. Jobs live in the database so their IDs stay
+ * valid across page reloads and server restarts; each server process works
+ * through queued jobs with a small pool of in-process workers.
+ */
+export class GenerationJobQueue {
+  private active = new Map<string, AbortController>()
+  private listeners = new Map<string, Set<() => void>>()
+  private draining = false
+  // Set when drain is called during a pass, which may have already found
+  // the queue empty
+  private drainRequested = false
+  private started: Promise<void> | null = null
+
+  async enqueue(
+    userId: string,
+    request: GenerateFloorPlanRequest,
+    projectId?: string,
+    usageRecordId?: string
+  ): Promise<GenerationJob> {
+    const job = await prisma.generationJob.create({
+      data: { userId, projectId, usageRecordId, request: toJson(request) },
+    })
+
+    await this.start()
+    void this.drain()
+    return toJob(job)
+  }
+
+  async get(id: string, userId: string): Promise<GenerationJob | null> {
+    await this.start()
+    const job = await prisma.generationJob.findFirst({ where: { id, userId } })
+    return job ? toJob(job) : null
+  }
+
+  async list(userId: string, limit: number = 20): Promise<GenerationJobSummary[]> {
+    await this.start()
+    const jobs = await prisma.generationJob.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    })
+
+    return jobs.map((record) => {
+      const { request, variations, ...summary } = toJob(record)
+      return { ...summary, variationCount: variations.length }
+    })
+  }
+
+  /**
+   * Queued jobs are cancelled outright. Running jobs stop at the next stage
+   * boundary and keep the variations finished so far.
+   */
+  async cancel(id: string, userId: string): Promise<GenerationJob | null> {
+    const job = await this.get(id, userId)
+    if (!job || isTerminalStatus(job.status)) return job
+
+    const { count } = await prisma.generationJob.updateMany({
+      where: { id, status: "queued" },
+      data: { status: "cancelled", cancelRequested: true, completedAt: new Date() },
+    })
+
+    if (count === 0) {
+      // Workers in other processes see the flag on their next update
+      await prisma.generationJob.update({ where: { id }, data: { cancelRequested: true } })
+      this.active.get(id)?.abort()
+    }
+
+    this.notify(id)
+    return this.get(id, userId)
+  }
+
+  /**
+   * Resolve when a job handled by this process changes, or after the timeout
+   * (changes made by other processes are only seen by polling)
+   */
+  waitForUpdate(id: string, timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const listeners = this.listeners.get(id) ?? new Set<() => void>()
+      const done = () => {
+        clearTimeout(timer)
+        listeners.delete(done)
+        if (listeners.size === 0) this.listeners.delete(id)
+        resolve()
+      }
+      const timer = setTimeout(done, timeoutMs)
+      listeners.add(done)
+      this.listeners.set(id, listeners)
+    })
+  }
+
+  /**
+   * On first use: re-queue jobs whose worker died, giving up on jobs that
+   * have already been retried, then start working through the queue
+   */
+  private start(): Promise<void> {
+    if (!this.started) {
+      this.started = (async () => {
+        const stale = { status: "running", updatedAt: { lt: new Date(Date.now() - STALE_JOB_MS) } }
+
+        await prisma.generationJob.updateMany({
+          where: { ...stale, attempts: { gte: MAX_ATTEMPTS } },
+          data: { status: "failed", completedAt: new Date() },
+        })
+        await prisma.generationJob.updateMany({
+          where: stale,
+          data: { status: "queued" },
+        })
+
+        void this.drain()
+      })().catch((error) => {
+        console.error("Failed to resume generation jobs:", error)
+        this.started = null
+      })
+    }
+    return this.started
+  }
+
+  private async drain() {
+    if (this.draining) {
+      this.drainRequested = true
+      return
+    }
+    this.draining = true
+
+    try {
+      do {
+        this.drainRequested = false
+        while (this.active.size < WORKER_CONCURRENCY) {
+          const job = await this.claimNext()
+          if (!job) break
+
+          const controller = new AbortController()
+          this.active.set(job.id, controller)
+          void this.process(job, controller).finally(() => {
+            this.active.delete(job.id)
+            void this.drain()
+          })
+        }
+      } while (this.drainRequested)
+    } catch (error) {
+      console.error("Failed to claim generation job:", error)
+    } finally {
+      this.draining = false
+    }
+  }
+
+  /**
+   * Take the oldest queued job. The conditional update makes sure only one
+   * process claims it; a resumed job starts over from Stage A.
+   */
+  private async claimNext(): Promise<GenerationJob | null> {
+    for (let tries = 0; tries < 5; tries++) {
+      const next = await prisma.generationJob.findFirst({
+        where: { status: "queued" },
+        orderBy: { createdAt: "asc" },
+      })
+      if (!next) return null
+
+      const { count } = await prisma.generationJob.updateMany({
+        where: { id: next.id, status: "queued" },
+        data: {
+          status: "running",
+          startedAt: new Date(),
+          attempts: { increment: 1 },
+          variations: [],
+          errors: [],
+          progress: {},
+        },
+      })
+      if (count === 1) {
+        return toJob({ ...next, status: "running", attempts: next.attempts + 1 })
+      }
+    }
+    return null
+  }
+
+  private async process(job: GenerationJob, controller: AbortController) {
+    const variations: FloorPlanVariation[] = []
+    const errors: GenerationError[] = []
+    const progress: Record<number, JobVariationProgress> = {}
+
+    // Writes are chained so they land in event order
+    let writes = Promise.resolve()
+    const persist = (data: Prisma.GenerationJobUpdateInput) => {
+      writes = writes
+        .then(async () => {
+          const updated = await prisma.generationJob.update({ where: { id: job.id }, data })
+          if (updated.cancelRequested) controller.abort()
+          this.notify(job.id)
+        })
+        .catch((error) => console.error("Failed to update generation job:", error))
+    }
+
+    const setAll = (stage: JobVariationProgress) => {
+      Object.keys(progress).forEach((index) => {
+        if (progress[Number(index)] !== "failed") progress[Number(index)] = stage
+      })
+    }
+
+    const onEvent = (event: GenerationEvent) => {
+      switch (event.type) {
+        case "started":
+          for (let i = 0; i < event.variationCount; i++) progress[i] = "specification"
+          persist({ progress: { ...progress } })
+          break
+        case "specification":
+          setAll("layout")
+          persist({ progress: { ...progress } })
+          break
+        case "layout":
+          progress[event.index] = "preview"
+          persist({ progress: { ...progress } })
+          break
+        case "variation":
+          variations.push(event.variation)
+          delete progress[event.index]
+          persist({ variations: toJson(variations), progress: { ...progress } })
+          break
+        case "error":
+          errors.push(event.error)
+          if (event.index !== undefined) progress[event.index] = "failed"
+          persist({ errors: toJson(errors), progress: { ...progress } })
+          break
+      }
+    }
+
+    try {
+      // A fresh pipeline per job, so layouts are not compared with other jobs
+      const response = await new FloorPlanPipeline().run(job.request, onEvent, controller.signal)
+      await writes
+      if (job.usageRecordId) {
+        await recordUsage(job.usageRecordId, {
+          metadata: response.metadata,
+          latencyMs: response.metadata.totalGenerationTime,
+          variationCount: response.variations.length,
+        })
+      }
+
+      const status: GenerationJobStatus = controller.signal.aborted
+        ? "cancelled"
+        : response.variations.length > 0 ? "completed" : "failed"
+
+      await prisma.generationJob.update({
+        where: { id: job.id },
+        data: {
+          status,
+          // In completion order, as saved during the run: clients page
+          // through them by index, and the response is sorted by confidence
+          variations: toJson(variations),
+          errors: toJson(response.errors ?? []),
+          progress: {},
+          completedAt: new Date(),
+        },
+      })
+    } catch (error) {
+      await writes
+      console.error("Generation job failed:", error)
+
+      await prisma.generationJob
+        .update({
+          where: { id: job.id },
+          data: {
+            status: "failed",
+            errors: toJson([
+              ...errors,
+              {
+                stage: "A",
+                message: `Unexpected error: ${error instanceof Error ? error.message : "Unknown error"}`,
+                recoverable: false,
+              },
+            ]),
+            completedAt: new Date(),
+          },
+        })
+        .catch((updateError: unknown) => console.error("Failed to update generation job:", updateError))
+    } finally {
+      this.notify(job.id)
+    }
+  }
+
+  private notify(id: string) {
+    this.listeners.get(id)?.forEach((listener) => listener())
+  }
+}
+
+/**
+ * Serialise a value for a Json column
+ */
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function toJob(record: GenerationJobRecord): GenerationJob {
+  return {
+    ...record,
+    status: record.status as GenerationJobStatus,
+    // Json columns hold what toJson wrote
+    request: record.request as unknown as GenerateFloorPlanRequest,
+    variations: (record.variations ?? []) as unknown as FloorPlanVariation[],
+    errors: (record.errors ?? []) as unknown as GenerationError[],
+    progress: (record.progress ?? {}) as Record<number, JobVariationProgress>,
+  }
+}
+
+const globalForJobs = globalThis as unknown as {
+  generationJobQueue: GenerationJobQueue | undefined
+}
+
+export const generationJobQueue = globalForJobs.generationJobQueue ?? new GenerationJobQueue()
+
+if (process.env.NODE_ENV !== "production") globalForJobs.generationJobQueue = generationJobQueue
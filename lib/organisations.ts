@@ -0,0 +1,64 @@
+import { randomBytes } from "crypto"
+import { prisma } from "@/lib/prisma"
+
+// Roles in an organisation, least access first. Each role can do everything
+// the roles before it can.
+export const ROLES = ["viewer", "commenter", "editor", "owner"] as const
+
+export type Role = (typeof ROLES)[number]
+
+// Days an invitation stays open
+export const INVITATION_DAYS = 14
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role)
+}
+
+/**
+ * The role and every role above it
+ */
+export function rolesFrom(minimum: Role): Role[] {
+  return ROLES.slice(ROLES.indexOf(minimum))
+}
+
+export function hasRole(role: string | null | undefined, minimum: Role): boolean {
+  return isRole(role) && ROLES.indexOf(role) >= ROLES.indexOf(minimum)
+}
+
+/**
+ * The user's membership of the organisation, if any
+ */
+export async function findMembership(organisationId: string, userId: string) {
+  return prisma.organisationMember.findUnique({
+    where: { organisationId_userId: { organisationId, userId } },
+  })
+}
+
+/**
+ * Whether taking the owner role away from this member would leave the
+ * organisation without an owner
+ */
+export async function isLastOwner(member: { organisationId: string; role: string }): Promise<boolean> {
+  if (member.role !== "owner") return false
+  const owners = await prisma.organisationMember.count({
+    where: { organisationId: member.organisationId, role: "owner" },
+  })
+  return owners <= 1
+}
+
+export function createInvitationToken(): string {
+  return randomBytes(24).toString("base64url")
+}
+
+/**
+ * The invitation, unless it was accepted or has expired
+ */
+export async function findOpenInvitation(token: string) {
+  return prisma.invitation.findFirst({
+    where: { token, acceptedAt: null, expiresAt: { gt: new Date() } },
+    include: {
+      organisation: { select: { id: true, name: true } },
+      invitedBy: { select: { name: true, email: true } },
+    },
+  })
+}
@@ -0,0 +1,75 @@
+import { prisma } from "@/lib/prisma"
+import { CREATION_ORDER } from "@/lib/project-access"
+import { COMMENT_ANCHOR_TYPES, elementPosition, layoutForLevel, parseElementId } from "@/lib/floor-plan/comment-anchors"
+import { CommentAnchor, CommentAnchorType } from "@/lib/floor-plan/types"
+
+export type CommentStatus = "open" | "resolved" | "all"
+
+export const COMMENT_STATUSES: CommentStatus[] = ["open", "resolved", "all"]
+
+// Longest comment kept (characters)
+export const MAX_COMMENT_LENGTH = 5000
+
+const PERSON = { select: { id: true, name: true } }
+
+// A thread with its replies in order
+export const COMMENT_THREAD = {
+  author: PERSON,
+  resolvedBy: PERSON,
+  replies: { orderBy: CREATION_ORDER, include: { author: PERSON } },
+}
+
+/**
+ * Threads on the floor plan, oldest first
+ */
+export async function listCommentThreads(floorPlanId: string, status: CommentStatus) {
+  return prisma.floorPlanComment.findMany({
+    where: {
+      floorPlanId,
+      parentId: null,
+      ...(status === "all" ? {} : { resolved: status === "resolved" }),
+    },
+    orderBy: CREATION_ORDER,
+    include: COMMENT_THREAD,
+  })
+}
+
+/**
+ * The comment, if it is on the floor plan
+ */
+export async function findComment(floorPlanId: string, commentId: string) {
+  return prisma.floorPlanComment.findFirst({ where: { id: commentId, floorPlanId } })
+}
+
+/**
+ * Check an anchor sent by the editor against the saved plan. Elements are
+ * pinned at their middle unless a position is given; points need one.
+ * Returns the anchor, or why it was rejected.
+ */
+export function readAnchor(planData: any, input: any): CommentAnchor | string {
+  if (!input || typeof input !== "object" || !COMMENT_ANCHOR_TYPES.includes(input.type)) {
+    return `Anchor type must be one of ${COMMENT_ANCHOR_TYPES.join(", ")}`
+  }
+
+  const type = input.type as CommentAnchorType
+  const level = input.level ?? 0
+  const layout = Number.isInteger(level) ? layoutForLevel(planData, level) : null
+  if (!layout) {
+    return "Level not found"
+  }
+
+  const given =
+    Number.isFinite(input.x) && Number.isFinite(input.y) ? { x: input.x as number, y: input.y as number } : null
+
+  if (type === "point") {
+    return given ? { type, elementId: null, position: given, level } : "A point anchor needs x and y"
+  }
+
+  const element = typeof input.elementId === "string" ? parseElementId(input.elementId) : null
+  const position = element?.type === type ? elementPosition(layout, input.elementId) : null
+  if (!position) {
+    return `No ${type} ${input.elementId ?? ""} on this plan`.trimEnd()
+  }
+
+  return { type, elementId: input.elementId, position: given ?? position, level }
+}
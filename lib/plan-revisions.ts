@@ -0,0 +1,161 @@
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { pngRasterizer } from "@/lib/floor-plan/stage-c/png-rasterizer"
+
+// Largest generated thumbnail kept as sent (characters of data URL)
+const MAX_THUMBNAIL_LENGTH = 200_000
+
+// Attempts at a save that lost a revision number to a concurrent one
+const REVISION_ATTEMPTS = 3
+
+// The client or a transaction on it
+type RevisionClient = Pick<Prisma.TransactionClient, "floorPlan" | "floorPlanRevision">
+
+export interface RevisionInput {
+  planData: any
+  thumbnail: string | null
+  message?: string | null
+  authorId: string
+}
+
+export interface RevisionSummary {
+  id: string
+  number: number
+  message: string | null
+  thumbnail: string | null
+  author: { id: string; name: string | null }
+  createdAt: Date
+}
+
+const SUMMARY_FIELDS = {
+  id: true,
+  number: true,
+  message: true,
+  thumbnail: true,
+  author: { select: { id: true, name: true } },
+  createdAt: true,
+}
+
+/**
+ * Store the plan on the floor plan and snapshot it as the next revision.
+ * Saving an unchanged plan writes nothing and returns null; otherwise the
+ * new revision number.
+ */
+export async function commitRevision(
+  db: RevisionClient,
+  floorPlanId: string,
+  { planData, thumbnail, message, authorId }: RevisionInput
+): Promise<number | null> {
+  const latest = await db.floorPlanRevision.findFirst({
+    where: { floorPlanId },
+    orderBy: { number: "desc" },
+  })
+
+  if (latest && canonicalJSON(latest.planData) === canonicalJSON(planData)) {
+    return null
+  }
+
+  const number = (latest?.number ?? 0) + 1
+  await db.floorPlan.update({
+    where: { id: floorPlanId },
+    data: { planData, thumbnail },
+  })
+  await db.floorPlanRevision.create({
+    data: { floorPlanId, number, planData, thumbnail, message: message || null, authorId },
+  })
+
+  return number
+}
+
+/**
+ * Run a transaction that commits revisions. Two saves of one plan can pick
+ * the same next number; the one that loses on the unique constraint is run
+ * again and numbers after the winner.
+ */
+export async function revisionTransaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn)
+    } catch (error) {
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+      if (!conflict || attempt >= REVISION_ATTEMPTS) throw error
+    }
+  }
+}
+
+export async function listRevisions(floorPlanId: string): Promise<RevisionSummary[]> {
+  return prisma.floorPlanRevision.findMany({
+    where: { floorPlanId },
+    orderBy: { number: "desc" },
+    select: SUMMARY_FIELDS,
+  })
+}
+
+/**
+ * One revision with its plan; the latest when no number is given
+ */
+export async function getRevision(floorPlanId: string, number?: number) {
+  return prisma.floorPlanRevision.findFirst({
+    where: number === undefined ? { floorPlanId } : { floorPlanId, number },
+    orderBy: { number: "desc" },
+    select: { ...SUMMARY_FIELDS, planData: true },
+  })
+}
+
+/**
+ * Make an earlier revision current again. History is kept: the restore is
+ * recorded as a new revision. Returns that revision's number (the current
+ * one when the plan already matches), or null when there is no such revision.
+ */
+export async function restoreRevision(floorPlanId: string, number: number, authorId: string): Promise<number | null> {
+  return revisionTransaction(async (tx) => {
+    const revision = await tx.floorPlanRevision.findFirst({ where: { floorPlanId, number } })
+    if (!revision) return null
+
+    const restored = await commitRevision(tx, floorPlanId, {
+      planData: revision.planData,
+      thumbnail: revision.thumbnail,
+      message: `Restored revision ${number}`,
+      authorId,
+    })
+    if (restored !== null) return restored
+
+    const latest = await tx.floorPlanRevision.findFirst({
+      where: { floorPlanId },
+      orderBy: { number: "desc" },
+    })
+    return latest?.number ?? null
+  })
+}
+
+// Generated plans arrive with their thumbnail; edited ones are drawn from the layout
+export function thumbnailFor(planData: any, thumbnail: unknown): string | null {
+  if (
+    typeof thumbnail === "string" &&
+    thumbnail.startsWith("data:image/png;base64,") &&
+    thumbnail.length <= MAX_THUMBNAIL_LENGTH
+  ) {
+    return thumbnail
+  }
+
+  try {
+    return pngRasterizer.layoutThumbnail({
+      walls: planData.walls ?? [],
+      rooms: planData.rooms ?? [],
+      doors: planData.doors ?? [],
+      windows: planData.windows ?? [],
+    })
+  } catch (error) {
+    console.error("Thumbnail rendering failed:", error)
+    return null
+  }
+}
+
+// JSON columns do not keep key order, so compare with keys sorted
+function canonicalJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(Object.keys(item).sort().map((key) => [key, item[key]]))
+      : item
+  )
+}
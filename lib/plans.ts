@@ -0,0 +1,61 @@
+// Plans offered on the pricing page. Users and organisations are on the
+// free plan unless their `plan` names another one.
+export const DEFAULT_PLAN = "free"
+
+export interface Plan {
+  id: string
+  name: string
+  price: string
+  period: string
+  // Monthly allowances; null means unlimited
+  generations: number | null
+  tokens: number | null
+}
+
+const PLANS: Record<string, Plan> = {
+  free: {
+    id: "free",
+    name: "Free Forever",
+    price: "$0",
+    period: "forever",
+    generations: 100,
+    tokens: 2_000_000,
+  },
+}
+
+/**
+ * A monthly allowance from the environment, e.g. PLAN_FREE_GENERATIONS=250.
+ * "unlimited" removes the limit; anything unreadable keeps the default.
+ */
+function allowance(name: string, fallback: number | null, env: Record<string, string | undefined>): number | null {
+  const value = env[name]?.trim().toLowerCase()
+  if (!value) return fallback
+  if (value === "unlimited") return null
+  const number = Number(value)
+  return Number.isInteger(number) && number >= 0 ? number : fallback
+}
+
+/**
+ * The plan with its allowances as configured for this deployment. Unknown
+ * ids fall back to the free plan.
+ */
+export function planFor(id: string | null | undefined, env: Record<string, string | undefined> = process.env): Plan {
+  const plan = PLANS[id ?? DEFAULT_PLAN] ?? PLANS[DEFAULT_PLAN]
+  const prefix = `PLAN_${plan.id.toUpperCase()}`
+  return {
+    ...plan,
+    generations: allowance(`${prefix}_GENERATIONS`, plan.generations, env),
+    tokens: allowance(`${prefix}_TOKENS`, plan.tokens, env),
+  }
+}
+
+export function allPlans(env: Record<string, string | undefined> = process.env): Plan[] {
+  return Object.keys(PLANS).map((id) => planFor(id, env))
+}
+
+/**
+ * "100 floor plan generations a month", or "Unlimited ..." without a limit
+ */
+export function describeAllowance(limit: number | null, unit: string): string {
+  return limit === null ? `Unlimited ${unit}` : `${limit.toLocaleString("en-US")} ${unit} a month`
+}
@@ -0,0 +1,119 @@
+import { prisma } from "@/lib/prisma"
+import { Role, hasRole, isRole, rolesFrom } from "@/lib/organisations"
+
+// Proposals and variations in the order they were added. Rows written in the
+// same save can share a timestamp, so the id breaks ties.
+export const CREATION_ORDER = [{ createdAt: "asc" as const }, { id: "asc" as const }]
+
+// A project with its proposals and their variations, in order
+export const PROJECT_CONTENTS = {
+  proposals: {
+    orderBy: CREATION_ORDER,
+    include: { variations: { orderBy: CREATION_ORDER } },
+  },
+}
+
+// What an action on a project needs. Users own their personal projects;
+// on organisation projects, members can do what their role allows.
+export type ProjectPermission = "view" | "comment" | "edit" | "manage"
+
+const MINIMUM_ROLE: Record<ProjectPermission, Role> = {
+  view: "viewer",
+  comment: "commenter",
+  edit: "editor",
+  manage: "owner",
+}
+
+// Sent with 403 responses
+export const PERMISSION_ERRORS: Record<ProjectPermission, string> = {
+  view: "You do not have access to this project",
+  comment: "Your role cannot comment on this project",
+  edit: "Your role cannot edit this project",
+  manage: "Only organisation owners can do this",
+}
+
+export function can(role: Role | null, permission: ProjectPermission): boolean {
+  return hasRole(role, MINIMUM_ROLE[permission])
+}
+
+/**
+ * Filter for projects the user has the permission on
+ */
+export function projectsAccessibleTo(userId: string, permission: ProjectPermission = "view") {
+  return {
+    OR: [
+      { organisationId: null, userId },
+      { organisation: { members: { some: { userId, role: { in: rolesFrom(MINIMUM_ROLE[permission]) } } } } },
+    ],
+  }
+}
+
+// The user's membership, included with a project to work out their role
+function membershipOf(userId: string) {
+  return { organisation: { select: { members: { where: { userId }, select: { role: true } } } } }
+}
+
+/**
+ * The user's role on a project included with membershipOf
+ */
+function roleOn(
+  project: { userId: string; organisationId: string | null; organisation: { members: { role: string }[] } | null },
+  userId: string
+): Role | null {
+  if (!project.organisationId) {
+    return project.userId === userId ? "owner" : null
+  }
+  const role = project.organisation?.members[0]?.role
+  return isRole(role) ? role : null
+}
+
+/**
+ * The project with the user's role on it, if they can see it
+ */
+export async function findProject(projectId: string, userId: string) {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, ...projectsAccessibleTo(userId) },
+    include: membershipOf(userId),
+  })
+  if (!project) return null
+
+  const { organisation: _organisation, ...fields } = project
+  return { ...fields, role: roleOn(project, userId) }
+}
+
+/**
+ * The proposal with the user's role on its project, if they can see it
+ */
+export async function findProposal(projectId: string, proposalId: string, userId: string) {
+  const proposal = await prisma.proposal.findFirst({
+    where: { id: proposalId, projectId, project: projectsAccessibleTo(userId) },
+    include: { project: { include: membershipOf(userId) } },
+  })
+  if (!proposal) return null
+
+  const { project, ...fields } = proposal
+  return { ...fields, role: roleOn(project, userId) }
+}
+
+/**
+ * The floor plan with the user's role on its project, if they can see it
+ */
+export async function findFloorPlan(floorPlanId: string, userId: string) {
+  const floorPlan = await prisma.floorPlan.findFirst({
+    where: { id: floorPlanId, proposal: { project: projectsAccessibleTo(userId) } },
+    include: { proposal: { select: { project: { include: membershipOf(userId) } } } },
+  })
+  if (!floorPlan) return null
+
+  const { proposal, ...fields } = floorPlan
+  const { organisation: _organisation, ...project } = proposal.project
+  return { ...fields, project, role: roleOn(proposal.project, userId) }
+}
+
+export function proposalLabel(index: number): string {
+  const number = index + 1
+  const j = number % 10
+  const k = number % 100
+  const suffix = j === 1 && k !== 11 ? "st" : j === 2 && k !== 12 ? "nd" : j === 3 && k !== 13 ? "rd" : "th"
+  return `${number}${suffix} proposal`
+}
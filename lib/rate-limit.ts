@@ -0,0 +1,56 @@
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Until the oldest request in the window expires; 0 when allowed
+  retryAfterMs: number
+}
+
+// Forget keys with no requests in the window once this many are tracked
+const PRUNE_AT = 10_000
+
+/**
+ * Sliding-window rate limiter. Counts are kept in memory, so each server
+ * process limits on its own.
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>()
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  /**
+   * Count a request for the key, unless it would go over the limit
+   */
+  check(key: string, now: number = Date.now()): RateLimitResult {
+    const since = now - this.windowMs
+    const recent = (this.hits.get(key) ?? []).filter((time) => time > since)
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent)
+      return { allowed: false, limit: this.limit, remaining: 0, retryAfterMs: recent[0] + this.windowMs - now }
+    }
+
+    recent.push(now)
+    this.hits.set(key, recent)
+    if (this.hits.size > PRUNE_AT) this.prune(since)
+
+    return { allowed: true, limit: this.limit, remaining: this.limit - recent.length, retryAfterMs: 0 }
+  }
+
+  private prune(since: number) {
+    this.hits.forEach((times, key) => {
+      if (times[times.length - 1] <= since) this.hits.delete(key)
+    })
+  }
+}
+
+/**
+ * Headers describing a rate limit decision, with Retry-After when refused
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    ...(!result.allowed && { "Retry-After": String(Math.ceil(result.retryAfterMs / 1000)) }),
+  }
+}
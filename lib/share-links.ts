@@ -0,0 +1,141 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { prisma } from "@/lib/prisma"
+import { CREATION_ORDER } from "@/lib/project-access"
+import { RateLimiter, RateLimitResult } from "@/lib/rate-limit"
+
+// Longest a link can be set to last (days)
+export const MAX_SHARE_DAYS = 365
+
+// Longest approval comment kept (characters)
+export const MAX_APPROVAL_COMMENT_LENGTH = 2000
+
+// Password attempts on one link, from all viewers together, per window
+const UNLOCK_ATTEMPTS = 10
+const UNLOCK_WINDOW_MS = 15 * 60 * 1000
+
+const globalForUnlocks = globalThis as unknown as {
+  unlockLimiter: RateLimiter | undefined
+}
+
+const unlockLimiter = globalForUnlocks.unlockLimiter ?? new RateLimiter(UNLOCK_ATTEMPTS, UNLOCK_WINDOW_MS)
+
+if (process.env.NODE_ENV !== "production") globalForUnlocks.unlockLimiter = unlockLimiter
+
+// A link as listed for its owner, with the approvals sent through it.
+// Pass through describeShareLink before sending.
+export const SHARE_LINK_FIELDS = {
+  id: true,
+  token: true,
+  floorPlanId: true,
+  expiresAt: true,
+  allowApproval: true,
+  revokedAt: true,
+  createdAt: true,
+  passwordHash: true,
+  approvals: { orderBy: CREATION_ORDER, select: { id: true, floorPlanId: true, name: true, comment: true, createdAt: true } },
+}
+
+export function createShareToken(): string {
+  return randomBytes(24).toString("base64url")
+}
+
+/**
+ * The link, unless it was revoked or has expired
+ */
+export async function findActiveShareLink(token: string) {
+  return prisma.shareLink.findFirst({
+    where: {
+      token,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+  })
+}
+
+/**
+ * Hide the password hash from the owner's view of a link
+ */
+export function describeShareLink<T extends { passwordHash: string | null; token: string }>({ passwordHash, ...link }: T) {
+  return { ...link, hasPassword: passwordHash !== null, url: `/share/${link.token}` }
+}
+
+// ============================================================================
+// PASSWORDS
+// ============================================================================
+
+// A viewer who entered the password gets a cookie holding a key derived
+// from the link and its hash, which cannot be made without the secret
+export function shareCookieName(linkId: string): string {
+  return `plotsync_share_${linkId}`
+}
+
+export function shareAccessKey(link: { id: string; passwordHash: string | null }): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET must be set to unlock password-protected links")
+  }
+
+  return createHmac("sha256", secret)
+    .update(`${link.id}:${link.passwordHash ?? ""}`)
+    .digest("base64url")
+}
+
+/**
+ * Count a password attempt on the link; refused once it has had too many
+ */
+export function checkUnlockAttempt(linkId: string): RateLimitResult {
+  return unlockLimiter.check(`share:${linkId}`)
+}
+
+/**
+ * Whether the viewer may open the link: always without a password,
+ * otherwise once they have unlocked it
+ */
+export function canViewShareLink(link: { id: string; passwordHash: string | null }, cookie: string | undefined): boolean {
+  if (!link.passwordHash) return true
+  if (!cookie) return false
+
+  const expected = Buffer.from(shareAccessKey(link))
+  const given = Buffer.from(cookie)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+// ============================================================================
+// SHARED CONTENTS
+// ============================================================================
+
+/**
+ * The project as the viewer sees it: proposals and variations in order,
+ * reduced to the one variation for single-variation links. Approvals are
+ * only those sent through this link.
+ */
+export async function sharedProject(link: { id: string; projectId: string; floorPlanId: string | null }) {
+  return prisma.project.findUnique({
+    where: { id: link.projectId },
+    select: {
+      name: true,
+      proposals: {
+        where: link.floorPlanId ? { variations: { some: { id: link.floorPlanId } } } : undefined,
+        orderBy: CREATION_ORDER,
+        select: {
+          id: true,
+          label: true,
+          variations: {
+            where: link.floorPlanId ? { id: link.floorPlanId } : undefined,
+            orderBy: CREATION_ORDER,
+            select: {
+              id: true,
+              planData: true,
+              thumbnail: true,
+              approvals: {
+                where: { shareLinkId: link.id },
+                orderBy: CREATION_ORDER,
+                select: { name: true, comment: true, createdAt: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+}
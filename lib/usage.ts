@@ -0,0 +1,279 @@
+import { Prisma, UsageRecord } from "@prisma/client"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findMembership, hasRole } from "@/lib/organisations"
+import { Plan, planFor } from "@/lib/plans"
+import { RateLimiter, rateLimitHeaders } from "@/lib/rate-limit"
+import { LLMUsageMetadata } from "@/lib/floor-plan/types"
+
+export type UsageKind = "generation" | "edit"
+
+// Who a request counts against: the organisation when it is for one of its
+// projects, otherwise the user
+export interface UsageAccount {
+  userId: string
+  organisationId: string | null
+}
+
+export interface QuotaStatus {
+  plan: Plan
+  used: { generations: number; tokens: number }
+  // The allowance that has run out, if any
+  exceeded: "generations" | "tokens" | null
+  resetsAt: Date
+}
+
+const RATE_WINDOW_MS = 60 * 1000
+// Requests a minute to the generation routes, per user
+const USER_RATE_LIMIT = Number(process.env.GENERATION_RATE_LIMIT) || 10
+
+// Attempts at a reservation that conflicted with a concurrent one
+const RESERVE_ATTEMPTS = 3
+
+const globalForLimits = globalThis as unknown as {
+  generationLimiter: RateLimiter | undefined
+}
+
+const limiter = globalForLimits.generationLimiter ?? new RateLimiter(USER_RATE_LIMIT, RATE_WINDOW_MS)
+
+if (process.env.NODE_ENV !== "production") globalForLimits.generationLimiter = limiter
+
+/**
+ * First moment of the month (UTC) the date falls in, or of a later month
+ */
+export function monthStart(date: Date = new Date(), monthsAhead: number = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + monthsAhead, 1))
+}
+
+function recordsOf(account: UsageAccount) {
+  return account.organisationId
+    ? { organisationId: account.organisationId }
+    : { userId: account.userId, organisationId: null }
+}
+
+/**
+ * The account to bill a request to, or null when the user cannot generate
+ * for the organisation
+ */
+export async function usageAccount(userId: string, organisationId?: string | null): Promise<UsageAccount | null> {
+  if (!organisationId) return { userId, organisationId: null }
+  const membership = await findMembership(organisationId, userId)
+  return hasRole(membership?.role, "editor") ? { userId, organisationId } : null
+}
+
+export async function quotaStatus(account: UsageAccount, db: Prisma.TransactionClient = prisma): Promise<QuotaStatus> {
+  const where = { ...recordsOf(account), createdAt: { gte: monthStart() } }
+  const [owner, generations, tokens] = await Promise.all([
+    account.organisationId
+      ? db.organisation.findUnique({ where: { id: account.organisationId }, select: { plan: true } })
+      : db.user.findUnique({ where: { id: account.userId }, select: { plan: true } }),
+    db.usageRecord.count({ where: { ...where, kind: "generation" } }),
+    db.usageRecord.aggregate({ where, _sum: { totalTokens: true } }),
+  ])
+
+  const plan = planFor(owner?.plan)
+  const used = { generations, tokens: tokens._sum.totalTokens ?? 0 }
+  const exceeded =
+    plan.generations !== null && used.generations >= plan.generations ? "generations"
+    : plan.tokens !== null && used.tokens >= plan.tokens ? "tokens"
+    : null
+
+  return { plan, used, exceeded, resetsAt: monthStart(new Date(), 1) }
+}
+
+// A request's usage record, or the allowance that left no room for it
+type Reservation =
+  | { usageId: string; quota: QuotaStatus }
+  | { usageId: null; quota: QuotaStatus; exceeded: "generations" | "tokens" }
+
+/**
+ * Check the quota and, if there is room, record the request with no tokens
+ * yet. Both happen in one serializable transaction, so concurrent requests
+ * cannot all pass a check that only one of them fits under. Edits only
+ * need tokens left.
+ */
+async function reserveUsage(
+  account: UsageAccount,
+  kind: UsageKind
+): Promise<Reservation> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(
+        async (tx) => {
+          const quota = await quotaStatus(account, tx)
+          const exceeded = kind === "edit" && quota.exceeded === "generations" ? null : quota.exceeded
+          if (exceeded) return { usageId: null, quota, exceeded }
+
+          const record = await tx.usageRecord.create({
+            data: {
+              ...account,
+              kind,
+              promptTokens: 0,
+              completionTokens: 0,
+              totalTokens: 0,
+              latencyMs: 0,
+              variationCount: 0,
+            },
+          })
+          return { usageId: record.id, quota }
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      )
+    } catch (error) {
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034"
+      if (!conflict || attempt >= RESERVE_ATTEMPTS) throw error
+    }
+  }
+}
+
+export type Admission =
+  | { admitted: true; account: UsageAccount; usageId: string; headers: Record<string, string> }
+  | { admitted: false; status: number; body: Record<string, unknown>; headers: Record<string, string> }
+
+/**
+ * Rate limit and quota check for a request to a generation route. Only
+ * signed-in users may generate. They are limited per user and against the
+ * monthly quota of the account billed: the organisation given, which they
+ * must edit for, or themselves. It defaults to the request's
+ * `?organisationId=`. An admitted request has its usage reserved; pass
+ * `usageId` to recordUsage once it finishes.
+ */
+export async function admitGeneration(
+  request: Request,
+  kind: UsageKind,
+  organisationId: string | null = new URL(request.url).searchParams.get("organisationId")
+): Promise<Admission> {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return { admitted: false, status: 401, body: { error: "Unauthorized" }, headers: {} }
+  }
+
+  const limit = limiter.check(`user:${session.user.id}`)
+  const headers = rateLimitHeaders(limit)
+
+  if (!limit.allowed) {
+    return { admitted: false, status: 429, body: { error: "Too many generation requests. Try again shortly." }, headers }
+  }
+
+  const account = await usageAccount(session.user.id, organisationId)
+
+  if (!account) {
+    return { admitted: false, status: 403, body: { error: "Only editors can generate for this organisation" }, headers }
+  }
+
+  const reservation = await reserveUsage(account, kind)
+
+  if (reservation.usageId === null) {
+    const { quota, exceeded } = reservation
+    return {
+      admitted: false,
+      status: 402,
+      body: {
+        error: `The ${quota.plan.name} plan's monthly ${exceeded === "tokens" ? "token" : "generation"} allowance is used up. It resets on ${quota.resetsAt.toISOString().slice(0, 10)}.`,
+        quota,
+      },
+      headers,
+    }
+  }
+
+  return { admitted: true, account, usageId: reservation.usageId, headers }
+}
+
+/**
+ * Fill in what a generation or edit used on the record reserved when it was
+ * admitted. Failures are logged rather than thrown so metering never costs
+ * the user their result.
+ */
+export async function recordUsage(
+  usageId: string,
+  usage: { metadata: LLMUsageMetadata; latencyMs: number; variationCount: number }
+): Promise<void> {
+  try {
+    await prisma.usageRecord.update({
+      where: { id: usageId },
+      data: {
+        provider: usage.metadata.llm?.provider ?? null,
+        model: usage.metadata.llm?.model ?? null,
+        ...usage.metadata.llmUsage,
+        latencyMs: Math.round(usage.latencyMs),
+        variationCount: usage.variationCount,
+      },
+    })
+  } catch (error) {
+    console.error("Failed to record usage:", error)
+  }
+}
+
+export interface MemberUsage {
+  user: { id: string; name: string | null; email: string } | null
+  generations: number
+  tokens: number
+}
+
+export interface UsageSummary {
+  personal: QuotaStatus
+  organisations: Array<{
+    organisation: { id: string; name: string }
+    role: string
+    quota: QuotaStatus
+    // What each member used this month; shown to owners only
+    members: MemberUsage[] | null
+  }>
+  recent: Array<UsageRecord & { organisation: { name: string } | null }>
+}
+
+const RECENT_RECORDS = 20
+
+async function usageByMember(organisationId: string): Promise<MemberUsage[]> {
+  const where = { organisationId, createdAt: { gte: monthStart() } }
+  const [tokens, generations] = await Promise.all([
+    prisma.usageRecord.groupBy({ by: ["userId"], where, _sum: { totalTokens: true } }),
+    prisma.usageRecord.groupBy({ by: ["userId"], where: { ...where, kind: "generation" }, _count: { _all: true } }),
+  ])
+  const users = await prisma.user.findMany({
+    where: { id: { in: tokens.flatMap((row) => (row.userId ? [row.userId] : [])) } },
+    select: { id: true, name: true, email: true },
+  })
+
+  return tokens
+    .map((row) => ({
+      user: users.find((user) => user.id === row.userId) ?? null,
+      generations: generations.find((count) => count.userId === row.userId)?._count._all ?? 0,
+      tokens: row._sum.totalTokens ?? 0,
+    }))
+    .sort((a, b) => b.tokens - a.tokens)
+}
+
+/**
+ * This month's usage for the user and every organisation they belong to,
+ * with their most recent generations and edits
+ */
+export async function usageSummary(userId: string): Promise<UsageSummary> {
+  const memberships = await prisma.organisationMember.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    include: { organisation: { select: { id: true, name: true } } },
+  })
+
+  const [personal, organisations, recent] = await Promise.all([
+    quotaStatus({ userId, organisationId: null }),
+    Promise.all(
+      memberships.map(async (membership) => ({
+        organisation: membership.organisation,
+        role: membership.role,
+        quota: await quotaStatus({ userId, organisationId: membership.organisationId }),
+        members: hasRole(membership.role, "owner") ? await usageByMember(membership.organisationId) : null,
+      }))
+    ),
+    prisma.usageRecord.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_RECORDS,
+      include: { organisation: { select: { name: true } } },
+    }),
+  ])
+
+  return { personal, organisations, recent }
+}
@@ -0,0 +1,242 @@
+/**
+ * Stand-in collaboration server for development: `npm run collab`.
+ *
+ * Relays plan operations and cursor/selection presence between editors of
+ * the same plan (ws://localhost:4001/<planId>). Conflicts are resolved by
+ * the editors themselves (lib/editor/plan-operations.ts), so the server
+ * only keeps each plan's starting point and operation log for editors that
+ * join later. Everything is in memory and dropped once the last editor of a
+ * plan leaves; there is no authentication. Uses only Node built-ins.
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.COLLABORATION_PORT) || 4001;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+const COLORS = ['#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316'];
+
+/** @type {Map<string, { plan: object | null, operations: object[], clients: Map<string, Client>, joined: number }>} */
+const plans = new Map();
+
+const server = createServer((request, response) => {
+  response.writeHead(200, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({
+    plans: [...plans].map(([planId, plan]) => ({ planId, editors: plan.clients.size, operations: plan.operations.length })),
+  }));
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  const planId = decodeURIComponent(new URL(request.url, 'http://localhost').pathname.slice(1));
+
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key || !planId) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  new Client(socket, planId);
+});
+
+server.listen(PORT, () => {
+  console.log(`Collaboration server listening on ws://localhost:${PORT}`);
+});
+
+class Client {
+  constructor(socket, planId) {
+    this.socket = socket;
+    this.planId = planId;
+    this.peer = null; // Set on join
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+
+    socket.on('data', chunk => this.read(chunk));
+    // HTTP servers keep upgraded sockets half-open; finish closing ours too
+    socket.on('end', () => socket.end());
+    socket.on('close', () => this.leave());
+    socket.on('error', () => socket.destroy());
+  }
+
+  read(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    if (this.buffer.length > MAX_MESSAGE_BYTES + 14) {
+      this.close(1009);
+      return;
+    }
+
+    for (let frame = parseFrame(this.buffer); frame; frame = parseFrame(this.buffer)) {
+      this.buffer = this.buffer.subarray(frame.length);
+
+      switch (frame.opcode) {
+        case 0x0: // Continuation
+        case 0x1: // Text
+          this.fragments.push(frame.payload);
+          if (this.fragments.reduce((sum, part) => sum + part.length, 0) > MAX_MESSAGE_BYTES) {
+            this.close(1009);
+            return;
+          }
+          if (frame.fin) {
+            const text = Buffer.concat(this.fragments).toString('utf8');
+            this.fragments = [];
+            this.receive(text);
+          }
+          break;
+        case 0x8: // Close
+          this.close(1000);
+          return;
+        case 0x9: // Ping
+          this.socket.write(encodeFrame(0xa, frame.payload));
+          break;
+      }
+    }
+  }
+
+  receive(text) {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'join') {
+      this.join(message);
+      return;
+    }
+    if (!this.peer) return;
+
+    const plan = plans.get(this.planId);
+    if (message.type === 'operation') {
+      plan.operations.push(message.operation);
+      this.broadcast({ type: 'operation', operation: message.operation });
+    } else if (message.type === 'presence') {
+      this.peer.cursor = message.cursor ?? null;
+      this.peer.selection = Array.isArray(message.selection) ? message.selection : [];
+      this.broadcast({ type: 'presence', peer: this.peer });
+    }
+  }
+
+  join({ clientId, name, plan: localPlan }) {
+    if (this.peer || typeof clientId !== 'string') return;
+
+    if (!plans.has(this.planId)) {
+      plans.set(this.planId, { plan: null, operations: [], clients: new Map(), joined: 0 });
+    }
+    const plan = plans.get(this.planId);
+    // The first editor with a plan loaded provides the starting point
+    plan.plan ??= localPlan ?? null;
+
+    this.peer = {
+      clientId,
+      name: String(name || 'Guest'),
+      color: COLORS[plan.joined++ % COLORS.length],
+      cursor: null,
+      selection: [],
+    };
+    // A reconnect can arrive before the old connection is noticed to be gone
+    const previous = plan.clients.get(clientId);
+    plan.clients.set(clientId, this);
+    previous?.close(1000);
+
+    this.send({
+      type: 'welcome',
+      color: this.peer.color,
+      plan: plan.plan,
+      operations: plan.operations,
+      peers: [...plan.clients.values()].filter(client => client !== this).map(client => client.peer),
+    });
+    this.broadcast({ type: 'presence', peer: this.peer });
+  }
+
+  leave() {
+    const plan = plans.get(this.planId);
+    if (!plan || !this.peer || plan.clients.get(this.peer.clientId) !== this) return;
+
+    plan.clients.delete(this.peer.clientId);
+    this.broadcast({ type: 'leave', clientId: this.peer.clientId });
+    if (plan.clients.size === 0) plans.delete(this.planId);
+  }
+
+  broadcast(message) {
+    const plan = plans.get(this.planId);
+    for (const client of plan?.clients.values() ?? []) {
+      if (client !== this) client.send(message);
+    }
+  }
+
+  send(message) {
+    if (!this.socket.destroyed) this.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+
+  close(code) {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    if (!this.socket.destroyed) this.socket.end(encodeFrame(0x8, payload));
+    this.leave();
+  }
+}
+
+/**
+ * The first complete frame in buffer, or null until one has arrived.
+ * Frames from browsers are always masked.
+ */
+function parseFrame(buffer) {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+
+  return { fin, opcode, payload, length: offset + length };
+}
+
+function encodeFrame(opcode, payload) {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
@@ -1,19 +1,28 @@
 import { Object3DNode } from '@react-three/fiber'
 import * as THREE from 'three'
 
+interface ThreeIntrinsicElements {
+  group: Object3DNode<THREE.Group, typeof THREE.Group>
+  mesh: Object3DNode<THREE.Mesh, typeof THREE.Mesh>
+  meshStandardMaterial: Object3DNode<THREE.MeshStandardMaterial, typeof THREE.MeshStandardMaterial>
+  meshBasicMaterial: Object3DNode<THREE.MeshBasicMaterial, typeof THREE.MeshBasicMaterial>
+  boxGeometry: Object3DNode<THREE.BoxGeometry, typeof THREE.BoxGeometry>
+  planeGeometry: Object3DNode<THREE.PlaneGeometry, typeof THREE.PlaneGeometry>
+  ambientLight: Object3DNode<THREE.AmbientLight, typeof THREE.AmbientLight>
+  directionalLight: Object3DNode<THREE.DirectionalLight, typeof THREE.DirectionalLight>
+  pointLight: Object3DNode<THREE.PointLight, typeof THREE.PointLight>
+}
+
 declare global {
   namespace JSX {
-    interface IntrinsicElements {
-      group: Object3DNode<THREE.Group, typeof THREE.Group>
-      mesh: Object3DNode<THREE.Mesh, typeof THREE.Mesh>
-      meshStandardMaterial: Object3DNode<THREE.MeshStandardMaterial, typeof THREE.MeshStandardMaterial>
-      meshBasicMaterial: Object3DNode<THREE.MeshBasicMaterial, typeof THREE.MeshBasicMaterial>
-      boxGeometry: Object3DNode<THREE.BoxGeometry, typeof THREE.BoxGeometry>
-      planeGeometry: Object3DNode<THREE.PlaneGeometry, typeof THREE.PlaneGeometry>
-      ambientLight: Object3DNode<THREE.AmbientLight, typeof THREE.AmbientLight>
-      directionalLight: Object3DNode<THREE.DirectionalLight, typeof THREE.DirectionalLight>
-      pointLight: Object3DNode<THREE.PointLight, typeof THREE.PointLight>
-    }
+    interface IntrinsicElements extends ThreeIntrinsicElements {}
+  }
+}
+
+// React 19's types read JSX elements from React.JSX rather than the global namespace
+declare module 'react' {
+  namespace JSX {
+    interface IntrinsicElements extends ThreeIntrinsicElements {}
   }
 }
 